@@ -0,0 +1,134 @@
+/**
+ * 端到端加密（SDK ↔ bridge）
+ *
+ * ECDH P-256 协商共享密钥（P-256 在各浏览器 WebCrypto 中均可用，X25519 支持尚不完整），
+ * HKDF-SHA256 以 sessionId 为 salt 派生 AES-GCM-256 密钥。
+ * 应用消息被封装为 { type: 'encrypted', iv, data }，服务器只能看到密文。
+ */
+
+export interface EncryptedEnvelope {
+  type: 'encrypted'
+  id?: number     // 请求/响应 ID（明文，仅用于服务器报错时定位请求）
+  iv: string      // base64url，12 字节
+  data: string    // base64url，AES-GCM 密文（含认证标签）
+}
+
+const ECDH_PARAMS: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' }
+const HKDF_INFO = 'remote-inject-e2e-v1'
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+/**
+ * 当前环境是否支持 WebCrypto（非安全上下文中 crypto.subtle 不可用）
+ */
+export function isEncryptionSupported(): boolean {
+  return typeof crypto !== 'undefined' && typeof crypto.subtle !== 'undefined'
+}
+
+/**
+ * 生成 ECDH 密钥对（可导出，以便 DApp 持久化后恢复 session）
+ */
+export function generateKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveBits']) as Promise<CryptoKeyPair>
+}
+
+/**
+ * 导出公钥（未压缩点格式，base64url 编码）
+ */
+export async function exportPublicKey(key: CryptoKey): Promise<string> {
+  const raw = await crypto.subtle.exportKey('raw', key)
+  return toBase64Url(new Uint8Array(raw))
+}
+
+/**
+ * 导入对端公钥
+ */
+export function importPublicKey(encoded: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64Url(encoded), ECDH_PARAMS, true, [])
+}
+
+/**
+ * 导出密钥对为 JWK（私钥 JWK 已包含公钥坐标）
+ */
+export function exportKeyPair(keyPair: CryptoKeyPair): Promise<JsonWebKey> {
+  return crypto.subtle.exportKey('jwk', keyPair.privateKey)
+}
+
+/**
+ * 从 JWK 恢复密钥对
+ */
+export async function importKeyPair(jwk: JsonWebKey): Promise<CryptoKeyPair> {
+  const privateKey = await crypto.subtle.importKey('jwk', jwk, ECDH_PARAMS, true, ['deriveBits'])
+  const { d: _d, key_ops: _ops, ...publicJwk } = jwk
+  const publicKey = await crypto.subtle.importKey('jwk', publicJwk, ECDH_PARAMS, true, [])
+  return { privateKey, publicKey }
+}
+
+/**
+ * 派生 AES-GCM 会话密钥
+ * 双方使用各自私钥 + 对端公钥，得到相同的密钥
+ */
+export async function deriveSessionKey(
+  privateKey: CryptoKey,
+  peerPublicKey: CryptoKey,
+  sessionId: string
+): Promise<CryptoKey> {
+  const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: peerPublicKey }, privateKey, 256)
+  const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode(sessionId), info: encoder.encode(HKDF_INFO) },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * 加密应用消息
+ */
+export async function encryptMessage(key: CryptoKey, message: { id?: unknown }): Promise<EncryptedEnvelope> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(JSON.stringify(message)))
+
+  const envelope: EncryptedEnvelope = {
+    type: 'encrypted',
+    iv: toBase64Url(iv),
+    data: toBase64Url(new Uint8Array(ciphertext)),
+  }
+  if (typeof message.id === 'number') {
+    envelope.id = message.id
+  }
+  return envelope
+}
+
+/**
+ * 解密应用消息（密文被篡改或密钥不匹配时抛出异常）
+ */
+export async function decryptMessage<T = any>(key: CryptoKey, envelope: Pick<EncryptedEnvelope, 'iv' | 'data'>): Promise<T> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64Url(envelope.iv) },
+    key,
+    fromBase64Url(envelope.data)
+  )
+  return JSON.parse(decoder.decode(plaintext))
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(encoded: string): Uint8Array<ArrayBuffer> {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
@@ -5,4 +5,11 @@ export type {
   ProviderMessage,
   ProviderConnectInfo,
   DAppMetadata,
+  RemoteProviderOptions,
+  QrCodeOptions,
+  SessionData,
+  ParticipantLink,
+  ParticipantInfo,
+  ParticipantResult,
+  BatchResult,
 } from './provider'
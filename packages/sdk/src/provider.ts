@@ -1,3 +1,15 @@
+import {
+  isEncryptionSupported,
+  generateKeyPair,
+  exportPublicKey,
+  importPublicKey,
+  exportKeyPair,
+  importKeyPair,
+  deriveSessionKey,
+  encryptMessage,
+  decryptMessage,
+} from './crypto'
+
 export interface RequestArguments {
   method: string
   params?: unknown[] | object
@@ -34,22 +46,132 @@ export interface ReconnectInfo {
   maxAttempts: number
 }
 
-type EventType = 'connect' | 'disconnect' | 'chainChanged' | 'accountsChanged' | 'message' | 'reconnecting'
+export interface RemoteProviderOptions {
+  /** 端到端加密（默认开启），关闭后应用消息以明文经服务器转发 */
+  encryption?: boolean
+  /** 项目 API key，创建 session 时以 Authorization: Bearer 发送 */
+  apiKey?: string
+  /** 请求的 session 有效期（毫秒），超过服务器上限时由服务器截断 */
+  sessionTtl?: number
+  /** 多钱包 session 的参与者数量（如多签的签名人数），大于 1 时需要关闭端到端加密 */
+  participants?: number
+  /** 按链 ID 配置的只读 RPC 节点，eth_call 等只读请求直接发给节点而不经过钱包 */
+  rpcUrls?: Record<number, string>
+  /** 未在 rpcUrls 中配置的链经服务器转发只读请求（服务器需配置 RPC_URLS），服务器不支持时仍交给钱包 */
+  rpcProxy?: boolean
+}
+
+/** 多钱包 session 中某个参与者的连接链接 */
+export interface ParticipantLink {
+  participant: number
+  url: string
+}
+
+/** 多钱包 session 中已连接的参与者 */
+export interface ParticipantInfo {
+  participant: number
+  address: string
+  chainId: string
+}
+
+/** requestAll 中单个参与者的结果 */
+export interface ParticipantResult {
+  participant: number
+  address: string
+  result?: unknown
+  error?: ProviderRpcError
+}
+
+/** requestBatch 中单个请求的结果 */
+export interface BatchResult {
+  result?: unknown
+  error?: ProviderRpcError
+}
+
+export interface QrCodeOptions {
+  /** 图像边长（像素，64-2048，默认 256） */
+  size?: number
+  /** 静区宽度（模块数，0-16，默认 4） */
+  margin?: number
+  /** 纠错等级，默认 M，显示 logo 时默认 H */
+  ecLevel?: 'L' | 'M' | 'Q' | 'H'
+  /** 前景色 / 背景色（十六进制，如 #000000） */
+  foreground?: string
+  background?: string
+  /** 在中心显示服务器 logo */
+  logo?: boolean
+  /** 多钱包 session 中为该参与者生成二维码（默认参与者 1） */
+  participant?: number
+}
+
+export interface SessionData {
+  serverUrl: string
+  sessionId: string
+  sessionUrl: string
+  /** DApp 的 ECDH 密钥对（JWK，含私钥），启用加密时存在 */
+  keyPair?: JsonWebKey
+  /** bridge 的公钥，密钥交换完成后存在 */
+  peerPublicKey?: string
+  /** 多钱包 session 的参与者链接 */
+  participants?: ParticipantLink[]
+}
+
+type EventType = 'connect' | 'disconnect' | 'chainChanged' | 'accountsChanged' | 'message' | 'reconnecting' | 'participantsChanged'
 type EventListener = (...args: any[]) => void
 
 interface PendingRequest {
-  resolve: (result: unknown) => void
+  resolve: (result: unknown, address?: string) => void
   reject: (error: ProviderRpcError) => void
   timeout: ReturnType<typeof setTimeout>
 }
 
 const REQUEST_TIMEOUT = 60000 // 60 秒
 
+// 连接时请求的协议版本（心跳、离线缓存、多标签页、订阅和批量请求需要 v2）
+const PROTOCOL_VERSION = 2
+
+// 连续多少个心跳周期收不到服务器数据即判定连接已断开
+const HEARTBEAT_MISSED_LIMIT = 3
+
+// 启用加密后只接受密文形式的应用消息
+const APP_MESSAGE_TYPES = new Set(['connect', 'response', 'batch_response', 'subscription', 'chainChanged', 'accountsChanged'])
+
+// request 中本地处理、不发给钱包的方法
+const LOCAL_METHODS = new Set(['eth_accounts', 'eth_chainId', 'eth_requestAccounts'])
+
+// 配置了 RPC 节点时不经过钱包的只读方法（与服务端 READ_ONLY_METHODS 一致）
+const READ_ONLY_METHODS = new Set([
+  'eth_blockNumber',
+  'eth_call',
+  'eth_estimateGas',
+  'eth_feeHistory',
+  'eth_gasPrice',
+  'eth_getBalance',
+  'eth_getBlockByHash',
+  'eth_getBlockByNumber',
+  'eth_getBlockTransactionCountByHash',
+  'eth_getBlockTransactionCountByNumber',
+  'eth_getCode',
+  'eth_getLogs',
+  'eth_getProof',
+  'eth_getStorageAt',
+  'eth_getTransactionByBlockHashAndIndex',
+  'eth_getTransactionByBlockNumberAndIndex',
+  'eth_getTransactionByHash',
+  'eth_getTransactionCount',
+  'eth_getTransactionReceipt',
+  'eth_maxPriorityFeePerGas',
+  'eth_syncing',
+  'net_version',
+  'web3_clientVersion',
+])
+
 export class RemoteProvider {
   private ws: WebSocket | null = null
   private serverUrl: string = ''
   private sessionId: string = ''
   private sessionUrl: string = ''
+  private clientId: string = crypto.randomUUID()  // 本实例的连接 ID，同一 session 的多个标签页各自收到自己请求的响应
   private requestId: number = 0
   private pendingRequests: Map<number, PendingRequest> = new Map()
   private eventListeners: Map<EventType, Set<EventListener>> = new Map()
@@ -58,21 +180,65 @@ export class RemoteProvider {
   private _accounts: string[] = []
   private _connected: boolean = false
 
+  // 端到端加密相关
+  private _encryption: boolean
+  private _apiKey: string | undefined
+  private _sessionTtl: number | undefined
+  private _keyPair: CryptoKeyPair | null = null
+  private _keyPairJwk: JsonWebKey | null = null       // 供 getSessionData 持久化
+  private _peerPublicKey: string | null = null
+  private _sessionKey: CryptoKey | null = null
+  private _peerKeyLocked: boolean = false             // 当前 bridge 连接已交换过公钥，不再接受其他公钥
+  private _keyWaiters: Array<{ resolve: (key: CryptoKey) => void; reject: (error: Error) => void }> = []
+  private _inbound: Promise<void> = Promise.resolve()  // 保证密文消息按到达顺序处理
+  private _outbound: Promise<void> = Promise.resolve() // 保证加密后按调用顺序发送
+
   // 重连相关
   private _userInitiatedDisconnect: boolean = false
   private _reconnectAttempts: number = 0
   private _maxReconnectAttempts: number = 5
   private _reconnectDelay: number = 1000
   private _reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private _drainReconnectDelay: number | null = null  // 服务器停机前建议的重连延迟
+
+  // 心跳相关（收到服务器第一个 ping 后启用）
+  private _heartbeatInterval: number = 0
+  private _heartbeatTimer: ReturnType<typeof setTimeout> | null = null
+
+  // 等待服务器签发的移交链接
+  private _handoffRequest: PendingRequest | null = null
+
+  // 多钱包 session（EIP-1193 的 accounts / chainId 跟随参与者 1）
+  private _participantCount: number
+  private _participantLinks: ParticipantLink[] = []
+  private _participants: Map<number, ParticipantInfo> = new Map()
+
+  // 只读 RPC
+  private _rpcUrls: Record<number, string>
+  private _rpcProxy: boolean
+  private _unproxiedChains: Set<number> = new Set()  // 服务器未配置节点的链
+  private _rpcId: number = 0
 
   // 暴露给外部检查重连状态
   get _reconnecting(): boolean {
     return this._reconnectAttempts > 0 && this._reconnectAttempts < this._maxReconnectAttempts
   }
 
-  constructor() {
+  constructor(options: RemoteProviderOptions = {}) {
+    this._encryption = options.encryption !== false && isEncryptionSupported()
+    this._apiKey = options.apiKey
+    this._sessionTtl = options.sessionTtl
+    this._participantCount = options.participants ?? 1
+    this._rpcUrls = options.rpcUrls ?? {}
+    this._rpcProxy = options.rpcProxy ?? false
+
+    // 多钱包 session 中每个参与者各有一个 bridge，无法与单个 bridge 协商会话密钥
+    if (this._participantCount > 1 && this._encryption) {
+      throw new Error('Multi-wallet sessions require encryption: false')
+    }
+
     // 初始化事件监听器容器
-    const events: EventType[] = ['connect', 'disconnect', 'chainChanged', 'accountsChanged', 'message', 'reconnecting']
+    const events: EventType[] = ['connect', 'disconnect', 'chainChanged', 'accountsChanged', 'message', 'reconnecting', 'participantsChanged']
     events.forEach(event => this.eventListeners.set(event, new Set()))
   }
 
@@ -81,16 +247,23 @@ export class RemoteProvider {
    * @param serverUrl - 服务器地址
    * @param metadata - DApp 元数据（可选），会显示在移动钱包的确认页面上
    */
-  async connect(serverUrl: string, metadata?: DAppMetadata): Promise<{ sessionId: string; url: string }> {
+  async connect(serverUrl: string, metadata?: DAppMetadata): Promise<{ sessionId: string; url: string; participants?: ParticipantLink[] }> {
     this.serverUrl = serverUrl.replace(/\/$/, '')
     this._userInitiatedDisconnect = false
     this._reconnectAttempts = 0
 
     // 创建 Session（传递 DApp 元数据）
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this._apiKey) {
+      headers.Authorization = `Bearer ${this._apiKey}`
+    }
+    let body: Record<string, unknown> | undefined = metadata ? { ...metadata } : undefined
+    if (this._sessionTtl !== undefined) body = { ...body, ttl: this._sessionTtl }
+    if (this._participantCount > 1) body = { ...body, participants: this._participantCount }
     const response = await fetch(`${this.serverUrl}/session`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: metadata ? JSON.stringify(metadata) : undefined,
+      headers,
+      body: body ? JSON.stringify(body) : undefined,
     })
 
     if (!response.ok) {
@@ -100,6 +273,17 @@ export class RemoteProvider {
     const data = await response.json()
     this.sessionId = data.id
     this.sessionUrl = data.url
+    this._participantLinks = data.participants ?? []
+    this._unproxiedChains.clear()
+    this._participants.clear()
+    this.resetEncryption()
+
+    // DApp 公钥放在 URL fragment 中，不会发送到服务器
+    if (this._encryption) {
+      this._keyPair = await generateKeyPair()
+      this._keyPairJwk = await exportKeyPair(this._keyPair)
+      this.sessionUrl += `#pk=${await exportPublicKey(this._keyPair.publicKey)}`
+    }
 
     // 连接 WebSocket
     await this.connectWebSocket()
@@ -107,6 +291,7 @@ export class RemoteProvider {
     return {
       sessionId: this.sessionId,
       url: this.sessionUrl,
+      ...(this._participantLinks.length > 0 && { participants: this._participantLinks }),
     }
   }
 
@@ -114,12 +299,26 @@ export class RemoteProvider {
    * 恢复已存在的 Session
    * @param sessionData - 之前保存的session数据
    */
-  async resumeSession(sessionData: { serverUrl: string; sessionId: string; sessionUrl: string }): Promise<void> {
+  async resumeSession(sessionData: SessionData): Promise<void> {
     this.serverUrl = sessionData.serverUrl.replace(/\/$/, '')
     this.sessionId = sessionData.sessionId
     this.sessionUrl = sessionData.sessionUrl
+    this._participantLinks = sessionData.participants ?? []
+    this._unproxiedChains.clear()
+    this._participants.clear()
     this._userInitiatedDisconnect = false
     this._reconnectAttempts = 0
+    this.resetEncryption()
+
+    // 恢复密钥，以便解密离线期间缓存的密文消息
+    if (this._encryption && sessionData.keyPair) {
+      this._keyPair = await importKeyPair(sessionData.keyPair)
+      this._keyPairJwk = sessionData.keyPair
+      if (sessionData.peerPublicKey) {
+        // 仅用于解密离线期间的消息；bridge 可能已重新加载，新连接上的第一个公钥仍会被接受
+        await this.setPeerPublicKey(sessionData.peerPublicKey, false)
+      }
+    }
 
     // 先检查session是否还存在
     const checkRes = await fetch(`${this.serverUrl}/session/${this.sessionId}`)
@@ -131,13 +330,119 @@ export class RemoteProvider {
     await this.connectWebSocket()
   }
 
+  /**
+   * 延长 Session 有效期（长时间运行的 DApp 可定期调用）
+   * @param ttl - 从现在起的有效期（毫秒），缺省使用创建时的有效期；超过服务器上限时截断
+   * @returns 新的过期时间
+   */
+  async extendSession(ttl?: number): Promise<number> {
+    if (!this.sessionId) {
+      throw new Error('No active session')
+    }
+    const secret = new URL(this.sessionUrl).searchParams.get('k') || ''
+    const response = await fetch(`${this.serverUrl}/session/${this.sessionId}/extend?k=${encodeURIComponent(secret)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(ttl !== undefined ? { ttl } : {}),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to extend session: ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    return data.expiresAt
+  }
+
+  /**
+   * 生成数字配对码，用户在 {serverUrl}/pair 页面输入后打开 session（无法扫码时使用）
+   * 重新调用会替换之前的配对码；钱包连接后配对码失效
+   *
+   * 注意：配对码无法携带公钥，公钥会随请求发给服务器保存，兑换后由服务器放回 #pk=。
+   * 与服务端二维码一样，通过配对码建立的连接不具备 fragment 对中继隐藏公钥的保护
+   */
+  async createPairingCode(): Promise<{ code: string; expiresAt: number }> {
+    if (!this.sessionId) {
+      throw new Error('No active session')
+    }
+    const sessionUrl = new URL(this.sessionUrl)
+    const secret = sessionUrl.searchParams.get('k') || ''
+    // 公钥在 URL fragment 中，交给服务器在兑换配对码后放回跳转地址
+    const publicKey = new URLSearchParams(sessionUrl.hash.slice(1)).get('pk')
+    const response = await fetch(`${this.serverUrl}/session/${this.sessionId}/pairing?k=${encodeURIComponent(secret)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(publicKey ? { publicKey } : {}),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to create pairing code: ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    return { code: data.code, expiresAt: data.expiresAt }
+  }
+
+  /**
+   * 批准另一台设备接管钱包连接（如从手机换到平板）
+   * 返回一次性链接，新设备打开后旧设备被断开；链接在 expiresAt 后失效
+   * @param participant - 多钱包 session 中要移交的参与者（默认 1）
+   */
+  createHandoffLink(participant?: number): Promise<{ url: string; expiresAt: number }> {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(this.createError(-32000, 'Not connected'))
+    }
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this._handoffRequest = null
+        reject(this.createError(-32003, 'Request timeout'))
+      }, REQUEST_TIMEOUT)
+
+      this._handoffRequest?.reject(this.createError(-32603, 'Superseded by a newer handoff request'))
+      clearTimeout(this._handoffRequest?.timeout)
+      this._handoffRequest = { resolve: resolve as (result: unknown) => void, reject, timeout }
+      this.ws!.send(JSON.stringify({ type: 'handoff_request', ...(participant !== undefined && { participant }) }))
+    })
+  }
+
+  /**
+   * 服务端生成的 session 二维码地址，可直接用作 <img> 的 src
+   * 包含 secret 和加密公钥，与 session.url 一样只应展示给用户
+   *
+   * 注意：二维码由服务器渲染，公钥必须作为 pk 查询参数发给服务器，
+   * 因此这条链接不再具备 #pk= fragment 对中继隐藏公钥的保护。
+   * 需要防范不可信的中继时，请用前端二维码库直接渲染 session.url
+   */
+  getQrCodeUrl(format: 'svg' | 'png' = 'svg', options: QrCodeOptions = {}): string {
+    if (!this.sessionId) {
+      throw new Error('No active session')
+    }
+    const sessionUrl = new URL(this.sessionUrl)
+    const link = this._participantLinks.find(({ participant }) => participant === options.participant)
+    const params = new URLSearchParams({ k: new URL(link?.url ?? this.sessionUrl).searchParams.get('k') || '' })
+    // 公钥在 URL fragment 中，不会随请求发送，需要单独传给服务器写入二维码
+    const publicKey = new URLSearchParams(sessionUrl.hash.slice(1)).get('pk')
+    if (publicKey) params.set('pk', publicKey)
+
+    if (options.size !== undefined) params.set('size', String(options.size))
+    if (options.margin !== undefined) params.set('margin', String(options.margin))
+    if (options.ecLevel) params.set('ec', options.ecLevel)
+    if (options.foreground) params.set('fg', options.foreground.replace(/^#/, ''))
+    if (options.background) params.set('bg', options.background.replace(/^#/, ''))
+    if (options.logo !== undefined) params.set('logo', String(options.logo))
+
+    return `${this.serverUrl}/s/${this.sessionId}/qr.${format}?${params}`
+  }
+
   /**
    * 连接 WebSocket
    */
   private connectWebSocket(): Promise<void> {
     return new Promise((resolve, reject) => {
       const wsUrl = this.serverUrl.replace(/^http/, 'ws')
-      this.ws = new WebSocket(`${wsUrl}/ws?session=${this.sessionId}&role=dapp`)
+      const secret = new URL(this.sessionUrl).searchParams.get('k') || ''
+      this.ws = new WebSocket(`${wsUrl}/ws?session=${this.sessionId}&role=dapp&k=${encodeURIComponent(secret)}&client=${this.clientId}&v=${PROTOCOL_VERSION}`)
 
       const timeout = setTimeout(() => {
         reject(new Error('WebSocket connection timeout'))
@@ -151,6 +456,7 @@ export class RemoteProvider {
       }
 
       this.ws.onmessage = (event) => {
+        this.resetHeartbeat()
         this.handleMessage(event.data)
         // ready 消息后 resolve
         try {
@@ -164,50 +470,104 @@ export class RemoteProvider {
       this.ws.onclose = (event) => {
         // 清除超时定时器（如果还在初始连接阶段）
         clearTimeout(timeout)
+        this.handleClose(event.code)
+      }
 
-        // 用户主动断开，不重连
-        if (this._userInitiatedDisconnect) {
-          this._connected = false
-          this.emit('disconnect', { code: 4900, message: 'User disconnected', userInitiated: true } as DisconnectInfo)
-          return
-        }
+      this.ws.onerror = (error) => {
+        console.error('[RemoteProvider] WebSocket error:', error)
+        // onerror后会触发onclose，在那里处理重连
+      }
+    })
+  }
 
-        // Session被拒绝（1008）或其他致命错误，不重连
-        if (event.code === 1008) {
-          this._connected = false
-          this.emit('disconnect', { code: event.code, message: 'Session rejected', userInitiated: false } as DisconnectInfo)
-          return
-        }
+  /**
+   * 处理连接关闭（含心跳超时），必要时自动重连
+   */
+  private handleClose(code: number): void {
+    this.stopHeartbeat()
+
+    // 用户主动断开，不重连
+    if (this._userInitiatedDisconnect) {
+      this._connected = false
+      this.emit('disconnect', { code: 4900, message: 'User disconnected', userInitiated: true } as DisconnectInfo)
+      return
+    }
 
-        // 尝试重连
-        if (this._reconnectAttempts < this._maxReconnectAttempts) {
-          this._reconnectAttempts++
-          const delay = this._reconnectDelay * Math.pow(1.5, this._reconnectAttempts - 1)
+    // Session被拒绝（1008）或其他致命错误，不重连
+    if (code === 1008) {
+      this._connected = false
+      this.emit('disconnect', { code, message: 'Session rejected', userInitiated: false } as DisconnectInfo)
+      return
+    }
 
-          console.log(`[RemoteProvider] Connection lost, reconnecting in ${delay}ms (attempt ${this._reconnectAttempts}/${this._maxReconnectAttempts})`)
+    // 服务器停机前已通知（server_draining）：按建议的延迟重连，不消耗重连次数
+    if (this._drainReconnectDelay !== null) {
+      const delay = this._drainReconnectDelay
+      this._drainReconnectDelay = null
+      this._reconnectAttempts = 0
 
-          this.emit('reconnecting', { attempt: this._reconnectAttempts, maxAttempts: this._maxReconnectAttempts } as ReconnectInfo)
+      console.log(`[RemoteProvider] Server is shutting down, reconnecting in ${delay}ms`)
+      this.scheduleReconnect(delay)
+      return
+    }
 
-          this._reconnectTimer = setTimeout(() => {
-            if (!this._userInitiatedDisconnect) {
-              this.connectWebSocket().catch(err => {
-                console.error('[RemoteProvider] Reconnection failed:', err)
-                // 重连失败会触发onclose，进入下一次重连尝试
-              })
-            }
-          }, delay)
-        } else {
-          // 达到最大重连次数
-          this._connected = false
-          this.emit('disconnect', { code: 4900, message: 'Connection lost after max reconnect attempts', userInitiated: false } as DisconnectInfo)
-        }
-      }
+    // 尝试重连
+    if (this._reconnectAttempts < this._maxReconnectAttempts) {
+      this._reconnectAttempts++
+      const delay = this._reconnectDelay * Math.pow(1.5, this._reconnectAttempts - 1)
 
-      this.ws.onerror = (error) => {
-        console.error('[RemoteProvider] WebSocket error:', error)
-        // onerror后会触发onclose，在那里处理重连
+      console.log(`[RemoteProvider] Connection lost, reconnecting in ${delay}ms (attempt ${this._reconnectAttempts}/${this._maxReconnectAttempts})`)
+
+      this.emit('reconnecting', { attempt: this._reconnectAttempts, maxAttempts: this._maxReconnectAttempts } as ReconnectInfo)
+      this.scheduleReconnect(delay)
+    } else {
+      // 达到最大重连次数
+      this._connected = false
+      this.emit('disconnect', { code: 4900, message: 'Connection lost after max reconnect attempts', userInitiated: false } as DisconnectInfo)
+    }
+  }
+
+  private scheduleReconnect(delay: number): void {
+    this._reconnectTimer = setTimeout(() => {
+      if (!this._userInitiatedDisconnect) {
+        this.connectWebSocket().catch(err => {
+          console.error('[RemoteProvider] Reconnection failed:', err)
+          // 重连失败会触发onclose，进入下一次重连尝试
+        })
       }
-    })
+    }, delay)
+  }
+
+  /**
+   * 收到服务器数据后重置心跳超时
+   * 服务器停止发送 ping（如网络静默断开）时主动关闭连接，走重连流程
+   */
+  private resetHeartbeat(): void {
+    if (this._heartbeatTimer) clearTimeout(this._heartbeatTimer)
+    if (this._heartbeatInterval <= 0) return
+
+    const ws = this.ws
+    this._heartbeatTimer = setTimeout(() => {
+      if (!ws || ws !== this.ws) return
+      console.warn('[RemoteProvider] Heartbeat timeout, reconnecting')
+
+      // 死连接的 close 事件可能迟迟不来，解绑后直接进入重连
+      ws.onclose = null
+      ws.onmessage = null
+      ws.onerror = null
+      try {
+        ws.close()
+      } catch {}
+      this.handleClose(4408)
+    }, this._heartbeatInterval * HEARTBEAT_MISSED_LIMIT)
+  }
+
+  private stopHeartbeat(): void {
+    if (this._heartbeatTimer) {
+      clearTimeout(this._heartbeatTimer)
+      this._heartbeatTimer = null
+    }
+    this._heartbeatInterval = 0
   }
 
   /**
@@ -218,56 +578,264 @@ export class RemoteProvider {
       const message = JSON.parse(data)
 
       switch (message.type) {
-        case 'ready':
-          // 等待 mobile 连接
-          break
-
-        case 'connect':
-          this._connected = true
-          this._accounts = [message.address]
-          this._chainId = '0x' + message.chainId.toString(16)
-          this.emit('connect', { chainId: this._chainId })
-          this.emit('accountsChanged', this._accounts)
-          break
+        case 'ping':
+          // 服务器心跳：回复 pong，并按服务器的间隔启用超时检测
+          if (typeof message.interval === 'number' && message.interval !== this._heartbeatInterval) {
+            this._heartbeatInterval = message.interval
+            this.resetHeartbeat()
+          }
+          this.ws?.send(JSON.stringify({ type: 'pong' }))
+          return
 
-        case 'disconnect':
-          this._connected = false
-          this._accounts = []
-          // peer断开，标记为非用户主动，允许后续重连
-          this.emit('disconnect', { code: 4900, message: message.reason || 'Peer disconnected', userInitiated: false } as DisconnectInfo)
-          break
+        case 'server_draining':
+          // 服务器即将停机，连接关闭后按建议的延迟重连（通常会落到其他实例）
+          this._drainReconnectDelay = typeof message.reconnectDelay === 'number' ? message.reconnectDelay : this._reconnectDelay
+          return
 
-        case 'response':
-          this.handleResponse(message)
-          break
+        case 'key_exchange':
+          this.enqueueInbound(() => this.setPeerPublicKey(message.publicKey))
+          return
 
-        case 'chainChanged':
-          this._chainId = '0x' + message.chainId.toString(16)
-          this.emit('chainChanged', this._chainId)
-          break
+        case 'handoff_token':
+          this.handleHandoffToken(message)
+          return
 
-        case 'accountsChanged':
-          this._accounts = message.accounts
-          this.emit('accountsChanged', this._accounts)
-          if (message.accounts.length === 0) {
-            this._connected = false
-            this.emit('disconnect', { code: 4900, message: 'Wallet disconnected', userInitiated: false } as DisconnectInfo)
+        case 'disconnect':
+          // 服务器通知 bridge 断开：下一个 bridge 连接会带来新的公钥
+          if (this._keyPair) {
+            this.enqueueInbound(async () => { this._peerKeyLocked = false })
           }
           break
 
-        case 'error':
-          console.error('[RemoteProvider] Server error:', message)
-          break
+        case 'encrypted':
+          this.enqueueInbound(async () => {
+            if (!this._sessionKey) {
+              console.warn('[RemoteProvider] Dropping encrypted message received before key exchange')
+              return
+            }
+            this.handleAppMessage(await decryptMessage(this._sessionKey, message))
+          })
+          return
+      }
+
+      // 启用加密后，明文应用消息可能由中继伪造（包括密钥交换之前），直接丢弃
+      if (this._keyPair && APP_MESSAGE_TYPES.has(message.type)) {
+        console.warn(`[RemoteProvider] Ignoring unencrypted ${message.type} message`)
+        return
       }
+
+      this.handleAppMessage(message)
     } catch (error) {
       console.error('[RemoteProvider] Failed to parse message:', error)
     }
   }
 
+  /**
+   * 服务器签发移交令牌后返回链接（附带本端公钥，新设备继续使用端到端加密）
+   */
+  private handleHandoffToken(message: { url: string; expiresAt: number }): void {
+    const pending = this._handoffRequest
+    if (!pending) return
+    clearTimeout(pending.timeout)
+    this._handoffRequest = null
+    // 新设备会生成自己的密钥对，接受它发来的公钥
+    this._peerKeyLocked = false
+
+    const publicKey = new URLSearchParams(new URL(this.sessionUrl).hash.slice(1)).get('pk')
+    pending.resolve({ url: message.url + (publicKey ? `#pk=${publicKey}` : ''), expiresAt: message.expiresAt })
+  }
+
+  /**
+   * 处理应用消息（明文或已解密）
+   */
+  private handleAppMessage(message: any): void {
+    // 多钱包 session：服务端标注了发送方，只有参与者 1 的状态消息驱动 EIP-1193 状态
+    if (typeof message.participant === 'number' && !['response', 'batch_response', 'subscription'].includes(message.type)) {
+      this.updateParticipant(message)
+      if (message.participant !== 1) return
+    }
+
+    switch (message.type) {
+      case 'ready':
+        // 等待 mobile 连接
+        break
+
+      case 'connect':
+        this._connected = true
+        this._accounts = [message.address]
+        this._chainId = '0x' + message.chainId.toString(16)
+        this.emit('connect', { chainId: this._chainId })
+        this.emit('accountsChanged', this._accounts)
+        break
+
+      case 'disconnect':
+        this._connected = false
+        this._accounts = []
+        // peer断开，标记为非用户主动，允许后续重连
+        this.emit('disconnect', { code: 4900, message: message.reason || 'Peer disconnected', userInitiated: false } as DisconnectInfo)
+        break
+
+      case 'response':
+        this.handleResponse(message)
+        break
+
+      case 'batch_response':
+        this.handleBatchResponse(message)
+        break
+
+      case 'subscription':
+        // eth_subscribe 的通知，按 EIP-1193 以 message 事件发出
+        this.emit('message', {
+          type: 'eth_subscription',
+          data: { subscription: message.subscription, result: message.result },
+        } as ProviderMessage)
+        break
+
+      case 'chainChanged':
+        this._chainId = '0x' + message.chainId.toString(16)
+        this.emit('chainChanged', this._chainId)
+        break
+
+      case 'accountsChanged':
+        this._accounts = message.accounts
+        this.emit('accountsChanged', this._accounts)
+        if (message.accounts.length === 0) {
+          this._connected = false
+          this.emit('disconnect', { code: 4900, message: 'Wallet disconnected', userInitiated: false } as DisconnectInfo)
+        }
+        break
+
+      case 'queued':
+        // 移动端暂时离线，服务器已缓存该消息，重连后补发
+        console.log(`[RemoteProvider] ${message.messageType} ${message.id ?? ''} queued until peer reconnects`)
+        break
+
+      case 'error':
+        // 针对某个请求的错误（如离线队列已满），立即拒绝该请求
+        if (typeof message.id === 'number' && this.pendingRequests.has(message.id)) {
+          this.handleResponse({ id: message.id, error: { code: message.code, message: message.message } })
+          break
+        }
+        console.error('[RemoteProvider] Server error:', message)
+        break
+    }
+  }
+
+  /**
+   * 根据参与者的状态消息更新参与者列表
+   */
+  private updateParticipant(message: any): void {
+    const participant: number = message.participant
+    const current = this._participants.get(participant)
+
+    switch (message.type) {
+      case 'connect':
+        this._participants.set(participant, {
+          participant,
+          address: message.address,
+          chainId: '0x' + message.chainId.toString(16),
+        })
+        break
+      case 'chainChanged':
+        if (!current) return
+        current.chainId = '0x' + message.chainId.toString(16)
+        break
+      case 'accountsChanged':
+        if (!current) return
+        if (message.accounts.length === 0) {
+          this._participants.delete(participant)
+        } else {
+          current.address = message.accounts[0]
+        }
+        break
+      case 'disconnect':
+        if (!this._participants.delete(participant)) return
+        break
+      default:
+        return
+    }
+    this.emit('participantsChanged', this.getParticipants())
+  }
+
+  /**
+   * 按到达顺序串行处理需要异步解密的消息
+   */
+  private enqueueInbound(task: () => Promise<void>): void {
+    this._inbound = this._inbound.then(task).catch(error => {
+      console.error('[RemoteProvider] Failed to decrypt message:', error)
+    })
+  }
+
+  /**
+   * 收到 bridge 公钥后派生会话密钥（每个 bridge 连接只接受第一个公钥）
+   */
+  private async setPeerPublicKey(publicKey: string, lock: boolean = true): Promise<void> {
+    if (!this._keyPair || typeof publicKey !== 'string') {
+      console.warn('[RemoteProvider] Ignoring key exchange: encryption is disabled')
+      return
+    }
+    if (this._peerKeyLocked) {
+      if (publicKey !== this._peerPublicKey) {
+        console.warn('[RemoteProvider] Ignoring key exchange: bridge key already set for this connection')
+      }
+      return
+    }
+    const peerKey = await importPublicKey(publicKey)
+    const sessionKey = await deriveSessionKey(this._keyPair.privateKey, peerKey, this.sessionId)
+    this._sessionKey = sessionKey
+    this._peerPublicKey = publicKey
+    this._peerKeyLocked = lock
+
+    const waiters = this._keyWaiters
+    this._keyWaiters = []
+    waiters.forEach(waiter => waiter.resolve(sessionKey))
+  }
+
+  private resetEncryption(): void {
+    this._keyPair = null
+    this._keyPairJwk = null
+    this._peerPublicKey = null
+    this._sessionKey = null
+    this._peerKeyLocked = false
+
+    const waiters = this._keyWaiters
+    this._keyWaiters = []
+    waiters.forEach(waiter => waiter.reject(new Error('Session changed before key exchange')))
+  }
+
+  /**
+   * 等待 bridge 完成密钥交换
+   */
+  private waitForSessionKey(): Promise<CryptoKey> {
+    if (this._sessionKey) return Promise.resolve(this._sessionKey)
+    return new Promise((resolve, reject) => this._keyWaiters.push({ resolve, reject }))
+  }
+
+  /**
+   * 发送应用消息。启用加密后绝不发送明文：密钥交换完成前先排队等待
+   * @param isStale - 等待结束时消息已无需发送（如请求已超时）则返回 true
+   */
+  private sendAppMessage(message: Record<string, unknown>, isStale?: () => boolean): Promise<void> {
+    if (!this._keyPair) {
+      this.ws!.send(JSON.stringify(message))
+      return Promise.resolve()
+    }
+
+    const sent = this._outbound.then(async () => {
+      const sessionKey = await this.waitForSessionKey()
+      if (isStale?.()) return
+      const encrypted = await encryptMessage(sessionKey, message)
+      if (!this.ws) throw new Error('Not connected')
+      this.ws.send(JSON.stringify(encrypted))
+    })
+    this._outbound = sent.catch(() => {})
+    return sent
+  }
+
   /**
    * 处理 RPC 响应
    */
-  private handleResponse(message: { id: number; result?: unknown; error?: { code: number; message: string } }): void {
+  private handleResponse(message: { id: number; address?: string; result?: unknown; error?: { code: number; message: string } }): void {
     const pending = this.pendingRequests.get(message.id)
     if (!pending) return
 
@@ -279,10 +847,25 @@ export class RemoteProvider {
       error.code = message.error.code
       pending.reject(error)
     } else {
-      pending.resolve(message.result)
+      pending.resolve(message.result, message.address)
     }
   }
 
+  /**
+   * 处理批量请求的响应
+   */
+  private handleBatchResponse(message: { id: number; results: Array<{ result?: unknown; error?: { code: number; message: string } }> }): void {
+    const pending = this.pendingRequests.get(message.id)
+    if (!pending) return
+
+    clearTimeout(pending.timeout)
+    this.pendingRequests.delete(message.id)
+
+    pending.resolve(message.results.map(({ result, error }): BatchResult =>
+      error ? { error: this.createError(error.code, error.message) } : { result }
+    ))
+  }
+
   /**
    * EIP-1193 request 方法
    */
@@ -330,6 +913,16 @@ export class RemoteProvider {
         break
     }
 
+    // 只读方法优先发给配置的节点，未配置时仍交给钱包
+    const endpoint = READ_ONLY_METHODS.has(method) ? this.rpcEndpoint(parseInt(this._chainId, 16)) : null
+    if (endpoint) {
+      const rpc = await this.requestRpc(endpoint, [{ method, params }])
+      if (rpc) {
+        if (rpc[0].error) throw rpc[0].error
+        return rpc[0].result
+      }
+    }
+
     // 检查连接状态
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
       throw this.createError(-32000, 'Not connected')
@@ -339,30 +932,214 @@ export class RemoteProvider {
       throw this.createError(-32000, 'Mobile wallet not connected')
     }
 
-    // 发送请求
-    return this.sendRequest(method, params)
+    // 发送请求（多钱包 session 中发给参与者 1）
+    return this.sendRequest(method, params, this._participantCount > 1 ? 1 : undefined)
+  }
+
+  /**
+   * 链的只读 RPC 地址：本地配置的节点，其次是服务器代理；都没有时返回 null
+   */
+  private rpcEndpoint(chainId: number): { chainId: number; url: string; proxied: boolean } | null {
+    if (this._rpcUrls[chainId]) {
+      return { chainId, url: this._rpcUrls[chainId], proxied: false }
+    }
+    if (this._rpcProxy && this.sessionId && !this._unproxiedChains.has(chainId)) {
+      const secret = new URL(this.sessionUrl).searchParams.get('k') || ''
+      return { chainId, url: `${this.serverUrl}/session/${this.sessionId}/rpc/${chainId}?k=${encodeURIComponent(secret)}`, proxied: true }
+    }
+    return null
+  }
+
+  /**
+   * 把只读请求发给 RPC 节点（多个请求合并为一个 JSON-RPC 批量请求）
+   * @returns 与 calls 一一对应的结果，服务器代理没有该链的节点时返回 null
+   */
+  private async requestRpc(
+    { chainId, url, proxied }: { chainId: number; url: string; proxied: boolean },
+    calls: RequestArguments[]
+  ): Promise<BatchResult[] | null> {
+    const body = calls.map(({ method, params }) => ({ jsonrpc: '2.0', id: ++this._rpcId, method, params: params || [] }))
+
+    let response: Response
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body.length === 1 ? body[0] : body),
+      })
+    } catch {
+      throw this.createError(-32603, 'RPC request failed')
+    }
+
+    // 服务器没有配置该链的节点，之后该链的只读请求直接交给钱包
+    if (proxied && response.status === 404) {
+      this._unproxiedChains.add(chainId)
+      return null
+    }
+    if (!response.ok) {
+      throw this.createError(-32603, `RPC request failed: ${response.status}`)
+    }
+
+    // 节点不支持批量请求时返回单个错误对象，作为每个请求的结果
+    const data = await response.json()
+    return body.map(({ id }): BatchResult => {
+      const reply = Array.isArray(data) ? data.find(item => item?.id === id) : data
+      if (!reply) {
+        return { error: this.createError(-32603, 'Missing RPC response') }
+      }
+      if (reply.error) {
+        const error = this.createError(reply.error.code, reply.error.message)
+        error.data = reply.error.data
+        return { error }
+      }
+      return { result: reply.result }
+    })
+  }
+
+  /**
+   * JSON-RPC 批量请求：本地方法直接返回，配置了节点的只读方法合并为一个请求发给节点，
+   * 其余方法合并为一个 batch_request 发给钱包（钱包依次执行签名类请求、并行执行只读请求）
+   * 单个请求失败不影响其他请求，结果与 requests 一一对应
+   */
+  async requestBatch(requests: RequestArguments[]): Promise<BatchResult[]> {
+    const results: BatchResult[] = new Array(requests.length)
+    const local: Promise<void>[] = []
+    let wallet: number[] = []
+    const reads: number[] = []
+
+    requests.forEach((args, index) => {
+      if (LOCAL_METHODS.has(args.method)) {
+        local.push(this.request(args).then(result => { results[index] = { result } }, error => { results[index] = { error } }))
+      } else if (READ_ONLY_METHODS.has(args.method)) {
+        reads.push(index)
+      } else {
+        wallet.push(index)
+      }
+    })
+
+    // 只读方法优先发给配置的节点，未配置时仍交给钱包
+    const endpoint = reads.length > 0 ? this.rpcEndpoint(parseInt(this._chainId, 16)) : null
+    if (endpoint) {
+      try {
+        const rpc = await this.requestRpc(endpoint, reads.map(index => requests[index]))
+        if (rpc) {
+          reads.forEach((index, i) => { results[index] = rpc[i] })
+        } else {
+          wallet = [...wallet, ...reads].sort((a, b) => a - b)
+        }
+      } catch (error) {
+        reads.forEach(index => { results[index] = { error: error as ProviderRpcError } })
+      }
+    } else {
+      wallet = [...wallet, ...reads].sort((a, b) => a - b)
+    }
+
+    if (wallet.length > 0) {
+      const walletResults = await this.sendBatch(wallet.map(index => requests[index]))
+      wallet.forEach((index, i) => {
+        results[index] = walletResults[i] ?? { error: this.createError(-32603, 'Missing batch result') }
+      })
+    }
+
+    await Promise.all(local)
+    return results
+  }
+
+  /**
+   * 以一个 batch_request 发给钱包（多钱包 session 中发给参与者 1），整批失败时作为每个请求的错误
+   */
+  private sendBatch(requests: RequestArguments[]): Promise<BatchResult[]> {
+    const failAll = (error: ProviderRpcError) => requests.map((): BatchResult => ({ error }))
+
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return Promise.resolve(failAll(this.createError(-32000, 'Not connected')))
+    }
+    if (!this._connected) {
+      return Promise.resolve(failAll(this.createError(-32000, 'Mobile wallet not connected')))
+    }
+
+    return new Promise(resolve => {
+      this.dispatch({
+        type: 'batch_request',
+        requests: requests.map(({ method, params }) => ({ method, params: params || [] })),
+        ...(this._participantCount > 1 && { participant: 1 }),
+      }, {
+        resolve: results => resolve(results as BatchResult[]),
+        reject: error => resolve(failAll(error)),
+      })
+    })
+  }
+
+  /**
+   * 把请求发给多钱包 session 中的某个参与者（参与者离线时由服务器缓存）
+   */
+  requestParticipant(participant: number, args: RequestArguments): Promise<unknown> {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(this.createError(-32000, 'Not connected'))
+    }
+    return this.sendRequest(args.method, args.params, participant)
+  }
+
+  /**
+   * 把请求发给当前已连接的所有参与者（如多签的每个签名人），等待全部响应
+   * 单个参与者拒绝或超时不影响其他参与者，结果按参与者编号排序
+   */
+  async requestAll(args: RequestArguments): Promise<ParticipantResult[]> {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      throw this.createError(-32000, 'Not connected')
+    }
+
+    return Promise.all(this.getParticipants().map(({ participant, address }) =>
+      new Promise<ParticipantResult>(resolve => {
+        this.dispatchRequest(args.method, args.params, participant, {
+          resolve: (result, respondent) => resolve({ participant, address: respondent ?? address, result }),
+          reject: error => resolve({ participant, address, error }),
+        })
+      })
+    ))
   }
 
   /**
    * 发送 RPC 请求到移动端
    */
-  private sendRequest(method: string, params?: unknown[] | object): Promise<unknown> {
+  private sendRequest(method: string, params?: unknown[] | object, participant?: number): Promise<unknown> {
     return new Promise((resolve, reject) => {
-      const id = ++this.requestId
+      this.dispatchRequest(method, params, participant, { resolve, reject })
+    })
+  }
 
-      const timeout = setTimeout(() => {
-        this.pendingRequests.delete(id)
-        reject(this.createError(-32003, 'Request timeout'))
-      }, REQUEST_TIMEOUT)
+  private dispatchRequest(
+    method: string,
+    params: unknown[] | object | undefined,
+    participant: number | undefined,
+    handlers: Pick<PendingRequest, 'resolve' | 'reject'>
+  ): void {
+    this.dispatch({
+      type: 'request',
+      method,
+      params: params || [],
+      ...(participant !== undefined && { participant }),
+    }, handlers)
+  }
 
-      this.pendingRequests.set(id, { resolve, reject, timeout })
+  /**
+   * 为请求类消息分配 ID 并等待响应
+   */
+  private dispatch(message: Record<string, unknown>, { resolve, reject }: Pick<PendingRequest, 'resolve' | 'reject'>): void {
+    const id = ++this.requestId
+
+    const timeout = setTimeout(() => {
+      this.pendingRequests.delete(id)
+      reject(this.createError(-32003, 'Request timeout'))
+    }, REQUEST_TIMEOUT)
+
+    this.pendingRequests.set(id, { resolve, reject, timeout })
 
-      this.ws!.send(JSON.stringify({
-        type: 'request',
-        id,
-        method,
-        params: params || [],
-      }))
+    this.sendAppMessage({ ...message, id }, () => !this.pendingRequests.has(id)).catch(error => {
+      clearTimeout(timeout)
+      this.pendingRequests.delete(id)
+      console.error('[RemoteProvider] Failed to encrypt request:', error)
+      reject(this.createError(-32603, 'Failed to encrypt request'))
     })
   }
 
@@ -407,6 +1184,7 @@ export class RemoteProvider {
    */
   disconnect(): void {
     this._userInitiatedDisconnect = true
+    this.stopHeartbeat()
 
     // 清除重连定时器
     if (this._reconnectTimer) {
@@ -425,6 +1203,7 @@ export class RemoteProvider {
     }
     this._connected = false
     this._accounts = []
+    this._participants.clear()
     this._reconnectAttempts = 0
   }
 
@@ -443,6 +1222,29 @@ export class RemoteProvider {
     return this._chainId
   }
 
+  /**
+   * 多钱包 session 中已连接的参与者（按编号排序）
+   */
+  getParticipants(): ParticipantInfo[] {
+    return [...this._participants.values()]
+      .sort((a, b) => a.participant - b.participant)
+      .map(info => ({ ...info }))
+  }
+
+  /**
+   * 多钱包 session 中每个参与者的连接链接（参与者 1 的链接即 session.url）
+   */
+  get participantLinks(): ParticipantLink[] {
+    return this._participantLinks
+  }
+
+  /**
+   * 是否已与 bridge 完成密钥交换（之后的应用消息均为密文）
+   */
+  get isEncrypted(): boolean {
+    return this._sessionKey !== null
+  }
+
   get session(): { id: string; url: string } {
     return {
       id: this.sessionId,
@@ -453,11 +1255,21 @@ export class RemoteProvider {
   /**
    * 获取用于持久化的session数据
    */
-  getSessionData(): { serverUrl: string; sessionId: string; sessionUrl: string } {
-    return {
+  getSessionData(): SessionData {
+    const data: SessionData = {
       serverUrl: this.serverUrl,
       sessionId: this.sessionId,
       sessionUrl: this.sessionUrl,
     }
+    if (this._keyPairJwk) {
+      data.keyPair = this._keyPairJwk
+    }
+    if (this._peerPublicKey) {
+      data.peerPublicKey = this._peerPublicKey
+    }
+    if (this._participantLinks.length > 0) {
+      data.participants = this._participantLinks
+    }
+    return data
   }
 }
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  isEncryptionSupported,
+  generateKeyPair,
+  exportPublicKey,
+  importPublicKey,
+  exportKeyPair,
+  importKeyPair,
+  deriveSessionKey,
+  encryptMessage,
+  decryptMessage,
+} from '../src/crypto'
+
+async function createKeys(sessionId = 'ABCD') {
+  const dapp = await generateKeyPair()
+  const bridge = await generateKeyPair()
+  return {
+    dapp,
+    bridge,
+    dappKey: await deriveSessionKey(dapp.privateKey, bridge.publicKey, sessionId),
+    bridgeKey: await deriveSessionKey(bridge.privateKey, dapp.publicKey, sessionId),
+  }
+}
+
+describe('crypto', () => {
+  it('should detect WebCrypto support', () => {
+    expect(isEncryptionSupported()).toBe(true)
+  })
+
+  it('should export public keys as URL-safe base64', async () => {
+    const keyPair = await generateKeyPair()
+    const publicKey = await exportPublicKey(keyPair.publicKey)
+
+    // P-256 未压缩点为 65 字节 → 87 个 base64url 字符
+    expect(publicKey).toMatch(/^[A-Za-z0-9_-]{87}$/)
+
+    const imported = await importPublicKey(publicKey)
+    expect(await exportPublicKey(imported)).toBe(publicKey)
+  })
+
+  it('should derive the same key on both sides', async () => {
+    const { dappKey, bridgeKey } = await createKeys()
+
+    const envelope = await encryptMessage(dappKey, { type: 'request', id: 1, method: 'personal_sign', params: ['0x68656c6c6f'] })
+    const message = await decryptMessage(bridgeKey, envelope)
+
+    expect(message).toEqual({ type: 'request', id: 1, method: 'personal_sign', params: ['0x68656c6c6f'] })
+  })
+
+  it('should only expose type and id in the envelope', async () => {
+    const { dappKey } = await createKeys()
+
+    const envelope = await encryptMessage(dappKey, { type: 'response', id: 3, result: '0xsecretsignature' })
+
+    expect(Object.keys(envelope).sort()).toEqual(['data', 'id', 'iv', 'type'])
+    expect(envelope.type).toBe('encrypted')
+    expect(envelope.id).toBe(3)
+    expect(JSON.stringify(envelope)).not.toContain('secretsignature')
+  })
+
+  it('should omit id for event messages', async () => {
+    const { dappKey } = await createKeys()
+
+    const envelope = await encryptMessage(dappKey, { type: 'chainChanged', chainId: 137 } as any)
+
+    expect(envelope.id).toBeUndefined()
+  })
+
+  it('should use a fresh IV for every message', async () => {
+    const { dappKey } = await createKeys()
+
+    const first = await encryptMessage(dappKey, { type: 'request', id: 1 })
+    const second = await encryptMessage(dappKey, { type: 'request', id: 1 })
+
+    expect(first.iv).not.toBe(second.iv)
+    expect(first.data).not.toBe(second.data)
+  })
+
+  it('should reject tampered ciphertext', async () => {
+    const { dappKey, bridgeKey } = await createKeys()
+
+    const envelope = await encryptMessage(dappKey, { type: 'request', id: 1 })
+    const tampered = { ...envelope, data: (envelope.data[0] === 'A' ? 'B' : 'A') + envelope.data.slice(1) }
+
+    await expect(decryptMessage(bridgeKey, tampered)).rejects.toThrow()
+  })
+
+  it('should bind keys to the session id', async () => {
+    const dapp = await generateKeyPair()
+    const bridge = await generateKeyPair()
+    const dappKey = await deriveSessionKey(dapp.privateKey, bridge.publicKey, 'AAAA')
+    const bridgeKey = await deriveSessionKey(bridge.privateKey, dapp.publicKey, 'BBBB')
+
+    const envelope = await encryptMessage(dappKey, { type: 'request', id: 1 })
+
+    await expect(decryptMessage(bridgeKey, envelope)).rejects.toThrow()
+  })
+
+  it('should restore a key pair from JWK', async () => {
+    const { dapp, bridge, bridgeKey } = await createKeys()
+
+    const jwk = JSON.parse(JSON.stringify(await exportKeyPair(dapp)))
+    const restored = await importKeyPair(jwk)
+
+    expect(await exportPublicKey(restored.publicKey)).toBe(await exportPublicKey(dapp.publicKey))
+
+    const restoredKey = await deriveSessionKey(restored.privateKey, bridge.publicKey, 'ABCD')
+    const envelope = await encryptMessage(bridgeKey, { type: 'response', id: 1, result: '0x1' })
+    expect(await decryptMessage(restoredKey, envelope)).toEqual({ type: 'response', id: 1, result: '0x1' })
+  })
+})
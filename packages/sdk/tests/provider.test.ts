@@ -1,5 +1,13 @@
-import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test'
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, mock, spyOn } from 'bun:test'
 import { RemoteProvider, type DAppMetadata, type DisconnectInfo, type ReconnectInfo } from '../src/provider'
+import {
+  generateKeyPair,
+  exportPublicKey,
+  importPublicKey,
+  deriveSessionKey,
+  encryptMessage,
+  decryptMessage,
+} from '../src/crypto'
 
 // Mock WebSocket
 class MockWebSocket {
@@ -68,7 +76,7 @@ describe('RemoteProvider', () => {
   let mockWs: MockWebSocket | null = null
 
   beforeEach(() => {
-    provider = new RemoteProvider()
+    provider = new RemoteProvider({ encryption: false })
 
     // Mock WebSocket
     originalWebSocket = globalThis.WebSocket
@@ -195,6 +203,197 @@ describe('RemoteProvider', () => {
       expect(parsed.url).toBe('https://testdapp.com')
       expect(parsed.icon).toBe('https://testdapp.com/icon.png')
     })
+
+    it('should send the API key as a bearer token', async () => {
+      let capturedHeaders: Record<string, string> | undefined
+
+      globalThis.fetch = mock(async (url: string, options?: RequestInit) => {
+        capturedHeaders = options?.headers as Record<string, string>
+        return {
+          ok: true,
+          status: 200,
+          json: async () => ({ id: 'ABCD', url: 'http://localhost:3000/s/ABCD?k=secret' }),
+        }
+      }) as unknown as typeof fetch
+
+      const keyedProvider = new RemoteProvider({ encryption: false, apiKey: 'ri_test_key' })
+      const connectPromise = keyedProvider.connect('http://localhost:3000')
+
+      await new Promise((r) => setTimeout(r, 20))
+      mockWs?.simulateMessage({ type: 'ready' })
+
+      await connectPromise
+
+      expect(capturedHeaders?.Authorization).toBe('Bearer ri_test_key')
+      keyedProvider.disconnect()
+    })
+
+    it('should not send an Authorization header without an API key', async () => {
+      let capturedHeaders: Record<string, string> | undefined
+
+      globalThis.fetch = mock(async (url: string, options?: RequestInit) => {
+        capturedHeaders = options?.headers as Record<string, string>
+        return {
+          ok: true,
+          status: 200,
+          json: async () => ({ id: 'ABCD', url: 'http://localhost:3000/s/ABCD?k=secret' }),
+        }
+      }) as unknown as typeof fetch
+
+      const connectPromise = provider.connect('http://localhost:3000')
+
+      await new Promise((r) => setTimeout(r, 20))
+      mockWs?.simulateMessage({ type: 'ready' })
+
+      await connectPromise
+
+      expect(capturedHeaders?.Authorization).toBeUndefined()
+    })
+  })
+
+  describe('session lifetime', () => {
+    it('should request the session ttl on connect', async () => {
+      let capturedBody: string | undefined
+
+      globalThis.fetch = mock(async (url: string, options?: RequestInit) => {
+        capturedBody = options?.body as string
+        return {
+          ok: true,
+          status: 200,
+          json: async () => ({ id: 'ABCD', url: 'http://localhost:3000/s/ABCD?k=secret' }),
+        }
+      }) as unknown as typeof fetch
+
+      const ttlProvider = new RemoteProvider({ encryption: false, sessionTtl: 3600000 })
+      const connectPromise = ttlProvider.connect('http://localhost:3000', { name: 'Test DApp', url: 'https://testdapp.com' })
+
+      await new Promise((r) => setTimeout(r, 20))
+      mockWs?.simulateMessage({ type: 'ready' })
+
+      await connectPromise
+
+      expect(JSON.parse(capturedBody!)).toEqual({ name: 'Test DApp', url: 'https://testdapp.com', ttl: 3600000 })
+      ttlProvider.disconnect()
+    })
+
+    it('should extend the session with its secret', async () => {
+      let capturedUrl: string | undefined
+      let capturedBody: string | undefined
+
+      globalThis.fetch = mock(async (url: string, options?: RequestInit) => {
+        if (url.endsWith('/session')) {
+          return {
+            ok: true,
+            status: 200,
+            json: async () => ({ id: 'ABCD', url: 'http://localhost:3000/s/ABCD?k=secret' }),
+          }
+        }
+        capturedUrl = url
+        capturedBody = options?.body as string
+        return { ok: true, status: 200, json: async () => ({ id: 'ABCD', expiresAt: 1234567890000 }) }
+      }) as unknown as typeof fetch
+
+      const connectPromise = provider.connect('http://localhost:3000')
+      await new Promise((r) => setTimeout(r, 20))
+      mockWs?.simulateMessage({ type: 'ready' })
+      await connectPromise
+
+      expect(await provider.extendSession(7200000)).toBe(1234567890000)
+      expect(capturedUrl).toBe('http://localhost:3000/session/ABCD/extend?k=secret')
+      expect(JSON.parse(capturedBody!)).toEqual({ ttl: 7200000 })
+    })
+
+    it('should throw when there is no session to extend', async () => {
+      await expect(provider.extendSession()).rejects.toThrow('No active session')
+    })
+
+    it('should create a pairing code with the public key', async () => {
+      provider = new RemoteProvider()
+      let capturedUrl: string | undefined
+      let capturedBody: string | undefined
+
+      globalThis.fetch = mock(async (url: string, options?: RequestInit) => {
+        if (url.endsWith('/session')) {
+          return {
+            ok: true,
+            status: 200,
+            json: async () => ({ id: 'ABCD', url: 'http://localhost:3000/s/ABCD?k=secret' }),
+          }
+        }
+        capturedUrl = url
+        capturedBody = options?.body as string
+        return { ok: true, status: 200, json: async () => ({ code: '123456', expiresAt: 1234567890000 }) }
+      }) as unknown as typeof fetch
+
+      const connectPromise = provider.connect('http://localhost:3000')
+      await new Promise((r) => setTimeout(r, 20))
+      mockWs?.simulateMessage({ type: 'ready' })
+      await connectPromise
+
+      expect(await provider.createPairingCode()).toEqual({ code: '123456', expiresAt: 1234567890000 })
+      expect(capturedUrl).toBe('http://localhost:3000/session/ABCD/pairing?k=secret')
+      expect(JSON.parse(capturedBody!).publicKey).toBe(new URLSearchParams(new URL(provider.session.url).hash.slice(1)).get('pk'))
+    })
+
+    it('should throw when there is no session for a pairing code', async () => {
+      await expect(provider.createPairingCode()).rejects.toThrow('No active session')
+    })
+
+    it('should create a handoff link over the WebSocket', async () => {
+      provider = new RemoteProvider()
+      globalThis.fetch = createMockFetch({
+        '/session': { ok: true, status: 200, json: () => ({ id: 'ABCD', url: 'http://localhost:3000/s/ABCD?k=secret' }) },
+      })
+
+      const connectPromise = provider.connect('http://localhost:3000')
+      await new Promise((r) => setTimeout(r, 20))
+      mockWs?.simulateMessage({ type: 'ready' })
+      await connectPromise
+
+      const handoffPromise = provider.createHandoffLink()
+      expect(JSON.parse(mockWs!.sentMessages.at(-1)!)).toEqual({ type: 'handoff_request' })
+
+      mockWs?.simulateMessage({
+        type: 'handoff_token',
+        token: 'TOKEN',
+        expiresAt: 1234567890000,
+        url: 'http://localhost:3000/s/ABCD?k=secret&handoff=TOKEN',
+      })
+
+      const { url, expiresAt } = await handoffPromise
+      const publicKey = new URLSearchParams(new URL(provider.session.url).hash.slice(1)).get('pk')
+      expect(url).toBe(`http://localhost:3000/s/ABCD?k=secret&handoff=TOKEN#pk=${publicKey}`)
+      expect(expiresAt).toBe(1234567890000)
+    })
+
+    it('should reject a handoff link without a connection', async () => {
+      await expect(provider.createHandoffLink()).rejects.toThrow('Not connected')
+    })
+
+    it('should build the QR code URL with the secret, public key and options', async () => {
+      globalThis.fetch = createMockFetch({
+        '/session': { ok: true, status: 200, json: () => ({ id: 'ABCD', url: 'http://localhost:3000/s/ABCD?k=secret' }) },
+      })
+
+      const connectPromise = provider.connect('http://localhost:3000')
+      await new Promise((r) => setTimeout(r, 20))
+      mockWs?.simulateMessage({ type: 'ready' })
+      await connectPromise
+
+      const url = new URL(provider.getQrCodeUrl('png', { size: 512, ecLevel: 'H', foreground: '#1e3a8a', logo: true }))
+      expect(url.pathname).toBe('/s/ABCD/qr.png')
+      expect(url.searchParams.get('k')).toBe('secret')
+      expect(url.searchParams.get('pk')).toBe(new URLSearchParams(new URL(provider.session.url).hash.slice(1)).get('pk'))
+      expect(url.searchParams.get('size')).toBe('512')
+      expect(url.searchParams.get('ec')).toBe('H')
+      expect(url.searchParams.get('fg')).toBe('1e3a8a')
+      expect(url.searchParams.get('logo')).toBe('true')
+      expect(provider.getQrCodeUrl()).toStartWith('http://localhost:3000/s/ABCD/qr.svg?k=secret')
+    })
+
+    it('should throw when there is no session for a QR code', () => {
+      expect(() => provider.getQrCodeUrl()).toThrow('No active session')
+    })
   })
 
   describe('resumeSession', () => {
@@ -378,6 +577,39 @@ describe('RemoteProvider', () => {
       })
     })
 
+    it('should keep request pending when queued by server', async () => {
+      let settled = false
+      const requestPromise = provider.request({ method: 'personal_sign', params: [] })
+      requestPromise.then(() => { settled = true }, () => { settled = true })
+
+      await new Promise((r) => setTimeout(r, 10))
+      const parsed = JSON.parse(mockWs!.sentMessages.find((m) => JSON.parse(m).type === 'request')!)
+
+      mockWs?.simulateMessage({ type: 'queued', messageType: 'request', id: parsed.id, queueSize: 1 })
+      await new Promise((r) => setTimeout(r, 10))
+      expect(settled).toBe(false)
+
+      // Flushed to the wallet after it reconnects
+      mockWs?.simulateMessage({ type: 'response', id: parsed.id, result: '0xsig' })
+      expect(await requestPromise).toBe('0xsig')
+    })
+
+    it('should reject request when server returns an error for it', async () => {
+      const requestPromise = provider.request({ method: 'personal_sign', params: [] })
+
+      await new Promise((r) => setTimeout(r, 10))
+      const parsed = JSON.parse(mockWs!.sentMessages.find((m) => JSON.parse(m).type === 'request')!)
+
+      mockWs?.simulateMessage({
+        type: 'error',
+        id: parsed.id,
+        code: -32004,
+        message: 'Peer not connected and offline queue is full',
+      })
+
+      await expect(requestPromise).rejects.toMatchObject({ code: -32004 })
+    })
+
     it('should throw if not connected', async () => {
       provider.disconnect()
 
@@ -388,6 +620,68 @@ describe('RemoteProvider', () => {
     })
   })
 
+  describe('requestBatch', () => {
+    beforeEach(async () => {
+      globalThis.fetch = createMockFetch({
+        '/session': { ok: true, status: 200, json: () => ({ id: 'ABCD', url: 'http://localhost:3000/s/ABCD?k=secret' }) },
+      })
+
+      const connectPromise = provider.connect('http://localhost:3000')
+      await new Promise((r) => setTimeout(r, 20))
+      mockWs?.simulateMessage({ type: 'ready' })
+      await connectPromise
+    })
+
+    it('should send wallet methods as one batch_request', async () => {
+      mockWs?.simulateMessage({ type: 'connect', address: '0x1234', chainId: 1 })
+
+      const batchPromise = provider.requestBatch([
+        { method: 'eth_chainId' },
+        { method: 'eth_getBalance', params: ['0x1234', 'latest'] },
+        { method: 'personal_sign', params: ['0x68', '0x1234'] },
+      ])
+      await new Promise((r) => setTimeout(r, 10))
+
+      const sent = mockWs!.sentMessages.map((m) => JSON.parse(m)).filter((m) => m.type === 'batch_request' || m.type === 'request')
+      expect(sent).toHaveLength(1)
+      expect(sent[0].requests).toEqual([
+        { method: 'eth_getBalance', params: ['0x1234', 'latest'] },
+        { method: 'personal_sign', params: ['0x68', '0x1234'] },
+      ])
+
+      mockWs?.simulateMessage({
+        type: 'batch_response',
+        id: sent[0].id,
+        results: [{ result: '0x10' }, { error: { code: 4001, message: 'User rejected' } }],
+      })
+
+      const results = await batchPromise
+      expect(results[0]).toEqual({ result: '0x1' })
+      expect(results[1]).toEqual({ result: '0x10' })
+      expect(results[2].error?.code).toBe(4001)
+      expect(results[2].error?.message).toBe('User rejected')
+    })
+
+    it('should report wallet errors per request when the wallet is not connected', async () => {
+      const results = await provider.requestBatch([{ method: 'eth_accounts' }, { method: 'eth_sendTransaction', params: [{}] }])
+
+      expect(results[0]).toEqual({ result: [] })
+      expect(results[1].error?.message).toBe('Mobile wallet not connected')
+    })
+
+    it('should fail every request when the batch is rejected', async () => {
+      mockWs?.simulateMessage({ type: 'connect', address: '0x1234', chainId: 1 })
+
+      const batchPromise = provider.requestBatch([{ method: 'eth_blockNumber' }, { method: 'eth_sign', params: [] }])
+      await new Promise((r) => setTimeout(r, 10))
+      const batch = mockWs!.sentMessages.map((m) => JSON.parse(m)).find((m) => m.type === 'batch_request')
+      mockWs?.simulateMessage({ type: 'error', code: -32004, message: 'Peer not connected and offline queue is full', id: batch.id })
+
+      const results = await batchPromise
+      expect(results.map((r) => r.error?.code)).toEqual([-32004, -32004])
+    })
+  })
+
   describe('event handling', () => {
     it('should emit connect event with chainId', async () => {
       globalThis.fetch = createMockFetch({
@@ -451,6 +745,27 @@ describe('RemoteProvider', () => {
       expect(provider.chainId).toBe('0x38')
     })
 
+    it('should emit message events for subscription notifications', async () => {
+      globalThis.fetch = createMockFetch({
+        '/session': { ok: true, status: 200, json: () => ({ id: 'ABCD', url: 'http://localhost:3000/s/ABCD?k=secret' }) },
+      })
+
+      const connectPromise = provider.connect('http://localhost:3000')
+      await new Promise((r) => setTimeout(r, 20))
+      mockWs?.simulateMessage({ type: 'ready' })
+      await connectPromise
+      mockWs?.simulateMessage({ type: 'connect', address: '0x123', chainId: 1 })
+
+      const messages: unknown[] = []
+      provider.on('message', (message) => messages.push(message))
+
+      mockWs?.simulateMessage({ type: 'subscription', subscription: '0x9ce5', result: { number: '0x1b4' }, connection: 'tab-1' })
+
+      expect(messages).toEqual([
+        { type: 'eth_subscription', data: { subscription: '0x9ce5', result: { number: '0x1b4' } } },
+      ])
+    })
+
     it('should remove listener correctly', async () => {
       let callCount = 0
       const listener = () => {
@@ -566,6 +881,536 @@ describe('RemoteProvider', () => {
       expect(reconnectInfo!.attempt).toBe(1)
       expect(reconnectInfo!.maxAttempts).toBe(5)
     })
+
+    it('should reconnect after the suggested delay when the server drains', async () => {
+      globalThis.fetch = createMockFetch({
+        '/session': { ok: true, status: 200, json: () => ({ id: 'ABCD', url: 'http://localhost:3000/s/ABCD?k=secret' }) },
+      })
+
+      const connectPromise = provider.connect('http://localhost:3000')
+      await new Promise((r) => setTimeout(r, 20))
+      mockWs?.simulateMessage({ type: 'ready' })
+      await connectPromise
+
+      let reconnectInfo: ReconnectInfo | null = null
+      provider.on('reconnecting', (info) => {
+        reconnectInfo = info
+      })
+
+      const drainingWs = mockWs
+      mockWs?.simulateMessage({ type: 'server_draining', reconnectDelay: 30 })
+      mockWs?.close(1001, 'Server shutting down')
+
+      await new Promise((r) => setTimeout(r, 10))
+      expect(mockWs).toBe(drainingWs)
+
+      await new Promise((r) => setTimeout(r, 40))
+      // 按建议延迟重连，不消耗重连次数
+      expect(mockWs).not.toBe(drainingWs)
+      expect(reconnectInfo).toBeNull()
+      expect((provider as any)._reconnectAttempts).toBe(0)
+    })
+  })
+
+  describe('heartbeat', () => {
+    beforeEach(async () => {
+      globalThis.fetch = createMockFetch({
+        '/session': { ok: true, status: 200, json: () => ({ id: 'ABCD', url: 'http://localhost:3000/s/ABCD?k=secret' }) },
+      })
+
+      const connectPromise = provider.connect('http://localhost:3000')
+      await new Promise((r) => setTimeout(r, 20))
+      mockWs?.simulateMessage({ type: 'ready' })
+      await connectPromise
+    })
+
+    it('should reply to server pings with pong', () => {
+      mockWs?.simulateMessage({ type: 'ping', interval: 30000 })
+
+      const last = JSON.parse(mockWs!.sentMessages[mockWs!.sentMessages.length - 1])
+      expect(last).toEqual({ type: 'pong' })
+    })
+
+    it('should reconnect when pings stop arriving', async () => {
+      let reconnectInfo: ReconnectInfo | null = null
+      provider.on('reconnecting', (info) => {
+        reconnectInfo = info
+      })
+      const deadWs = mockWs
+
+      // 3 个心跳周期（30ms）内没有任何消息
+      mockWs?.simulateMessage({ type: 'ping', interval: 10 })
+      await new Promise((r) => setTimeout(r, 60))
+
+      expect(reconnectInfo).not.toBeNull()
+      expect(reconnectInfo!.attempt).toBe(1)
+      expect(deadWs?.readyState).toBe(MockWebSocket.CLOSED)
+    })
+
+    it('should stay connected while pings keep arriving', async () => {
+      let reconnecting = false
+      provider.on('reconnecting', () => {
+        reconnecting = true
+      })
+
+      for (let i = 0; i < 6; i++) {
+        mockWs?.simulateMessage({ type: 'ping', interval: 10 })
+        await new Promise((r) => setTimeout(r, 10))
+      }
+
+      expect(reconnecting).toBe(false)
+    })
+
+    it('should not enable the timeout before the first ping', async () => {
+      let reconnecting = false
+      provider.on('reconnecting', () => {
+        reconnecting = true
+      })
+
+      await new Promise((r) => setTimeout(r, 50))
+
+      expect(reconnecting).toBe(false)
+    })
+
+    it('should stop the heartbeat timeout on disconnect', async () => {
+      let reconnecting = false
+      provider.on('reconnecting', () => {
+        reconnecting = true
+      })
+
+      mockWs?.simulateMessage({ type: 'ping', interval: 10 })
+      provider.disconnect()
+      await new Promise((r) => setTimeout(r, 50))
+
+      expect(reconnecting).toBe(false)
+    })
+  })
+
+  describe('end-to-end encryption', () => {
+    let bridgeKey: CryptoKey
+
+    // 模拟 bridge：从 #pk= 读取 DApp 公钥，派生密钥并发送 key_exchange
+    async function simulateKeyExchange(sessionUrl: string) {
+      const dappPublicKey = new URLSearchParams(new URL(sessionUrl).hash.slice(1)).get('pk')!
+      const bridgeKeyPair = await generateKeyPair()
+      bridgeKey = await deriveSessionKey(bridgeKeyPair.privateKey, await importPublicKey(dappPublicKey), 'ABCD')
+      mockWs?.simulateMessage({ type: 'key_exchange', publicKey: await exportPublicKey(bridgeKeyPair.publicKey) })
+    }
+
+    async function simulateEncrypted(message: { id?: unknown; [key: string]: unknown }) {
+      mockWs?.simulateMessage(await encryptMessage(bridgeKey, message))
+      await new Promise((r) => setTimeout(r, 10))
+    }
+
+    beforeEach(async () => {
+      provider = new RemoteProvider()
+      globalThis.fetch = createMockFetch({
+        '/session': { ok: true, status: 200, json: () => ({ id: 'ABCD', url: 'http://localhost:3000/s/ABCD?k=secret' }) },
+      })
+
+      const connectPromise = provider.connect('http://localhost:3000')
+      await new Promise((r) => setTimeout(r, 20))
+      mockWs?.simulateMessage({ type: 'ready' })
+      await connectPromise
+    })
+
+    it('should put the DApp public key in the session URL fragment', () => {
+      expect(provider.session.url).toMatch(/^http:\/\/localhost:3000\/s\/ABCD\?k=secret#pk=[A-Za-z0-9_-]+$/)
+    })
+
+    it('should not send the public key to the server', () => {
+      expect(mockWs?.url).not.toContain('pk=')
+    })
+
+    it('should authenticate the WebSocket with the session secret', () => {
+      expect(new URL(mockWs!.url).searchParams.get('k')).toBe('secret')
+    })
+
+    it('should request protocol version 2', () => {
+      expect(new URL(mockWs!.url).searchParams.get('v')).toBe('2')
+    })
+
+    it('should handle encrypted connect after key exchange', async () => {
+      await simulateKeyExchange(provider.session.url)
+      await simulateEncrypted({ type: 'connect', address: '0xabc', chainId: 137 })
+
+      expect(provider.isEncrypted).toBe(true)
+      expect(provider.isConnected).toBe(true)
+      expect(provider.accounts).toEqual(['0xabc'])
+      expect(provider.chainId).toBe('0x89')
+    })
+
+    it('should encrypt requests and decrypt responses', async () => {
+      await simulateKeyExchange(provider.session.url)
+      await simulateEncrypted({ type: 'connect', address: '0xabc', chainId: 1 })
+
+      const requestPromise = provider.request({ method: 'personal_sign', params: ['0x48656c6c6f', '0xabc'] })
+      await new Promise((r) => setTimeout(r, 10))
+
+      const sent = JSON.parse(mockWs!.sentMessages[mockWs!.sentMessages.length - 1])
+      expect(sent.type).toBe('encrypted')
+      expect(JSON.stringify(sent)).not.toContain('personal_sign')
+
+      const request = await decryptMessage(bridgeKey, sent)
+      expect(request.method).toBe('personal_sign')
+      expect(sent.id).toBe(request.id)
+
+      await simulateEncrypted({ type: 'response', id: request.id, result: '0xsignature' })
+      expect(await requestPromise).toBe('0xsignature')
+    })
+
+    it('should ignore plaintext application messages after key exchange', async () => {
+      await simulateKeyExchange(provider.session.url)
+      await new Promise((r) => setTimeout(r, 10))
+
+      mockWs?.simulateMessage({ type: 'connect', address: '0xevil', chainId: 1 })
+
+      expect(provider.isConnected).toBe(false)
+      expect(provider.accounts).toEqual([])
+    })
+
+    it('should ignore plaintext application messages before key exchange', () => {
+      mockWs?.simulateMessage({ type: 'connect', address: '0xevil', chainId: 1 })
+
+      expect(provider.isEncrypted).toBe(false)
+      expect(provider.isConnected).toBe(false)
+    })
+
+    it('should hold requests until the key exchange completes', async () => {
+      // 模拟 bridge 已连接但尚未完成密钥交换
+      ;(provider as any)._connected = true
+      const requestPromise = provider.request({ method: 'personal_sign', params: ['0x48656c6c6f', '0xabc'] })
+      await new Promise((r) => setTimeout(r, 10))
+
+      expect(mockWs!.sentMessages.some((m) => m.includes('personal_sign'))).toBe(false)
+      expect(mockWs!.sentMessages.some((m) => JSON.parse(m).type === 'encrypted')).toBe(false)
+
+      await simulateKeyExchange(provider.session.url)
+      await new Promise((r) => setTimeout(r, 10))
+
+      const sent = JSON.parse(mockWs!.sentMessages[mockWs!.sentMessages.length - 1])
+      expect(sent.type).toBe('encrypted')
+      const request = await decryptMessage(bridgeKey, sent)
+      expect(request.method).toBe('personal_sign')
+
+      await simulateEncrypted({ type: 'response', id: request.id, result: '0xsignature' })
+      expect(await requestPromise).toBe('0xsignature')
+    })
+
+    it('should ignore a different key from the same bridge connection', async () => {
+      await simulateKeyExchange(provider.session.url)
+      const firstKey = bridgeKey
+      await simulateKeyExchange(provider.session.url)
+      await new Promise((r) => setTimeout(r, 10))
+
+      // 第二个公钥被忽略，仍使用第一个 bridge 的会话密钥
+      bridgeKey = firstKey
+      await simulateEncrypted({ type: 'connect', address: '0xabc', chainId: 1 })
+      expect(provider.isConnected).toBe(true)
+    })
+
+    it('should accept a new key after the bridge disconnects', async () => {
+      await simulateKeyExchange(provider.session.url)
+      mockWs?.simulateMessage({ type: 'disconnect', reason: 'Peer disconnected' })
+      await simulateKeyExchange(provider.session.url)
+      await simulateEncrypted({ type: 'connect', address: '0xabc', chainId: 1 })
+
+      expect(provider.isConnected).toBe(true)
+    })
+
+    it('should persist keys in session data for resumeSession', async () => {
+      await simulateKeyExchange(provider.session.url)
+      await new Promise((r) => setTimeout(r, 10))
+
+      const sessionData = provider.getSessionData()
+      expect(sessionData.keyPair?.d).toBeDefined()
+      expect(sessionData.peerPublicKey).toBeDefined()
+
+      provider.disconnect()
+
+      // 新的 provider 恢复 session 后可直接解密离线期间缓存的密文
+      const resumed = new RemoteProvider()
+      globalThis.fetch = createMockFetch({
+        '/session/ABCD': { ok: true, status: 200, json: () => ({ id: 'ABCD', status: 'connected' }) },
+      })
+      const resumePromise = resumed.resumeSession(JSON.parse(JSON.stringify(sessionData)))
+      await new Promise((r) => setTimeout(r, 20))
+      mockWs?.simulateMessage({ type: 'ready' })
+      await resumePromise
+
+      await simulateEncrypted({ type: 'connect', address: '0xabc', chainId: 1 })
+
+      expect(resumed.isEncrypted).toBe(true)
+      expect(resumed.isConnected).toBe(true)
+      resumed.disconnect()
+    })
+
+    it('should not use encryption when disabled', async () => {
+      const plain = new RemoteProvider({ encryption: false })
+      const connectPromise = plain.connect('http://localhost:3000')
+      await new Promise((r) => setTimeout(r, 20))
+      mockWs?.simulateMessage({ type: 'ready' })
+      await connectPromise
+
+      expect(plain.session.url).not.toContain('#pk=')
+      expect(plain.getSessionData().keyPair).toBeUndefined()
+      plain.disconnect()
+    })
+  })
+
+  describe('multi-wallet sessions', () => {
+    const links = [
+      { participant: 1, url: 'http://localhost:3000/s/ABCD?k=first' },
+      { participant: 2, url: 'http://localhost:3000/s/ABCD?k=second' },
+      { participant: 3, url: 'http://localhost:3000/s/ABCD?k=third' },
+    ]
+
+    function sentRequests() {
+      return mockWs!.sentMessages.map((m) => JSON.parse(m)).filter((m) => m.type === 'request')
+    }
+
+    beforeEach(async () => {
+      provider.disconnect()
+      provider = new RemoteProvider({ participants: 3, encryption: false })
+      globalThis.fetch = createMockFetch({
+        '/session': { ok: true, status: 200, json: () => ({ id: 'ABCD', url: links[0].url, participants: links }) },
+      })
+
+      const connectPromise = provider.connect('http://localhost:3000')
+      await new Promise((r) => setTimeout(r, 20))
+      mockWs?.simulateMessage({ type: 'ready' })
+      await connectPromise
+    })
+
+    it('should require encryption to be disabled', () => {
+      expect(() => new RemoteProvider({ participants: 2 })).toThrow('Multi-wallet sessions require encryption: false')
+    })
+
+    it('should request participant links when creating the session', async () => {
+      const [, init] = (globalThis.fetch as any).mock.calls[0]
+      expect(JSON.parse(init.body)).toEqual({ participants: 3 })
+      expect(provider.participantLinks).toEqual(links)
+      expect(provider.getSessionData().participants).toEqual(links)
+      expect(provider.getQrCodeUrl('svg', { participant: 2 })).toContain('k=second')
+    })
+
+    it('should track participants from tagged messages', () => {
+      const changes: unknown[] = []
+      provider.on('participantsChanged', (participants) => changes.push(participants))
+
+      mockWs?.simulateMessage({ type: 'connect', address: '0x2222', chainId: 1, participant: 2 })
+      mockWs?.simulateMessage({ type: 'connect', address: '0x1111', chainId: 137, participant: 1 })
+
+      expect(provider.getParticipants()).toEqual([
+        { participant: 1, address: '0x1111', chainId: '0x89' },
+        { participant: 2, address: '0x2222', chainId: '0x1' },
+      ])
+      expect(changes).toHaveLength(2)
+
+      mockWs?.simulateMessage({ type: 'disconnect', reason: 'Peer disconnected', participant: 2 })
+      expect(provider.getParticipants().map((p) => p.participant)).toEqual([1])
+      expect(changes).toHaveLength(3)
+    })
+
+    it('should follow participant 1 for EIP-1193 state', () => {
+      const disconnects: unknown[] = []
+      provider.on('disconnect', (info) => disconnects.push(info))
+
+      mockWs?.simulateMessage({ type: 'connect', address: '0x2222', chainId: 1, participant: 2 })
+      expect(provider.isConnected).toBe(false)
+
+      mockWs?.simulateMessage({ type: 'connect', address: '0x1111', chainId: 1, participant: 1 })
+      expect(provider.isConnected).toBe(true)
+      expect(provider.accounts).toEqual(['0x1111'])
+
+      mockWs?.simulateMessage({ type: 'disconnect', participant: 2 })
+      expect(provider.isConnected).toBe(true)
+      expect(disconnects).toEqual([])
+    })
+
+    it('should address plain requests to participant 1', async () => {
+      mockWs?.simulateMessage({ type: 'connect', address: '0x1111', chainId: 1, participant: 1 })
+
+      const requestPromise = provider.request({ method: 'personal_sign', params: ['0x00'] })
+      await new Promise((r) => setTimeout(r, 10))
+
+      const [request] = sentRequests()
+      expect(request.participant).toBe(1)
+      mockWs?.simulateMessage({ type: 'response', id: request.id, result: '0xsig', participant: 1 })
+      expect(await requestPromise).toBe('0xsig')
+    })
+
+    it('should send requests to a single participant', async () => {
+      const requestPromise = provider.requestParticipant(3, { method: 'eth_signTypedData_v4', params: [] })
+      await new Promise((r) => setTimeout(r, 10))
+
+      const [request] = sentRequests()
+      expect(request.participant).toBe(3)
+      mockWs?.simulateMessage({ type: 'response', id: request.id, result: '0xsig3', address: '0x3333', participant: 3 })
+      expect(await requestPromise).toBe('0xsig3')
+    })
+
+    it('should collect responses from every connected participant', async () => {
+      mockWs?.simulateMessage({ type: 'connect', address: '0x1111', chainId: 1, participant: 1 })
+      mockWs?.simulateMessage({ type: 'connect', address: '0x2222', chainId: 1, participant: 2 })
+
+      const resultsPromise = provider.requestAll({ method: 'eth_signTypedData_v4', params: [] })
+      await new Promise((r) => setTimeout(r, 10))
+
+      const requests = sentRequests()
+      expect(requests.map((r) => r.participant)).toEqual([1, 2])
+      mockWs?.simulateMessage({
+        type: 'response',
+        id: requests[1].id,
+        error: { code: 4001, message: 'User rejected' },
+        address: '0x2222',
+        participant: 2,
+      })
+      mockWs?.simulateMessage({ type: 'response', id: requests[0].id, result: '0xsig1', address: '0x1111', participant: 1 })
+
+      const results = await resultsPromise
+      expect(results[0]).toEqual({ participant: 1, address: '0x1111', result: '0xsig1' })
+      expect(results[1].participant).toBe(2)
+      expect(results[1].error?.code).toBe(4001)
+    })
+
+    it('should pass the participant when creating a handoff link', async () => {
+      const handoffPromise = provider.createHandoffLink(2)
+      expect(JSON.parse(mockWs!.sentMessages.at(-1)!)).toEqual({ type: 'handoff_request', participant: 2 })
+
+      mockWs?.simulateMessage({ type: 'handoff_token', token: 'T', expiresAt: 1, url: 'http://localhost:3000/s/ABCD?k=second&handoff=T' })
+      expect((await handoffPromise).url).toBe('http://localhost:3000/s/ABCD?k=second&handoff=T')
+    })
+  })
+
+  describe('read-only RPC', () => {
+    // 本地 JSON-RPC 节点替身
+    let node: ReturnType<typeof Bun.serve>
+    const nodeCalls: Array<{ method: string; params: unknown }> = []
+
+    beforeAll(() => {
+      node = Bun.serve({
+        port: 0,
+        async fetch(request) {
+          const body = await request.json()
+          const answer = (call: { id: number; method: string }) => call.method === 'eth_blockNumber'
+            ? { jsonrpc: '2.0', id: call.id, result: '0x10' }
+            : { jsonrpc: '2.0', id: call.id, error: { code: 3, message: 'execution reverted', data: '0x08c379a0' } }
+          nodeCalls.push(body)
+          return Response.json(Array.isArray(body) ? body.map(answer) : answer(body))
+        },
+      })
+    })
+
+    afterAll(() => {
+      node.stop(true)
+    })
+
+    // 创建 session 的请求走 mock，其余请求（节点替身）走真实 fetch
+    async function connectWith(options: ConstructorParameters<typeof RemoteProvider>[0], responses: Parameters<typeof createMockFetch>[0] = {}) {
+      provider.disconnect()
+      provider = new RemoteProvider({ encryption: false, ...options })
+      const realFetch = originalFetch
+      const mockFetch = createMockFetch({
+        '/session': { ok: true, status: 200, json: () => ({ id: 'ABCD', url: 'http://localhost:3000/s/ABCD?k=secret' }) },
+        ...responses,
+      })
+      globalThis.fetch = ((url: string, init?: RequestInit) =>
+        url.startsWith(`http://localhost:${node.port}`) ? realFetch(url, init) : mockFetch(url, init)) as typeof fetch
+
+      const connectPromise = provider.connect('http://localhost:3000')
+      await new Promise((r) => setTimeout(r, 20))
+      mockWs?.simulateMessage({ type: 'ready' })
+      await connectPromise
+      return mockFetch as unknown as ReturnType<typeof mock>
+    }
+
+    it('should send read-only methods to the configured node', async () => {
+      await connectWith({ rpcUrls: { 1: `http://localhost:${node.port}` } })
+
+      // 钱包未连接时也可以读取链上数据
+      expect(await provider.request({ method: 'eth_blockNumber' })).toBe('0x10')
+      expect(nodeCalls.at(-1)).toMatchObject({ jsonrpc: '2.0', method: 'eth_blockNumber', params: [] })
+      expect(mockWs?.sentMessages.some((m) => JSON.parse(m).type === 'request')).toBe(false)
+    })
+
+    it('should surface node errors', async () => {
+      await connectWith({ rpcUrls: { 1: `http://localhost:${node.port}` } })
+
+      const error = await provider.request({ method: 'eth_call', params: [{ to: '0x0' }, 'latest'] }).catch((e) => e)
+      expect(error.code).toBe(3)
+      expect(error.message).toBe('execution reverted')
+      expect(error.data).toBe('0x08c379a0')
+    })
+
+    it('should send signing methods and other chains to the wallet', async () => {
+      await connectWith({ rpcUrls: { 137: `http://localhost:${node.port}` } })
+      mockWs?.simulateMessage({ type: 'connect', address: '0x1234', chainId: 1 })
+      const count = nodeCalls.length
+
+      provider.request({ method: 'eth_blockNumber' }).catch(() => {})
+      provider.request({ method: 'eth_sendTransaction', params: [{}] }).catch(() => {})
+      await new Promise((r) => setTimeout(r, 10))
+
+      const methods = mockWs!.sentMessages.map((m) => JSON.parse(m)).filter((m) => m.type === 'request').map((m) => m.method)
+      expect(methods).toEqual(['eth_blockNumber', 'eth_sendTransaction'])
+      expect(nodeCalls.length).toBe(count)
+    })
+
+    it('should send batched reads to the node in one request', async () => {
+      await connectWith({ rpcUrls: { 1: `http://localhost:${node.port}` } })
+      mockWs?.simulateMessage({ type: 'connect', address: '0x1234', chainId: 1 })
+      const count = nodeCalls.length
+
+      const batchPromise = provider.requestBatch([
+        { method: 'eth_blockNumber' },
+        { method: 'personal_sign', params: ['0x68', '0x1234'] },
+        { method: 'eth_call', params: [{ to: '0x0' }, 'latest'] },
+      ])
+      await new Promise((r) => setTimeout(r, 20))
+
+      expect(nodeCalls.length).toBe(count + 1)
+      expect((nodeCalls.at(-1) as unknown as Array<{ method: string }>).map((call) => call.method)).toEqual(['eth_blockNumber', 'eth_call'])
+
+      const batch = mockWs!.sentMessages.map((m) => JSON.parse(m)).find((m) => m.type === 'batch_request')
+      expect(batch.requests).toEqual([{ method: 'personal_sign', params: ['0x68', '0x1234'] }])
+      mockWs?.simulateMessage({ type: 'batch_response', id: batch.id, results: [{ result: '0xsig' }] })
+
+      const results = await batchPromise
+      expect(results[0]).toEqual({ result: '0x10' })
+      expect(results[1]).toEqual({ result: '0xsig' })
+      expect(results[2].error?.code).toBe(3)
+      expect(results[2].error?.data).toBe('0x08c379a0')
+    })
+
+    it('should use the server proxy for chains without a local node', async () => {
+      const mockFetch = await connectWith({ rpcProxy: true }, {
+        '/session/ABCD/rpc/1': { ok: true, status: 200, json: () => ({ jsonrpc: '2.0', id: 1, result: '0x20' }) },
+      })
+
+      expect(await provider.request({ method: 'eth_blockNumber' })).toBe('0x20')
+      const [url, init] = mockFetch.mock.calls.at(-1) as [string, RequestInit]
+      expect(url).toBe('http://localhost:3000/session/ABCD/rpc/1?k=secret')
+      expect(JSON.parse(init.body as string)).toMatchObject({ method: 'eth_blockNumber' })
+    })
+
+    it('should fall back to the wallet when the server has no node for the chain', async () => {
+      const mockFetch = await connectWith({ rpcProxy: true })
+      mockWs?.simulateMessage({ type: 'connect', address: '0x1234', chainId: 1 })
+
+      const first = provider.request({ method: 'eth_blockNumber' })
+      await new Promise((r) => setTimeout(r, 10))
+      const request = mockWs!.sentMessages.map((m) => JSON.parse(m)).find((m) => m.type === 'request')
+      expect(request.method).toBe('eth_blockNumber')
+      mockWs?.simulateMessage({ type: 'response', id: request.id, result: '0x30' })
+      expect(await first).toBe('0x30')
+
+      // 之后不再询问服务器
+      const proxyCalls = mockFetch.mock.calls.length
+      provider.request({ method: 'eth_blockNumber' }).catch(() => {})
+      await new Promise((r) => setTimeout(r, 10))
+      expect(mockFetch.mock.calls.length).toBe(proxyCalls)
+    })
   })
 
   describe('message handling', () => {
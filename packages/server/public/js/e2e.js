@@ -0,0 +1,92 @@
+/**
+ * Remote Inject - End-to-end encryption (bridge side)
+ * Mirrors packages/sdk/src/crypto.ts: ECDH P-256 + HKDF-SHA256 + AES-GCM-256.
+ * The DApp public key arrives in the URL fragment (#pk=...), which browsers never send to the server.
+ */
+
+const RemoteInjectE2E = (() => {
+  const ECDH_PARAMS = { name: 'ECDH', namedCurve: 'P-256' }
+  const HKDF_INFO = 'remote-inject-e2e-v1'
+  const encoder = new TextEncoder()
+  const decoder = new TextDecoder()
+
+  function toBase64Url(bytes) {
+    let binary = ''
+    for (let i = 0; i < bytes.length; i++) {
+      binary += String.fromCharCode(bytes[i])
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+  }
+
+  function fromBase64Url(encoded) {
+    const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/')
+    const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i)
+    }
+    return bytes
+  }
+
+  return {
+    // WebCrypto is only available in secure contexts (https or localhost)
+    isSupported() {
+      return typeof crypto !== 'undefined' && typeof crypto.subtle !== 'undefined'
+    },
+
+    // Read the DApp public key from a URL fragment ("#pk=...&ri=...")
+    getPeerKeyFromHash(hash) {
+      if (!hash || hash.length < 2) return null
+      return new URLSearchParams(hash.slice(1)).get('pk')
+    },
+
+    generateKeyPair() {
+      return crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveBits'])
+    },
+
+    async exportPublicKey(key) {
+      const raw = await crypto.subtle.exportKey('raw', key)
+      return toBase64Url(new Uint8Array(raw))
+    },
+
+    importPublicKey(encoded) {
+      return crypto.subtle.importKey('raw', fromBase64Url(encoded), ECDH_PARAMS, true, [])
+    },
+
+    async deriveSessionKey(privateKey, peerPublicKey, sessionId) {
+      const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: peerPublicKey }, privateKey, 256)
+      const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey'])
+      return crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode(sessionId), info: encoder.encode(HKDF_INFO) },
+        hkdfKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      )
+    },
+
+    // Wrap an application message into { type: 'encrypted', id?, connection?, iv, data }
+    // (connection stays in plaintext so the relay can route the response to the right DApp tab)
+    async encrypt(key, message) {
+      const { connection, ...payload } = message
+      const iv = crypto.getRandomValues(new Uint8Array(12))
+      const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(JSON.stringify(payload)))
+      const envelope = { type: 'encrypted', iv: toBase64Url(iv), data: toBase64Url(new Uint8Array(ciphertext)) }
+      if (typeof message.id === 'number') envelope.id = message.id
+      if (typeof connection === 'string') envelope.connection = connection
+      return envelope
+    },
+
+    // Throws if the envelope was tampered with or the key does not match
+    async decrypt(key, envelope) {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64Url(envelope.iv) },
+        key,
+        fromBase64Url(envelope.data)
+      )
+      return JSON.parse(decoder.decode(plaintext))
+    },
+  }
+})()
+
+globalThis.RemoteInjectE2E = RemoteInjectE2E
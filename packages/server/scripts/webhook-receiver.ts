@@ -0,0 +1,48 @@
+/**
+ * Local webhook receiver for testing webhook delivery without outside services
+ *
+ * Usage:
+ *   WEBHOOK_SECRET=dev-secret bun run webhook:receiver          # listens on :3790
+ *   WEBHOOK_URL=http://localhost:3790/webhook WEBHOOK_SECRET=dev-secret bun run dev
+ *
+ * Set RECEIVER_FAIL=3 to answer the first 3 deliveries with 500 and watch the retries.
+ */
+
+import { verifyWebhookSignature, SIGNATURE_HEADER, TIMESTAMP_HEADER, EVENT_HEADER, DELIVERY_HEADER } from '../src/webhooks'
+
+const PORT = parseInt(process.env.RECEIVER_PORT || '3790', 10)
+const SECRET = process.env.WEBHOOK_SECRET || ''
+let failuresLeft = parseInt(process.env.RECEIVER_FAIL || '0', 10)
+
+Bun.serve({
+  port: PORT,
+  async fetch(request) {
+    if (request.method !== 'POST') {
+      return new Response('Webhook receiver: POST events here', { status: 200 })
+    }
+
+    const body = await request.text()
+    const signature = request.headers.get(SIGNATURE_HEADER)
+    const timestamp = request.headers.get(TIMESTAMP_HEADER)
+    const verified = SECRET ? verifyWebhookSignature(SECRET, signature, timestamp, body) : null
+
+    console.log(JSON.stringify({
+      receivedAt: new Date().toISOString(),
+      event: request.headers.get(EVENT_HEADER),
+      delivery: request.headers.get(DELIVERY_HEADER),
+      signature: verified === null ? 'not checked (WEBHOOK_SECRET unset)' : verified ? 'valid' : 'INVALID',
+      payload: JSON.parse(body),
+    }, null, 2))
+
+    if (verified === false) {
+      return new Response('Invalid signature', { status: 401 })
+    }
+    if (failuresLeft > 0) {
+      failuresLeft--
+      return new Response('Simulated failure', { status: 500 })
+    }
+    return new Response('ok')
+  },
+})
+
+console.log(`Webhook receiver listening on http://localhost:${PORT}`)
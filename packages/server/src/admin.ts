@@ -0,0 +1,199 @@
+/**
+ * 管理接口
+ *
+ * 设置 ADMIN_TOKEN 后启用 /admin 路由：
+ * - /admin/api/*：JSON 接口，使用 Authorization: Bearer <token> 认证
+ * - /admin：SSR 管理页面，登录后 token 保存在 HttpOnly + SameSite=Strict cookie 中，页面操作通过表单提交
+ * 未设置 ADMIN_TOKEN 时所有 /admin 路由返回 404。
+ */
+
+import { createHash, timingSafeEqual } from 'crypto'
+import { listSessions, terminateSession, type Session, type SessionStatus } from './session'
+import { messageViolations } from './validation'
+import { sessionMessages, type SessionMessageCounts } from './metrics'
+
+export const ADMIN_TOKEN = process.env.ADMIN_TOKEN || ''
+
+export const ADMIN_COOKIE = 'admin_token'
+
+export interface AdminSessionInfo {
+  id: string
+  status: SessionStatus
+  terminated: boolean
+  createdAt: number
+  expiresAt: number
+  age: number               // 毫秒
+  metadata?: Session['metadata']
+  origin: string | null     // DApp 来源（metadata.url 的 origin）
+  project: string | null    // 创建时使用的 API key 项目
+  connected: { dapp: boolean; mobile: boolean }
+  messages: SessionMessageCounts
+  violations: number
+}
+
+export interface SessionFilter {
+  status?: string
+  origin?: string
+}
+
+/**
+ * 比较 token（先做哈希，避免长度差异和逐字节比较泄露信息）
+ */
+export function verifyAdminToken(candidate: string | null | undefined, token = ADMIN_TOKEN): boolean {
+  if (!token || !candidate) return false
+  const a = createHash('sha256').update(candidate).digest()
+  const b = createHash('sha256').update(token).digest()
+  return timingSafeEqual(a, b)
+}
+
+/**
+ * 从 Authorization: Bearer 头读取 token
+ */
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('authorization') || ''
+  const match = /^Bearer\s+(.+)$/i.exec(header.trim())
+  return match ? match[1] : null
+}
+
+/**
+ * 从 cookie 读取管理页面 token
+ */
+export function getCookieToken(request: Request): string | null {
+  const cookieHeader = request.headers.get('cookie') || ''
+  for (const part of cookieHeader.split(';')) {
+    const [name, ...rest] = part.trim().split('=')
+    if (name === ADMIN_COOKIE) {
+      try {
+        return decodeURIComponent(rest.join('='))
+      } catch {
+        return null
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * 检查 JSON 接口的 Bearer token
+ * @returns 未通过时返回错误响应，通过时返回 null
+ */
+export function checkAdminApiAuth(request: Request, token = ADMIN_TOKEN): Response | null {
+  if (!token) {
+    return new Response('Not Found', { status: 404 })
+  }
+  if (!verifyAdminToken(getBearerToken(request), token)) {
+    return new Response('Unauthorized', {
+      status: 401,
+      headers: { 'WWW-Authenticate': 'Bearer realm="admin"' },
+    })
+  }
+  return null
+}
+
+/**
+ * 检查管理页面 cookie
+ */
+export function isAdminPageAuthorized(request: Request, token = ADMIN_TOKEN): boolean {
+  return verifyAdminToken(getCookieToken(request), token)
+}
+
+/**
+ * 构造登录 cookie（maxAge 为 0 时清除）
+ */
+export function buildAdminCookie(value: string, secure: boolean, maxAge = 8 * 60 * 60): string {
+  const parts = [
+    `${ADMIN_COOKIE}=${encodeURIComponent(value)}`,
+    'Path=/admin',
+    'HttpOnly',
+    'SameSite=Strict',
+    `Max-Age=${maxAge}`,
+  ]
+  if (secure) parts.push('Secure')
+  return parts.join('; ')
+}
+
+/**
+ * 规范化 DApp 来源，无法解析时返回 null
+ */
+export function normalizeOrigin(url: string | undefined): string | null {
+  if (!url) return null
+  try {
+    const origin = new URL(url).origin
+    return origin === 'null' ? null : origin
+  } catch {
+    return null
+  }
+}
+
+export function toAdminSessionInfo(session: Session, now = Date.now()): AdminSessionInfo {
+  return {
+    id: session.id,
+    status: session.status,
+    terminated: session.terminated,
+    createdAt: session.createdAt,
+    expiresAt: session.expiresAt,
+    age: now - session.createdAt,
+    metadata: session.metadata,
+    origin: normalizeOrigin(session.metadata?.url),
+    project: session.projectId ?? null,
+    // 连接可能由集群中的其他节点持有
+    connected: { dapp: session.dappNodes.size > 0, mobile: session.mobileNodes.size > 0 },
+    messages: sessionMessages.get(session.id),
+    violations: messageViolations.count(session.id),
+  }
+}
+
+/**
+ * 列出 session（按创建时间倒序），不包含 secret
+ */
+export function listAdminSessions(filter: SessionFilter = {}, sessions: Iterable<Session> = listSessions()): AdminSessionInfo[] {
+  const origin = filter.origin ? normalizeOrigin(filter.origin) : null
+  const now = Date.now()
+  const result: AdminSessionInfo[] = []
+
+  for (const session of sessions) {
+    if (filter.status && session.status !== filter.status) continue
+    const info = toAdminSessionInfo(session, now)
+    if (filter.origin && info.origin !== origin) continue
+    result.push(info)
+  }
+
+  return result.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/**
+ * 终止来自某个 DApp 来源的全部 session
+ * @returns 被终止的 session ID
+ */
+export function terminateSessionsByOrigin(
+  origin: string,
+  sessions: Iterable<Session> = listSessions(),
+  terminate: (sessionId: string) => void = terminateSession
+): string[] {
+  const target = normalizeOrigin(origin)
+  if (!target) return []
+
+  const terminated: string[] = []
+  for (const session of sessions) {
+    if (session.terminated) continue
+    if (normalizeOrigin(session.metadata?.url) !== target) continue
+    terminated.push(session.id)
+  }
+
+  // 先收集再终止，避免遍历时修改存储
+  terminated.forEach(id => terminate(id))
+  return terminated
+}
+
+/**
+ * 格式化时长（用于管理页面）
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000))
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ${minutes % 60}m`
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`
+}
@@ -0,0 +1,241 @@
+/**
+ * 项目 API key
+ *
+ * CONFIG_DIR/api-keys.json 中配置的 key 通过 Authorization: Bearer <key> 随 POST /session 传入：
+ * - 每个 key 独立的创建速率限制（代替按 IP 的限制）
+ * - 每个 key 同时存在的 session 上限
+ * - 每个 key 允许的 DApp 来源
+ * 未配置 key 时 session 创建保持匿名；设置 API_KEY_REQUIRED=true 后拒绝不带 key 的请求。
+ */
+
+import { createHash } from 'crypto'
+import { RateLimiter, type RateLimiterConfig } from './ratelimit'
+import { getBearerToken, normalizeOrigin } from './admin'
+import { listSessions, type Session } from './session'
+import { apiKeySessions } from './metrics'
+import { logger } from './logger'
+
+const log = logger.child({ component: 'apikeys' })
+
+// 未单独配置时每个 key 的创建速率
+export const DEFAULT_KEY_RATE_LIMIT: RateLimiterConfig = {
+  windowMs: 60000,
+  maxRequests: 60,
+}
+
+/**
+ * api-keys.json 中的一项
+ */
+export interface ApiKeyEntry {
+  id: string                  // 项目标识（出现在指标和日志中，不是密钥）
+  key?: string                // 明文 key
+  keyHash?: string            // 或 key 的 SHA-256（十六进制），避免在配置中保存明文
+  name?: string
+  maxSessions?: number        // 同时存在的 session 上限，0 或缺省表示不限制
+  rateLimit?: Partial<RateLimiterConfig>
+  allowedOrigins?: string[]   // 允许的 DApp 来源，缺省表示不限制
+}
+
+export interface ApiKey {
+  id: string
+  name: string
+  maxSessions: number
+  allowedOrigins: string[] | null
+  limiter: RateLimiter
+}
+
+export type ApiKeyAuthResult =
+  | { ok: true; key: ApiKey | null }
+  | { ok: false; status: 401; error: string }
+
+export interface ApiKeyStats {
+  id: string
+  name: string
+  sessions: number
+  maxSessions: number
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0
+}
+
+/**
+ * 校验一项配置
+ * @returns 错误描述，合法时返回 null
+ */
+export function validateApiKeyEntry(entry: unknown): string | null {
+  if (typeof entry !== 'object' || entry === null) return 'entry must be an object'
+  const e = entry as Record<string, unknown>
+
+  if (typeof e.id !== 'string' || !/^[\w.-]{1,64}$/.test(e.id)) {
+    return 'id must be 1-64 letters, digits, "_", "-" or "."'
+  }
+  if (e.key !== undefined && (typeof e.key !== 'string' || e.key.length < 16)) {
+    return 'key must be a string of at least 16 characters'
+  }
+  if (e.keyHash !== undefined && (typeof e.keyHash !== 'string' || !/^[0-9a-f]{64}$/i.test(e.keyHash))) {
+    return 'keyHash must be a SHA-256 hex digest'
+  }
+  if (e.key === undefined && e.keyHash === undefined) return 'key or keyHash is required'
+  if (e.maxSessions !== undefined && e.maxSessions !== 0 && !isPositiveInteger(e.maxSessions)) {
+    return 'maxSessions must be a non-negative integer'
+  }
+  if (e.rateLimit !== undefined) {
+    const rateLimit = e.rateLimit as Record<string, unknown>
+    if (typeof rateLimit !== 'object' || rateLimit === null) return 'rateLimit must be an object'
+    if (rateLimit.windowMs !== undefined && !isPositiveInteger(rateLimit.windowMs)) {
+      return 'rateLimit.windowMs must be a positive integer'
+    }
+    if (rateLimit.maxRequests !== undefined && !isPositiveInteger(rateLimit.maxRequests)) {
+      return 'rateLimit.maxRequests must be a positive integer'
+    }
+  }
+  if (e.allowedOrigins !== undefined) {
+    if (!Array.isArray(e.allowedOrigins)) return 'allowedOrigins must be an array'
+    for (const origin of e.allowedOrigins) {
+      if (origin !== '*' && (typeof origin !== 'string' || !normalizeOrigin(origin))) {
+        return `invalid origin: ${String(origin)}`
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * 统计某个项目当前未终止的 session 数
+ */
+export function countProjectSessions(projectId: string, sessions: Iterable<Session> = listSessions()): number {
+  let count = 0
+  for (const session of sessions) {
+    if (session.projectId === projectId && !session.terminated) count++
+  }
+  return count
+}
+
+export class ApiKeyRegistry {
+  private keys = new Map<string, ApiKey>()  // key 的 SHA-256 → 项目
+  private required: boolean
+
+  constructor(required = false) {
+    this.required = required
+  }
+
+  get size(): number {
+    return this.keys.size
+  }
+
+  get isRequired(): boolean {
+    return this.required
+  }
+
+  /**
+   * 加载配置（{ keys: [...] } 或数组），不合法的项记录日志后跳过
+   */
+  load(config: unknown): void {
+    this.keys.clear()
+    if (config === null || config === undefined) return
+
+    const entries = Array.isArray(config) ? config : (config as { keys?: unknown }).keys
+    if (!Array.isArray(entries)) {
+      log.error('invalid_config', { error: 'expected { "keys": [...] }' })
+      return
+    }
+
+    const ids = new Set<string>()
+    for (const entry of entries) {
+      const error = validateApiKeyEntry(entry)
+      const id = (entry as ApiKeyEntry)?.id
+      if (error) {
+        log.error('invalid_key', { project: typeof id === 'string' ? id : undefined, error })
+        continue
+      }
+      if (ids.has(id)) {
+        log.error('invalid_key', { project: id, error: 'duplicate id' })
+        continue
+      }
+      ids.add(id)
+      this.add(entry as ApiKeyEntry)
+    }
+
+    log.info('loaded', { keys: this.keys.size, required: this.required })
+  }
+
+  private add(entry: ApiKeyEntry): void {
+    const hash = entry.keyHash ? entry.keyHash.toLowerCase() : hashApiKey(entry.key!)
+    const origins = entry.allowedOrigins?.map(origin => origin === '*' ? origin : normalizeOrigin(origin)!)
+    this.keys.set(hash, {
+      id: entry.id,
+      name: entry.name || entry.id,
+      maxSessions: entry.maxSessions || 0,
+      allowedOrigins: origins && origins.length > 0 && !origins.includes('*') ? origins : null,
+      limiter: new RateLimiter({ ...DEFAULT_KEY_RATE_LIMIT, ...entry.rateLimit }),
+    })
+  }
+
+  list(): ApiKey[] {
+    return [...this.keys.values()]
+  }
+
+  /**
+   * 从 Authorization 头识别项目
+   * 不带 key 时：API_KEY_REQUIRED 为 true 则拒绝，否则按匿名处理（key 为 null）
+   */
+  authenticate(request: Request): ApiKeyAuthResult {
+    const token = getBearerToken(request)
+    if (!token) {
+      if (this.required) return { ok: false, status: 401, error: 'API key required' }
+      return { ok: true, key: null }
+    }
+
+    // 按哈希查找，不逐字节比较明文
+    const key = this.keys.get(hashApiKey(token))
+    if (!key) return { ok: false, status: 401, error: 'Invalid API key' }
+    return { ok: true, key }
+  }
+
+  /**
+   * 检查 DApp 来源（浏览器 Origin 头，没有时用 metadata.url）
+   */
+  isOriginAllowed(key: ApiKey, origin: string | null | undefined): boolean {
+    if (!key.allowedOrigins) return true
+    const normalized = normalizeOrigin(origin ?? undefined)
+    return !!normalized && key.allowedOrigins.includes(normalized)
+  }
+
+  /**
+   * 是否已达到该项目的 session 上限
+   */
+  isOverQuota(key: ApiKey, sessions?: Iterable<Session>): boolean {
+    if (key.maxSessions === 0) return false
+    return countProjectSessions(key.id, sessions) >= key.maxSessions
+  }
+
+  /**
+   * 所有 key 允许的来源（加入 CORS 白名单）
+   */
+  allowedOrigins(): string[] {
+    const origins = new Set<string>()
+    for (const key of this.keys.values()) {
+      key.allowedOrigins?.forEach(origin => origins.add(origin))
+    }
+    return [...origins]
+  }
+
+  /**
+   * 每个项目的当前用量（同时刷新 /metrics 中的 gauge）
+   */
+  getStats(sessions: Session[] = listSessions()): ApiKeyStats[] {
+    return this.list().map(key => {
+      const count = countProjectSessions(key.id, sessions)
+      apiKeySessions.set(count, { project: key.id })
+      return { id: key.id, name: key.name, sessions: count, maxSessions: key.maxSessions }
+    })
+  }
+}
+
+// 预配置的 API key 注册表（key 在启动时由 index.ts 从 CONFIG_DIR 加载）
+export const apiKeys = new ApiKeyRegistry(process.env.API_KEY_REQUIRED === 'true')
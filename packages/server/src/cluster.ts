@@ -0,0 +1,490 @@
+/**
+ * 集群消息总线
+ *
+ * 多个 Relay 实例部署在负载均衡之后时，DApp 和移动端可能落在不同节点上。
+ * 各节点通过总线同步 session 所有权（哪个节点持有哪一端的连接）并转发消息。
+ *
+ * - LoopbackClusterBus：进程内实现，默认单节点使用；共享同一个 LoopbackHub 可在单进程内模拟多节点
+ * - TcpClusterBus：基于 TCP 或 Unix socket 的全连接网状实现，消息为换行分隔的 JSON；
+ *   握手时双方用共享密钥（CLUSTER_SECRET）对对端发来的随机数签名（挑战-应答，无法重放），
+ *   未通过握手的连接发来的帧一律丢弃，超时未完成握手或帧超长的连接直接关闭
+ */
+
+import type { Socket, SocketListener } from 'bun'
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { existsSync, unlinkSync } from 'fs'
+import { logger } from './logger'
+
+const log = logger.child({ component: 'cluster' })
+
+export interface ClusterMessage {
+  type: string
+  [key: string]: unknown
+}
+
+export type ClusterMessageHandler = (message: ClusterMessage, from: string) => void
+export type PeerJoinHandler = (nodeId: string) => void
+export type PeerLeaveHandler = (nodeId: string) => void
+
+export interface ClusterBus {
+  readonly nodeId: string
+  start(): Promise<void>
+  /** 广播消息；指定 target 时只有该节点处理 */
+  publish(message: ClusterMessage, target?: string): void
+  subscribe(handler: ClusterMessageHandler): void
+  /** 新节点加入时回调（用于向其同步现有 session） */
+  onPeerJoin(handler: PeerJoinHandler): void
+  /** 节点离开（崩溃或断开）时回调（用于清理其持有的连接所有权） */
+  onPeerLeave(handler: PeerLeaveHandler): void
+  close(): void
+}
+
+// 总线帧格式
+interface ClusterFrame {
+  from: string
+  target?: string
+  message: ClusterMessage
+}
+
+export function generateNodeId(): string {
+  return crypto.randomUUID().slice(0, 8)
+}
+
+/**
+ * 进程内总线中心，同一 hub 上的总线互相可见
+ */
+export class LoopbackHub {
+  readonly buses = new Set<LoopbackClusterBus>()
+}
+
+/**
+ * 进程内回环总线
+ */
+export class LoopbackClusterBus implements ClusterBus {
+  readonly nodeId: string
+  private hub: LoopbackHub
+  private handlers: ClusterMessageHandler[] = []
+  private peerJoinHandlers: PeerJoinHandler[] = []
+  private peerLeaveHandlers: PeerLeaveHandler[] = []
+
+  constructor(nodeId: string = generateNodeId(), hub: LoopbackHub = new LoopbackHub()) {
+    this.nodeId = nodeId
+    this.hub = hub
+  }
+
+  async start(): Promise<void> {
+    this.hub.buses.add(this)
+    for (const other of this.hub.buses) {
+      if (other === this) continue
+      other.peerJoinHandlers.forEach(handler => handler(this.nodeId))
+    }
+  }
+
+  publish(message: ClusterMessage, target?: string): void {
+    for (const other of this.hub.buses) {
+      if (other === this) continue
+      if (target && other.nodeId !== target) continue
+      // 异步投递，模拟网络传输
+      queueMicrotask(() => other.deliver(message, this.nodeId))
+    }
+  }
+
+  subscribe(handler: ClusterMessageHandler): void {
+    this.handlers.push(handler)
+  }
+
+  onPeerJoin(handler: PeerJoinHandler): void {
+    this.peerJoinHandlers.push(handler)
+  }
+
+  onPeerLeave(handler: PeerLeaveHandler): void {
+    this.peerLeaveHandlers.push(handler)
+  }
+
+  close(): void {
+    if (!this.hub.buses.delete(this)) return
+    for (const other of this.hub.buses) {
+      other.peerLeaveHandlers.forEach(handler => handler(this.nodeId))
+    }
+  }
+
+  private deliver(message: ClusterMessage, from: string): void {
+    this.handlers.forEach(handler => handler(message, from))
+  }
+}
+
+export interface TcpClusterBusConfig {
+  nodeId: string
+  listen: string          // 监听地址：host:port 或 unix:/path/to/socket
+  peers: string[]         // 其他节点的监听地址
+  secret: string          // 集群共享密钥，握手时验证
+  reconnectDelay?: number // 断线重连间隔（毫秒）
+  maxQueueSize?: number   // 连接未就绪时每个对端的最大缓冲帧数
+  maxFrameSize?: number   // 单帧最大长度，超出后关闭连接
+  helloTimeout?: number   // 连接建立后完成握手的时限（毫秒）
+}
+
+type SocketAddress = { unix: string } | { hostname: string; port: number }
+
+export function parseAddress(address: string): SocketAddress {
+  if (address.startsWith('unix:')) {
+    return { unix: address.slice('unix:'.length) }
+  }
+  const index = address.lastIndexOf(':')
+  if (index <= 0) {
+    throw new Error(`Invalid cluster address: ${address}`)
+  }
+  const port = parseInt(address.slice(index + 1), 10)
+  if (isNaN(port)) {
+    throw new Error(`Invalid cluster address: ${address}`)
+  }
+  return { hostname: address.slice(0, index), port }
+}
+
+// 每个 socket 的读写缓冲
+interface SocketState {
+  inbound: string
+  outbound: Buffer | null
+  nodeId: string | null   // 通过握手验证的对端节点 ID
+  nonce: string           // 本端发出的握手随机数，对端须用共享密钥签名
+  helloTimer: ReturnType<typeof setTimeout> | null
+}
+
+// 主动连接的对端
+interface OutgoingPeer {
+  address: string
+  socket: Socket<SocketState> | null
+  nodeId: string | null   // 握手后得知
+  queue: string[]         // 握手完成前的待发送帧
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+/**
+ * TCP / Unix socket 总线
+ *
+ * 每个节点监听 listen 地址，并主动连接 peers 中的每个节点：
+ * 发送走主动连接，接收走被动连接，因此各节点的 peers 配置需要互相包含。
+ */
+export class TcpClusterBus implements ClusterBus {
+  readonly nodeId: string
+  private config: Required<TcpClusterBusConfig>
+  private listener: SocketListener<SocketState> | null = null
+  private peers: OutgoingPeer[] = []
+  private handlers: ClusterMessageHandler[] = []
+  private peerJoinHandlers: PeerJoinHandler[] = []
+  private peerLeaveHandlers: PeerLeaveHandler[] = []
+  private inboundCounts = new Map<string, number>()  // 各节点已验证的被动连接数
+  private closed = false
+
+  constructor(config: TcpClusterBusConfig) {
+    if (!config.secret) {
+      throw new Error('Cluster secret is required')
+    }
+    this.nodeId = config.nodeId
+    this.config = {
+      reconnectDelay: 1000,
+      maxQueueSize: 1000,
+      maxFrameSize: 16 * 1024 * 1024,
+      helloTimeout: 5000,
+      ...config,
+    }
+  }
+
+  async start(): Promise<void> {
+    const address = parseAddress(this.config.listen)
+    const handlers = {
+      open: (socket: Socket<SocketState>) => {
+        this.initSocket(socket)
+        // 握手第一步：向主动连接方发出挑战
+        this.write(socket, this.frame({ type: 'challenge', nonce: socket.data.nonce }))
+      },
+      data: (socket: Socket<SocketState>, chunk: Buffer) => {
+        this.readFrames(socket, chunk, frame => this.handleIncoming(socket, frame))
+      },
+      drain: (socket: Socket<SocketState>) => this.flush(socket),
+      close: (socket: Socket<SocketState>) => {
+        this.clearHelloTimer(socket)
+        this.handleInboundClose(socket)
+      },
+      error: (_socket: Socket<SocketState>, error: Error) => {
+        log.error('inbound_socket_error', { error })
+      },
+    }
+
+    if ('unix' in address) {
+      // 清理上次异常退出遗留的 socket 文件
+      if (existsSync(address.unix)) unlinkSync(address.unix)
+      this.listener = Bun.listen<SocketState>({ unix: address.unix, socket: handlers })
+    } else {
+      this.listener = Bun.listen<SocketState>({ hostname: address.hostname, port: address.port, socket: handlers })
+    }
+
+    log.info('listening', { nodeId: this.nodeId, address: this.config.listen })
+
+    this.peers = this.config.peers.map(peerAddress => ({
+      address: peerAddress,
+      socket: null,
+      nodeId: null,
+      queue: [],
+      timer: null,
+    }))
+    this.peers.forEach(peer => this.dial(peer))
+  }
+
+  publish(message: ClusterMessage, target?: string): void {
+    const line = JSON.stringify({ from: this.nodeId, target, message } satisfies ClusterFrame) + '\n'
+
+    for (const peer of this.peers) {
+      if (target && peer.nodeId && peer.nodeId !== target) continue
+
+      if (peer.socket && peer.nodeId) {
+        this.write(peer.socket, line)
+      } else if (peer.queue.length < this.config.maxQueueSize) {
+        peer.queue.push(line)
+      }
+    }
+  }
+
+  subscribe(handler: ClusterMessageHandler): void {
+    this.handlers.push(handler)
+  }
+
+  onPeerJoin(handler: PeerJoinHandler): void {
+    this.peerJoinHandlers.push(handler)
+  }
+
+  onPeerLeave(handler: PeerLeaveHandler): void {
+    this.peerLeaveHandlers.push(handler)
+  }
+
+  close(): void {
+    this.closed = true
+    for (const peer of this.peers) {
+      if (peer.timer) clearTimeout(peer.timer)
+      peer.socket?.end()
+    }
+    this.listener?.stop(true)
+    this.listener = null
+  }
+
+  // 连接对端，失败后按固定间隔重试
+  private dial(peer: OutgoingPeer): void {
+    if (this.closed) return
+
+    const retry = () => {
+      peer.socket = null
+      peer.nodeId = null
+      if (this.closed || peer.timer) return
+      peer.timer = setTimeout(() => {
+        peer.timer = null
+        this.dial(peer)
+      }, this.config.reconnectDelay)
+    }
+
+    const handlers = {
+      open: (socket: Socket<SocketState>) => {
+        this.initSocket(socket)
+        peer.socket = socket
+      },
+      data: (socket: Socket<SocketState>, chunk: Buffer) => {
+        this.readFrames(socket, chunk, frame => {
+          // 握手第二步：对被动方的挑战签名，并附上本端的随机数让对方证明身份
+          if (frame.message.type === 'challenge' && !socket.data.nodeId) {
+            if (!isNonce(frame.message.nonce)) {
+              socket.end()
+              return
+            }
+            this.write(socket, this.frame({
+              type: 'hello',
+              nonce: socket.data.nonce,
+              auth: this.sign('dial', this.nodeId, frame.message.nonce),
+            }))
+            return
+          }
+          if (frame.message.type === 'hello' && !peer.nodeId) {
+            // 对端的握手回应也要验证，否则可能把消息发给冒充的节点
+            if (!this.verifyHello(frame, 'accept', socket.data.nonce)) {
+              log.warn('peer_auth_failed', { address: peer.address })
+              socket.end()
+              return
+            }
+            this.clearHelloTimer(socket)
+            socket.data.nodeId = frame.from
+            peer.nodeId = frame.from
+            log.info('peer_connected', { nodeId: frame.from, address: peer.address })
+            const queued = peer.queue.splice(0)
+            queued.forEach(line => this.write(socket, line))
+            this.peerJoinHandlers.forEach(handler => handler(frame.from))
+          }
+        })
+      },
+      drain: (socket: Socket<SocketState>) => this.flush(socket),
+      close: (socket: Socket<SocketState>) => {
+        this.clearHelloTimer(socket)
+        retry()
+      },
+      error: (_socket: Socket<SocketState>, error: Error) => {
+        log.error('peer_connect_failed', { address: peer.address, error })
+      },
+      connectError: () => retry(),
+    }
+
+    const address = parseAddress(peer.address)
+    const connecting = 'unix' in address
+      ? Bun.connect<SocketState>({ unix: address.unix, socket: handlers })
+      : Bun.connect<SocketState>({ hostname: address.hostname, port: address.port, socket: handlers })
+
+    connecting.catch(() => retry())
+  }
+
+  private handleIncoming(socket: Socket<SocketState>, frame: ClusterFrame): void {
+    if (frame.message.type === 'hello') {
+      if (socket.data.nodeId) return
+      if (!this.verifyHello(frame, 'dial', socket.data.nonce) || !isNonce(frame.message.nonce)) {
+        log.warn('inbound_auth_failed', { nodeId: String(frame.from).slice(0, 64) })
+        socket.end()
+        return
+      }
+      this.clearHelloTimer(socket)
+      socket.data.nodeId = frame.from
+      this.inboundCounts.set(frame.from, (this.inboundCounts.get(frame.from) ?? 0) + 1)
+      // 握手第三步：对主动方的随机数签名，对端据此确认连接就绪
+      this.write(socket, this.frame({ type: 'hello', auth: this.sign('accept', this.nodeId, frame.message.nonce) }))
+      return
+    }
+    // 未通过握手的连接发来的帧不处理
+    if (!socket.data.nodeId) {
+      log.warn('unauthenticated_frame', { type: String(frame.message.type).slice(0, 64) })
+      socket.end()
+      return
+    }
+    if (frame.target && frame.target !== this.nodeId) return
+    // 发送方以握手时验证的节点 ID 为准
+    this.handlers.forEach(handler => handler(frame.message, socket.data.nodeId!))
+  }
+
+  // 对端的最后一个被动连接断开即视为节点离开（重连期间新连接先完成握手时不触发）
+  private handleInboundClose(socket: Socket<SocketState>): void {
+    const nodeId = socket.data?.nodeId
+    if (!nodeId) return
+    const remaining = (this.inboundCounts.get(nodeId) ?? 1) - 1
+    if (remaining > 0) {
+      this.inboundCounts.set(nodeId, remaining)
+      return
+    }
+    this.inboundCounts.delete(nodeId)
+    if (this.closed) return
+    log.info('peer_left', { nodeId })
+    this.peerLeaveHandlers.forEach(handler => handler(nodeId))
+  }
+
+  // 新连接：生成握手随机数，超时未完成握手则关闭
+  private initSocket(socket: Socket<SocketState>): void {
+    socket.data = { inbound: '', outbound: null, nodeId: null, nonce: randomBytes(16).toString('hex'), helloTimer: null }
+    socket.data.helloTimer = setTimeout(() => {
+      socket.data.helloTimer = null
+      if (socket.data.nodeId) return
+      log.warn('handshake_timeout')
+      socket.end()
+    }, this.config.helloTimeout)
+  }
+
+  private clearHelloTimer(socket: Socket<SocketState>): void {
+    if (!socket.data?.helloTimer) return
+    clearTimeout(socket.data.helloTimer)
+    socket.data.helloTimer = null
+  }
+
+  private frame(message: ClusterMessage): string {
+    return JSON.stringify({ from: this.nodeId, message } satisfies ClusterFrame) + '\n'
+  }
+
+  // 验证对端对本端随机数的签名（签名包含方向，主动方与被动方的签名不能互相冒用）
+  private verifyHello(frame: ClusterFrame, direction: 'dial' | 'accept', nonce: string): boolean {
+    if (typeof frame.from !== 'string' || typeof frame.message.auth !== 'string') return false
+    const expected = Buffer.from(this.sign(direction, frame.from, nonce))
+    const actual = Buffer.from(frame.message.auth)
+    return actual.length === expected.length && timingSafeEqual(actual, expected)
+  }
+
+  private sign(direction: 'dial' | 'accept', nodeId: string, nonce: string): string {
+    return createHmac('sha256', this.config.secret).update(`${direction}:${nodeId}:${nonce}`).digest('hex')
+  }
+
+  // 按行拆分 JSON 帧；缓冲超过最大帧长仍无换行时关闭连接
+  private readFrames(socket: Socket<SocketState>, chunk: Buffer, onFrame: (frame: ClusterFrame) => void): void {
+    socket.data.inbound += chunk.toString()
+
+    let index: number
+    while ((index = socket.data.inbound.indexOf('\n')) !== -1) {
+      const line = socket.data.inbound.slice(0, index)
+      socket.data.inbound = socket.data.inbound.slice(index + 1)
+      if (!line) continue
+
+      try {
+        onFrame(JSON.parse(line))
+      } catch (error) {
+        log.error('invalid_frame', { error })
+      }
+    }
+
+    if (socket.data.inbound.length > this.config.maxFrameSize) {
+      log.warn('frame_too_large', { nodeId: socket.data.nodeId, size: socket.data.inbound.length })
+      socket.data.inbound = ''
+      socket.end()
+    }
+  }
+
+  // 写入数据，处理背压
+  private write(socket: Socket<SocketState>, data: string | Buffer): void {
+    const buffer = typeof data === 'string' ? Buffer.from(data) : data
+    if (socket.data.outbound) {
+      socket.data.outbound = Buffer.concat([socket.data.outbound, buffer])
+      return
+    }
+    const written = socket.write(buffer)
+    if (written < buffer.length) {
+      socket.data.outbound = buffer.subarray(Math.max(written, 0))
+    }
+  }
+
+  private flush(socket: Socket<SocketState>): void {
+    const pending = socket.data.outbound
+    if (!pending) return
+    socket.data.outbound = null
+    this.write(socket, pending)
+  }
+}
+
+// 握手随机数：16 字节十六进制
+function isNonce(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f]{32}$/.test(value)
+}
+
+/**
+ * 根据环境变量创建总线
+ * CLUSTER_NODE_ID=节点 ID（默认随机）
+ * CLUSTER_LISTEN=本节点监听地址（host:port 或 unix:/path），未设置时为单节点模式
+ * CLUSTER_PEERS=其他节点地址，逗号分隔
+ * CLUSTER_SECRET=集群共享密钥（设置 CLUSTER_LISTEN 时必填，各节点相同）
+ */
+export function createClusterBus(): ClusterBus {
+  const nodeId = process.env.CLUSTER_NODE_ID || generateNodeId()
+  const listen = process.env.CLUSTER_LISTEN
+
+  if (!listen) {
+    return new LoopbackClusterBus(nodeId)
+  }
+
+  const peers = (process.env.CLUSTER_PEERS || '')
+    .split(',')
+    .map(peer => peer.trim())
+    .filter(Boolean)
+
+  const secret = process.env.CLUSTER_SECRET
+  if (!secret) {
+    throw new Error('CLUSTER_SECRET is required when CLUSTER_LISTEN is set')
+  }
+
+  return new TcpClusterBus({ nodeId, listen, peers, secret })
+}
@@ -1,10 +1,13 @@
 /**
  * External configuration loader
- * Loads custom i18n translations and themes from CONFIG_DIR
+ * Loads custom i18n translations, themes, API keys and the QR code logo from CONFIG_DIR
  */
 
 import { readdir, readFile } from 'fs/promises'
 import { join, basename } from 'path'
+import { logger } from './logger'
+
+const log = logger.child({ component: 'config' })
 
 // Default config directory (relative to working directory or executable)
 const CONFIG_DIR = process.env.CONFIG_DIR || './config'
@@ -15,9 +18,18 @@ let externalTranslations: Record<string, Record<string, string>> = {}
 // Custom theme CSS loaded from CONFIG_DIR/themes/custom.css
 let customThemeCSS: string | null = null
 
+// Project API keys loaded from CONFIG_DIR/api-keys.json
+let apiKeyConfig: unknown = null
+
+// Custom QR code logo loaded from CONFIG_DIR/logo.svg and CONFIG_DIR/logo.png
+const customLogo: { svg: Buffer | null; png: Buffer | null } = { svg: null, png: null }
+
 // Config load status
 let configLoaded = false
 
+// Files that exist but could not be read or parsed (missing files are not errors)
+const configErrors: string[] = []
+
 /**
  * Load all external configuration files
  * Call this once at startup
@@ -25,11 +37,13 @@ let configLoaded = false
 export async function loadExternalConfig(): Promise<void> {
   if (configLoaded) return
 
-  console.log(`[Config] Loading external config from: ${CONFIG_DIR}`)
+  log.info('loading', { dir: CONFIG_DIR })
 
   await Promise.all([
     loadExternalTranslations(),
     loadCustomTheme(),
+    loadApiKeyConfig(),
+    loadCustomLogo(),
   ])
 
   configLoaded = true
@@ -56,15 +70,16 @@ async function loadExternalTranslations(): Promise<void> {
 
         if (typeof translations === 'object' && translations !== null) {
           externalTranslations[locale] = translations
-          console.log(`[Config] Loaded i18n: ${locale} (${Object.keys(translations).length} keys)`)
+          log.info('i18n_loaded', { locale, keys: Object.keys(translations).length })
         }
       } catch (e) {
-        console.error(`[Config] Failed to load i18n file ${file}:`, e)
+        log.error('i18n_load_failed', { file, error: e })
+        configErrors.push(`i18n/${file}: ${(e as Error).message}`)
       }
     }
   } catch {
     // i18n directory doesn't exist, that's fine
-    console.log('[Config] No external i18n directory found')
+    log.info('i18n_not_found', { dir: i18nDir })
   }
 }
 
@@ -76,13 +91,70 @@ async function loadCustomTheme(): Promise<void> {
 
   try {
     customThemeCSS = await readFile(themePath, 'utf-8')
-    console.log(`[Config] Loaded custom theme (${customThemeCSS.length} bytes)`)
+    log.info('theme_loaded', { bytes: customThemeCSS.length })
   } catch {
     // No custom theme, that's fine
-    console.log('[Config] No custom theme found')
+    log.info('theme_not_found', { path: themePath })
+  }
+}
+
+/**
+ * Load project API keys from CONFIG_DIR/api-keys.json
+ * The file is validated by the API key registry, not here
+ */
+async function loadApiKeyConfig(): Promise<void> {
+  const keysPath = join(CONFIG_DIR, 'api-keys.json')
+
+  try {
+    const content = await readFile(keysPath, 'utf-8')
+    apiKeyConfig = JSON.parse(content)
+    log.info('api_keys_loaded', { path: keysPath })
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      // No API keys, session creation stays anonymous
+      log.info('api_keys_not_found', { path: keysPath })
+    } else {
+      log.error('api_keys_load_failed', { path: keysPath, error: e })
+      configErrors.push(`api-keys.json: ${(e as Error).message}`)
+    }
   }
 }
 
+/**
+ * Load the QR code center logo from CONFIG_DIR/logo.svg and CONFIG_DIR/logo.png
+ * SVG codes can use either file, PNG codes need logo.png
+ */
+async function loadCustomLogo(): Promise<void> {
+  for (const format of ['svg', 'png'] as const) {
+    const logoPath = join(CONFIG_DIR, `logo.${format}`)
+
+    try {
+      customLogo[format] = await readFile(logoPath)
+      log.info('logo_loaded', { path: logoPath, bytes: customLogo[format]!.length })
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.error('logo_load_failed', { path: logoPath, error: e })
+        configErrors.push(`logo.${format}: ${(e as Error).message}`)
+      }
+      // No custom logo, the server logo is used
+    }
+  }
+}
+
+/**
+ * Whether loadExternalConfig has finished and which files failed to load
+ */
+export function getConfigStatus(): { loaded: boolean; errors: string[] } {
+  return { loaded: configLoaded, errors: [...configErrors] }
+}
+
+/**
+ * Get the custom QR code logo files (null when not configured)
+ */
+export function getCustomLogo(): { svg: Buffer | null; png: Buffer | null } {
+  return customLogo
+}
+
 /**
  * Get external translations for a locale
  * Returns empty object if no external translations exist
@@ -119,3 +191,11 @@ export function getCustomThemeCSS(): string | null {
 export function hasCustomTheme(): boolean {
   return customThemeCSS !== null
 }
+
+/**
+ * Get the raw API key configuration
+ * Returns null if CONFIG_DIR/api-keys.json does not exist
+ */
+export function getApiKeyConfig(): unknown {
+  return apiKeyConfig
+}
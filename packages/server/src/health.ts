@@ -0,0 +1,73 @@
+/**
+ * 存活与就绪检查
+ *
+ * - /health/live：进程能响应即存活（排空期间也返回 200，避免编排系统在排空完成前杀掉进程）
+ * - /health/ready：以下任一项不满足时返回 503 和原因，编排系统 / 负载均衡据此把新流量转到其他实例
+ *   1. 未在排空
+ *   2. session 数未达到 MAX_SESSIONS
+ *   3. 外部配置（CONFIG_DIR）已加载且没有读取 / 解析失败的文件
+ *   4. 已配置的 session 存储（SESSION_STORE=sqlite）可用
+ */
+
+import { isAtCapacity, checkSessionStore } from './session'
+import { getConfigStatus } from './config'
+import { drainController } from './shutdown'
+
+export type ReadinessCheckName = 'draining' | 'capacity' | 'config' | 'store'
+
+export interface ReadinessCheck {
+  ok: boolean
+  reason?: string
+}
+
+export interface ReadinessResult {
+  ready: boolean
+  reason?: string  // 第一个失败项的原因
+  checks: Record<ReadinessCheckName, ReadinessCheck>
+}
+
+export interface ReadinessProbes {
+  isDraining: () => boolean
+  isAtCapacity: () => boolean
+  configStatus: () => { loaded: boolean; errors: string[] }
+  storeHealth: () => string | null  // 错误描述，正常时返回 null
+}
+
+const defaultProbes: ReadinessProbes = {
+  isDraining: () => drainController.isDraining,
+  isAtCapacity,
+  configStatus: getConfigStatus,
+  storeHealth: checkSessionStore,
+}
+
+function checkConfig(status: { loaded: boolean; errors: string[] }): ReadinessCheck {
+  if (!status.loaded) return { ok: false, reason: 'External config not loaded' }
+  if (status.errors.length > 0) {
+    return { ok: false, reason: `External config failed to load: ${status.errors.join('; ')}` }
+  }
+  return { ok: true }
+}
+
+function checkStore(storeHealth: () => string | null): ReadinessCheck {
+  let error: string | null
+  try {
+    error = storeHealth()
+  } catch (e) {
+    error = (e as Error).message
+  }
+  return error ? { ok: false, reason: `Session store unavailable: ${error}` } : { ok: true }
+}
+
+/**
+ * 执行所有就绪检查
+ */
+export function checkReadiness(probes: ReadinessProbes = defaultProbes): ReadinessResult {
+  const checks: Record<ReadinessCheckName, ReadinessCheck> = {
+    draining: probes.isDraining() ? { ok: false, reason: 'Server is draining' } : { ok: true },
+    capacity: probes.isAtCapacity() ? { ok: false, reason: 'Server at capacity' } : { ok: true },
+    config: checkConfig(probes.configStatus()),
+    store: checkStore(probes.storeHealth),
+  }
+  const failed = Object.values(checks).find(check => !check.ok)
+  return failed ? { ready: false, reason: failed.reason, checks } : { ready: true, checks }
+}
@@ -0,0 +1,132 @@
+/**
+ * 心跳检测
+ *
+ * 服务端定时向每个连接发送协议层 ping 帧和应用层 { type: 'ping' } 消息（仅 v2 连接，v1 只靠 ping 帧）。
+ * 收到任何数据（消息、pong 帧或应用层 pong）即视为存活；
+ * 连续 maxMissed 个周期无响应的连接被强制关闭，由 close 回调走 unregisterConnection 释放 session。
+ */
+
+import { logger } from './logger'
+import { sendMessage, type VersionedSocket } from './protocol'
+
+const log = logger.child({ component: 'heartbeat' })
+
+export interface HeartbeatConfig {
+  intervalMs: number // ping 间隔（毫秒），0 表示关闭心跳
+  maxMissed: number  // 允许连续未响应的 ping 次数
+}
+
+export interface HeartbeatSocket extends VersionedSocket {
+  ping?(): unknown
+  terminate?(): void
+  close(code?: number, reason?: string): void
+}
+
+// 心跳超时（WebSocket 关闭码，4000-4999 为应用自定义区间）
+export const CLOSE_HEARTBEAT_TIMEOUT = 4408
+
+export class HeartbeatMonitor {
+  private connections = new Map<HeartbeatSocket, number>() // 连接 -> 连续未响应次数
+  private config: HeartbeatConfig
+  private timer: ReturnType<typeof setInterval> | null = null
+
+  constructor(config: HeartbeatConfig) {
+    this.config = config
+  }
+
+  get enabled(): boolean {
+    return this.config.intervalMs > 0
+  }
+
+  get intervalMs(): number {
+    return this.config.intervalMs
+  }
+
+  /**
+   * 开始跟踪连接
+   */
+  track(ws: HeartbeatSocket): void {
+    this.connections.set(ws, 0)
+  }
+
+  /**
+   * 停止跟踪连接（连接关闭时调用）
+   */
+  untrack(ws: HeartbeatSocket): void {
+    this.connections.delete(ws)
+  }
+
+  /**
+   * 收到对端数据，重置未响应计数
+   */
+  markAlive(ws: HeartbeatSocket): void {
+    if (this.connections.has(ws)) {
+      this.connections.set(ws, 0)
+    }
+  }
+
+  get size(): number {
+    return this.connections.size
+  }
+
+  /**
+   * 执行一次心跳周期
+   * @returns 本周期被判定为断开并关闭的连接
+   */
+  tick(): HeartbeatSocket[] {
+    const dead: HeartbeatSocket[] = []
+    const ping = JSON.stringify({ type: 'ping', interval: this.config.intervalMs })
+
+    for (const [ws, missed] of this.connections) {
+      if (missed >= this.config.maxMissed) {
+        this.connections.delete(ws)
+        dead.push(ws)
+        continue
+      }
+
+      this.connections.set(ws, missed + 1)
+      try {
+        ws.ping?.()
+        sendMessage(ws, ping)
+      } catch {
+        // 发送失败的连接在下个周期继续累计未响应次数
+      }
+    }
+
+    // 先从跟踪列表移除再关闭：terminate 会同步触发 close 回调
+    for (const ws of dead) {
+      try {
+        if (ws.terminate) {
+          ws.terminate()
+        } else {
+          ws.close(CLOSE_HEARTBEAT_TIMEOUT, 'Heartbeat timeout')
+        }
+      } catch {}
+    }
+
+    return dead
+  }
+
+  start(): void {
+    if (!this.enabled || this.timer) return
+    this.timer = setInterval(() => {
+      const dead = this.tick()
+      if (dead.length > 0) {
+        log.info('connections_closed', { count: dead.length })
+      }
+    }, this.config.intervalMs)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+}
+
+// 预配置的心跳检测（可通过环境变量配置）
+export const heartbeatMonitor = new HeartbeatMonitor({
+  intervalMs: parseInt(process.env.HEARTBEAT_INTERVAL || '30000', 10),
+  maxMissed: parseInt(process.env.HEARTBEAT_MAX_MISSED || '2', 10),
+})
@@ -9,22 +9,100 @@ import {
   isAtCapacity,
   registerConnection,
   unregisterConnection,
-  getPeer,
+  hasPeer,
+  sendToPeer,
+  bufferForPeer,
+  flushBufferedMessages,
+  countDappConnections,
+  CONNECTION_ID_PATTERN,
   verifySecret,
+  getParticipant,
+  getParticipantSecret,
+  countParticipants,
+  MAX_PARTICIPANTS,
   isMobileLocked,
+  createHandoffToken,
+  verifyHandoffToken,
   startCleanupInterval,
+  initCluster,
+  terminateSession,
+  onSessionEvent,
+  ownsSession,
+  touchSession,
+  extendSession,
+  resolveTtl,
+  closeSessionStore,
   type WebSocketData,
+  type ConnectionKey,
 } from './session'
-import { sessionRateLimiter, getClientIP } from './ratelimit'
+import { createClusterBus } from './cluster'
+import { drainController, ERROR_SERVER_DRAINING } from './shutdown'
+import { checkReadiness } from './health'
+import { pairingRegistry } from './pairing'
+import { encodeQr, parseQrOptions, renderQrSvg, renderQrPng, getSvgLogo, getPngLogo } from './qr'
+import { BUFFERED_MESSAGE_TYPES } from './queue'
+import { heartbeatMonitor } from './heartbeat'
+import { validateMessage, messageViolations, MAX_MESSAGE_SIZE, ERROR_INVALID_MESSAGE, ERROR_MESSAGE_NOT_ALLOWED } from './validation'
+import {
+  parseProtocolVersion,
+  isSupportedVersion,
+  buildReadyMessage,
+  isMessageTypeSupported,
+  sendMessage,
+  SUPPORTED_MAJOR_VERSIONS,
+  CLOSE_UNSUPPORTED_VERSION,
+} from './protocol'
+import {
+  sessionRateLimiter,
+  messageRateLimiter,
+  getClientIP,
+  ERROR_RATE_LIMITED,
+  CLOSE_RATE_LIMITED,
+} from './ratelimit'
+import {
+  renderMetrics,
+  prefersJson,
+  recordRelayedMessage,
+  sessionsCreated,
+  rateLimitedRequests,
+  messagesRejected,
+  wsOpened,
+  wsClosed,
+  apiKeySessionsCreated,
+  apiKeyRejected,
+  PROMETHEUS_CONTENT_TYPE,
+} from './metrics'
 import { renderPage, getAllLocales } from './template'
-import { getCustomThemeCSS } from './config'
+import { getCustomThemeCSS, getApiKeyConfig } from './config'
+import { logger } from './logger'
+import { webhookDispatcher, validateWebhookUrl } from './webhooks'
+import { apiKeys } from './apikeys'
+import { rpcProxy, READ_ONLY_METHODS } from './rpc'
+import {
+  ADMIN_TOKEN,
+  checkAdminApiAuth,
+  isAdminPageAuthorized,
+  verifyAdminToken,
+  buildAdminCookie,
+  listAdminSessions,
+  toAdminSessionInfo,
+  terminateSessionsByOrigin,
+  formatDuration,
+} from './admin'
 
 const PORT = process.env.PORT ? parseInt(process.env.PORT) : 3700
 const HOST = process.env.HOST || 'localhost'
 
+const log = logger.child({ component: 'server' })
+const wsLog = logger.child({ component: 'ws' })
+const adminLog = logger.child({ component: 'admin' })
+
 // CORS configuration: localhost always allowed, additional origins from CORS_ORIGINS env
 // CORS_ORIGINS can be comma-separated list of origins, or '*' for all origins
 const CORS_ORIGINS = process.env.CORS_ORIGINS || ''
+
+// 项目 API key（CONFIG_DIR 已在 template 模块加载时读取）
+apiKeys.load(getApiKeyConfig())
 function getCorsOrigins(): string[] | true {
   if (CORS_ORIGINS === '*') {
     return true // Allow all origins
@@ -45,14 +123,150 @@ function getCorsOrigins(): string[] | true {
       }
     })
   }
+  // Origins allowed by API keys must be able to call POST /session from the browser
+  apiKeys.allowedOrigins().forEach(origin => {
+    if (!origins.includes(origin)) {
+      origins.push(origin)
+    }
+  })
   return origins
 }
 
-// Safe App manifest helper (with CORS headers for cross-origin iframe access)
-function getSafeManifest(request: Request) {
+// 客户端 IP（用 Bun 提供的连接地址判断转发头是否来自可信代理）
+function clientIP(request: Request): string {
+  return getClientIP(request, app.server?.requestIP(request)?.address)
+}
+
+// 请求中的 session 有效期（毫秒）
+function isValidTtl(ttl: unknown): ttl is number {
+  return typeof ttl === 'number' && Number.isFinite(ttl) && ttl > 0
+}
+
+// 管理页面（未登录时渲染登录表单）
+function renderAdminPage(request: Request, options: { error?: string; status?: number } = {}) {
+  const url = new URL(request.url)
+  const authorized = isAdminPageAuthorized(request)
+  const filter = {
+    status: url.searchParams.get('status') || undefined,
+    origin: url.searchParams.get('origin') || undefined,
+  }
+  const terminated = parseInt(url.searchParams.get('terminated') || '', 10)
+
+  const html = renderPage('admin', request, {
+    authorized,
+    error: options.error,
+    notice: authorized && !Number.isNaN(terminated) ? { count: String(terminated) } : null,
+    filter,
+    sessions: authorized ? listAdminSessions(filter) : [],
+    stats: getStats(),
+    now: Date.now(),
+    formatDuration,
+    availableLocales: getAllLocales(),
+  })
+
+  return new Response(html, {
+    status: options.status || (authorized ? 200 : 401),
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  })
+}
+
+// 配对码页面（输入错误时带错误提示重新渲染）
+function renderPairPage(request: Request, options: { error?: string; status?: number } = {}) {
+  const html = renderPage('pair', request, {
+    digits: pairingRegistry.digits,
+    error: options.error,
+  })
+
+  return new Response(html, {
+    status: options.status || 200,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  })
+}
+
+// 配对码兑换失败原因对应的提示文案
+const PAIR_ERROR_MESSAGES = {
+  invalid_format: 'pair.invalidFormat',
+  invalid_code: 'pair.invalidCode',
+  too_many_attempts: 'pair.tooManyAttempts',
+} as const
+
+// 加密公钥（base64url，放在 #pk= fragment 中）
+function isValidPublicKey(value: unknown): value is string {
+  return typeof value === 'string' && /^[\w-]{1,256}$/.test(value)
+}
+
+// 表单提交后重定向回管理页面
+function redirectToAdmin(query = '', setCookie?: string) {
+  const headers: Record<string, string> = { Location: `/admin${query}` }
+  if (setCookie) headers['Set-Cookie'] = setCookie
+  return new Response(null, { status: 303, headers })
+}
+
+function isSecureRequest(request: Request): boolean {
+  return request.headers.get('x-forwarded-proto') === 'https' || new URL(request.url).protocol === 'https:'
+}
+
+// 对外地址（反向代理后以 X-Forwarded-Proto 和 Host 为准）
+function getBaseUrl(request: Request): string {
   const protocol = request.headers.get('x-forwarded-proto') || 'http'
   const host = request.headers.get('host') || `${HOST}:${PORT}`
-  const baseUrl = `${protocol}://${host}`
+  return `${protocol}://${host}`
+}
+
+// Session 链接的二维码（内容与 POST /session 返回的 url 相同，包含 secret，因此不缓存）
+async function renderSessionQr(format: 'svg' | 'png', id: string, query: Record<string, string | undefined>, request: Request) {
+  const session = getSession(id)
+  if (!session) {
+    return new Response('Session not found', { status: 404 })
+  }
+  if (!query.k || !verifySecret(session.id, query.k)) {
+    return new Response('Invalid or missing secret', { status: 403 })
+  }
+  if (session.terminated) {
+    return new Response('Session terminated', { status: 410 })
+  }
+
+  const parsed = parseQrOptions(query)
+  if (!parsed.ok) {
+    return new Response(parsed.error, { status: 400 })
+  }
+  const { options } = parsed
+
+  // DApp 的加密公钥在链接的 fragment 中（不会发送到服务器），由 SDK 通过 pk 参数传入
+  if (query.pk !== undefined && !isValidPublicKey(query.pk)) {
+    return new Response('pk must be a base64url public key', { status: 400 })
+  }
+  // 移交链接：bridge 为新设备展示的二维码带上移交令牌
+  if (query.handoff !== undefined && !verifyHandoffToken(session.id, query.handoff, getParticipant(session.id, query.k) ?? 1)) {
+    return new Response('Invalid or expired handoff token', { status: 403 })
+  }
+  // 多钱包 session 中每个参与者用自己的密钥生成自己的二维码
+  const url = `${getBaseUrl(request)}/s/${session.id}?k=${query.k}`
+    + (query.handoff ? `&handoff=${query.handoff}` : '')
+    + (query.pk ? `#pk=${query.pk}` : '')
+
+  const qr = encodeQr(url, options.ecLevel)
+  const body = format === 'svg'
+    ? renderQrSvg(qr, options, options.logo ? await getSvgLogo() : null)
+    : new Uint8Array(renderQrPng(qr, options, options.logo ? await getPngLogo() : null))
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': format === 'svg' ? 'image/svg+xml' : 'image/png',
+      'Cache-Control': 'no-store',
+    },
+  })
+}
+
+// Safe App manifest helper (with CORS headers for cross-origin iframe access)
+function getSafeManifest(request: Request) {
+  const baseUrl = getBaseUrl(request)
 
   const manifest = {
     name: 'Remote Inject',
@@ -70,7 +284,10 @@ function getSafeManifest(request: Request) {
   })
 }
 
-const app = new Elysia()
+const app = new Elysia({
+  // 超大帧在 WebSocket 层直接断开（关闭码 1009），不再解析；MAX_MESSAGE_SIZE 以内的超限帧回复 error
+  websocket: { maxPayloadLength: MAX_MESSAGE_SIZE * 4 },
+})
   // CORS support
   .use(cors({
     origin: getCorsOrigins(),
@@ -79,19 +296,49 @@ const app = new Elysia()
     credentials: true,
   }))
 
-  // 健康检查端点
+  // 健康检查端点（排空期间返回 503，负载均衡不再转发新流量）
   .get('/health', () => {
     const stats = getStats()
-    return {
-      status: 'ok',
+    const body = {
+      status: drainController.isDraining ? 'draining' : 'ok',
       uptime: stats.uptime,
       sessions: stats.totalSessions,
     }
+    if (drainController.isDraining) {
+      return new Response(JSON.stringify(body), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+    return body
   })
 
-  // 详细统计端点
-  .get('/metrics', () => {
-    return getStats()
+  // 存活检查：进程能响应即返回 200（排空期间同样返回 200）
+  .get('/health/live', () => ({ status: 'alive', uptime: getStats().uptime }))
+
+  // 就绪检查：排空、容量已满、配置加载失败或 session 存储不可用时返回 503 和原因
+  .get('/health/ready', () => {
+    const result = checkReadiness()
+    const body = result.ready
+      ? { status: 'ready', checks: result.checks }
+      : { status: 'not_ready', reason: result.reason, checks: result.checks }
+    return new Response(JSON.stringify(body), {
+      status: result.ready ? 200 : 503,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  })
+
+  // 指标端点（默认 Prometheus 文本格式，Accept: application/json 时返回统计 JSON）
+  .get('/metrics', ({ request }: { request: Request }) => {
+    const stats = getStats()
+    // 同时刷新每个项目的 session gauge
+    const projects = apiKeys.getStats()
+    if (prefersJson(request.headers.get('accept'))) {
+      return apiKeys.size > 0 ? { ...stats, apiKeys: projects } : stats
+    }
+    return new Response(renderMetrics(stats), {
+      headers: { 'Content-Type': PROMETHEUS_CONTENT_TYPE },
+    })
   })
 
   // Safe App manifest for Safe Wallet compatibility
@@ -119,15 +366,37 @@ const app = new Elysia()
 
   // 创建 Session（带速率限制和容量检查）
   .post('/session', async ({ request }: { request: Request }) => {
+    // 排空期间不再创建 session
+    if (drainController.isDraining) {
+      return new Response('Server is shutting down', {
+        status: 503,
+        headers: { 'Retry-After': String(Math.ceil(drainController.reconnectDelayMs / 1000)) },
+      })
+    }
+
     // 检查容量
     if (isAtCapacity()) {
       return new Response('Server at capacity', { status: 503 })
     }
 
-    // 检查速率限制
-    const clientIP = getClientIP(request)
-    if (!sessionRateLimiter.check(clientIP)) {
-      const info = sessionRateLimiter.getInfo(clientIP)
+    // 识别项目 API key（未携带时按匿名处理）
+    const auth = apiKeys.authenticate(request)
+    if (!auth.ok) {
+      log.warn('api_key_rejected', { ip: clientIP(request), error: auth.error })
+      return new Response(auth.error, {
+        status: auth.status,
+        headers: { 'WWW-Authenticate': 'Bearer realm="session"' },
+      })
+    }
+    const apiKey = auth.key
+
+    // 检查速率限制（带 key 时按项目限制，否则按 IP）
+    const limiter = apiKey ? apiKey.limiter : sessionRateLimiter
+    const limitKey = apiKey ? apiKey.id : clientIP(request)
+    if (!limiter.check(limitKey)) {
+      rateLimitedRequests.inc({ endpoint: 'session' })
+      if (apiKey) apiKeyRejected.inc({ project: apiKey.id, reason: 'rate_limit' })
+      const info = limiter.getInfo(limitKey)
       return new Response('Rate limit exceeded', {
         status: 429,
         headers: {
@@ -139,6 +408,10 @@ const app = new Elysia()
 
     // 解析 DApp 元数据
     let metadata
+    let webhookUrl: string | undefined
+    let ttl: unknown
+    let pairing = false
+    let participants: unknown
     try {
       const body = await request.json()
       if (body.name && body.url) {
@@ -148,23 +421,200 @@ const app = new Elysia()
           icon: body.icon,
         }
       }
+      webhookUrl = body.webhookUrl
+      ttl = body.ttl
+      pairing = body.pairing === true
+      participants = body.participants
     } catch {
       // 没有 body 也可以创建 session
     }
 
-    const session = createSession(metadata)
-    const protocol = request.headers.get('x-forwarded-proto') || 'http'
-    const host = request.headers.get('host') || `${HOST}:${PORT}`
+    // 可选的有效期（毫秒），超过服务器上限时截断
+    if (ttl !== undefined && !isValidTtl(ttl)) {
+      return new Response('ttl must be a positive number of milliseconds', { status: 400 })
+    }
+
+    // 多钱包 session（多个移动端参与者，如多签联合签名）
+    if (participants !== undefined
+      && !(Number.isInteger(participants) && (participants as number) >= 1 && (participants as number) <= MAX_PARTICIPANTS)) {
+      return new Response(`participants must be an integer between 1 and ${MAX_PARTICIPANTS}`, { status: 400 })
+    }
+
+    // 可选的 session 级 webhook
+    if (webhookUrl !== undefined) {
+      const error = validateWebhookUrl(webhookUrl, webhookDispatcher.allowedHosts)
+      if (error) {
+        return new Response(error, { status: 400 })
+      }
+      if (!(await webhookDispatcher.isTargetAllowed(webhookUrl as string))) {
+        return new Response('webhookUrl must not point to a private or loopback address', { status: 400 })
+      }
+    }
+
+    if (apiKey) {
+      // 浏览器请求以 Origin 头为准，服务端请求以 metadata.url 为准
+      const origin = request.headers.get('origin') || metadata?.url
+      if (!apiKeys.isOriginAllowed(apiKey, origin)) {
+        apiKeyRejected.inc({ project: apiKey.id, reason: 'origin' })
+        return new Response('Origin not allowed for this API key', { status: 403 })
+      }
+      if (apiKeys.isOverQuota(apiKey)) {
+        apiKeyRejected.inc({ project: apiKey.id, reason: 'quota' })
+        return new Response('Session quota exceeded', { status: 429 })
+      }
+    }
+
+    const session = createSession(metadata, {
+      webhookUrl,
+      projectId: apiKey?.id,
+      ttl: ttl as number | undefined,
+      participants: participants as number | undefined,
+    })
+    sessionsCreated.inc()
+    if (apiKey) apiKeySessionsCreated.inc({ project: apiKey.id })
     // URL 包含 secret，防止暴力枚举
-    const url = `${protocol}://${host}/s/${session.id}?k=${session.secret}`
+    const url = `${getBaseUrl(request)}/s/${session.id}?k=${session.secret}`
+
+    // 可选的数字配对码（无法扫码时在 /pair 页面输入）
+    const code = pairing ? pairingRegistry.issue(session.id) : null
 
     return {
       id: session.id,
       url,
       expiresAt: session.expiresAt,
+      ttl: resolveTtl(session.ttl),
+      ...(code && { pairingCode: code.code, pairingExpiresAt: code.expiresAt }),
+      // 每个参与者的链接（url 即参与者 1 的链接）
+      ...(session.participantSecrets && {
+        participants: session.participantSecrets.map((secret, index) => ({
+          participant: index + 1,
+          url: `${getBaseUrl(request)}/s/${session.id}?k=${secret}`,
+        })),
+      }),
     }
   })
 
+  // 重新生成配对码（替换之前的配对码），可附带 DApp 加密公钥以便跳转后继续使用端到端加密
+  .post('/session/:id/pairing', async ({ params, query, request }: { params: { id: string }; query: { k?: string }; request: Request }) => {
+    const session = getSession(params.id)
+    if (!session) {
+      return new Response('Session not found', { status: 404 })
+    }
+    if (!query.k || !verifySecret(session.id, query.k)) {
+      return new Response('Invalid or missing secret', { status: 403 })
+    }
+    if (session.terminated) {
+      return new Response('Session terminated', { status: 410 })
+    }
+    if (isMobileLocked(session.id)) {
+      return new Response('Wallet already connected', { status: 409 })
+    }
+
+    let publicKey: unknown
+    try {
+      publicKey = (await request.json()).publicKey
+    } catch {
+      // 没有 body 时不带公钥
+    }
+    if (publicKey !== undefined && !isValidPublicKey(publicKey)) {
+      return new Response('publicKey must be a base64url public key', { status: 400 })
+    }
+
+    const code = pairingRegistry.issue(session.id, publicKey as string | undefined)
+    return { code: code.code, expiresAt: code.expiresAt }
+  })
+
+  // 配对码输入页面
+  .get('/pair', ({ request }: { request: Request }) => renderPairPage(request))
+
+  // 兑换配对码：表单提交跳转到 session 链接，JSON 请求返回 { id, url }
+  .post('/pair', async ({ request }: { request: Request }) => {
+    const isJson = request.headers.get('content-type')?.includes('application/json')
+    let code = ''
+    try {
+      code = String((isJson ? (await request.json()).code : (await request.formData()).get('code')) || '')
+    } catch {
+      // 无法解析时按空配对码处理
+    }
+
+    const result = pairingRegistry.redeem(code, clientIP(request))
+    if (!result.ok) {
+      if (result.status === 429) rateLimitedRequests.inc({ endpoint: 'pair' })
+      if (isJson) {
+        return new Response(JSON.stringify({ error: result.error }), {
+          status: result.status,
+          headers: { 'Content-Type': 'application/json' },
+        })
+      }
+      return renderPairPage(request, { error: PAIR_ERROR_MESSAGES[result.error], status: result.status })
+    }
+
+    const path = `/s/${result.sessionId}?k=${result.secret}` + (result.publicKey ? `#pk=${result.publicKey}` : '')
+    if (isJson) {
+      return { id: result.sessionId, url: getBaseUrl(request) + path }
+    }
+    return new Response(null, { status: 303, headers: { Location: path, 'Cache-Control': 'no-store' } })
+  })
+
+  // 延长 Session 有效期（需要连接密钥，供长时间运行的 DApp 使用）
+  .post('/session/:id/extend', async ({ params, query, request }: { params: { id: string }; query: { k?: string }; request: Request }) => {
+    const session = getSession(params.id)
+    if (!session) {
+      return new Response('Session not found', { status: 404 })
+    }
+    if (!query.k || !verifySecret(session.id, query.k)) {
+      return new Response('Invalid or missing secret', { status: 403 })
+    }
+    if (session.terminated) {
+      return new Response('Session terminated', { status: 410 })
+    }
+
+    let ttl: unknown
+    try {
+      ttl = (await request.json()).ttl
+    } catch {
+      // 没有 body 时按 session 自身的有效期延长
+    }
+    if (ttl !== undefined && !isValidTtl(ttl)) {
+      return new Response('ttl must be a positive number of milliseconds', { status: 400 })
+    }
+
+    extendSession(session.id, ttl as number | undefined)
+    return {
+      id: session.id,
+      expiresAt: session.expiresAt,
+      ttl: resolveTtl(session.ttl),
+    }
+  })
+
+  // 只读 RPC 代理：把 eth_call 等请求转发到配置的节点，不经过钱包
+  .post('/session/:id/rpc/:chainId', async ({ params, query, request }: { params: { id: string; chainId: string }; query: { k?: string }; request: Request }) => {
+    const session = getSession(params.id)
+    if (!session) {
+      return new Response('Session not found', { status: 404 })
+    }
+    if (!query.k || !verifySecret(session.id, query.k)) {
+      return new Response('Invalid or missing secret', { status: 403 })
+    }
+    if (session.terminated) {
+      return new Response('Session terminated', { status: 410 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return new Response('Invalid JSON-RPC request', { status: 400 })
+    }
+
+    const result = await rpcProxy.forward(session.id, Number(params.chainId), body)
+    if (!result.ok) {
+      if (result.status === 429) rateLimitedRequests.inc({ endpoint: 'rpc' })
+      return new Response(result.error, { status: result.status })
+    }
+    return result.body
+  })
+
   // 获取 Session 信息（供 bridge 页面使用）
   .get('/session/:id', ({ params }: { params: { id: string } }) => {
     const session = getSession(params.id)
@@ -180,6 +630,7 @@ const app = new Elysia()
       status: session.status,
       metadata: session.metadata,
       expiresAt: session.expiresAt,
+      violations: messageViolations.count(session.id),
     }
   })
 
@@ -226,6 +677,12 @@ const app = new Elysia()
     })
   })
 
+  // Session 链接的二维码（需要 secret），查询参数：size、margin、ec、fg、bg、logo、pk
+  .get('/s/:id/qr.svg', ({ params, query, request }: { params: { id: string }; query: Record<string, string | undefined>; request: Request }) =>
+    renderSessionQr('svg', params.id, query, request))
+  .get('/s/:id/qr.png', ({ params, query, request }: { params: { id: string }; query: Record<string, string | undefined>; request: Request }) =>
+    renderSessionQr('png', params.id, query, request))
+
   // Landing 页面 (SSR with i18n)
   .get('/landing', ({ query, request }: { query: { session?: string; k?: string }; request: Request }) => {
     const sessionId = query.session
@@ -298,6 +755,7 @@ const app = new Elysia()
       sessionId,
       secret,
       dapp,
+      readOnlyMethods: [...READ_ONLY_METHODS],  // batch_request 中可以并行执行的方法
     })
 
     return new Response(html, {
@@ -327,11 +785,129 @@ const app = new Elysia()
     })
   })
 
+  // 管理接口：列出 session（需设置 ADMIN_TOKEN，Authorization: Bearer <token>）
+  .get('/admin/api/sessions', ({ request, query }: { request: Request; query: { status?: string; origin?: string } }) => {
+    const denied = checkAdminApiAuth(request)
+    if (denied) return denied
+    return { sessions: listAdminSessions({ status: query.status, origin: query.origin }) }
+  })
+
+  // 管理接口：查看单个 session
+  .get('/admin/api/sessions/:id', ({ request, params }: { request: Request; params: { id: string } }) => {
+    const denied = checkAdminApiAuth(request)
+    if (denied) return denied
+    const session = getSession(params.id)
+    if (!session) {
+      return new Response('Session not found', { status: 404 })
+    }
+    return toAdminSessionInfo(session)
+  })
+
+  // 管理接口：终止单个 session
+  .delete('/admin/api/sessions/:id', ({ request, params }: { request: Request; params: { id: string } }) => {
+    const denied = checkAdminApiAuth(request)
+    if (denied) return denied
+    const session = getSession(params.id)
+    if (!session) {
+      return new Response('Session not found', { status: 404 })
+    }
+    terminateSession(params.id)
+    adminLog.info('session_terminated', { sessionId: params.id, via: 'api' })
+    return { id: params.id, terminated: true }
+  })
+
+  // 管理接口：按 DApp 来源批量终止，body 为 { origin }
+  .post('/admin/api/sessions/terminate', async ({ request }: { request: Request }) => {
+    const denied = checkAdminApiAuth(request)
+    if (denied) return denied
+
+    let origin: unknown
+    try {
+      origin = (await request.json()).origin
+    } catch {
+      // 下面统一返回 400
+    }
+    if (typeof origin !== 'string' || !origin) {
+      return new Response('Missing origin', { status: 400 })
+    }
+
+    const terminated = terminateSessionsByOrigin(origin)
+    adminLog.info('origin_terminated', { origin, count: terminated.length, via: 'api' })
+    return { origin, terminated }
+  })
+
+  // 管理页面 (SSR with i18n)
+  .get('/admin', ({ request }: { request: Request }) => {
+    if (!ADMIN_TOKEN) {
+      return new Response('Not Found', { status: 404 })
+    }
+    return renderAdminPage(request)
+  })
+
+  .post('/admin/login', async ({ request }: { request: Request }) => {
+    if (!ADMIN_TOKEN) {
+      return new Response('Not Found', { status: 404 })
+    }
+
+    let token = ''
+    try {
+      token = String((await request.formData()).get('token') || '')
+    } catch {
+      // 非表单提交视为 token 为空
+    }
+    if (!verifyAdminToken(token)) {
+      adminLog.warn('login_failed', { ip: clientIP(request) })
+      return renderAdminPage(request, { error: 'admin.invalidToken', status: 401 })
+    }
+    return redirectToAdmin('', buildAdminCookie(token, isSecureRequest(request)))
+  })
+
+  .post('/admin/logout', ({ request }: { request: Request }) => {
+    if (!ADMIN_TOKEN) {
+      return new Response('Not Found', { status: 404 })
+    }
+    return redirectToAdmin('', buildAdminCookie('', isSecureRequest(request), 0))
+  })
+
+  .post('/admin/sessions/:id/terminate', ({ request, params }: { request: Request; params: { id: string } }) => {
+    if (!ADMIN_TOKEN) {
+      return new Response('Not Found', { status: 404 })
+    }
+    if (!isAdminPageAuthorized(request)) {
+      return redirectToAdmin()
+    }
+    const found = !!getSession(params.id)
+    if (found) {
+      terminateSession(params.id)
+      adminLog.info('session_terminated', { sessionId: params.id, via: 'page' })
+    }
+    return redirectToAdmin(`?terminated=${found ? 1 : 0}`)
+  })
+
+  .post('/admin/terminate-origin', async ({ request }: { request: Request }) => {
+    if (!ADMIN_TOKEN) {
+      return new Response('Not Found', { status: 404 })
+    }
+    if (!isAdminPageAuthorized(request)) {
+      return redirectToAdmin()
+    }
+
+    let origin = ''
+    try {
+      origin = String((await request.formData()).get('origin') || '')
+    } catch {
+      // 非表单提交视为未填写
+    }
+    const terminated = origin ? terminateSessionsByOrigin(origin) : []
+    adminLog.info('origin_terminated', { origin, count: terminated.length, via: 'page' })
+    return redirectToAdmin(`?terminated=${terminated.length}`)
+  })
+
   // WebSocket 连接
   .ws('/ws', {
     // 验证查询参数
     beforeHandle({ query }) {
-      const { session, role, k } = query as { session?: string; role?: string; k?: string }
+      const { session, role, k, handoff, client, v } = query as { session?: string; role?: string; k?: string; handoff?: string; client?: string; v?: string }
 
       if (!session || !role) {
         return new Response('Missing session or role parameter', { status: 400 })
@@ -341,18 +917,37 @@ const app = new Elysia()
         return new Response('Invalid role, must be "dapp" or "mobile"', { status: 400 })
       }
 
+      if (client !== undefined && !CONNECTION_ID_PATTERN.test(client)) {
+        return new Response('Invalid client parameter', { status: 400 })
+      }
+
+      // 排空期间拒绝新连接，客户端重连到其他实例
+      if (drainController.isDraining) {
+        return new Response('Server is shutting down', { status: 503 })
+      }
+
       const sessionData = getSession(session)
       if (!sessionData) {
         return new Response('Session not found', { status: 404 })
       }
 
+      // DApp 必须持有 session 密钥（参与者密钥不能冒充 DApp），防止知道 ID 即可静默加入
+      // v1 客户端不传 k：为兼容仍允许，但 session 已有 DApp 连接时同样要求密钥
+      if (role === 'dapp') {
+        const legacy = (parseProtocolVersion(v)?.major ?? 2) < 2 && k === undefined && countDappConnections(session) === 0
+        if (!legacy && k !== sessionData.secret) {
+          return new Response('Invalid or missing secret', { status: 403 })
+        }
+      }
+
       // 移动端需要验证密钥
       if (role === 'mobile') {
         if (!k || !verifySecret(session, k)) {
           return new Response('Invalid or missing secret', { status: 403 })
         }
-        // 检查是否已被锁定
-        if (isMobileLocked(session)) {
+        // 检查该参与者是否已被锁定（持有效移交令牌的新设备可以接管）
+        const participant = getParticipant(session, k) ?? 1
+        if (isMobileLocked(session, participant) && !(handoff && verifyHandoffToken(session, handoff, participant))) {
           return new Response('Session already has a mobile connection', { status: 409 })
         }
       }
@@ -363,43 +958,224 @@ const app = new Elysia()
       const url = new URL(ws.data.request.url)
       const sessionId = url.searchParams.get('session')!
       const role = url.searchParams.get('role') as 'dapp' | 'mobile'
+      wsOpened.inc({ role })
+
+      // 协议版本协商（未指定 v 时按 v1 处理）
+      const version = parseProtocolVersion(url.searchParams.get('v'))
+      if (!isSupportedVersion(version)) {
+        ws.send(JSON.stringify({
+          type: 'error',
+          code: -32005,
+          message: 'Unsupported protocol version',
+          supportedVersions: SUPPORTED_MAJOR_VERSIONS,
+        }))
+        ws.close(CLOSE_UNSUPPORTED_VERSION, 'Unsupported protocol version')
+        wsLog.warn('unsupported_version', { sessionId, role, version: url.searchParams.get('v') })
+        return
+      }
 
       // 存储连接信息
       ;(ws.data as any).sessionId = sessionId
       ;(ws.data as any).role = role
+      ;(ws.data as any).protocolVersion = version.major
+      // DApp 连接 ID（每个标签页一个，未指定时由服务端生成）
+      if (role === 'dapp') {
+        ;(ws.data as any).connectionId = url.searchParams.get('client') || undefined
+      }
+      // 多钱包 session 中由密钥确定参与者编号
+      if (role === 'mobile') {
+        ;(ws.data as any).participant = getParticipant(sessionId, url.searchParams.get('k') || '') ?? undefined
+      }
 
-      // 检查对端是否已连接（用于DApp重连时通知mobile）
-      const existingPeer = getPeer(sessionId, role)
+      // 检查对端是否已连接（用于DApp重连时通知mobile，对端可能在其他节点）
+      const existingPeer = hasPeer(sessionId, role)
 
       // 注册连接
-      const session = registerConnection(sessionId, role, ws.raw as any)
+      const session = registerConnection(sessionId, role, ws.raw as any, {
+        handoffToken: url.searchParams.get('handoff'),
+      })
       if (!session) {
         ws.close(1008, 'Session not found or already locked')
         return
       }
 
-      // 发送 ready 消息
-      ws.send(JSON.stringify({ type: 'ready' }))
+      // 发送 ready 消息（v2 起携带协议版本和能力列表）
+      ws.send(JSON.stringify(buildReadyMessage(version.major)))
+
+      // 心跳检测，及时发现静默断网的连接
+      heartbeatMonitor.track(ws.raw as any)
+      drainController.track(ws.raw as any)
 
-      // 如果DApp重连且mobile已存在，通知mobile重发状态
+      // 补发对端在本端离线期间发送的消息
+      const flushed = flushBufferedMessages(sessionId, role)
+      if (flushed > 0) {
+        wsLog.info('buffer_flushed', { sessionId, role, count: flushed })
+      }
+
+      // 如果DApp重连（或新标签页加入）且mobile已存在，通知mobile重发状态
       if (role === 'dapp' && existingPeer) {
-        existingPeer.send(JSON.stringify({ type: 'dapp_reconnected' }))
-        console.log(`[WS] Notifying mobile that dapp reconnected to session ${sessionId}`)
+        sendToPeer(sessionId, role, JSON.stringify({ type: 'dapp_reconnected' }))
+        wsLog.info('dapp_reconnected', { sessionId, role })
       }
 
-      console.log(`[WS] ${role} connected to session ${sessionId}`)
+      wsLog.info('connected', { sessionId, role, protocolVersion: version.major })
     },
 
     // 收到消息（透传到对端）
     message(ws, message) {
       const data = ws.data as any
-      const { sessionId, role } = data
-      const msgStr = typeof message === 'string' ? message : JSON.stringify(message)
+      const { sessionId, role, connectionId, participant, protocolVersion } = data
+
+      // 任何消息都说明连接存活
+      heartbeatMonitor.markAlive(ws.raw as any)
 
-      // 获取对端连接
-      const peer = getPeer(sessionId, role)
+      // 校验格式、大小和发送方角色，不合法的帧不转发
+      const result = validateMessage(message, role)
+
+      // 令牌桶限速（按连接和按 session），心跳 pong 不计入
+      if (!result.valid || result.message.type !== 'pong') {
+        const rate = messageRateLimiter.check(ws.raw, sessionId, Date.now())
+        if (!rate.allowed) {
+          messageViolations.record(sessionId, ERROR_RATE_LIMITED)
+          messagesRejected.inc({ code: ERROR_RATE_LIMITED })
+          rateLimitedRequests.inc({ endpoint: 'ws' })
+          ws.send(JSON.stringify({
+            type: 'error',
+            code: ERROR_RATE_LIMITED,
+            message: 'Rate limit exceeded',
+            id: result.valid ? result.message.id : result.id,
+            retryAfter: rate.retryAfter,
+          }))
+          if (rate.close) {
+            ws.close(CLOSE_RATE_LIMITED, 'Rate limit exceeded')
+            wsLog.warn('rate_limit_close', { sessionId, role, scope: rate.scope })
+          } else {
+            wsLog.debug('rate_limited', { sessionId, role, scope: rate.scope })
+          }
+          return
+        }
+      }
+
+      if (!result.valid) {
+        const violations = messageViolations.record(sessionId, result.code)
+        messagesRejected.inc({ code: result.code })
+        ws.send(JSON.stringify({
+          type: 'error',
+          code: result.code,
+          message: result.error,
+          id: result.id,
+        }))
+        wsLog.warn('message_rejected', { sessionId, role, code: result.code, error: result.error, violations })
+        return
+      }
+
+      const parsed = result.message
+      let msgStr = result.data
+
+      // v2 新增的消息类型只接受协商了 v2 的连接
+      if (!isMessageTypeSupported(parsed.type, protocolVersion)) {
+        messagesRejected.inc({ code: ERROR_MESSAGE_NOT_ALLOWED })
+        ws.send(JSON.stringify({
+          type: 'error',
+          code: ERROR_MESSAGE_NOT_ALLOWED,
+          message: `${parsed.type} messages require protocol version 2`,
+          id: parsed.id,
+        }))
+        return
+      }
+
+      // 心跳 pong 不转发
+      if (parsed.type === 'pong') return
+
+      // DApp 可以把消息发给多钱包 session 中的某个参与者
+      const session = getSession(sessionId)
+      if (role === 'dapp' && parsed.participant !== undefined
+        && session && (parsed.participant as number) > countParticipants(session)) {
+        ws.send(JSON.stringify({
+          type: 'error',
+          code: ERROR_INVALID_MESSAGE,
+          message: 'Unknown participant',
+          id: parsed.id,
+        }))
+        return
+      }
+
+      // 签发移交令牌，新设备打开返回的链接即可接管移动端（移动端接管自己，DApp 可以指定参与者）
+      if (parsed.type === 'handoff_request') {
+        const target = role === 'mobile' ? participant ?? 1 : (parsed.participant as number | undefined) ?? 1
+        const handoff = createHandoffToken(sessionId, Date.now(), target)
+        if (!handoff || !session) {
+          ws.send(JSON.stringify({ type: 'error', code: -32001, message: 'Session not found' }))
+          return
+        }
+        ws.send(JSON.stringify({
+          type: 'handoff_token',
+          token: handoff.token,
+          expiresAt: handoff.expiresAt,
+          url: `${getBaseUrl(ws.data.request)}/s/${sessionId}?k=${getParticipantSecret(session, target)}&handoff=${handoff.token}`,
+        }))
+        wsLog.info('handoff_requested', { sessionId, role })
+        return
+      }
+
+      // 排空期间不再转发新请求，已转发请求的响应照常送达
+      if (drainController.isDraining && drainController.isNewRequest(role, parsed)) {
+        ws.send(JSON.stringify({
+          type: 'error',
+          code: ERROR_SERVER_DRAINING,
+          message: 'Server is shutting down',
+          id: parsed.id,
+          retryAfter: drainController.reconnectDelayMs,
+        }))
+        return
+      }
+
+      // 其他标签页仍在使用该 session 时，单个标签页断开不通知移动端
+      if (role === 'dapp' && parsed.type === 'disconnect' && countDappConnections(sessionId) > 1) {
+        return
+      }
+
+      // DApp 的消息标注来源连接，移动端在响应中原样带回，服务端据此只发给发起请求的标签页；
+      // 不带 connection 的移动端消息（chainChanged、accountsChanged 等）广播给所有标签页。
+      // 多钱包 session 中移动端的消息标注参与者编号，DApp 的消息带 participant 时只发给该参与者，否则发给所有参与者
+      let target: ConnectionKey | undefined
+      if (role === 'dapp') {
+        msgStr = JSON.stringify({ ...parsed, connection: connectionId })
+        target = parsed.participant as number | undefined
+      } else {
+        if (participant !== undefined) {
+          msgStr = JSON.stringify({ ...parsed, participant })
+        }
+        if (typeof parsed.connection === 'string') {
+          target = parsed.connection
+        }
+      }
+
+      // 透传消息到对端（本节点或经集群总线转发）
+      if (!sendToPeer(sessionId, role, msgStr, target)) {
+        // 对端暂时离线，缓存可补发的消息
+        if (BUFFERED_MESSAGE_TYPES.has(parsed.type)) {
+          const queueSize = bufferForPeer(sessionId, role, msgStr)
+          if (queueSize > 0) {
+            recordRelayedMessage(sessionId, role, role === 'dapp' ? { ...parsed, connection: connectionId } : parsed)
+            sendMessage(ws.raw as any, JSON.stringify({
+              type: 'queued',
+              messageType: parsed.type,
+              id: parsed.id,
+              queueSize,
+            }))
+            return
+          }
+
+          ws.send(JSON.stringify({
+            type: 'error',
+            code: -32004,
+            message: 'Peer not connected and offline queue is full',
+            id: parsed.id,
+          }))
+          return
+        }
 
-      if (!peer) {
         // 对端未连接，发送错误
         ws.send(JSON.stringify({
           type: 'error',
@@ -409,30 +1185,54 @@ const app = new Elysia()
         return
       }
 
-      // 透传消息到对端
-      peer.send(msgStr)
+      recordRelayedMessage(sessionId, role, role === 'dapp' ? { ...parsed, connection: connectionId } : parsed)
+      touchSession(sessionId)
+      // 只记录消息元数据，不记录消息内容
+      wsLog.debug('relayed', {
+        sessionId,
+        role,
+        type: parsed.type,
+        id: parsed.id,
+        method: parsed.type === 'request' ? parsed.method : undefined,
+        bytes: msgStr.length,
+      })
+    },
 
-      console.log(`[WS] ${role} -> ${role === 'dapp' ? 'mobile' : 'dapp'}: ${msgStr.substring(0, 100)}...`)
+    // 协议层 pong（浏览器自动回复 ping 帧）
+    pong(ws) {
+      heartbeatMonitor.markAlive(ws.raw as any)
     },
 
     // 连接关闭
-    close(ws) {
+    close(ws, code) {
       const data = ws.data as any
-      const { sessionId, role } = data
+      const { sessionId, role, connectionId, participant } = data
+
+      heartbeatMonitor.untrack(ws.raw as any)
+      drainController.untrack(ws.raw as any)
+      messageRateLimiter.release(ws.raw)
+      wsClosed.inc({ role: new URL(ws.data.request.url).searchParams.get('role') || '', code })
+
+      // 已被新设备接管：连接所有权已转移，不注销也不通知对端
+      if (data.handedOff) {
+        wsLog.info('handed_off', { sessionId, role, code })
+        return
+      }
 
       if (sessionId && role) {
-        unregisterConnection(sessionId, role)
+        unregisterConnection(sessionId, role, role === 'dapp' ? connectionId : participant ?? 1)
 
-        // 通知对端
-        const peer = getPeer(sessionId, role === 'dapp' ? 'mobile' : 'dapp')
-        if (peer) {
-          peer.send(JSON.stringify({
+        // 通知对端（排空关闭的连接会重连到其他实例，不通知，以免对端当作主动断开）
+        // 还有其他 DApp 标签页连接时，移动端仍在为它们服务，不通知
+        if (!drainController.isDraining && (role === 'mobile' || countDappConnections(sessionId) === 0)) {
+          sendToPeer(sessionId, role, JSON.stringify({
             type: 'disconnect',
             reason: 'Peer disconnected',
+            ...(participant !== undefined && { participant }),
           }))
         }
 
-        console.log(`[WS] ${role} disconnected from session ${sessionId}`)
+        wsLog.info('disconnected', { sessionId, role, code })
       }
     },
   })
@@ -463,19 +1263,69 @@ if (IS_COMPILED) {
     // Return 404 for unmatched paths
     return new Response('Not Found', { status: 404 })
   })
-  console.log('[Static] Using embedded static files')
+  log.info('static_files', { source: 'embedded' })
 } else {
   // Development mode: serve from filesystem
   app.use(staticPlugin({
     assets: 'public',
     prefix: '/',
   }))
-  console.log('[Static] Using filesystem static files')
+  log.info('static_files', { source: 'filesystem' })
 }
 
+// 集群总线（未配置 CLUSTER_LISTEN 时为单节点模式）
+const clusterBus = createClusterBus()
+initCluster(clusterBus)
+pairingRegistry.attachCluster(clusterBus)
+await clusterBus.start()
+
+// session 生命周期事件通知到 webhook（异步投递，不阻塞请求）
+onSessionEvent((event, session, details) => {
+  // 集群中每个节点都会清理过期 session，只由负责该 session 的节点发送 expired
+  if (event === 'expired' && !ownsSession(session)) return
+  void webhookDispatcher.dispatch(event, session, details)
+})
+
+// 钱包已连接或 session 结束后配对码不再可用
+onSessionEvent((event, session) => {
+  if (event === 'connected' || event === 'terminated' || event === 'expired') {
+    pairingRegistry.revoke(session.id)
+  }
+})
+
 app.listen(PORT)
 
 // 启动过期 Session 清理
 startCleanupInterval()
 
-console.log(`Remote Inject Server running at http://${HOST}:${PORT}`)
+// 启动心跳检测
+heartbeatMonitor.start()
+
+log.info('server_started', { url: `http://${HOST}:${PORT}` })
+
+// 优雅停机：排空连接后退出
+async function shutdown(signal: string): Promise<void> {
+  if (drainController.isDraining) {
+    // 再次按 Ctrl+C 立即退出；重复的 SIGTERM（如同时发给进程组）忽略
+    if (signal === 'SIGINT') {
+      log.warn('shutdown_forced', { signal })
+      process.exit(1)
+    }
+    return
+  }
+  log.info('shutdown_started', { signal })
+
+  await drainController.drain()
+  heartbeatMonitor.stop()
+  // 连接已全部关闭，剩余的 keep-alive HTTP 连接直接断开
+  // 不等待 stop 完成：关闭过 WebSocket 的服务器上它可能一直不返回，随后即退出进程
+  void app.stop(true)
+  clusterBus.close()
+  closeSessionStore()
+
+  log.info('shutdown_completed')
+  process.exit(0)
+}
+
+process.on('SIGTERM', () => void shutdown('SIGTERM'))
+process.on('SIGINT', () => void shutdown('SIGINT'))
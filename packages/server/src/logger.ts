@@ -0,0 +1,167 @@
+/**
+ * 结构化日志
+ *
+ * 每条日志输出一行 JSON：{ timestamp, level, component, event, sessionId?, role?, ... }。
+ * 日志级别由 LOG_LEVEL 控制（debug / info / warn / error / silent，默认 info）。
+ * 默认脱敏：URL 中的 k 参数、签名、请求 params 和 secret 等字段不会写入日志；
+ * 本地排查问题时可设置 LOG_REDACT=false 关闭。
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+export type LogFields = Record<string, unknown>
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+}
+
+export interface LoggerConfig {
+  level: LogLevel
+  redact: boolean
+  write?: (line: string, level: LogLevel) => void // 默认 warn/error 写 stderr，其余写 stdout
+}
+
+export const REDACTED = '[REDACTED]'
+
+// 值会被整体替换的字段（不区分大小写）
+const REDACTED_KEYS = new Set(['k', 'secret', 'signature', 'params', 'privatekey', 'authorization', 'token'])
+
+// URL 中的 k 参数（session 密钥）
+const SECRET_QUERY_PATTERN = /([?&#]k=)[^&#\s"]+/g
+
+// 65 字节及以上的十六进制串（ECDSA 签名、签名后的交易等）
+const SIGNATURE_PATTERN = /0x[0-9a-fA-F]{130,}/g
+
+const MAX_DEPTH = 6
+
+/**
+ * 解析 LOG_LEVEL，无法识别时返回 info
+ */
+export function parseLogLevel(value: string | undefined): LogLevel {
+  const level = (value || '').trim().toLowerCase()
+  return level in LEVEL_PRIORITY ? level as LogLevel : 'info'
+}
+
+/**
+ * 递归脱敏
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return value.replace(SECRET_QUERY_PATTERN, `$1${REDACTED}`).replace(SIGNATURE_PATTERN, REDACTED)
+  }
+
+  if (value instanceof Error) {
+    return { name: value.name, message: redact(value.message, depth + 1) }
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]'
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1))
+  }
+
+  const result: LogFields = {}
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = REDACTED_KEYS.has(key.toLowerCase()) ? REDACTED : redact(item, depth + 1)
+  }
+  return result
+}
+
+// 未脱敏时也需要把 Error 转为可序列化的对象
+function serializeErrors(fields: LogFields): LogFields {
+  const result: LogFields = {}
+  for (const [key, value] of Object.entries(fields)) {
+    result[key] = value instanceof Error ? { name: value.name, message: value.message } : value
+  }
+  return result
+}
+
+function defaultWrite(line: string, level: LogLevel): void {
+  if (LEVEL_PRIORITY[level] >= LEVEL_PRIORITY.warn) {
+    console.error(line)
+  } else {
+    console.log(line)
+  }
+}
+
+export class Logger {
+  private config: LoggerConfig
+  private bindings: LogFields
+
+  constructor(config: LoggerConfig, bindings: LogFields = {}) {
+    this.config = config
+    this.bindings = bindings
+  }
+
+  /**
+   * 创建带固定字段的子 logger（共享级别配置）
+   */
+  child(bindings: LogFields): Logger {
+    return new Logger(this.config, { ...this.bindings, ...bindings })
+  }
+
+  get level(): LogLevel {
+    return this.config.level
+  }
+
+  setLevel(level: LogLevel): void {
+    this.config.level = level
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return level !== 'silent' && LEVEL_PRIORITY[level] >= LEVEL_PRIORITY[this.config.level]
+  }
+
+  debug(event: string, fields?: LogFields): void {
+    this.log('debug', event, fields)
+  }
+
+  info(event: string, fields?: LogFields): void {
+    this.log('info', event, fields)
+  }
+
+  warn(event: string, fields?: LogFields): void {
+    this.log('warn', event, fields)
+  }
+
+  error(event: string, fields?: LogFields): void {
+    this.log('error', event, fields)
+  }
+
+  private log(level: LogLevel, event: string, fields: LogFields = {}): void {
+    if (!this.isEnabled(level)) return
+
+    const merged = { ...this.bindings, ...fields }
+    const base = { timestamp: new Date().toISOString(), level, event }
+    // 先写入基础字段保证输出顺序，再覆盖一次防止被同名字段替换
+    const entry = Object.assign(
+      { ...base },
+      this.config.redact ? redact(merged) as LogFields : serializeErrors(merged),
+      base
+    )
+
+    let line: string
+    try {
+      line = JSON.stringify(entry)
+    } catch {
+      // 循环引用等无法序列化的字段
+      line = JSON.stringify({ timestamp: entry.timestamp, level, event, error: 'Unserializable log fields' })
+    }
+    ;(this.config.write || defaultWrite)(line, level)
+  }
+}
+
+// 预配置的根 logger（可通过环境变量配置），各模块使用 logger.child({ component }) 创建
+export const logger = new Logger({
+  level: parseLogLevel(process.env.LOG_LEVEL),
+  redact: process.env.LOG_REDACT !== 'false',
+})
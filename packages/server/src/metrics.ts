@@ -0,0 +1,437 @@
+/**
+ * Prometheus 指标
+ *
+ * /metrics 默认输出 Prometheus 文本格式（text/plain; version=0.0.4），
+ * Accept 优先 application/json 时仍返回 getStats() 的 JSON。
+ * 请求耗时在转发层按 session + id 匹配 request/response 计算（加密信封也携带明文 id）。
+ */
+
+import type { SessionStats } from './session'
+
+type Labels = Record<string, string | number>
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+// 请求耗时分桶（秒）：签名请求需要用户在手机上确认，上限放宽到数分钟
+export const DEFAULT_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300]
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(String(value))}"`)
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf'
+  if (value === -Infinity) return '-Inf'
+  return String(value)
+}
+
+abstract class Metric {
+  protected series = new Map<string, Labels>()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[] = []
+  ) {}
+
+  abstract get type(): string
+  abstract render(): string[]
+
+  // 按 labelNames 顺序生成 key，缺失的 label 记为空字符串
+  protected key(labels: Labels): string {
+    const normalized: Labels = {}
+    for (const name of this.labelNames) {
+      normalized[name] = String(labels[name] ?? '')
+    }
+    const key = this.labelNames.map(name => normalized[name]).join('\u0000')
+    if (!this.series.has(key)) {
+      this.series.set(key, normalized)
+    }
+    return key
+  }
+
+  protected header(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`]
+  }
+}
+
+/**
+ * 只增不减的计数器
+ */
+export class Counter extends Metric {
+  private values = new Map<string, number>()
+
+  get type(): string {
+    return 'counter'
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = this.key(labels)
+    this.values.set(key, (this.values.get(key) || 0) + value)
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(this.key(labels)) || 0
+  }
+
+  reset(): void {
+    this.values.clear()
+    this.series.clear()
+  }
+
+  render(): string[] {
+    const lines = this.header()
+    // 无 label 的计数器在首次递增前也输出 0，便于告警规则引用
+    if (this.labelNames.length === 0 && this.values.size === 0) {
+      lines.push(`${this.name} 0`)
+    }
+    for (const [key, value] of this.values) {
+      lines.push(`${this.name}${formatLabels(this.series.get(key)!)} ${formatValue(value)}`)
+    }
+    return lines
+  }
+}
+
+/**
+ * 瞬时值
+ */
+export class Gauge extends Metric {
+  private values = new Map<string, number>()
+
+  get type(): string {
+    return 'gauge'
+  }
+
+  set(value: number, labels: Labels = {}): void {
+    this.values.set(this.key(labels), value)
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(this.key(labels)) || 0
+  }
+
+  render(): string[] {
+    const lines = this.header()
+    for (const [key, value] of this.values) {
+      lines.push(`${this.name}${formatLabels(this.series.get(key)!)} ${formatValue(value)}`)
+    }
+    return lines
+  }
+}
+
+interface HistogramData {
+  buckets: number[]  // 各分桶计数（非累计）
+  sum: number
+  count: number
+}
+
+/**
+ * 直方图（分桶累计输出 _bucket / _sum / _count）
+ */
+export class Histogram extends Metric {
+  private data = new Map<string, HistogramData>()
+  readonly buckets: number[]
+
+  constructor(name: string, help: string, labelNames: string[] = [], buckets = DEFAULT_LATENCY_BUCKETS) {
+    super(name, help, labelNames)
+    this.buckets = [...buckets].sort((a, b) => a - b)
+  }
+
+  get type(): string {
+    return 'histogram'
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = this.key(labels)
+    let entry = this.data.get(key)
+    if (!entry) {
+      entry = { buckets: new Array(this.buckets.length).fill(0), sum: 0, count: 0 }
+      this.data.set(key, entry)
+    }
+
+    const index = this.buckets.findIndex(bound => value <= bound)
+    if (index !== -1) entry.buckets[index]++
+    entry.sum += value
+    entry.count++
+  }
+
+  getCount(labels: Labels = {}): number {
+    return this.data.get(this.key(labels))?.count || 0
+  }
+
+  getSum(labels: Labels = {}): number {
+    return this.data.get(this.key(labels))?.sum || 0
+  }
+
+  reset(): void {
+    this.data.clear()
+    this.series.clear()
+  }
+
+  render(): string[] {
+    const lines = this.header()
+    for (const [key, entry] of this.data) {
+      const labels = this.series.get(key)!
+      let cumulative = 0
+      for (let i = 0; i < this.buckets.length; i++) {
+        cumulative += entry.buckets[i]
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(this.buckets[i]) })} ${cumulative}`)
+      }
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${entry.count}`)
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(entry.sum)}`)
+      lines.push(`${this.name}_count${formatLabels(labels)} ${entry.count}`)
+    }
+    return lines
+  }
+}
+
+/**
+ * 指标注册表
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>()
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames))
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames))
+  }
+
+  histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets))
+  }
+
+  /**
+   * 输出 Prometheus 文本格式
+   */
+  render(): string {
+    const lines: string[] = []
+    for (const metric of this.metrics.values()) {
+      lines.push(...metric.render())
+    }
+    return lines.join('\n') + '\n'
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric already registered: ${metric.name}`)
+    }
+    this.metrics.set(metric.name, metric)
+    return metric
+  }
+}
+
+/**
+ * 记录转发中的请求，收到同 id 的响应时返回耗时
+ */
+export class RequestTimer {
+  private pending = new Map<string, number>() // sessionId + DApp 连接 ID + id -> 开始时间（各标签页的请求 id 互相独立）
+
+  constructor(
+    private maxPending = 10000,   // 最多跟踪的未完成请求数
+    private maxAgeMs = 600000     // 超过该时间仍无响应的请求不再计入
+  ) {}
+
+  start(sessionId: string, id: number, now = Date.now(), connection = ''): void {
+    if (this.pending.size >= this.maxPending) {
+      this.prune(now)
+    }
+    // 仍然已满时丢弃最早的请求（Map 按插入顺序遍历）
+    if (this.pending.size >= this.maxPending) {
+      const oldest = this.pending.keys().next().value
+      if (oldest !== undefined) this.pending.delete(oldest)
+    }
+    this.pending.set(this.key(sessionId, connection, id), now)
+  }
+
+  /**
+   * @returns 请求耗时（秒），没有对应请求时返回 null
+   */
+  finish(sessionId: string, id: number, now = Date.now(), connection = ''): number | null {
+    const key = this.key(sessionId, connection, id)
+    const startedAt = this.pending.get(key)
+    if (startedAt === undefined) return null
+
+    this.pending.delete(key)
+    if (now - startedAt > this.maxAgeMs) return null
+    return (now - startedAt) / 1000
+  }
+
+  prune(now = Date.now()): number {
+    let removed = 0
+    for (const [key, startedAt] of this.pending) {
+      if (now - startedAt > this.maxAgeMs) {
+        this.pending.delete(key)
+        removed++
+      }
+    }
+    return removed
+  }
+
+  get size(): number {
+    return this.pending.size
+  }
+
+  /**
+   * 统计未完成的请求（未超时），可按 session 过滤
+   */
+  count(filter?: (sessionId: string) => boolean, now = Date.now()): number {
+    let count = 0
+    for (const [key, startedAt] of this.pending) {
+      if (now - startedAt > this.maxAgeMs) continue
+      if (!filter || filter(key.slice(0, key.indexOf(':')))) count++
+    }
+    return count
+  }
+
+  private key(sessionId: string, connection: string, id: number): string {
+    return `${sessionId}:${connection}:${id}`
+  }
+}
+
+export interface SessionMessageCounts {
+  fromDapp: number
+  fromMobile: number
+}
+
+/**
+ * 按 session 统计转发的消息数（供管理接口展示）
+ */
+export class SessionMessageCounter {
+  private counts = new Map<string, SessionMessageCounts>()
+
+  record(sessionId: string, from: 'dapp' | 'mobile'): void {
+    const counts = this.counts.get(sessionId) || { fromDapp: 0, fromMobile: 0 }
+    if (from === 'dapp') counts.fromDapp++
+    else counts.fromMobile++
+    this.counts.set(sessionId, counts)
+  }
+
+  get(sessionId: string): SessionMessageCounts {
+    return { ...(this.counts.get(sessionId) || { fromDapp: 0, fromMobile: 0 }) }
+  }
+
+  clear(sessionId: string): void {
+    this.counts.delete(sessionId)
+  }
+}
+
+// 预配置的指标
+export const registry = new MetricsRegistry()
+
+export const sessionsGauge = registry.gauge('remote_inject_sessions', 'Current sessions by status', ['status'])
+export const maxSessionsGauge = registry.gauge('remote_inject_sessions_max', 'Maximum concurrent sessions (capacity)')
+export const uptimeGauge = registry.gauge('remote_inject_uptime_seconds', 'Server uptime in seconds')
+export const sessionsCreated = registry.counter('remote_inject_sessions_created_total', 'Sessions created')
+export const rateLimitedRequests = registry.counter(
+  'remote_inject_rate_limited_total',
+  'Requests rejected by rate limiting',
+  ['endpoint']
+)
+export const messagesRelayed = registry.counter(
+  'remote_inject_messages_relayed_total',
+  'Messages relayed between peers',
+  ['type', 'direction']
+)
+export const messagesRejected = registry.counter(
+  'remote_inject_messages_rejected_total',
+  'Messages rejected by validation',
+  ['code']
+)
+export const wsOpened = registry.counter('remote_inject_ws_opened_total', 'WebSocket connections opened', ['role'])
+export const wsClosed = registry.counter(
+  'remote_inject_ws_closed_total',
+  'WebSocket connections closed by close code',
+  ['role', 'code']
+)
+export const apiKeySessions = registry.gauge('remote_inject_api_key_sessions', 'Current sessions per API key project', ['project'])
+export const apiKeySessionsCreated = registry.counter(
+  'remote_inject_api_key_sessions_created_total',
+  'Sessions created per API key project',
+  ['project']
+)
+export const apiKeyRejected = registry.counter(
+  'remote_inject_api_key_rejected_total',
+  'Session creations rejected per API key project',
+  ['project', 'reason']
+)
+export const rpcRequests = registry.counter(
+  'remote_inject_rpc_requests_total',
+  'Read-only RPC requests proxied to configured nodes',
+  ['chain', 'result']
+)
+export const requestDuration = registry.histogram(
+  'remote_inject_request_duration_seconds',
+  'Round-trip time between a relayed request and its response'
+)
+
+export const requestTimer = new RequestTimer()
+export const sessionMessages = new SessionMessageCounter()
+
+/**
+ * 记录一条已转发（或已缓存待补发）的消息
+ * DApp 发出的 request/encrypted 开始计时，移动端发回的同 id response/encrypted 结束计时
+ */
+export function recordRelayedMessage(
+  sessionId: string,
+  from: 'dapp' | 'mobile',
+  message: { type: string; id?: number; connection?: unknown },  // connection 为发起请求的 DApp 连接 ID
+  timer = requestTimer,
+  now = Date.now()
+): void {
+  const direction = from === 'dapp' ? 'dapp_to_mobile' : 'mobile_to_dapp'
+  messagesRelayed.inc({ type: message.type, direction })
+  sessionMessages.record(sessionId, from)
+
+  if (typeof message.id !== 'number') return
+
+  const connection = typeof message.connection === 'string' ? message.connection : ''
+  if (from === 'dapp' && (message.type === 'request' || message.type === 'batch_request' || message.type === 'encrypted')) {
+    timer.start(sessionId, message.id, now, connection)
+  } else if (from === 'mobile' && (message.type === 'response' || message.type === 'batch_response' || message.type === 'encrypted')) {
+    const seconds = timer.finish(sessionId, message.id, now, connection)
+    if (seconds !== null) requestDuration.observe(seconds)
+  }
+}
+
+/**
+ * 刷新 session 相关的 gauge 并输出全部指标
+ */
+export function renderMetrics(stats: SessionStats): string {
+  sessionsGauge.set(stats.pendingSessions, { status: 'pending' })
+  sessionsGauge.set(stats.connectedSessions, { status: 'connected' })
+  maxSessionsGauge.set(stats.maxSessions)
+  uptimeGauge.set(Math.floor(stats.uptime / 1000))
+  return registry.render()
+}
+
+/**
+ * 按 Accept 头判断客户端是否要 JSON（application/json 的 q 值不低于文本格式时）
+ */
+export function prefersJson(accept: string | null | undefined): boolean {
+  if (!accept) return false
+
+  let jsonQ = 0
+  let textQ = 0
+  for (const part of accept.split(',')) {
+    const [mediaType, ...params] = part.trim().toLowerCase().split(';').map(s => s.trim())
+    const qParam = params.find(p => p.startsWith('q='))
+    const q = qParam ? parseFloat(qParam.slice(2)) : 1
+    if (Number.isNaN(q)) continue
+
+    if (mediaType === 'application/json') {
+      jsonQ = Math.max(jsonQ, q)
+    } else if (mediaType === 'text/plain' || mediaType === 'application/openmetrics-text') {
+      textQ = Math.max(textQ, q)
+    }
+  }
+
+  return jsonQ > 0 && jsonQ >= textQ
+}
@@ -0,0 +1,213 @@
+/**
+ * 数字配对码（无法扫码时手动输入）
+ *
+ * POST /session 传入 pairing: true（或调用 POST /session/:id/pairing）后获得 6-8 位数字配对码，
+ * 用户在 /pair 页面输入后跳转到 /s/:id?k=secret。配对码：
+ * - 有效期短（PAIRING_CODE_TTL），且不超过 session 本身的有效期
+ * - 只能使用一次，移动端连接、session 终止或过期后失效
+ * - 每个 IP 在窗口内最多输错 PAIRING_IP_MAX_ATTEMPTS 次
+ * - 所有 IP 在 PAIRING_FAILURE_WINDOW 内累计输错 PAIRING_MAX_FAILURES 次后暂停兑换，直到窗口滑过；
+ *   输错不会使任何配对码作废，其他 session 的配对码不受影响
+ * 配对码通过集群总线同步，任意节点都可以兑换。
+ */
+
+import { RateLimiter } from './ratelimit'
+import { getSession } from './session'
+import type { ClusterBus, ClusterMessage } from './cluster'
+import { logger } from './logger'
+
+const log = logger.child({ component: 'pairing' })
+
+// 全局输错计数在限流器中的键
+const GLOBAL_KEY = 'global'
+
+export interface PairingConfig {
+  digits: number       // 配对码位数（6-8）
+  ttlMs: number        // 有效期
+  ipLimit: { windowMs: number; maxRequests: number }      // 每个 IP 的输错次数限制
+  failureLimit: { windowMs: number; maxRequests: number } // 所有 IP 累计的输错次数限制（只限流，不作废配对码）
+}
+
+export interface PairingCode {
+  code: string
+  sessionId: string
+  expiresAt: number
+  publicKey?: string  // DApp 的加密公钥（跳转时放回 #pk= fragment）
+}
+
+export type PairingRedeemResult =
+  | { ok: true; sessionId: string; secret: string; publicKey?: string }
+  | { ok: false; status: 400 | 404 | 429; error: 'invalid_format' | 'invalid_code' | 'too_many_attempts' }
+
+/**
+ * 生成指定位数的随机数字（逐位拒绝采样，保证均匀分布）
+ */
+export function generateDigits(length: number): string {
+  let result = ''
+  while (result.length < length) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(length))) {
+      if (byte < 250 && result.length < length) result += String(byte % 10)
+    }
+  }
+  return result
+}
+
+export class PairingRegistry {
+  private codes = new Map<string, PairingCode>()   // 配对码 → 条目
+  private bySession = new Map<string, string>()    // session ID → 配对码
+  private config: PairingConfig
+  private ipLimiter: RateLimiter
+  private failureLimiter: RateLimiter
+  private bus: ClusterBus | null = null
+
+  constructor(config: PairingConfig) {
+    this.config = config
+    this.ipLimiter = new RateLimiter(config.ipLimit)
+    this.failureLimiter = new RateLimiter(config.failureLimit)
+  }
+
+  get digits(): number {
+    return this.config.digits
+  }
+
+  get size(): number {
+    return this.codes.size
+  }
+
+  /**
+   * 接入集群总线，同步配对码的创建、失效和全局输错次数
+   */
+  attachCluster(bus: ClusterBus): void {
+    this.bus = bus
+    bus.subscribe(message => this.handleClusterMessage(message))
+    bus.onPeerJoin(nodeId => {
+      for (const entry of this.codes.values()) {
+        bus.publish({ type: 'pairing_created', pairing: entry }, nodeId)
+      }
+    })
+  }
+
+  /**
+   * 为 session 生成新的配对码（替换之前的配对码）
+   */
+  issue(sessionId: string, publicKey?: string, now = Date.now()): PairingCode {
+    this.cleanup(now)
+    this.revoke(sessionId)
+
+    let code: string
+    do {
+      code = generateDigits(this.config.digits)
+    } while (this.codes.has(code))
+
+    const session = getSession(sessionId)
+    const expiresAt = Math.min(now + this.config.ttlMs, session?.expiresAt ?? Infinity)
+    const entry: PairingCode = { code, sessionId, expiresAt, publicKey }
+    this.add(entry)
+    this.bus?.publish({ type: 'pairing_created', pairing: entry })
+    log.info('code_issued', { sessionId, expiresAt })
+    return { ...entry }
+  }
+
+  /**
+   * 兑换配对码，成功后配对码立即失效
+   */
+  redeem(code: string, ip: string, now = Date.now()): PairingRedeemResult {
+    const normalized = code.replace(/[\s-]/g, '')
+    if (!new RegExp(`^\\d{${this.config.digits}}$`).test(normalized)) {
+      return { ok: false, status: 400, error: 'invalid_format' }
+    }
+
+    if (this.ipLimiter.getInfo(ip).remaining === 0) {
+      log.warn('ip_blocked', { ip })
+      return { ok: false, status: 429, error: 'too_many_attempts' }
+    }
+
+    // 全局输错过多时暂停兑换（只减慢猜测速度，不作废任何配对码）
+    if (this.failureLimiter.getInfo(GLOBAL_KEY).remaining === 0) {
+      log.warn('redeem_throttled', { ip })
+      return { ok: false, status: 429, error: 'too_many_attempts' }
+    }
+
+    this.cleanup(now)
+    const entry = this.codes.get(normalized)
+    const session = entry ? getSession(entry.sessionId) : undefined
+    if (!entry || !session || session.terminated) {
+      this.ipLimiter.check(ip)
+      this.failureLimiter.check(GLOBAL_KEY)
+      this.bus?.publish({ type: 'pairing_failed' })
+      log.warn('code_rejected', { ip })
+      return { ok: false, status: 404, error: 'invalid_code' }
+    }
+
+    this.remove(entry.sessionId)
+    this.bus?.publish({ type: 'pairing_revoked', sessionId: entry.sessionId })
+    log.info('code_redeemed', { sessionId: entry.sessionId, ip })
+    return { ok: true, sessionId: session.id, secret: session.secret, publicKey: entry.publicKey }
+  }
+
+  /**
+   * 使 session 的配对码失效（移动端已连接、session 终止或过期时调用）
+   */
+  revoke(sessionId: string): void {
+    if (!this.bySession.has(sessionId)) return
+    this.remove(sessionId)
+    this.bus?.publish({ type: 'pairing_revoked', sessionId })
+  }
+
+  /**
+   * 获取 session 当前的配对码
+   */
+  get(sessionId: string): PairingCode | undefined {
+    const code = this.bySession.get(sessionId)
+    const entry = code ? this.codes.get(code) : undefined
+    return entry ? { ...entry } : undefined
+  }
+
+  cleanup(now = Date.now()): void {
+    for (const entry of this.codes.values()) {
+      if (entry.expiresAt <= now) this.remove(entry.sessionId)
+    }
+  }
+
+  private add(entry: PairingCode): void {
+    this.codes.set(entry.code, entry)
+    this.bySession.set(entry.sessionId, entry.code)
+  }
+
+  private remove(sessionId: string): void {
+    const code = this.bySession.get(sessionId)
+    if (code) this.codes.delete(code)
+    this.bySession.delete(sessionId)
+  }
+
+  private handleClusterMessage(message: ClusterMessage): void {
+    switch (message.type) {
+      case 'pairing_created': {
+        const pairing = message.pairing as PairingCode
+        this.remove(pairing.sessionId)
+        this.add({ ...pairing })
+        break
+      }
+      case 'pairing_revoked':
+        this.remove(message.sessionId as string)
+        break
+      case 'pairing_failed':
+        this.failureLimiter.check(GLOBAL_KEY)
+        break
+    }
+  }
+}
+
+// 预配置的配对码注册表（可通过环境变量配置）
+export const pairingRegistry = new PairingRegistry({
+  digits: Math.min(Math.max(parseInt(process.env.PAIRING_CODE_LENGTH || '6', 10) || 6, 6), 8),  // 6-8 位
+  ttlMs: parseInt(process.env.PAIRING_CODE_TTL || '300000', 10),
+  ipLimit: {
+    windowMs: parseInt(process.env.PAIRING_IP_WINDOW || '900000', 10),
+    maxRequests: parseInt(process.env.PAIRING_IP_MAX_ATTEMPTS || '5', 10),
+  },
+  failureLimit: {
+    windowMs: parseInt(process.env.PAIRING_FAILURE_WINDOW || '60000', 10),
+    maxRequests: parseInt(process.env.PAIRING_MAX_FAILURES || '50', 10),
+  },
+})
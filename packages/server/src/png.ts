@@ -0,0 +1,160 @@
+/**
+ * 最小 PNG 编解码（服务端二维码使用，不依赖图像库）
+ *
+ * - 编码：8 位 RGB，不隔行，每行无过滤
+ * - 解码：8 位灰度 / 灰度 + alpha / RGB / RGBA，不隔行（用于读取二维码中心 logo）
+ */
+
+import { deflateSync, inflateSync } from 'zlib'
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+// 解码后的图像，data 为 RGBA（每像素 4 字节）
+export interface RgbaImage {
+  width: number
+  height: number
+  data: Uint8Array
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function chunk(type: string, data: Uint8Array): Buffer {
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data])
+  const result = Buffer.alloc(body.length + 8)
+  result.writeUInt32BE(data.length, 0)
+  body.copy(result, 4)
+  result.writeUInt32BE(crc32(body), body.length + 4)
+  return result
+}
+
+/**
+ * 编码 RGB 图像
+ * @param rgb - 每像素 3 字节，按行排列
+ */
+export function encodePng(width: number, height: number, rgb: Uint8Array): Buffer {
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(height, 4)
+  header[8] = 8   // 位深
+  header[9] = 2   // 颜色类型：RGB
+  header[10] = 0  // 压缩方式
+  header[11] = 0  // 过滤方式
+  header[12] = 0  // 不隔行
+
+  // 每行前加过滤类型 0（None）
+  const stride = width * 3
+  const raw = Buffer.alloc((stride + 1) * height)
+  for (let y = 0; y < height; y++) {
+    raw.set(rgb.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1)
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', new Uint8Array(0)),
+  ])
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c
+  const pa = Math.abs(p - a)
+  const pb = Math.abs(p - b)
+  const pc = Math.abs(p - c)
+  if (pa <= pb && pa <= pc) return a
+  return pb <= pc ? b : c
+}
+
+// 每种颜色类型的通道数
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 }
+
+/**
+ * 解码 PNG 为 RGBA
+ * @throws 不是 PNG 或格式不受支持时
+ */
+export function decodePng(buffer: Uint8Array): RgbaImage {
+  const data = Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+  if (data.length < 8 || !data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('not a PNG file')
+  }
+
+  let width = 0
+  let height = 0
+  let colorType = -1
+  const idat: Buffer[] = []
+
+  for (let offset = 8; offset + 8 <= data.length;) {
+    const length = data.readUInt32BE(offset)
+    const type = data.toString('ascii', offset + 4, offset + 8)
+    const body = data.subarray(offset + 8, offset + 8 + length)
+    offset += length + 12
+
+    if (type === 'IHDR') {
+      width = body.readUInt32BE(0)
+      height = body.readUInt32BE(4)
+      colorType = body[9]
+      if (body[8] !== 8 || CHANNELS[colorType] === undefined || body[12] !== 0) {
+        throw new Error('unsupported PNG format (only 8-bit non-interlaced gray / RGB / RGBA)')
+      }
+    } else if (type === 'IDAT') {
+      idat.push(body)
+    } else if (type === 'IEND') {
+      break
+    }
+  }
+  if (!width || !height || idat.length === 0) throw new Error('incomplete PNG file')
+
+  const channels = CHANNELS[colorType]
+  const stride = width * channels
+  const raw = inflateSync(Buffer.concat(idat))
+  if (raw.length < (stride + 1) * height) throw new Error('truncated PNG data')
+
+  // 逐行还原过滤
+  const pixels = new Uint8Array(stride * height)
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)]
+    const line = y * stride
+    for (let x = 0; x < stride; x++) {
+      const value = raw[y * (stride + 1) + 1 + x]
+      const left = x >= channels ? pixels[line + x - channels] : 0
+      const up = y > 0 ? pixels[line - stride + x] : 0
+      const upLeft = y > 0 && x >= channels ? pixels[line - stride + x - channels] : 0
+      let predictor = 0
+      if (filter === 1) predictor = left
+      else if (filter === 2) predictor = up
+      else if (filter === 3) predictor = (left + up) >> 1
+      else if (filter === 4) predictor = paeth(left, up, upLeft)
+      pixels[line + x] = (value + predictor) & 0xff
+    }
+  }
+
+  // 转为 RGBA
+  const rgba = new Uint8Array(width * height * 4)
+  for (let i = 0; i < width * height; i++) {
+    const p = pixels.subarray(i * channels, (i + 1) * channels)
+    const [r, g, b, a] = channels === 1 ? [p[0], p[0], p[0], 255]
+      : channels === 2 ? [p[0], p[0], p[0], p[1]]
+      : channels === 3 ? [p[0], p[1], p[2], 255]
+      : [p[0], p[1], p[2], p[3]]
+    rgba.set([r, g, b, a], i * 4)
+  }
+  return { width, height, data: rgba }
+}
@@ -0,0 +1,146 @@
+/**
+ * 协议版本协商
+ *
+ * 客户端通过 /ws?v=2 请求协议版本，未指定时按 v1 处理。
+ * v1 的 ready 消息保持 { type: 'ready' } 不变，v2 额外携带版本号和服务端能力列表。
+ * v2 新增的消息类型和路由字段只对协商了 v2 的连接收发，v1 客户端看到的仍是原有协议。
+ */
+
+export interface ProtocolVersion {
+  major: number
+  minor: number
+}
+
+// 支持的主版本
+export const SUPPORTED_MAJOR_VERSIONS = [1, 2]
+
+// 各主版本当前的次版本
+const MINOR_VERSIONS: Record<number, number> = {
+  1: 0,
+  2: 0,
+}
+
+// 不支持的协议版本（WebSocket 关闭码，4000-4999 为应用自定义区间）
+export const CLOSE_UNSUPPORTED_VERSION = 4406
+
+// 服务端能力（v2 ready 消息中声明）
+export const SERVER_CAPABILITIES = [
+  'offline_queue',     // 对端离线时缓存消息（queued 消息）
+  'dapp_reconnected',  // DApp 重连时通知移动端
+  'e2e',               // 转发并缓存端到端加密消息（key_exchange / encrypted）
+  'heartbeat',         // 服务端定时发送 ping，客户端回复 pong
+  'server_draining',   // 停机前发送 server_draining，建议客户端延迟重连
+  'handoff',           // handoff_request 签发移交令牌，新设备凭令牌接管移动端
+  'multi_dapp',        // 一个 session 可连接多个 DApp 标签页，响应按 connection 字段路由
+  'multi_wallet',      // 一个 session 可连接多个移动端参与者，消息按 participant 字段寻址
+  'subscriptions',     // 转发 eth_subscribe 的通知（subscription 消息）
+  'batch',             // 转发 batch_request / batch_response
+]
+
+// v2 新增的消息类型：v1 连接既收不到也不能发送
+export const V2_MESSAGE_TYPES = new Set([
+  'ping', 'pong',                          // heartbeat
+  'queued',                                // offline_queue
+  'key_exchange', 'encrypted',             // e2e
+  'server_draining',                       // server_draining
+  'handoff_request', 'handoff_token',      // handoff
+  'subscription',                          // subscriptions
+  'batch_request', 'batch_response',       // batch
+])
+
+// v2 转发消息时附加的路由字段（multi_dapp 的 connection、multi_wallet 的 participant）
+const V2_ROUTING_FIELDS = ['connection', 'participant']
+
+// 发送时按版本调整消息的连接（Bun ServerWebSocket 满足此接口）
+export interface VersionedSocket {
+  send(data: string): unknown
+  data?: { protocolVersion?: number }
+}
+
+/**
+ * 解析 v 参数，支持 "2" 或 "2.0" 格式
+ * 未指定时返回 v1，格式错误返回 null
+ */
+export function parseProtocolVersion(value: string | undefined | null): ProtocolVersion | null {
+  if (value === undefined || value === null || value === '') {
+    return { major: 1, minor: 0 }
+  }
+
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(value.trim())
+  if (!match) return null
+
+  return {
+    major: parseInt(match[1], 10),
+    minor: match[2] ? parseInt(match[2], 10) : 0,
+  }
+}
+
+/**
+ * 检查主版本是否受支持
+ */
+export function isSupportedVersion(version: ProtocolVersion | null): version is ProtocolVersion {
+  return version !== null && SUPPORTED_MAJOR_VERSIONS.includes(version.major)
+}
+
+/**
+ * 格式化为 "major.minor"（次版本取服务端实现的版本）
+ */
+export function formatVersion(major: number): string {
+  return `${major}.${MINOR_VERSIONS[major] ?? 0}`
+}
+
+/**
+ * 该主版本的连接是否可以收发此类型的消息
+ */
+export function isMessageTypeSupported(type: string, major: number): boolean {
+  return major >= 2 || !V2_MESSAGE_TYPES.has(type)
+}
+
+/**
+ * 把发给连接的消息调整为该主版本的格式：v1 丢弃 v2 消息类型并去掉路由字段
+ * 未记录版本的连接原样发送
+ * @returns 调整后的消息，null 表示不应发送
+ */
+export function adaptMessage(data: string, major: number | undefined): string | null {
+  if (major === undefined || major >= 2) return data
+
+  let message: Record<string, unknown>
+  try {
+    message = JSON.parse(data)
+  } catch {
+    return data
+  }
+  if (!isMessageTypeSupported(String(message.type), major)) return null
+  if (!V2_ROUTING_FIELDS.some(field => field in message)) return data
+
+  const adapted = { ...message }
+  for (const field of V2_ROUTING_FIELDS) {
+    delete adapted[field]
+  }
+  return JSON.stringify(adapted)
+}
+
+/**
+ * 按连接协商的版本发送消息
+ * @returns 是否实际发送（v1 连接不支持的消息被丢弃时返回 false）
+ */
+export function sendMessage(ws: VersionedSocket, data: string): boolean {
+  const adapted = adaptMessage(data, ws.data?.protocolVersion)
+  if (adapted === null) return false
+  ws.send(adapted)
+  return true
+}
+
+/**
+ * 构造 ready 消息
+ */
+export function buildReadyMessage(major: number): Record<string, unknown> {
+  if (major < 2) {
+    return { type: 'ready' }
+  }
+  return {
+    type: 'ready',
+    protocolVersion: formatVersion(major),
+    capabilities: SERVER_CAPABILITIES,
+  }
+}
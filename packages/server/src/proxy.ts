@@ -0,0 +1,206 @@
+/**
+ * 可信代理与客户端 IP 解析
+ *
+ * 只有直接连接方（Bun 提供的 socket 地址）在 TRUSTED_PROXIES 中时才读取转发头，
+ * 并从右往左跳过可信代理，取第一个不可信的地址作为客户端 IP；
+ * 否则直接使用 socket 地址，客户端伪造的转发头不会生效。
+ */
+
+import { isIP } from 'net'
+import { logger } from './logger'
+
+const log = logger.child({ component: 'proxy' })
+
+export type ProxyHeader = 'x-forwarded-for' | 'forwarded' | 'x-real-ip'
+
+export const PROXY_HEADERS: ProxyHeader[] = ['x-forwarded-for', 'forwarded', 'x-real-ip']
+
+export interface Cidr {
+  family: 4 | 6
+  bytes: number[]
+  prefix: number
+}
+
+export interface ProxyConfig {
+  trusted: Cidr[]
+  header: ProxyHeader  // 可信代理写入客户端地址的请求头
+}
+
+// TRUSTED_PROXIES 中可用的别名
+const CIDR_ALIASES: Record<string, string[]> = {
+  loopback: ['127.0.0.0/8', '::1/128'],
+  private: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7'],
+  linklocal: ['169.254.0.0/16', 'fe80::/10'],
+}
+
+/**
+ * 规范化 IP 地址：去掉方括号、端口和 zone，IPv4 映射的 IPv6 地址转为 IPv4
+ * @returns 不是合法 IP 时返回 null
+ */
+export function normalizeIP(value: string): string | null {
+  let ip = value.trim()
+
+  if (ip.startsWith('[')) {
+    // [2001:db8::1]:4711
+    const end = ip.indexOf(']')
+    if (end === -1) return null
+    ip = ip.slice(1, end)
+  } else if (/^[\d.]+:\d+$/.test(ip)) {
+    // 192.0.2.1:4711
+    ip = ip.slice(0, ip.indexOf(':'))
+  }
+
+  ip = ip.replace(/%.*$/, '').toLowerCase()
+  if (!isIP(ip)) return null
+
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(ip)
+  return mapped ? mapped[1] : ip
+}
+
+/**
+ * 解析为字节数组（IPv4 4 字节，IPv6 16 字节）
+ */
+function toBytes(ip: string): { family: 4 | 6; bytes: number[] } | null {
+  const family = isIP(ip)
+  if (family === 4) {
+    return { family: 4, bytes: ip.split('.').map(Number) }
+  }
+  if (family !== 6) return null
+
+  // 结尾内嵌的 IPv4（如 ::ffff:1.2.3.4）转为两组十六进制
+  let address = ip
+  const embedded = /(\d+\.\d+\.\d+\.\d+)$/.exec(address)
+  if (embedded) {
+    const [a, b, c, d] = embedded[1].split('.').map(Number)
+    address = address.slice(0, embedded.index) + ((a << 8) | b).toString(16) + ':' + ((c << 8) | d).toString(16)
+  }
+
+  const [head, tail] = address.split('::')
+  const headGroups = head ? head.split(':') : []
+  const tailGroups = tail ? tail.split(':') : []
+  const groups = tail === undefined
+    ? headGroups
+    : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups]
+
+  const bytes: number[] = []
+  for (const group of groups) {
+    const n = parseInt(group, 16)
+    bytes.push(n >> 8, n & 0xff)
+  }
+  return { family: 6, bytes }
+}
+
+/**
+ * 解析 CIDR（不带前缀时表示单个地址）
+ */
+export function parseCidr(value: string): Cidr | null {
+  const [address, prefixText, ...rest] = value.trim().split('/')
+  if (rest.length > 0) return null
+
+  const ip = normalizeIP(address)
+  const parsed = ip ? toBytes(ip) : null
+  if (!parsed) return null
+
+  const maxPrefix = parsed.family === 4 ? 32 : 128
+  const prefix = prefixText === undefined ? maxPrefix : Number(prefixText)
+  if (!/^\d+$/.test(prefixText ?? '0') || prefix > maxPrefix) return null
+
+  return { ...parsed, prefix }
+}
+
+/**
+ * 解析 TRUSTED_PROXIES（逗号分隔的 CIDR 或别名 loopback / private / linklocal），无法解析的项记录日志后跳过
+ */
+export function parseTrustedProxies(value: string): Cidr[] {
+  const result: Cidr[] = []
+  for (const item of value.split(',').map(s => s.trim()).filter(Boolean)) {
+    for (const entry of CIDR_ALIASES[item.toLowerCase()] || [item]) {
+      const cidr = parseCidr(entry)
+      if (cidr) {
+        result.push(cidr)
+      } else {
+        log.warn('invalid_trusted_proxy', { value: entry })
+      }
+    }
+  }
+  return result
+}
+
+export function isInCidr(ip: string, cidr: Cidr): boolean {
+  const parsed = toBytes(ip)
+  if (!parsed || parsed.family !== cidr.family) return false
+
+  let bits = cidr.prefix
+  for (let i = 0; bits > 0; i++, bits -= 8) {
+    const mask = bits >= 8 ? 0xff : (0xff << (8 - bits)) & 0xff
+    if ((parsed.bytes[i] & mask) !== (cidr.bytes[i] & mask)) return false
+  }
+  return true
+}
+
+export function isTrustedProxy(ip: string, trusted: Cidr[]): boolean {
+  return trusted.some(cidr => isInCidr(ip, cidr))
+}
+
+/**
+ * 从 Forwarded 头（RFC 7239）中按顺序取出 for= 的值
+ */
+export function parseForwardedHeader(value: string): string[] {
+  const result: string[] = []
+  // 按逗号分隔元素（引号内的逗号不分隔）
+  for (const element of value.match(/(?:[^,"]|"[^"]*")+/g) || []) {
+    for (const pair of element.split(';')) {
+      const eq = pair.indexOf('=')
+      if (eq === -1) continue
+      if (pair.slice(0, eq).trim().toLowerCase() !== 'for') continue
+      result.push(pair.slice(eq + 1).trim().replace(/^"(.*)"$/, '$1'))
+    }
+  }
+  return result
+}
+
+/**
+ * 读取代理链（从左到右：客户端 → 最近的代理）
+ */
+function readForwardedChain(headers: Headers, header: ProxyHeader): string[] {
+  const value = headers.get(header)
+  if (!value) return []
+  if (header === 'forwarded') return parseForwardedHeader(value)
+  return value.split(',').map(s => s.trim()).filter(Boolean)
+}
+
+/**
+ * 解析客户端 IP
+ * @param socketAddress - 直接连接方的地址（server.requestIP），未知时返回 'unknown'
+ */
+export function resolveClientIP(headers: Headers, socketAddress: string | null | undefined, config: ProxyConfig): string {
+  const peer = socketAddress ? normalizeIP(socketAddress) : null
+  if (!peer) return 'unknown'
+  if (!isTrustedProxy(peer, config.trusted)) return peer
+
+  // 从右往左跳过可信代理
+  let client = peer
+  const chain = readForwardedChain(headers, config.header)
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const ip = normalizeIP(chain[i])
+    // 无法识别的地址（如 Forwarded 中的 "unknown" 或混淆标识）之前的内容不可信
+    if (!ip) break
+    client = ip
+    if (!isTrustedProxy(ip, config.trusted)) break
+  }
+  return client
+}
+
+function parseProxyHeader(value: string | undefined): ProxyHeader {
+  const header = (value || 'x-forwarded-for').toLowerCase() as ProxyHeader
+  if (PROXY_HEADERS.includes(header)) return header
+  log.warn('invalid_proxy_header', { value, fallback: 'x-forwarded-for' })
+  return 'x-forwarded-for'
+}
+
+// 预配置的代理设置（可通过环境变量配置）
+// TRUSTED_PROXIES 设为空字符串表示不信任任何代理，因此用 ?? 而不是 ||
+export const proxyConfig: ProxyConfig = {
+  trusted: parseTrustedProxies(process.env.TRUSTED_PROXIES ?? 'loopback'),
+  header: parseProxyHeader(process.env.PROXY_HEADER),
+}
@@ -0,0 +1,688 @@
+/**
+ * 服务端二维码生成（GET /s/:id/qr.svg、/s/:id/qr.png）
+ *
+ * 按 ISO/IEC 18004 实现字节模式编码（版本 1-40，纠错等级 L/M/Q/H），
+ * 不依赖第三方库，也不调用外部服务。
+ * 中心 logo 默认使用服务端的 logo.svg / logo.png，可用 CONFIG_DIR/logo.svg、logo.png 替换。
+ */
+
+import { encodePng, decodePng, type RgbaImage } from './png'
+import { readPublicFile } from './static'
+import { getCustomLogo } from './config'
+import { logger } from './logger'
+
+const log = logger.child({ component: 'qr' })
+
+export type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H'
+
+export interface QrCode {
+  version: number
+  size: number            // 每边模块数（4 × version + 17）
+  modules: boolean[][]    // modules[y][x]，true 为深色
+}
+
+export interface QrOptions {
+  size: number            // 图像边长（像素）
+  margin: number          // 静区宽度（模块数）
+  ecLevel: ErrorCorrectionLevel
+  foreground: string      // #rrggbb
+  background: string      // #rrggbb
+  logo: boolean
+}
+
+export type QrOptionsResult =
+  | { ok: true; options: QrOptions }
+  | { ok: false; error: string }
+
+export interface QrLogo {
+  mimeType: 'image/svg+xml' | 'image/png'
+  content: Buffer
+}
+
+export const QR_SIZE_RANGE = { min: 64, max: 2048 }
+export const QR_MARGIN_RANGE = { min: 0, max: 16 }
+
+export const DEFAULT_QR_OPTIONS: QrOptions = {
+  size: 256,
+  margin: 4,
+  ecLevel: 'M',
+  foreground: '#000000',
+  background: '#ffffff',
+  logo: false,
+}
+
+// ============ 编码 ============
+
+// 每个版本每块的纠错码字数（下标为版本号）
+const ECC_CODEWORDS_PER_BLOCK: Record<ErrorCorrectionLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+}
+
+// 每个版本的纠错块数
+const NUM_ERROR_CORRECTION_BLOCKS: Record<ErrorCorrectionLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+}
+
+// 格式信息中纠错等级的编码
+const FORMAT_BITS: Record<ErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 }
+
+/**
+ * 除功能图形外可用于数据和纠错的模块数
+ */
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2
+    result -= (25 * numAlign - 10) * numAlign - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+/**
+ * 某个版本和纠错等级可容纳的数据码字数
+ */
+export function getNumDataCodewords(version: number, ecLevel: ErrorCorrectionLevel): number {
+  return Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[ecLevel][version] * NUM_ERROR_CORRECTION_BLOCKS[ecLevel][version]
+}
+
+// GF(2^8) 乘法（本原多项式 0x11D）
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z & 0xff
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < result.length) result[j] ^= result[j + 1]
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0)
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!
+    result.push(0)
+    divisor.forEach((coefficient, i) => { result[i] ^= gfMultiply(coefficient, factor) })
+  }
+  return result
+}
+
+/**
+ * 字节模式编码并补齐到数据码字数
+ */
+function encodeData(bytes: Uint8Array, version: number, ecLevel: ErrorCorrectionLevel): number[] {
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+
+  append(0b0100, 4)
+  append(bytes.length, version <= 9 ? 8 : 16)
+  bytes.forEach(byte => append(byte, 8))
+
+  const capacity = getNumDataCodewords(version, ecLevel) * 8
+  append(0, Math.min(4, capacity - bits.length))
+  append(0, (8 - bits.length % 8) % 8)
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+    append(pad, 8)
+  }
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  return codewords
+}
+
+/**
+ * 分块计算纠错码并交织
+ */
+function addErrorCorrection(data: number[], version: number, ecLevel: ErrorCorrectionLevel): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ecLevel][version]
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[ecLevel][version]
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8)
+  const numShortBlocks = numBlocks - rawCodewords % numBlocks
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks)
+
+  const divisor = reedSolomonDivisor(blockEccLength)
+  const blocks: number[][] = []
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dataLength = shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1)
+    const block = data.slice(k, k + dataLength)
+    k += dataLength
+    const ecc = reedSolomonRemainder(block, divisor)
+    // 短块补一个占位，交织时跳过
+    if (i < numShortBlocks) block.push(0)
+    blocks.push(block.concat(ecc))
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i])
+      }
+    })
+  }
+  return result
+}
+
+function getAlignmentPositions(version: number): number[] {
+  if (version === 1) return []
+  const numAlign = Math.floor(version / 7) + 2
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2
+  const result = [6]
+  for (let position = version * 4 + 10; result.length < numAlign; position -= step) {
+    result.splice(1, 0, position)
+  }
+  return result
+}
+
+// 8 种掩码条件
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0,
+]
+
+class QrBuilder {
+  readonly version: number
+  readonly size: number
+  readonly modules: boolean[][]
+  private ecLevel: ErrorCorrectionLevel
+  private isFunction: boolean[][]
+
+  constructor(version: number, ecLevel: ErrorCorrectionLevel) {
+    this.version = version
+    this.ecLevel = ecLevel
+    this.size = version * 4 + 17
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark
+    this.isFunction[y][x] = true
+  }
+
+  drawFunctionPatterns(): void {
+    // 定位图形之间的时序图形
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0)
+      this.setFunction(i, 6, i % 2 === 0)
+    }
+
+    // 三个角的定位图形（含分隔符）
+    for (const [cx, cy] of [[3, 3], [this.size - 4, 3], [3, this.size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx
+          const y = cy + dy
+          if (x < 0 || x >= this.size || y < 0 || y >= this.size) continue
+          const distance = Math.max(Math.abs(dx), Math.abs(dy))
+          this.setFunction(x, y, distance !== 2 && distance !== 4)
+        }
+      }
+    }
+
+    // 校正图形（跳过与定位图形重叠的三个角）
+    const positions = getAlignmentPositions(this.version)
+    const last = positions.length - 1
+    positions.forEach((cx, i) => {
+      positions.forEach((cy, j) => {
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+          }
+        }
+      })
+    })
+
+    // 先占位格式信息，确定掩码后再写入
+    this.drawFormatBits(0)
+    this.drawVersion()
+  }
+
+  drawFormatBits(mask: number): void {
+    const data = (FORMAT_BITS[this.ecLevel] << 3) | mask
+    let remainder = data
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0
+
+    // 左上角
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i))
+    this.setFunction(8, 7, bit(6))
+    this.setFunction(8, 8, bit(7))
+    this.setFunction(7, 8, bit(8))
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i))
+
+    // 右上角和左下角
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, bit(i))
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, bit(i))
+    this.setFunction(8, this.size - 8, true)
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) return
+    let remainder = this.version
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+    }
+    const bits = (this.version << 12) | remainder
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0
+      const a = this.size - 11 + i % 3
+      const b = Math.floor(i / 3)
+      this.setFunction(a, b, dark)
+      this.setFunction(b, a, dark)
+    }
+  }
+
+  /**
+   * 按之字形顺序从右下角开始放置码字
+   */
+  drawCodewords(codewords: number[]): void {
+    let i = 0
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? this.size - 1 - vertical : vertical
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0
+            i++
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * 应用掩码（异或，再次调用即撤销）
+   */
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && MASKS[mask](x, y)) {
+          this.modules[y][x] = !this.modules[y][x]
+        }
+      }
+    }
+  }
+
+  /**
+   * 掩码评分（越低越好）
+   */
+  penalty(): number {
+    const { size, modules } = this
+    let result = 0
+
+    // 规则 1：行列中连续 5 个以上同色模块
+    const lineRuns = (get: (i: number) => boolean) => {
+      let score = 0
+      let run = 1
+      for (let i = 1; i <= size; i++) {
+        if (i < size && get(i) === get(i - 1)) {
+          run++
+        } else {
+          if (run >= 5) score += 3 + run - 5
+          run = 1
+        }
+      }
+      return score
+    }
+
+    // 规则 3：类似定位图形的 1:1:3:1:1 图形（一侧带 4 个浅色模块）
+    const finderLike = [true, false, true, true, true, false, true]
+    const lineFinders = (get: (i: number) => boolean) => {
+      let score = 0
+      for (let i = 0; i + 7 <= size; i++) {
+        if (!finderLike.every((dark, k) => get(i + k) === dark)) continue
+        const lightBefore = [1, 2, 3, 4].every(k => i - k < 0 || !get(i - k))
+        const lightAfter = [0, 1, 2, 3].every(k => i + 7 + k >= size || !get(i + 7 + k))
+        if (lightBefore || lightAfter) score += 40
+      }
+      return score
+    }
+
+    for (let i = 0; i < size; i++) {
+      result += lineRuns(x => modules[i][x]) + lineRuns(y => modules[y][i])
+      result += lineFinders(x => modules[i][x]) + lineFinders(y => modules[y][i])
+    }
+
+    // 规则 2：2×2 同色块
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = modules[y][x]
+        if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+          result += 3
+        }
+      }
+    }
+
+    // 规则 4：深色比例偏离 50%
+    const total = size * size
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0)
+    result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10
+
+    return result
+  }
+}
+
+/**
+ * 编码文本（UTF-8 字节模式），自动选择能容纳数据的最小版本和评分最低的掩码
+ * @throws 数据超过版本 40 的容量时
+ */
+export function encodeQr(text: string, ecLevel: ErrorCorrectionLevel = 'M'): QrCode {
+  const bytes = new TextEncoder().encode(text)
+
+  let version = 1
+  // 模式指示符 4 位 + 长度字段 + 数据
+  while (4 + (version <= 9 ? 8 : 16) + bytes.length * 8 > getNumDataCodewords(version, ecLevel) * 8) {
+    if (++version > 40) throw new Error('Data too long for a QR code')
+  }
+
+  const builder = new QrBuilder(version, ecLevel)
+  builder.drawFunctionPatterns()
+  builder.drawCodewords(addErrorCorrection(encodeData(bytes, version, ecLevel), version, ecLevel))
+
+  let bestMask = 0
+  let bestPenalty = Infinity
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    builder.applyMask(mask)
+    builder.drawFormatBits(mask)
+    const penalty = builder.penalty()
+    if (penalty < bestPenalty) {
+      bestMask = mask
+      bestPenalty = penalty
+    }
+    builder.applyMask(mask)
+  }
+  builder.applyMask(bestMask)
+  builder.drawFormatBits(bestMask)
+
+  return { version, size: builder.size, modules: builder.modules }
+}
+
+// ============ 选项 ============
+
+function parseColor(value: string): string | null {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value)
+  if (!match) return null
+  const hex = match[1].length === 3 ? match[1].replace(/./g, c => c + c) : match[1]
+  return '#' + hex.toLowerCase()
+}
+
+function parseIntegerOption(value: string, range: { min: number; max: number }): number | null {
+  if (!/^\d+$/.test(value)) return null
+  const n = parseInt(value, 10)
+  return n >= range.min && n <= range.max ? n : null
+}
+
+/**
+ * 解析查询参数：size、margin、ec、fg、bg、logo
+ * 开启 logo 且未指定 ec 时使用 H，保证被遮挡的模块可以恢复
+ */
+export function parseQrOptions(query: Record<string, string | undefined>): QrOptionsResult {
+  const options = { ...DEFAULT_QR_OPTIONS }
+
+  if (query.size !== undefined) {
+    const size = parseIntegerOption(query.size, QR_SIZE_RANGE)
+    if (size === null) {
+      return { ok: false, error: `size must be an integer between ${QR_SIZE_RANGE.min} and ${QR_SIZE_RANGE.max}` }
+    }
+    options.size = size
+  }
+
+  if (query.margin !== undefined) {
+    const margin = parseIntegerOption(query.margin, QR_MARGIN_RANGE)
+    if (margin === null) {
+      return { ok: false, error: `margin must be an integer between ${QR_MARGIN_RANGE.min} and ${QR_MARGIN_RANGE.max}` }
+    }
+    options.margin = margin
+  }
+
+  if (query.logo !== undefined) {
+    if (!['1', 'true', '0', 'false'].includes(query.logo)) {
+      return { ok: false, error: 'logo must be true or false' }
+    }
+    options.logo = query.logo === '1' || query.logo === 'true'
+  }
+
+  if (query.ec !== undefined) {
+    const ecLevel = query.ec.toUpperCase()
+    if (!['L', 'M', 'Q', 'H'].includes(ecLevel)) {
+      return { ok: false, error: 'ec must be one of L, M, Q, H' }
+    }
+    options.ecLevel = ecLevel as ErrorCorrectionLevel
+  } else if (options.logo) {
+    options.ecLevel = 'H'
+  }
+
+  for (const [param, key] of [['fg', 'foreground'], ['bg', 'background']] as const) {
+    const value = query[param]
+    if (value === undefined) continue
+    const color = parseColor(value)
+    if (!color) {
+      return { ok: false, error: `${param} must be a hex color such as 000000 or #fff` }
+    }
+    options[key] = color
+  }
+
+  return { ok: true, options }
+}
+
+// ============ 渲染 ============
+
+// logo 区域占码图边长的比例（纠错能力越强可遮挡越多）
+const LOGO_RATIO: Record<ErrorCorrectionLevel, number> = { L: 0.12, M: 0.16, Q: 0.2, H: 0.24 }
+
+/**
+ * 中心 logo 区域（模块坐标），该区域内不绘制模块
+ */
+export function getLogoArea(qr: QrCode, ecLevel: ErrorCorrectionLevel): { start: number; size: number } {
+  // 与码图边长同为奇数，保证居中对齐到模块
+  let size = Math.max(3, Math.round(qr.size * LOGO_RATIO[ecLevel]))
+  if (size % 2 === 0) size--
+  return { start: (qr.size - size) / 2, size }
+}
+
+function isInArea(x: number, y: number, area: { start: number; size: number } | null): boolean {
+  return !!area && x >= area.start && x < area.start + area.size && y >= area.start && y < area.start + area.size
+}
+
+/**
+ * 渲染 SVG（每行相邻深色模块合并为一个矩形）
+ */
+export function renderQrSvg(qr: QrCode, options: QrOptions, logo: QrLogo | null = null): string {
+  const { margin } = options
+  const total = qr.size + margin * 2
+  const area = logo ? getLogoArea(qr, options.ecLevel) : null
+
+  let path = ''
+  for (let y = 0; y < qr.size; y++) {
+    for (let x = 0; x < qr.size; x++) {
+      if (!qr.modules[y][x] || isInArea(x, y, area)) continue
+      let run = 1
+      while (x + run < qr.size && qr.modules[y][x + run] && !isInArea(x + run, y, area)) run++
+      path += `M${x + margin} ${y + margin}h${run}v1h-${run}z`
+      x += run - 1
+    }
+  }
+
+  let logoElement = ''
+  if (logo && area) {
+    // logo 四周留出 10% 的空白
+    const inset = area.size * 0.1
+    const position = area.start + margin + inset
+    const size = area.size - inset * 2
+    const href = `data:${logo.mimeType};base64,${logo.content.toString('base64')}`
+    logoElement = `<image x="${position}" y="${position}" width="${size}" height="${size}" href="${href}" preserveAspectRatio="xMidYMid meet"/>`
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${total} ${total}" width="${options.size}" height="${options.size}" shape-rendering="crispEdges">` +
+    `<rect width="${total}" height="${total}" fill="${options.background}"/>` +
+    `<path d="${path}" fill="${options.foreground}"/>` +
+    logoElement +
+    `</svg>`
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const n = parseInt(hex.slice(1), 16)
+  return [(n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff]
+}
+
+/**
+ * 渲染 PNG（每个模块为整数像素，多余像素计入静区；size 小于模块数时按每模块 1 像素输出）
+ */
+export function renderQrPng(qr: QrCode, options: QrOptions, logo: RgbaImage | null = null): Buffer {
+  const total = qr.size + options.margin * 2
+  const scale = Math.max(1, Math.floor(options.size / total))
+  const dimension = Math.max(options.size, scale * total)
+  const offset = Math.floor((dimension - scale * total) / 2) + options.margin * scale
+  const area = logo ? getLogoArea(qr, options.ecLevel) : null
+
+  const background = hexToRgb(options.background)
+  const foreground = hexToRgb(options.foreground)
+  const pixels = new Uint8Array(dimension * dimension * 3)
+  for (let i = 0; i < dimension * dimension; i++) pixels.set(background, i * 3)
+
+  for (let y = 0; y < qr.size; y++) {
+    for (let x = 0; x < qr.size; x++) {
+      if (!qr.modules[y][x] || isInArea(x, y, area)) continue
+      for (let py = 0; py < scale; py++) {
+        const row = (offset + y * scale + py) * dimension
+        for (let px = 0; px < scale; px++) {
+          pixels.set(foreground, (row + offset + x * scale + px) * 3)
+        }
+      }
+    }
+  }
+
+  if (logo && area) {
+    const inset = Math.round(area.size * scale * 0.1)
+    const position = offset + area.start * scale + inset
+    const size = area.size * scale - inset * 2
+    drawImage(pixels, dimension, logo, position, size, background)
+  }
+
+  return encodePng(dimension, dimension, pixels)
+}
+
+/**
+ * 把图像缩放到 size × size（保持比例居中）并按 alpha 叠加到背景上
+ */
+function drawImage(
+  pixels: Uint8Array,
+  dimension: number,
+  image: RgbaImage,
+  position: number,
+  size: number,
+  background: [number, number, number]
+): void {
+  const ratio = Math.max(image.width, image.height) / size
+  const width = Math.round(image.width / ratio)
+  const height = Math.round(image.height / ratio)
+  const left = position + Math.floor((size - width) / 2)
+  const top = position + Math.floor((size - height) / 2)
+  const samples = 4  // 每像素 4×4 采样，缩小时避免锯齿
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sum = [0, 0, 0, 0]
+      for (let sy = 0; sy < samples; sy++) {
+        for (let sx = 0; sx < samples; sx++) {
+          const ix = Math.min(image.width - 1, Math.floor((x + (sx + 0.5) / samples) * ratio))
+          const iy = Math.min(image.height - 1, Math.floor((y + (sy + 0.5) / samples) * ratio))
+          const i = (iy * image.width + ix) * 4
+          const alpha = image.data[i + 3] / 255
+          sum[0] += image.data[i] * alpha
+          sum[1] += image.data[i + 1] * alpha
+          sum[2] += image.data[i + 2] * alpha
+          sum[3] += alpha
+        }
+      }
+      const count = samples * samples
+      const alpha = sum[3] / count
+      const target = ((top + y) * dimension + left + x) * 3
+      for (let c = 0; c < 3; c++) {
+        pixels[target + c] = Math.round(sum[c] / count + background[c] * (1 - alpha))
+      }
+    }
+  }
+}
+
+// ============ logo ============
+
+let defaultSvgLogo: Promise<Buffer | null> | null = null
+let pngLogo: Promise<RgbaImage | null> | null = null
+
+/**
+ * SVG 使用的 logo：CONFIG_DIR/logo.svg、CONFIG_DIR/logo.png，否则为服务端 logo.svg
+ */
+export async function getSvgLogo(): Promise<QrLogo | null> {
+  const custom = getCustomLogo()
+  if (custom.svg) return { mimeType: 'image/svg+xml', content: custom.svg }
+  if (custom.png) return { mimeType: 'image/png', content: custom.png }
+
+  defaultSvgLogo ??= readPublicFile('/logo.svg')
+  const content = await defaultSvgLogo
+  return content ? { mimeType: 'image/svg+xml', content } : null
+}
+
+/**
+ * PNG 使用的 logo（需要位图）：CONFIG_DIR/logo.png，否则为服务端 logo.png
+ */
+export function getPngLogo(): Promise<RgbaImage | null> {
+  pngLogo ??= (async () => {
+    const custom = getCustomLogo().png
+    if (custom) {
+      try {
+        return decodePng(custom)
+      } catch (e) {
+        log.warn('logo_decode_failed', { source: 'config', error: e })
+      }
+    }
+
+    const content = await readPublicFile('/logo.png')
+    if (!content) return null
+    try {
+      return decodePng(content)
+    } catch (e) {
+      log.warn('logo_decode_failed', { source: 'default', error: e })
+      return null
+    }
+  })()
+  return pngLogo
+}
@@ -0,0 +1,115 @@
+/**
+ * 离线消息队列
+ * 对端暂时断开（如移动端网络切换、DApp 页面刷新）时缓存消息，重连后按顺序补发
+ */
+
+interface QueuedMessage {
+  data: string
+  queuedAt: number
+}
+
+export interface MessageQueueConfig {
+  maxMessages: number // 每个接收方最多缓存的消息数
+  maxAgeMs: number    // 消息最长缓存时间（毫秒）
+}
+
+// 可缓存的消息类型，其余类型在对端离线时直接报错
+// key_exchange 与 encrypted 必须一起缓存，否则对端重连后无法解密后续密文
+export const BUFFERED_MESSAGE_TYPES = new Set([
+  'request',
+  'response',
+  'batch_request',
+  'batch_response',
+  'chainChanged',
+  'accountsChanged',
+  'key_exchange',
+  'encrypted',
+])
+
+export class MessageQueue {
+  private queues = new Map<string, QueuedMessage[]>()
+  private config: MessageQueueConfig
+
+  constructor(config: MessageQueueConfig) {
+    this.config = config
+  }
+
+  /**
+   * 加入队列
+   * @returns 入队后的队列长度，队列已满返回 -1
+   */
+  enqueue(sessionId: string, role: 'dapp' | 'mobile', data: string): number {
+    const key = this.key(sessionId, role)
+    const queue = this.prune(this.queues.get(key) || [])
+
+    if (queue.length >= this.config.maxMessages) {
+      this.queues.set(key, queue)
+      return -1
+    }
+
+    queue.push({ data, queuedAt: Date.now() })
+    this.queues.set(key, queue)
+    return queue.length
+  }
+
+  /**
+   * 取出并清空队列（已过期的消息被丢弃）
+   */
+  drain(sessionId: string, role: 'dapp' | 'mobile'): string[] {
+    const key = this.key(sessionId, role)
+    const queue = this.queues.get(key)
+    if (!queue) return []
+
+    this.queues.delete(key)
+    return this.prune(queue).map(message => message.data)
+  }
+
+  /**
+   * 按顺序尝试投递队列中的消息，deliver 返回 false 的消息留在队列中（保留原入队时间，不会因重试延长缓存期）
+   * @returns 投递成功的条数
+   */
+  flush(sessionId: string, role: 'dapp' | 'mobile', deliver: (data: string) => boolean): number {
+    const key = this.key(sessionId, role)
+    const queue = this.queues.get(key)
+    if (!queue) return 0
+
+    this.queues.delete(key)
+    const pending = this.prune(queue)
+    const remaining = pending.filter(message => !deliver(message.data))
+    if (remaining.length > 0) {
+      this.queues.set(key, remaining)
+    }
+    return pending.length - remaining.length
+  }
+
+  /**
+   * 获取队列长度（不含已过期消息）
+   */
+  size(sessionId: string, role: 'dapp' | 'mobile'): number {
+    const queue = this.queues.get(this.key(sessionId, role))
+    return queue ? this.prune(queue).length : 0
+  }
+
+  /**
+   * 清除 session 的所有队列
+   */
+  clear(sessionId: string): void {
+    this.queues.delete(this.key(sessionId, 'dapp'))
+    this.queues.delete(this.key(sessionId, 'mobile'))
+  }
+
+  private key(sessionId: string, role: 'dapp' | 'mobile'): string {
+    return `${sessionId}:${role}`
+  }
+
+  private prune(queue: QueuedMessage[]): QueuedMessage[] {
+    const cutoff = Date.now() - this.config.maxAgeMs
+    return queue.filter(message => message.queuedAt > cutoff)
+  }
+}
+
+// 预配置的队列（可通过环境变量配置）
+export const messageQueue = new MessageQueue({
+  maxMessages: parseInt(process.env.OFFLINE_QUEUE_SIZE || '50', 10),
+  maxAgeMs: parseInt(process.env.OFFLINE_QUEUE_MAX_AGE || '60000', 10),  // 与 SDK 请求超时一致
+})
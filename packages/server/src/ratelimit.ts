@@ -1,7 +1,11 @@
 /**
- * 简单的滑动窗口速率限制器
+ * 速率限制
+ * - RateLimiter：固定窗口计数，用于 POST /session
+ * - MessageRateLimiter：令牌桶，用于 WebSocket 消息（按连接和按 session 分别限制）
  */
 
+import { proxyConfig, resolveClientIP } from './proxy'
+
 interface RateLimitEntry {
   count: number
   resetAt: number
@@ -83,17 +87,170 @@ export const sessionRateLimiter = new RateLimiter({
   maxRequests: 10,    // 每分钟最多创建 10 个 session
 })
 
-// 获取客户端 IP（支持代理）
-export function getClientIP(request: Request): string {
-  // 优先使用代理转发的真实 IP
-  const forwarded = request.headers.get('x-forwarded-for')
-  if (forwarded) {
-    return forwarded.split(',')[0].trim()
+// 消息超限的错误码和关闭码（见 protocol.md）
+export const ERROR_RATE_LIMITED = -32008
+export const CLOSE_RATE_LIMITED = 4429
+
+export interface TokenBucketConfig {
+  burst: number         // 桶容量（允许的突发消息数）
+  ratePerSecond: number // 每秒补充的令牌数（持续速率），0 表示不限制
+}
+
+/**
+ * 令牌桶：空闲时攒满 burst 个令牌，之后按 ratePerSecond 补充
+ */
+export class TokenBucket {
+  private tokens: number
+  private updatedAt: number
+  private config: TokenBucketConfig
+
+  constructor(config: TokenBucketConfig, now = Date.now()) {
+    this.config = config
+    this.tokens = config.burst
+    this.updatedAt = now
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.updatedAt) / 1000
+    this.tokens = Math.min(this.config.burst, this.tokens + elapsed * this.config.ratePerSecond)
+    this.updatedAt = now
+  }
+
+  /**
+   * 取一个令牌
+   * @returns true 如果允许，false 如果桶已空
+   */
+  take(now = Date.now()): boolean {
+    if (this.config.ratePerSecond <= 0) return true
+    this.refill(now)
+    if (this.tokens < 1) return false
+    this.tokens -= 1
+    return true
+  }
+
+  /**
+   * 距离下一个令牌可用的毫秒数
+   */
+  retryAfter(now = Date.now()): number {
+    if (this.config.ratePerSecond <= 0) return 0
+    this.refill(now)
+    if (this.tokens >= 1) return 0
+    return Math.ceil(((1 - this.tokens) / this.config.ratePerSecond) * 1000)
+  }
+
+  /**
+   * 是否已补满（空闲），可以安全丢弃
+   */
+  isFull(now = Date.now()): boolean {
+    this.refill(now)
+    return this.tokens >= this.config.burst
+  }
+}
+
+export interface MessageRateLimiterConfig {
+  connection: TokenBucketConfig // 每个 WebSocket 连接
+  session: TokenBucketConfig    // 每个 session（DApp 和移动端共享）
+  maxViolations: number         // 窗口内被拒绝的消息数达到该值时关闭连接，0 表示不关闭
+  violationWindowMs: number
+}
+
+export type MessageRateResult =
+  | { allowed: true }
+  | { allowed: false; scope: 'connection' | 'session'; retryAfter: number; close: boolean }
+
+interface ConnectionState {
+  bucket: TokenBucket
+  violations: number[]  // 最近被拒绝的时间戳
+}
+
+/**
+ * WebSocket 消息速率限制
+ */
+export class MessageRateLimiter {
+  private connections = new WeakMap<object, ConnectionState>()
+  private sessions = new Map<string, TokenBucket>()
+  private config: MessageRateLimiterConfig
+
+  constructor(config: MessageRateLimiterConfig) {
+    this.config = config
+    // 定期清理已补满的 session 桶
+    setInterval(() => this.cleanup(), 60000)
+  }
+
+  /**
+   * 检查一条消息
+   * @param connection - 连接对象（按对象身份区分连接）
+   */
+  check(connection: object, sessionId: string, now = Date.now()): MessageRateResult {
+    let state = this.connections.get(connection)
+    if (!state) {
+      state = { bucket: new TokenBucket(this.config.connection, now), violations: [] }
+      this.connections.set(connection, state)
+    }
+
+    let sessionBucket = this.sessions.get(sessionId)
+    if (!sessionBucket) {
+      sessionBucket = new TokenBucket(this.config.session, now)
+      this.sessions.set(sessionId, sessionBucket)
+    }
+
+    // 先检查连接，避免单个连接超限时消耗 session 的令牌
+    let scope: 'connection' | 'session'
+    let retryAfter: number
+    if (!state.bucket.take(now)) {
+      scope = 'connection'
+      retryAfter = state.bucket.retryAfter(now)
+    } else if (!sessionBucket.take(now)) {
+      scope = 'session'
+      retryAfter = sessionBucket.retryAfter(now)
+    } else {
+      return { allowed: true }
+    }
+
+    const windowStart = now - this.config.violationWindowMs
+    state.violations = state.violations.filter(t => t > windowStart)
+    state.violations.push(now)
+    const close = this.config.maxViolations > 0 && state.violations.length >= this.config.maxViolations
+
+    return { allowed: false, scope, retryAfter, close }
+  }
+
+  /**
+   * 连接关闭时释放状态
+   */
+  release(connection: object): void {
+    this.connections.delete(connection)
   }
-  const realIP = request.headers.get('x-real-ip')
-  if (realIP) {
-    return realIP
+
+  get sessionCount(): number {
+    return this.sessions.size
   }
-  // 回退到连接 IP（Bun/Elysia 可能不提供）
-  return 'unknown'
+
+  cleanup(now = Date.now()): void {
+    for (const [sessionId, bucket] of this.sessions) {
+      if (bucket.isFull(now)) {
+        this.sessions.delete(sessionId)
+      }
+    }
+  }
+}
+
+// 预配置的消息限制器（可通过环境变量配置）
+export const messageRateLimiter = new MessageRateLimiter({
+  connection: {
+    burst: parseInt(process.env.WS_RATE_LIMIT_BURST || '100', 10),
+    ratePerSecond: parseInt(process.env.WS_RATE_LIMIT_RATE || '50', 10),
+  },
+  session: {
+    burst: parseInt(process.env.WS_SESSION_RATE_LIMIT_BURST || '200', 10),
+    ratePerSecond: parseInt(process.env.WS_SESSION_RATE_LIMIT_RATE || '100', 10),
+  },
+  maxViolations: parseInt(process.env.WS_RATE_LIMIT_MAX_VIOLATIONS || '50', 10),
+  violationWindowMs: parseInt(process.env.WS_RATE_LIMIT_VIOLATION_WINDOW || '10000', 10),
+})
+
+// 获取客户端 IP：连接来自 TRUSTED_PROXIES 时才读取转发头（见 proxy.ts）
+// @param socketAddress - server.requestIP(request)?.address
+export function getClientIP(request: Request, socketAddress?: string | null, config = proxyConfig): string {
+  return resolveClientIP(request.headers, socketAddress, config)
 }
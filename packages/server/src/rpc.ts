@@ -0,0 +1,151 @@
+/**
+ * 只读 RPC 代理
+ *
+ * eth_call、eth_getBalance 等只读请求不需要钱包参与，经手机转发既慢又会打扰用户。
+ * SDK 可以把它们直接发给 DApp 配置的节点，或经 POST /session/:id/rpc/:chainId
+ * 转发到 RPC_URLS 中配置的节点。代理只转发 READ_ONLY_METHODS 中的方法，
+ * 签名和发送交易仍然由钱包处理；每个 session 在窗口内的请求数受 RPC_RATE_LIMIT 限制。
+ */
+
+import { RateLimiter, type RateLimiterConfig } from './ratelimit'
+import { rpcRequests } from './metrics'
+import { logger } from './logger'
+
+const log = logger.child({ component: 'rpc' })
+
+// 可以不经钱包、直接发给节点的方法
+export const READ_ONLY_METHODS = new Set([
+  'eth_blockNumber',
+  'eth_call',
+  'eth_estimateGas',
+  'eth_feeHistory',
+  'eth_gasPrice',
+  'eth_getBalance',
+  'eth_getBlockByHash',
+  'eth_getBlockByNumber',
+  'eth_getBlockTransactionCountByHash',
+  'eth_getBlockTransactionCountByNumber',
+  'eth_getCode',
+  'eth_getLogs',
+  'eth_getProof',
+  'eth_getStorageAt',
+  'eth_getTransactionByBlockHashAndIndex',
+  'eth_getTransactionByBlockNumberAndIndex',
+  'eth_getTransactionByHash',
+  'eth_getTransactionCount',
+  'eth_getTransactionReceipt',
+  'eth_maxPriorityFeePerGas',
+  'eth_syncing',
+  'net_version',
+  'web3_clientVersion',
+])
+
+// 一次批量请求最多包含的调用数
+export const MAX_RPC_BATCH = 100
+
+export interface RpcProxyConfig {
+  urls: Map<number, string>  // 链 ID → 节点地址
+  timeoutMs: number          // 单次转发超时
+  limit: RateLimiterConfig   // 每个 session 的请求数限制
+}
+
+export type RpcProxyResult =
+  | { ok: true; body: unknown }
+  | { ok: false; status: 400 | 403 | 404 | 429 | 502 | 504; error: string }
+
+type FetchLike = (url: string, init: RequestInit) => Promise<Response>
+
+/**
+ * 解析 RPC_URLS（如 "1=https://eth.example.com,137=https://polygon.example.com"）
+ */
+export function parseRpcUrls(value: string): Map<number, string> {
+  const urls = new Map<number, string>()
+  for (const entry of value.split(',').map(item => item.trim()).filter(Boolean)) {
+    const separator = entry.indexOf('=')
+    const chainId = Number(entry.slice(0, separator))
+    const url = entry.slice(separator + 1).trim()
+    if (separator < 0 || !Number.isInteger(chainId) || chainId <= 0 || !/^https?:\/\//.test(url)) {
+      throw new Error(`Invalid RPC_URLS entry: ${entry}`)
+    }
+    urls.set(chainId, url)
+  }
+  return urls
+}
+
+export class RpcProxy {
+  private config: RpcProxyConfig
+  private limiter: RateLimiter
+  private fetchImpl: FetchLike
+
+  constructor(config: RpcProxyConfig, fetchImpl: FetchLike = (url, init) => fetch(url, init)) {
+    this.config = config
+    this.limiter = new RateLimiter(config.limit)
+    this.fetchImpl = fetchImpl
+  }
+
+  /**
+   * 把 JSON-RPC 请求（单个或批量）转发到该链的节点，返回节点的响应
+   */
+  async forward(sessionId: string, chainId: number, body: unknown): Promise<RpcProxyResult> {
+    const chain = String(chainId)
+    const url = this.config.urls.get(chainId)
+    if (!url) {
+      return { ok: false, status: 404, error: 'RPC not configured for this chain' }
+    }
+
+    const calls = Array.isArray(body) ? body : [body]
+    if (calls.length === 0 || calls.length > MAX_RPC_BATCH
+      || !calls.every(call => call && typeof call === 'object' && typeof call.method === 'string')) {
+      rpcRequests.inc({ chain, result: 'rejected' })
+      return { ok: false, status: 400, error: 'Invalid JSON-RPC request' }
+    }
+    const denied = calls.find(call => !READ_ONLY_METHODS.has(call.method))
+    if (denied) {
+      rpcRequests.inc({ chain, result: 'rejected' })
+      return { ok: false, status: 403, error: `Method not allowed: ${String(denied.method).slice(0, 128)}` }
+    }
+
+    if (!this.limiter.check(sessionId)) {
+      rpcRequests.inc({ chain, result: 'rejected' })
+      return { ok: false, status: 429, error: 'Rate limit exceeded' }
+    }
+
+    try {
+      const response = await this.fetchImpl(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      })
+      if (!response.ok) {
+        rpcRequests.inc({ chain, result: 'error' })
+        log.warn('upstream_error', { sessionId, chainId, status: response.status })
+        return { ok: false, status: 502, error: 'Upstream error' }
+      }
+      const result = await response.json()
+      rpcRequests.inc({ chain, result: 'ok' })
+      return { ok: true, body: result }
+    } catch (error) {
+      rpcRequests.inc({ chain, result: 'error' })
+      const timedOut = error instanceof Error && error.name === 'TimeoutError'
+      log.warn(timedOut ? 'upstream_timeout' : 'upstream_error', {
+        sessionId,
+        chainId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      return timedOut
+        ? { ok: false, status: 504, error: 'Upstream timeout' }
+        : { ok: false, status: 502, error: 'Upstream error' }
+    }
+  }
+}
+
+// 预配置的代理（可通过环境变量配置，未设置 RPC_URLS 时不转发任何链）
+export const rpcProxy = new RpcProxy({
+  urls: parseRpcUrls(process.env.RPC_URLS || ''),
+  timeoutMs: parseInt(process.env.RPC_TIMEOUT || '10000', 10),
+  limit: {
+    windowMs: 60000,
+    maxRequests: parseInt(process.env.RPC_RATE_LIMIT || '300', 10),
+  },
+})
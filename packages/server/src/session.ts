@@ -1,4 +1,13 @@
 import type { ServerWebSocket } from 'bun'
+import { createSessionStore, type SessionStore } from './store'
+import { LoopbackClusterBus, type ClusterBus, type ClusterMessage } from './cluster'
+import { messageQueue } from './queue'
+import { messageViolations } from './validation'
+import { sessionMessages } from './metrics'
+import { sendMessage } from './protocol'
+import { logger } from './logger'
+
+const log = logger.child({ component: 'session' })
 
 export type SessionStatus = 'pending' | 'connected' | 'disconnected'
 
@@ -15,32 +24,183 @@ export interface Session {
   createdAt: number
   expiresAt: number
   status: SessionStatus
-  dapp: ServerWebSocket<WebSocketData> | null
-  mobile: ServerWebSocket<WebSocketData> | null
+  dapps: Map<string, ServerWebSocket<WebSocketData>>  // 本节点上的 DApp 连接（连接 ID → 连接），每个标签页一个
+  mobiles: Map<number, ServerWebSocket<WebSocketData>>  // 本节点上的移动端连接（参与者编号 → 连接）
   metadata?: DAppMetadata   // DApp 信息
-  mobileLocked: boolean     // 移动端是否已锁定（防止被踢）
   terminated: boolean       // 是否已被用户主动终止（不可再连接）
+  dappNodes: Map<string, string>  // 所有 DApp 连接所在的节点（连接 ID → 节点 ID，集群模式下可能是其他节点）
+  mobileNodes: Map<number, string>  // 已连接的参与者所在的节点（参与者编号 → 节点 ID），已连接的参与者被锁定，防止被踢
+  participantSecrets?: string[]  // 多钱包 session 中每个参与者的密钥（第 n 个属于参与者 n，第 1 个即 secret）
+  webhookUrl?: string       // 该 session 的生命周期事件额外通知到此 URL
+  projectId?: string        // 创建时使用的 API key 所属项目
+  ttl?: number              // 双方连接后的有效期（毫秒），缺省使用 SESSION_TTL
+  ownerNode?: string        // 负责发送过期 webhook 的节点（创建节点，离开集群后由持有连接的节点接替），未记录时由本节点负责
+}
+
+// 可在节点间同步的 Session 字段（不含连接）
+type SessionRecord = Pick<Session, 'id' | 'secret' | 'createdAt' | 'expiresAt' | 'status' | 'metadata' | 'terminated' | 'webhookUrl' | 'projectId' | 'ttl' | 'participantSecrets' | 'ownerNode'>
+
+export interface CreateSessionOptions {
+  webhookUrl?: string
+  projectId?: string
+  ttl?: number              // 请求的有效期（毫秒），超过 SESSION_MAX_TTL 时截断
+  participants?: number     // 多钱包 session 的参与者数量，超过 SESSION_MAX_PARTICIPANTS 时截断
+}
+
+// Session 生命周期事件（只在发生变化的节点上触发，集群同步不会重复触发；expired 在每个节点都会触发，见 ownsSession）
+export type SessionEvent = 'created' | 'connected' | 'disconnected' | 'terminated' | 'expired'
+export type SessionEventListener = (event: SessionEvent, session: Session, details?: Record<string, unknown>) => void
+
+const sessionEventListeners = new Set<SessionEventListener>()
+
+// 订阅生命周期事件，返回取消订阅函数
+export function onSessionEvent(listener: SessionEventListener): () => void {
+  sessionEventListeners.add(listener)
+  return () => sessionEventListeners.delete(listener)
+}
+
+function emitSessionEvent(event: SessionEvent, session: Session, details?: Record<string, unknown>): void {
+  for (const listener of sessionEventListeners) {
+    try {
+      listener(event, session, details)
+    } catch (error) {
+      log.error('event_listener_failed', { event, sessionId: session.id, error })
+    }
+  }
 }
 
 export interface WebSocketData {
   sessionId: string
   role: 'dapp' | 'mobile'
+  protocolVersion?: number  // 协商后的协议主版本
+  handedOff?: boolean       // 已移交给其他设备（关闭时不再注销和通知对端）
+  connectionId?: string     // DApp 连接 ID（同一 session 可以有多个 DApp 连接）
+  participant?: number      // 多钱包 session 中移动端的参与者编号
+}
+
+// 连接在所属角色中的标识：DApp 为连接 ID，移动端为参与者编号（普通 session 只有参与者 1）
+export type ConnectionKey = string | number
+
+// DApp 连接 ID：客户端通过 client 参数指定（重连后保持不变，以便收到缓存的响应），否则由服务端生成
+export const CONNECTION_ID_PATTERN = /^[\w-]{1,64}$/
+const CONNECTION_ID_LENGTH = 8
+
+// 移动端被新设备接管（WebSocket 关闭码）
+export const CLOSE_HANDED_OFF = 4409
+
+// 移交令牌：当前连接的移动端或 DApp 签发，新设备凭令牌接管已锁定的 session
+export interface HandoffToken {
+  token: string
+  expiresAt: number
+  participant: number  // 被接管的参与者
+}
+
+export interface RegisterOptions {
+  handoffToken?: string | null  // 移动端接管已锁定 session 时使用的移交令牌
 }
 
 // 排除易混淆字符 (0/O/1/I/L)
 const CHARSET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
-const SESSION_ID_LENGTH = 4
-const SECRET_LENGTH = 16    // 16 位密钥，用于防止暴力枚举
 
-// 过期时间
-const PENDING_TIMEOUT = 5 * 60 * 1000      // 5 分钟
-const CONNECTED_TIMEOUT = 24 * 60 * 60 * 1000  // 24 小时
+// 读取整数环境变量，不合法时使用默认值，并限制在 [min, max] 内
+function readIntEnv(name: string, defaultValue: number, min: number, max = Number.MAX_SAFE_INTEGER): number {
+  const value = parseInt(process.env[name] || String(defaultValue), 10)
+  if (Number.isNaN(value)) return defaultValue
+  return Math.min(Math.max(value, min), max)
+}
+
+// ID 和密钥长度（可通过环境变量配置）
+const SESSION_ID_LENGTH = readIntEnv('SESSION_ID_LENGTH', 4, 4, 32)
+const SECRET_LENGTH = readIntEnv('SESSION_SECRET_LENGTH', 16, 16, 64)  // 至少 16 位，用于防止暴力枚举
+
+// 过期时间（毫秒，可通过环境变量配置）
+const PENDING_TIMEOUT = readIntEnv('SESSION_PENDING_TIMEOUT', 5 * 60 * 1000, 1000)      // 等待连接：5 分钟
+const MAX_TTL = readIntEnv('SESSION_MAX_TTL', 7 * 24 * 60 * 60 * 1000, 1000)            // 可请求的最长有效期：7 天
+const CONNECTED_TIMEOUT = readIntEnv('SESSION_TTL', 24 * 60 * 60 * 1000, 1000, MAX_TTL)  // 双方连接后：24 小时
+const SLIDING_EXPIRY = process.env.SESSION_SLIDING_EXPIRY !== 'false'  // 有消息往来时顺延过期时间
+const SLIDING_STEP = 60 * 1000  // 顺延不足 1 分钟时跳过，避免每条消息都写存储和广播
+const HANDOFF_TOKEN_TTL = readIntEnv('HANDOFF_TOKEN_TTL', 5 * 60 * 1000, 1000)          // 移交令牌有效期：5 分钟
+const HANDOFF_TOKEN_LENGTH = 32
+export const MAX_PARTICIPANTS = readIntEnv('SESSION_MAX_PARTICIPANTS', 10, 2, 100)  // 多钱包 session 的参与者上限
+
+export interface SessionLifetimeConfig {
+  idLength: number
+  secretLength: number
+  pendingTimeout: number
+  ttl: number
+  maxTtl: number
+  slidingExpiry: boolean
+}
+
+// 当前生效的 session 生命周期配置
+export function getSessionLifetimeConfig(): SessionLifetimeConfig {
+  return {
+    idLength: SESSION_ID_LENGTH,
+    secretLength: SECRET_LENGTH,
+    pendingTimeout: PENDING_TIMEOUT,
+    ttl: CONNECTED_TIMEOUT,
+    maxTtl: MAX_TTL,
+    slidingExpiry: SLIDING_EXPIRY,
+  }
+}
+
+// 将请求的有效期截断到 [1 秒, SESSION_MAX_TTL]，未指定时使用 SESSION_TTL
+export function resolveTtl(requested?: number): number {
+  if (requested === undefined) return CONNECTED_TIMEOUT
+  return Math.min(Math.max(Math.floor(requested), 1000), MAX_TTL)
+}
 
 // 容量限制（可通过环境变量配置）
 const MAX_SESSIONS = parseInt(process.env.MAX_SESSIONS || '10000', 10)
 
-// Session 存储
-const sessions = new Map<string, Session>()
+// Session 存储（默认内存，可通过 SESSION_STORE 切换为 SQLite）
+let store: SessionStore = createSessionStore()
+
+// 替换 Session 存储（用于测试或自定义存储实现）
+export function setSessionStore(newStore: SessionStore): void {
+  store = newStore
+}
+
+// 检查 Session 存储是否可用（供就绪检查使用）
+export function checkSessionStore(): string | null {
+  return store.healthCheck?.() ?? null
+}
+
+// 关闭 Session 存储（停机时调用）
+export function closeSessionStore(): void {
+  store.close?.()
+}
+
+// 移交令牌（session ID → 参与者编号 → 令牌），每个参与者只保留最新的一个
+const handoffTokens = new Map<string, Map<number, HandoffToken>>()
+
+function setHandoffToken(sessionId: string, handoff: HandoffToken): void {
+  const tokens = handoffTokens.get(sessionId) ?? new Map<number, HandoffToken>()
+  tokens.set(handoff.participant, handoff)
+  handoffTokens.set(sessionId, tokens)
+}
+
+function deleteHandoffToken(sessionId: string, participant: number): void {
+  const tokens = handoffTokens.get(sessionId)
+  tokens?.delete(participant)
+  if (tokens?.size === 0) handoffTokens.delete(sessionId)
+}
+
+// 集群总线（默认为单节点回环，多实例部署时通过 initCluster 接入）
+let bus: ClusterBus = new LoopbackClusterBus()
+
+// 接入集群总线，同步 session 所有权并跨节点转发消息
+export function initCluster(clusterBus: ClusterBus): void {
+  bus = clusterBus
+  bus.subscribe(handleClusterMessage)
+  bus.onPeerJoin(syncToPeer)
+  bus.onPeerLeave(handlePeerLeave)
+}
+
+// 当前节点 ID
+export function getNodeId(): string {
+  return bus.nodeId
+}
 
 // 统计信息
 export interface SessionStats {
@@ -49,6 +209,7 @@ export interface SessionStats {
   connectedSessions: number
   maxSessions: number
   uptime: number
+  messageViolations: number  // 被拒绝的消息总数
 }
 
 const startTime = Date.now()
@@ -58,23 +219,24 @@ export function getStats(): SessionStats {
   let pending = 0
   let connected = 0
 
-  for (const session of sessions.values()) {
+  for (const session of store.values()) {
     if (session.status === 'pending') pending++
     else if (session.status === 'connected') connected++
   }
 
   return {
-    totalSessions: sessions.size,
+    totalSessions: store.size,
     pendingSessions: pending,
     connectedSessions: connected,
     maxSessions: MAX_SESSIONS,
     uptime: Date.now() - startTime,
+    messageViolations: messageViolations.total(),
   }
 }
 
 // 检查是否已达容量上限
 export function isAtCapacity(): boolean {
-  return sessions.size >= MAX_SESSIONS
+  return store.size >= MAX_SESSIONS
 }
 
 // 生成随机字符串
@@ -90,7 +252,7 @@ function generateSessionId(): string {
   let id: string
   do {
     id = generateRandomString(SESSION_ID_LENGTH)
-  } while (sessions.has(id))
+  } while (store.has(id))
   return id
 }
 
@@ -100,46 +262,142 @@ function generateSecret(): string {
 }
 
 // 创建新 Session
-export function createSession(metadata?: DAppMetadata): Session {
+export function createSession(metadata?: DAppMetadata, options: CreateSessionOptions = {}): Session {
   const now = Date.now()
+  const secret = generateSecret()
+  const participants = Math.min(options.participants ?? 1, MAX_PARTICIPANTS)
   const session: Session = {
     id: generateSessionId(),
-    secret: generateSecret(),
+    secret,
     createdAt: now,
     expiresAt: now + PENDING_TIMEOUT,
     status: 'pending',
-    dapp: null,
-    mobile: null,
+    dapps: new Map(),
+    mobiles: new Map(),
     metadata,
-    mobileLocked: false,
     terminated: false,
+    dappNodes: new Map(),
+    mobileNodes: new Map(),
+    webhookUrl: options.webhookUrl,
+    projectId: options.projectId,
+    ttl: options.ttl === undefined ? undefined : resolveTtl(options.ttl),
+    // 多钱包 session：每个参与者使用自己的密钥连接
+    participantSecrets: participants > 1
+      ? [secret, ...Array.from({ length: participants - 1 }, generateSecret)]
+      : undefined,
+    ownerNode: bus.nodeId,
   }
-  sessions.set(session.id, session)
+  store.save(session)
+  bus.publish({ type: 'session_created', session: toRecord(session) })
+  log.info('session_created', { sessionId: session.id, dapp: metadata?.url, project: options.projectId })
+  emitSessionEvent('created', session)
   return session
 }
 
+function toRecord(session: Session): SessionRecord {
+  return {
+    id: session.id,
+    secret: session.secret,
+    createdAt: session.createdAt,
+    expiresAt: session.expiresAt,
+    status: session.status,
+    metadata: session.metadata,
+    terminated: session.terminated,
+    webhookUrl: session.webhookUrl,
+    projectId: session.projectId,
+    ttl: session.ttl,
+    participantSecrets: session.participantSecrets,
+    ownerNode: session.ownerNode,
+  }
+}
+
+// 本节点是否负责该 session 的过期通知（每个节点都会清理过期 session，只有一个节点应发送 webhook）
+export function ownsSession(session: Session): boolean {
+  return !session.ownerNode || session.ownerNode === bus.nodeId
+}
+
 // 获取 Session
 export function getSession(id: string): Session | undefined {
-  return sessions.get(id)
+  return store.get(id)
+}
+
+// 列出所有 Session
+export function listSessions(): Session[] {
+  return Array.from(store.values())
 }
 
 // 删除 Session
 export function deleteSession(id: string): void {
-  sessions.delete(id)
+  store.delete(id)
+  handoffTokens.delete(id)
+  messageQueue.clear(id)
+  messageViolations.clear(id)
+  sessionMessages.clear(id)
+  bus.publish({ type: 'session_deleted', sessionId: id })
 }
 
-// 验证移动端密钥
+// 验证移动端密钥（多钱包 session 接受任一参与者的密钥）
 export function verifySecret(sessionId: string, secret: string): boolean {
-  const session = sessions.get(sessionId)
+  const session = store.get(sessionId)
   if (!session) return false
-  return session.secret === secret
+  return session.secret === secret || getParticipant(sessionId, secret) !== null
+}
+
+// 多钱包 session 中密钥对应的参与者编号（从 1 开始），普通 session 或密钥不匹配时返回 null
+export function getParticipant(sessionId: string, secret: string): number | null {
+  const index = store.get(sessionId)?.participantSecrets?.indexOf(secret) ?? -1
+  return index >= 0 ? index + 1 : null
 }
 
-// 检查移动端是否已锁定
-export function isMobileLocked(sessionId: string): boolean {
-  const session = sessions.get(sessionId)
+// 参与者的连接密钥
+export function getParticipantSecret(session: Session, participant: number): string {
+  return session.participantSecrets?.[participant - 1] ?? session.secret
+}
+
+// session 的参与者数量（普通 session 为 1）
+export function countParticipants(session: Session): number {
+  return session.participantSecrets?.length ?? 1
+}
+
+// 检查参与者是否已连接（已锁定，其他设备不能再连接）
+export function isMobileLocked(sessionId: string, participant = 1): boolean {
+  const session = store.get(sessionId)
   if (!session) return false
-  return session.mobileLocked
+  return session.mobileNodes.has(participant)
+}
+
+/**
+ * 签发移交令牌（替换之前的令牌），新设备凭令牌接管已锁定的移动端
+ * @returns 令牌，session 不存在或已终止时返回 null
+ */
+export function createHandoffToken(sessionId: string, now = Date.now(), participant = 1): HandoffToken | null {
+  const session = store.get(sessionId)
+  if (!session || session.terminated) return null
+
+  const handoff = {
+    token: generateRandomString(HANDOFF_TOKEN_LENGTH),
+    expiresAt: Math.min(now + HANDOFF_TOKEN_TTL, session.expiresAt),
+    participant,
+  }
+  setHandoffToken(sessionId, handoff)
+  bus.publish({ type: 'handoff', sessionId, ...handoff })
+  log.info('handoff_token_issued', { sessionId, participant, expiresAt: handoff.expiresAt })
+  return handoff
+}
+
+// 验证某个参与者的移交令牌（不消耗）
+export function verifyHandoffToken(sessionId: string, token: string, participant = 1, now = Date.now()): boolean {
+  const handoff = handoffTokens.get(sessionId)?.get(participant)
+  return !!handoff && handoff.token === token && handoff.expiresAt > now
+}
+
+// 关闭本节点上被接管的移动端连接
+function closeHandedOffMobile(session: Session, participant: number): void {
+  const mobile = session.mobiles.get(participant)
+  if (!mobile) return
+  mobile.data.handedOff = true
+  mobile.close(CLOSE_HANDED_OFF, 'Session handed off to another device')
+  session.mobiles.delete(participant)
 }
 
 // 注册 WebSocket 连接
@@ -147,9 +405,10 @@ export function isMobileLocked(sessionId: string): boolean {
 export function registerConnection(
   sessionId: string,
   role: 'dapp' | 'mobile',
-  ws: ServerWebSocket<WebSocketData>
+  ws: ServerWebSocket<WebSocketData>,
+  options: RegisterOptions = {}
 ): Session | null {
-  const session = sessions.get(sessionId)
+  const session = store.get(sessionId)
   if (!session) return null
 
   // 如果session已被终止，拒绝连接
@@ -157,44 +416,143 @@ export function registerConnection(
     return null
   }
 
+  let handoff = false
+  let connection: ConnectionKey
   if (role === 'dapp') {
-    session.dapp = ws
+    // 每个 DApp 连接（标签页）单独登记，相同连接 ID 的重连替换旧连接
+    connection = ws.data.connectionId ?? generateRandomString(CONNECTION_ID_LENGTH)
+    ws.data.connectionId = connection
+    session.dapps.set(connection, ws)
+    session.dappNodes.set(connection, bus.nodeId)
   } else {
-    // 移动端连接：检查是否已被锁定
-    if (session.mobileLocked && session.mobile) {
-      // 已有移动端连接，拒绝新连接
-      return null
+    // 移动端连接：检查该参与者是否已被锁定（可能由其他节点持有）
+    const participant = ws.data.participant ?? 1
+    connection = participant
+    if (session.mobileNodes.has(participant)) {
+      // 已有移动端连接，只有持有该参与者有效移交令牌的新设备可以接管
+      if (!options.handoffToken || !verifyHandoffToken(sessionId, options.handoffToken, participant)) {
+        return null
+      }
+      handoff = true
+      deleteHandoffToken(sessionId, participant)  // 令牌只能使用一次
+      closeHandedOffMobile(session, participant)
+      log.info('mobile_handed_off', { sessionId, participant, previousNode: session.mobileNodes.get(participant) })
     }
-    session.mobile = ws
-    session.mobileLocked = true  // 锁定，防止被踢
+    session.mobiles.set(participant, ws)
+    session.mobileNodes.set(participant, bus.nodeId)  // 锁定，防止被踢
+  }
+
+  const connected = refreshStatus(session)
+  store.save(session)
+  bus.publish({ type: 'attach', sessionId, role, connection, ...(handoff && { handoff }) })
+  if (connected) {
+    emitSessionEvent('connected', session, { role })
   }
+  return session
+}
 
-  // 双方都连接后，更新状态和过期时间
-  if (session.dapp && session.mobile) {
+// 双方都连接后（不论在哪个节点），更新状态和过期时间
+// 重新连接不会缩短已延长的过期时间
+// @returns 是否由未连接变为已连接
+function refreshStatus(session: Session): boolean {
+  if (session.dappNodes.size > 0 && session.mobileNodes.size > 0) {
+    const changed = session.status !== 'connected'
     session.status = 'connected'
-    session.expiresAt = Date.now() + CONNECTED_TIMEOUT
+    session.expiresAt = Math.max(session.expiresAt, Date.now() + (session.ttl ?? CONNECTED_TIMEOUT))
+    return changed
   }
+  return false
+}
+
+// 更新过期时间并同步到其他节点
+function setExpiresAt(session: Session, expiresAt: number): void {
+  session.expiresAt = expiresAt
+  store.save(session)
+  bus.publish({ type: 'expiry', sessionId: session.id, expiresAt })
+}
 
+/**
+ * 滑动过期：已连接的 session 有消息往来时，把过期时间顺延到 now + ttl
+ * @returns 是否更新了过期时间
+ */
+export function touchSession(sessionId: string, now = Date.now()): boolean {
+  if (!SLIDING_EXPIRY) return false
+  const session = store.get(sessionId)
+  if (!session || session.terminated || session.status !== 'connected') return false
+
+  const expiresAt = now + (session.ttl ?? CONNECTED_TIMEOUT)
+  if (expiresAt - session.expiresAt < SLIDING_STEP) return false
+  setExpiresAt(session, expiresAt)
+  return true
+}
+
+/**
+ * 延长 session 有效期到 now + ttl（截断到 SESSION_MAX_TTL），不会缩短已有的过期时间
+ * @returns 更新后的 session，不存在或已终止时返回 null
+ */
+export function extendSession(sessionId: string, ttl?: number): Session | null {
+  const session = store.get(sessionId)
+  if (!session || session.terminated) return null
+
+  const expiresAt = Date.now() + resolveTtl(ttl ?? session.ttl)
+  if (expiresAt > session.expiresAt) {
+    setExpiresAt(session, expiresAt)
+    log.info('session_extended', { sessionId, expiresAt })
+  }
   return session
 }
 
 // 注销 WebSocket 连接
+// connection 为 DApp 连接 ID 或参与者编号，未指定时注销本节点上该角色的所有连接
 export function unregisterConnection(
   sessionId: string,
-  role: 'dapp' | 'mobile'
+  role: 'dapp' | 'mobile',
+  connection?: ConnectionKey
 ): void {
-  const session = sessions.get(sessionId)
+  const session = store.get(sessionId)
   if (!session) return
 
-  if (role === 'dapp') {
-    session.dapp = null
-  } else {
-    session.mobile = null
-    // 移动端断开后，解除锁定，允许重新连接
-    session.mobileLocked = false
+  // 已被其他节点上的新连接接管的连接不影响其状态
+  const nodes = nodesOf(session, role)
+  const connections = (connection !== undefined ? [connection] : [...socketsOf(session, role).keys()])
+    .filter(key => nodes.get(key) === bus.nodeId)
+  if (connections.length === 0) return
+
+  // 已终止的 session 关闭连接时不再重复通知
+  const notify = !session.terminated
+  for (const key of connections) {
+    detachRole(session, role, key)
+    bus.publish({ type: 'detach', sessionId, role, connection: key })
+  }
+  store.save(session)
+  // 该角色还有其他连接（其他标签页或参与者）时仍视为在线
+  if (notify && !hasRole(session, role)) {
+    emitSessionEvent('disconnected', session, { role })
   }
+}
 
-  session.status = 'disconnected'
+// 移动端断开后解除该参与者的锁定，允许重新连接
+function detachRole(session: Session, role: 'dapp' | 'mobile', connection: ConnectionKey): void {
+  socketsOf(session, role).delete(connection)
+  nodesOf(session, role).delete(connection)
+  if (!hasRole(session, role)) {
+    session.status = 'disconnected'
+  }
+}
+
+// 该角色是否有连接（本节点或其他节点）
+function hasRole(session: Session, role: 'dapp' | 'mobile'): boolean {
+  return nodesOf(session, role).size > 0
+}
+
+// 该角色在本节点上的连接
+function socketsOf(session: Session, role: 'dapp' | 'mobile'): Map<ConnectionKey, ServerWebSocket<WebSocketData>> {
+  return role === 'dapp' ? session.dapps : session.mobiles
+}
+
+// 该角色所有连接所在的节点
+function nodesOf(session: Session, role: 'dapp' | 'mobile'): Map<ConnectionKey, string> {
+  return role === 'dapp' ? session.dappNodes : session.mobileNodes
 }
 
 // Session ID 回收延迟（给客户端时间看到 410 状态）
@@ -202,44 +560,285 @@ const SESSION_RECYCLE_DELAY = 5000  // 5 秒后删除，释放 ID
 
 // 终止 Session（用户主动断开，不可再连接）
 export function terminateSession(sessionId: string): void {
-  const session = sessions.get(sessionId)
+  const session = store.get(sessionId)
   if (!session) return
 
+  applyTermination(session)
+  bus.publish({ type: 'terminate', sessionId })
+  log.info('session_terminated', { sessionId })
+  emitSessionEvent('terminated', session)
+}
+
+function applyTermination(session: Session): void {
+  const sessionId = session.id
   session.terminated = true
   session.status = 'disconnected'
 
   // 关闭所有连接
-  session.dapp?.close(1008, 'Session terminated')
-  session.mobile?.close(1008, 'Session terminated')
-  session.dapp = null
-  session.mobile = null
+  session.dapps.forEach(ws => ws.close(1008, 'Session terminated'))
+  session.mobiles.forEach(ws => ws.close(1008, 'Session terminated'))
+  session.dapps.clear()
+  session.mobiles.clear()
+  session.dappNodes.clear()
+  session.mobileNodes.clear()
+  store.save(session)
+  handoffTokens.delete(sessionId)
+  messageQueue.clear(sessionId)
 
   // 延迟删除 session 以回收 ID（4位ID空间有限）
   setTimeout(() => {
-    sessions.delete(sessionId)
-    console.log(`[Session] Recycled session ID: ${sessionId}`)
+    store.delete(sessionId)
+    messageViolations.clear(sessionId)
+    sessionMessages.clear(sessionId)
+    log.info('session_recycled', { sessionId })
   }, SESSION_RECYCLE_DELAY)
 }
 
-// 获取对端连接
+// 获取对端连接（对端有多个连接时为本节点上最近连接的一个）
 export function getPeer(
   sessionId: string,
   myRole: 'dapp' | 'mobile'
 ): ServerWebSocket<WebSocketData> | null {
-  const session = sessions.get(sessionId)
+  const session = store.get(sessionId)
   if (!session) return null
-  return myRole === 'dapp' ? session.mobile : session.dapp
+  return [...socketsOf(session, myRole === 'dapp' ? 'mobile' : 'dapp').values()].pop() ?? null
+}
+
+// 检查对端是否在线（本节点或其他节点）
+export function hasPeer(sessionId: string, myRole: 'dapp' | 'mobile'): boolean {
+  const session = store.get(sessionId)
+  if (!session) return false
+  return hasRole(session, myRole === 'dapp' ? 'mobile' : 'dapp')
+}
+
+// session 当前的 DApp 连接数（所有节点）
+export function countDappConnections(sessionId: string): number {
+  return store.get(sessionId)?.dappNodes.size ?? 0
+}
+
+// 发送消息给对端：对端在本节点时直接发送，否则经总线转发到持有连接的节点
+// 指定 target 时只发给该连接（DApp 连接 ID 或参与者编号，如请求的响应），否则广播给对端的所有连接
+// 返回 false 表示对端不在线
+export function sendToPeer(sessionId: string, myRole: 'dapp' | 'mobile', data: string, target?: ConnectionKey): boolean {
+  const session = store.get(sessionId)
+  if (!session) return false
+
+  return deliverTo(session, myRole === 'dapp' ? 'mobile' : 'dapp', data, target)
+}
+
+function deliverTo(session: Session, role: 'dapp' | 'mobile', data: string, target?: ConnectionKey): boolean {
+  const sockets = socketsOf(session, role)
+  const nodes = nodesOf(session, role)
+
+  if (target !== undefined) {
+    const local = sockets.get(target)
+    if (local) {
+      sendMessage(local, data)
+      return true
+    }
+    const node = nodes.get(target)
+    if (node && node !== bus.nodeId) {
+      bus.publish({ type: 'relay', sessionId: session.id, role, connection: target, data }, node)
+      return true
+    }
+    return false
+  }
+
+  // 广播：本节点直接发送，其他节点各转发一次
+  sockets.forEach(ws => sendMessage(ws, data))
+  const remoteNodes = new Set([...nodes.values()].filter(node => node !== bus.nodeId))
+  for (const node of remoteNodes) {
+    bus.publish({ type: 'relay', sessionId: session.id, role, data }, node)
+  }
+  return sockets.size > 0 || remoteNodes.size > 0
+}
+
+// 缓存消息的接收方：移动端的响应带有 connection（DApp 连接 ID），DApp 的请求可以带 participant（参与者编号）
+function targetOf(data: string, role: 'dapp' | 'mobile'): ConnectionKey | undefined {
+  try {
+    const message = JSON.parse(data)
+    if (role === 'dapp') {
+      return typeof message.connection === 'string' ? message.connection : undefined
+    }
+    return Number.isInteger(message.participant) ? message.participant : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// 对端离线时缓存消息，等对端重连后补发
+// 返回入队后的队列长度，队列已满或 session 不存在返回 -1
+export function bufferForPeer(sessionId: string, myRole: 'dapp' | 'mobile', data: string): number {
+  if (!store.has(sessionId)) return -1
+  return messageQueue.enqueue(sessionId, myRole === 'dapp' ? 'mobile' : 'dapp', data)
+}
+
+// 按顺序补发缓存给该角色的消息，返回补发条数
+// 发给某个 DApp 连接或参与者的消息在其连接前继续缓存
+export function flushBufferedMessages(sessionId: string, role: 'dapp' | 'mobile'): number {
+  const session = store.get(sessionId)
+  if (!session) return 0
+
+  return messageQueue.flush(sessionId, role, data => deliverTo(session, role, data, targetOf(data, role)))
+}
+
+// 处理来自其他节点的消息
+export function handleClusterMessage(message: ClusterMessage, from: string): void {
+  switch (message.type) {
+    case 'session_created': {
+      const record = message.session as SessionRecord
+      // ID 冲突时保留本地 session
+      if (store.has(record.id)) return
+      store.save({
+        ...record,
+        dapps: new Map(),
+        mobiles: new Map(),
+        dappNodes: new Map(),
+        mobileNodes: new Map(),
+      })
+      break
+    }
+
+    case 'session_deleted':
+      store.delete(message.sessionId as string)
+      handoffTokens.delete(message.sessionId as string)
+      messageQueue.clear(message.sessionId as string)
+      messageViolations.clear(message.sessionId as string)
+      sessionMessages.clear(message.sessionId as string)
+      break
+
+    case 'attach': {
+      const session = store.get(message.sessionId as string)
+      if (!session) return
+      const role = message.role as 'dapp' | 'mobile'
+      const connection = connectionOf(message)
+      // 移交：关闭本节点上的旧移动端连接
+      if (role === 'mobile' && message.handoff) {
+        deleteHandoffToken(session.id, connection as number)
+        closeHandedOffMobile(session, connection as number)
+      }
+      // 另一节点接管了该连接，本地旧连接不再作为转发目标
+      socketsOf(session, role).delete(connection)
+      nodesOf(session, role).set(connection, from)
+      refreshStatus(session)
+      store.save(session)
+      // 补发本节点为该角色缓存的消息
+      flushBufferedMessages(session.id, message.role as 'dapp' | 'mobile')
+      break
+    }
+
+    case 'detach': {
+      const session = store.get(message.sessionId as string)
+      if (!session) return
+      const role = message.role as 'dapp' | 'mobile'
+      const connection = connectionOf(message)
+      if (nodesOf(session, role).get(connection) !== from) return
+      detachRole(session, role, connection)
+      store.save(session)
+      break
+    }
+
+    case 'relay': {
+      const session = store.get(message.sessionId as string)
+      if (!session) return
+      const sockets = socketsOf(session, message.role as 'dapp' | 'mobile')
+      if (message.connection !== undefined) {
+        const ws = sockets.get(message.connection as ConnectionKey)
+        if (ws) sendMessage(ws, message.data as string)
+      } else {
+        sockets.forEach(ws => sendMessage(ws, message.data as string))
+      }
+      break
+    }
+
+    case 'expiry': {
+      const session = store.get(message.sessionId as string)
+      if (!session) return
+      // 只接受更晚的过期时间，避免乱序消息缩短有效期
+      session.expiresAt = Math.max(session.expiresAt, message.expiresAt as number)
+      store.save(session)
+      break
+    }
+
+    case 'handoff': {
+      if (!store.has(message.sessionId as string)) return
+      setHandoffToken(message.sessionId as string, {
+        token: message.token as string,
+        expiresAt: message.expiresAt as number,
+        participant: (message.participant as number | undefined) ?? 1,
+      })
+      break
+    }
+
+    case 'terminate': {
+      const session = store.get(message.sessionId as string)
+      if (session && !session.terminated) {
+        applyTermination(session)
+      }
+      break
+    }
+  }
+}
+
+// 集群消息中的连接标识（不带 connection 的移动端消息来自普通 session，即参与者 1）
+function connectionOf(message: ClusterMessage): ConnectionKey {
+  return (message.connection as ConnectionKey | undefined) ?? (message.role === 'mobile' ? 1 : '')
+}
+
+// 向新加入的节点同步本节点的 session 及连接所有权
+function syncToPeer(nodeId: string): void {
+  for (const session of store.values()) {
+    bus.publish({ type: 'session_created', session: toRecord(session) }, nodeId)
+    for (const connection of session.dapps.keys()) {
+      bus.publish({ type: 'attach', sessionId: session.id, role: 'dapp', connection }, nodeId)
+    }
+    for (const connection of session.mobiles.keys()) {
+      bus.publish({ type: 'attach', sessionId: session.id, role: 'mobile', connection }, nodeId)
+    }
+    for (const handoff of handoffTokens.get(session.id)?.values() ?? []) {
+      bus.publish({ type: 'handoff', sessionId: session.id, ...handoff }, nodeId)
+    }
+  }
+}
+
+// 节点离开（崩溃或断开）后，按 detach 处理它持有的连接，解除参与者锁定，允许重新连接到其他节点
+// 节点恢复后会通过 syncToPeer 重新同步仍存在的连接
+export function handlePeerLeave(nodeId: string): void {
+  for (const session of store.values()) {
+    let changed = false
+    for (const role of ['dapp', 'mobile'] as const) {
+      for (const [connection, node] of nodesOf(session, role)) {
+        if (node !== nodeId) continue
+        detachRole(session, role, connection)
+        changed = true
+      }
+    }
+    // 负责节点离开后，由仍持有连接的节点接替（各节点看到的连接相同，按节点 ID 取最小者，结果一致）；
+    // 没有连接时不再指定，剩余节点各自负责
+    if (session.ownerNode === nodeId) {
+      session.ownerNode = [...session.dappNodes.values(), ...session.mobileNodes.values()].sort()[0]
+      changed = true
+    }
+    if (changed) store.save(session)
+  }
+  log.info('peer_connections_released', { nodeId })
 }
 
 // 清理过期 Session
 export function cleanupExpiredSessions(): void {
   const now = Date.now()
-  for (const [id, session] of sessions) {
+  for (const session of store.values()) {
     if (now > session.expiresAt) {
       // 关闭连接
-      session.dapp?.close(1000, 'Session expired')
-      session.mobile?.close(1000, 'Session expired')
-      sessions.delete(id)
+      session.dapps.forEach(ws => ws.close(1000, 'Session expired'))
+      session.mobiles.forEach(ws => ws.close(1000, 'Session expired'))
+      store.delete(session.id)
+      handoffTokens.delete(session.id)
+      messageQueue.clear(session.id)
+      messageViolations.clear(session.id)
+      sessionMessages.clear(session.id)
+      log.info('session_expired', { sessionId: session.id, status: session.status })
+      emitSessionEvent('expired', session)
     }
   }
 }
@@ -0,0 +1,160 @@
+/**
+ * 优雅停机（排空模式）
+ *
+ * 收到 SIGTERM / SIGINT 后：
+ * 1. 拒绝新的 session 和 WebSocket 连接，/health 返回 503，负载均衡不再转发新流量
+ * 2. 向所有连接发送 { type: 'server_draining', reconnectDelay }，DApp 新发起的请求返回 -32009
+ * 3. 等待已转发的请求收到响应，最长 DRAIN_TIMEOUT
+ * 4. 以 1012 (Service Restart) 关闭所有连接，客户端按 reconnectDelay 重连到其他实例
+ */
+
+import { requestTimer } from './metrics'
+import { getSession } from './session'
+import { logger } from './logger'
+import { sendMessage, type VersionedSocket } from './protocol'
+
+const log = logger.child({ component: 'shutdown' })
+
+// 服务器正在排空，拒绝新请求（JSON-RPC 错误码）
+export const ERROR_SERVER_DRAINING = -32009
+
+// 排空完成后关闭连接使用的标准关闭码（Service Restart：客户端可稍后重连）
+export const CLOSE_SERVICE_RESTART = 1012
+
+export interface DrainConfig {
+  timeoutMs: number         // 等待进行中请求的最长时间
+  reconnectDelayMs: number  // 建议客户端重连前等待的时间
+  pollIntervalMs: number    // 检查进行中请求的间隔
+}
+
+export interface DrainSocket extends VersionedSocket {
+  close(code?: number, reason?: string): void
+}
+
+export interface DrainResult {
+  completed: boolean  // 截止前所有请求都已收到响应
+  remaining: number   // 截止时仍未完成的请求数
+  closed: number      // 关闭的连接数
+  durationMs: number
+}
+
+/**
+ * 统计双方仍在线的 session 中等待响应的请求（对端已离线的请求在本节点无法完成）
+ */
+export function countInFlightRequests(): number {
+  return requestTimer.count(sessionId => getSession(sessionId)?.status === 'connected')
+}
+
+export class DrainController {
+  private sockets = new Set<DrainSocket>()
+  private config: DrainConfig
+  private inFlight: () => number
+  private sleep: (ms: number) => Promise<void>
+  private drainPromise: Promise<DrainResult> | null = null
+
+  constructor(
+    config: DrainConfig,
+    inFlight: () => number = countInFlightRequests,
+    sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))
+  ) {
+    this.config = config
+    this.inFlight = inFlight
+    this.sleep = sleep
+  }
+
+  get isDraining(): boolean {
+    return this.drainPromise !== null
+  }
+
+  get reconnectDelayMs(): number {
+    return this.config.reconnectDelayMs
+  }
+
+  get size(): number {
+    return this.sockets.size
+  }
+
+  /**
+   * 跟踪连接（排空时通知并关闭）
+   */
+  track(ws: DrainSocket): void {
+    this.sockets.add(ws)
+    // 排空开始后才建立的连接（如已在升级中的请求）同样需要通知
+    if (this.isDraining) {
+      this.notify(ws)
+    }
+  }
+
+  untrack(ws: DrainSocket): void {
+    this.sockets.delete(ws)
+  }
+
+  /**
+   * DApp 发起的请求在排空期间不再转发，避免等待时间无限延长
+   */
+  isNewRequest(role: 'dapp' | 'mobile', message: { type: string; id?: number }): boolean {
+    return role === 'dapp' && typeof message.id === 'number' &&
+      (message.type === 'request' || message.type === 'batch_request' || message.type === 'encrypted')
+  }
+
+  /**
+   * 开始排空，重复调用返回同一个结果
+   */
+  drain(): Promise<DrainResult> {
+    if (!this.drainPromise) {
+      this.drainPromise = this.run()
+    }
+    return this.drainPromise
+  }
+
+  private notify(ws: DrainSocket): void {
+    try {
+      sendMessage(ws, JSON.stringify({ type: 'server_draining', reconnectDelay: this.config.reconnectDelayMs }))
+    } catch {
+      // 连接已断开，关闭阶段会再次处理
+    }
+  }
+
+  private async run(): Promise<DrainResult> {
+    const startedAt = Date.now()
+    log.info('drain_started', { connections: this.sockets.size, inFlight: this.inFlight() })
+
+    for (const ws of this.sockets) {
+      this.notify(ws)
+    }
+
+    const deadline = startedAt + this.config.timeoutMs
+    while (this.inFlight() > 0 && Date.now() < deadline) {
+      await this.sleep(this.config.pollIntervalMs)
+    }
+    const remaining = this.inFlight()
+
+    // 先复制再关闭：close 会同步触发 close 回调中的 untrack
+    const sockets = [...this.sockets]
+    for (const ws of sockets) {
+      try {
+        ws.close(CLOSE_SERVICE_RESTART, 'Server shutting down')
+      } catch {}
+    }
+
+    const result: DrainResult = {
+      completed: remaining === 0,
+      remaining,
+      closed: sockets.length,
+      durationMs: Date.now() - startedAt,
+    }
+    if (result.completed) {
+      log.info('drain_completed', { ...result })
+    } else {
+      log.warn('drain_timeout', { ...result })
+    }
+    return result
+  }
+}
+
+// 预配置的排空控制器（可通过环境变量配置）
+export const drainController = new DrainController({
+  timeoutMs: parseInt(process.env.DRAIN_TIMEOUT || '30000', 10),
+  reconnectDelayMs: parseInt(process.env.DRAIN_RECONNECT_DELAY || '5000', 10),
+  pollIntervalMs: 100,
+})
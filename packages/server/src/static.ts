@@ -3,13 +3,16 @@
  */
 
 import { IS_COMPILED, getPublicFiles } from './embedded-assets'
+import { logger } from './logger'
+
+const log = logger.child({ component: 'static' })
 
 // Cache embedded files in memory
 let embeddedFiles: Map<string, { content: Buffer; mimeType: string }> | null = null
 
 if (IS_COMPILED) {
   embeddedFiles = getPublicFiles()
-  console.log(`[Static] Loaded ${embeddedFiles.size} embedded static files`)
+  log.info('embedded_loaded', { count: embeddedFiles.size })
 }
 
 // MIME types for common file extensions
@@ -61,6 +64,22 @@ export function handleEmbeddedStatic(path: string): Response | null {
   })
 }
 
+/**
+ * Read a file from public/ (embedded assets in compiled mode)
+ * Returns null if the file doesn't exist
+ */
+export async function readPublicFile(path: string): Promise<Buffer | null> {
+  if (IS_COMPILED && embeddedFiles) {
+    return embeddedFiles.get(path)?.content ?? null
+  }
+
+  try {
+    return Buffer.from(await Bun.file(import.meta.dir + '/../public' + path).arrayBuffer())
+  } catch {
+    return null
+  }
+}
+
 /**
  * Create Elysia plugin for embedded static files
  */
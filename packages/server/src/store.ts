@@ -0,0 +1,238 @@
+/**
+ * Session 存储抽象
+ *
+ * 默认使用进程内 Map；设置 SESSION_STORE=sqlite 后改用 bun:sqlite 持久化，
+ * 服务重启后 session（id、secret、元数据、状态、过期时间、终止标记）仍然有效，
+ * WebSocket 连接本身无法持久化，客户端重连后会重新注册。
+ */
+
+import { Database } from 'bun:sqlite'
+import { mkdirSync } from 'fs'
+import { dirname } from 'path'
+import type { Session, SessionStatus } from './session'
+import { logger } from './logger'
+
+const log = logger.child({ component: 'store' })
+
+export interface SessionStore {
+  get(id: string): Session | undefined
+  has(id: string): boolean
+  /** 写入或更新 session（session 字段修改后需再次调用以持久化） */
+  save(session: Session): void
+  delete(id: string): void
+  values(): IterableIterator<Session>
+  readonly size: number
+  /** 停机时释放资源（可选） */
+  close?(): void
+  /** 检查存储是否可用，返回错误描述，正常时返回 null（可选） */
+  healthCheck?(): string | null
+}
+
+/**
+ * 内存存储（默认）
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, Session>()
+
+  get(id: string): Session | undefined {
+    return this.sessions.get(id)
+  }
+
+  has(id: string): boolean {
+    return this.sessions.has(id)
+  }
+
+  save(session: Session): void {
+    this.sessions.set(session.id, session)
+  }
+
+  delete(id: string): void {
+    this.sessions.delete(id)
+  }
+
+  values(): IterableIterator<Session> {
+    return this.sessions.values()
+  }
+
+  get size(): number {
+    return this.sessions.size
+  }
+}
+
+interface SessionRow {
+  id: string
+  secret: string
+  created_at: number
+  expires_at: number
+  status: string
+  metadata: string | null
+  terminated: number
+  webhook_url: string | null
+  project_id: string | null
+  ttl: number | null
+  participant_secrets: string | null
+  owner_node: string | null
+}
+
+/**
+ * SQLite 存储
+ * 读操作走内存缓存（session 对象上挂着 WebSocket 引用），写操作同步落盘
+ */
+export class SqliteSessionStore implements SessionStore {
+  private cache = new Map<string, Session>()
+  private db: Database
+
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true })
+    }
+    this.db = new Database(path, { create: true })
+    this.db.run('PRAGMA journal_mode = WAL')
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        secret TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        metadata TEXT,
+        terminated INTEGER NOT NULL DEFAULT 0
+      )
+    `)
+    this.migrate()
+    this.load()
+  }
+
+  // 为旧版本创建的数据库补充新增的列
+  private migrate(): void {
+    const columns = this.db.query('PRAGMA table_info(sessions)').all() as { name: string }[]
+    if (!columns.some(column => column.name === 'webhook_url')) {
+      this.db.run('ALTER TABLE sessions ADD COLUMN webhook_url TEXT')
+    }
+    if (!columns.some(column => column.name === 'project_id')) {
+      this.db.run('ALTER TABLE sessions ADD COLUMN project_id TEXT')
+    }
+    if (!columns.some(column => column.name === 'ttl')) {
+      this.db.run('ALTER TABLE sessions ADD COLUMN ttl INTEGER')
+    }
+    if (!columns.some(column => column.name === 'participant_secrets')) {
+      this.db.run('ALTER TABLE sessions ADD COLUMN participant_secrets TEXT')
+    }
+    if (!columns.some(column => column.name === 'owner_node')) {
+      this.db.run('ALTER TABLE sessions ADD COLUMN owner_node TEXT')
+    }
+  }
+
+  // 启动时恢复已持久化的 session：连接和所在节点不恢复（需重新注册，因此不锁定移动端），
+  // 重启前已连接的 session 标记为 disconnected；负责过期 webhook 的节点照常恢复，避免重启后重复发送
+  private load(): void {
+    this.db.run("UPDATE sessions SET status = 'disconnected' WHERE status = 'connected'")
+    const rows = this.db.query('SELECT * FROM sessions').all() as SessionRow[]
+    for (const row of rows) {
+      this.cache.set(row.id, {
+        id: row.id,
+        secret: row.secret,
+        createdAt: row.created_at,
+        expiresAt: row.expires_at,
+        status: row.status as SessionStatus,
+        dapps: new Map(),
+        mobiles: new Map(),
+        metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+        terminated: row.terminated === 1,
+        dappNodes: new Map(),
+        mobileNodes: new Map(),
+        webhookUrl: row.webhook_url ?? undefined,
+        projectId: row.project_id ?? undefined,
+        ttl: row.ttl ?? undefined,
+        participantSecrets: row.participant_secrets ? JSON.parse(row.participant_secrets) : undefined,
+        ownerNode: row.owner_node ?? undefined,
+      })
+    }
+  }
+
+  get(id: string): Session | undefined {
+    return this.cache.get(id)
+  }
+
+  has(id: string): boolean {
+    return this.cache.has(id)
+  }
+
+  save(session: Session): void {
+    this.cache.set(session.id, session)
+    this.db.query(`
+      INSERT INTO sessions (id, secret, created_at, expires_at, status, metadata, terminated, webhook_url, project_id, ttl, participant_secrets, owner_node)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        secret = excluded.secret,
+        expires_at = excluded.expires_at,
+        status = excluded.status,
+        metadata = excluded.metadata,
+        terminated = excluded.terminated,
+        webhook_url = excluded.webhook_url,
+        project_id = excluded.project_id,
+        ttl = excluded.ttl,
+        participant_secrets = excluded.participant_secrets,
+        owner_node = excluded.owner_node
+    `).run(
+      session.id,
+      session.secret,
+      session.createdAt,
+      session.expiresAt,
+      session.status,
+      session.metadata ? JSON.stringify(session.metadata) : null,
+      session.terminated ? 1 : 0,
+      session.webhookUrl ?? null,
+      session.projectId ?? null,
+      session.ttl ?? null,
+      session.participantSecrets ? JSON.stringify(session.participantSecrets) : null,
+      session.ownerNode ?? null,
+    )
+  }
+
+  healthCheck(): string | null {
+    try {
+      this.db.query('SELECT 1').get()
+      return null
+    } catch (e) {
+      return (e as Error).message
+    }
+  }
+
+  delete(id: string): void {
+    this.cache.delete(id)
+    this.db.query('DELETE FROM sessions WHERE id = ?').run(id)
+  }
+
+  values(): IterableIterator<Session> {
+    return this.cache.values()
+  }
+
+  get size(): number {
+    return this.cache.size
+  }
+
+  close(): void {
+    this.db.close()
+  }
+}
+
+/**
+ * 根据环境变量创建存储
+ * SESSION_STORE=memory（默认）| sqlite
+ * SESSION_DB_PATH=SQLite 文件路径（默认 ./data/sessions.db）
+ */
+export function createSessionStore(): SessionStore {
+  const type = process.env.SESSION_STORE || 'memory'
+
+  if (type === 'sqlite') {
+    const path = process.env.SESSION_DB_PATH || './data/sessions.db'
+    log.info('sqlite_store', { path })
+    return new SqliteSessionStore(path)
+  }
+
+  if (type !== 'memory') {
+    log.warn('unknown_store', { type, fallback: 'memory' })
+  }
+  return new MemorySessionStore()
+}
@@ -6,6 +6,9 @@ import {
   getExternalLocales,
   hasCustomTheme as configHasCustomTheme,
 } from './config'
+import { logger } from './logger'
+
+const log = logger.child({ component: 'template' })
 
 // Try to import embedded assets (available in compiled mode)
 let embeddedTemplates: Record<string, string> | null = null
@@ -17,7 +20,7 @@ try {
   if (embedded.IS_COMPILED) {
     embeddedTemplates = embedded.getTemplates()
     isCompiled = true
-    console.log('[Template] Running in compiled mode with embedded templates')
+    log.info('compiled_mode')
   }
 } catch {
   // Not in compiled mode or embedded-assets not generated yet
@@ -41,7 +44,7 @@ if (isCompiled && embeddedTemplates) {
   for (const [name, content] of Object.entries(embeddedTemplates)) {
     eta.loadTemplate(name, content)
   }
-  console.log(`[Template] Loaded ${Object.keys(embeddedTemplates).length} templates into cache`)
+  log.info('templates_cached', { count: Object.keys(embeddedTemplates).length })
 } else {
   // Development mode: use file-based templates
   eta = new Eta({
@@ -81,6 +84,14 @@ const translations: Record<string, Record<string, string>> = {
     'landing.copyLink': '复制链接',
     'landing.noWalletEnv': '未检测到钱包环境',
 
+    // Pairing page
+    'pair.title': '输入配对码',
+    'pair.description': '输入 DApp 上显示的 {digits} 位配对码',
+    'pair.submit': '连接',
+    'pair.invalidFormat': '请输入完整的配对码',
+    'pair.invalidCode': '配对码无效或已过期',
+    'pair.tooManyAttempts': '尝试次数过多，请稍后再试',
+
     // Bridge page
     'bridge.title': '连接确认',
     'bridge.connecting': '正在连接...',
@@ -114,6 +125,10 @@ const translations: Record<string, Record<string, string>> = {
     'bridge.safeWalletOpenInApps': '请确保在 Safe 钱包的 Apps 中打开此页面',
     'bridge.reconnecting': '重新连接中... ({attempt}/{maxAttempts})',
     'bridge.networkDisconnected': '网络连接断开，正在尝试重连',
+    'bridge.moveDevice': '切换到其他设备',
+    'bridge.handoffHint': '用新设备扫描此二维码，新设备连接后本设备将自动断开',
+    'bridge.handedOff': '已切换到其他设备',
+    'bridge.handedOffDesc': '此连接已由另一台设备接管',
     'landing.safeDetected': '检测到 Safe 钱包，正在连接...',
 
     // Methods
@@ -151,6 +166,35 @@ const translations: Record<string, Record<string, string>> = {
     'demo.contractActions': '合约操作',
     'demo.selectChain': '选择目标链',
     'demo.currentChain': '当前链',
+
+    // Admin page
+    'admin.title': '管理后台',
+    'admin.token': '管理令牌',
+    'admin.login': '登录',
+    'admin.logout': '退出登录',
+    'admin.invalidToken': '令牌无效',
+    'admin.total': '会话总数',
+    'admin.pending': '等待连接',
+    'admin.connected': '已连接',
+    'admin.capacity': '容量',
+    'admin.sessions': '会话',
+    'admin.allStatuses': '全部状态',
+    'admin.filter': '筛选',
+    'admin.noSessions': '没有会话',
+    'admin.id': 'ID',
+    'admin.status': '状态',
+    'admin.dapp': '应用',
+    'admin.age': '时长',
+    'admin.roles': '连接',
+    'admin.messages': '消息',
+    'admin.violations': '违规',
+    'admin.expires': '剩余有效期',
+    'admin.terminate': '终止',
+    'admin.terminated': '已终止',
+    'admin.confirmTerminate': '确定终止此会话？',
+    'admin.terminateOrigin': '终止某个来源的全部会话',
+    'admin.confirmTerminateOrigin': '确定终止该来源的全部会话？',
+    'admin.terminatedCount': '已终止 {count} 个会话',
   },
 
   en: {
@@ -181,6 +225,14 @@ const translations: Record<string, Record<string, string>> = {
     'landing.copyLink': 'Copy Link',
     'landing.noWalletEnv': 'No wallet environment detected',
 
+    // Pairing page
+    'pair.title': 'Enter Pairing Code',
+    'pair.description': 'Enter the {digits}-digit code shown by the DApp',
+    'pair.submit': 'Connect',
+    'pair.invalidFormat': 'Please enter the full pairing code',
+    'pair.invalidCode': 'Invalid or expired pairing code',
+    'pair.tooManyAttempts': 'Too many attempts, please try again later',
+
     // Bridge page
     'bridge.title': 'Connection Confirmation',
     'bridge.connecting': 'Connecting...',
@@ -214,6 +266,10 @@ const translations: Record<string, Record<string, string>> = {
     'bridge.safeWalletOpenInApps': 'Please make sure to open this page in Safe Wallet Apps',
     'bridge.reconnecting': 'Reconnecting... ({attempt}/{maxAttempts})',
     'bridge.networkDisconnected': 'Network disconnected, trying to reconnect',
+    'bridge.moveDevice': 'Move to another device',
+    'bridge.handoffHint': 'Scan this code with the new device. This device disconnects once it takes over',
+    'bridge.handedOff': 'Moved to another device',
+    'bridge.handedOffDesc': 'Another device has taken over this connection',
     'landing.safeDetected': 'Safe Wallet detected, connecting...',
 
     // Methods
@@ -251,6 +307,35 @@ const translations: Record<string, Record<string, string>> = {
     'demo.contractActions': 'Contract Actions',
     'demo.selectChain': 'Select target chain',
     'demo.currentChain': 'Current Chain',
+
+    // Admin page
+    'admin.title': 'Admin',
+    'admin.token': 'Admin token',
+    'admin.login': 'Sign in',
+    'admin.logout': 'Sign out',
+    'admin.invalidToken': 'Invalid token',
+    'admin.total': 'Total sessions',
+    'admin.pending': 'Pending',
+    'admin.connected': 'Connected',
+    'admin.capacity': 'Capacity',
+    'admin.sessions': 'Sessions',
+    'admin.allStatuses': 'All statuses',
+    'admin.filter': 'Filter',
+    'admin.noSessions': 'No sessions',
+    'admin.id': 'ID',
+    'admin.status': 'Status',
+    'admin.dapp': 'DApp',
+    'admin.age': 'Age',
+    'admin.roles': 'Connections',
+    'admin.messages': 'Messages',
+    'admin.violations': 'Violations',
+    'admin.expires': 'Expires in',
+    'admin.terminate': 'Terminate',
+    'admin.terminated': 'Terminated',
+    'admin.confirmTerminate': 'Terminate this session?',
+    'admin.terminateOrigin': 'Terminate all sessions from an origin',
+    'admin.confirmTerminateOrigin': 'Terminate all sessions from this origin?',
+    'admin.terminatedCount': 'Terminated {count} session(s)',
   },
 }
 
@@ -0,0 +1,340 @@
+/**
+ * 转发消息校验
+ *
+ * 每个客户端帧在转发前按 protocol.md 中的消息定义校验：
+ * 必须是 JSON 对象、不超过大小上限、类型已知、发送方角色可以发送该类型、字段结构正确。
+ * 不合法的帧不会转发，服务端回复 error 消息并按 session 记录违规次数。
+ */
+
+type Role = 'dapp' | 'mobile'
+type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null'
+
+// JSON Schema 的一个子集（足以描述协议消息）
+export interface Schema {
+  type: JsonType | JsonType[]
+  properties?: Record<string, Schema>
+  required?: string[]
+  items?: Schema
+  minItems?: number
+  maxItems?: number
+  pattern?: RegExp
+  minimum?: number
+  maxLength?: number
+  not?: { required: string[] }  // 这些字段不能同时出现
+}
+
+interface MessageSchema extends Schema {
+  roles: Role[]  // 允许发送该类型的角色
+}
+
+// 错误码（见 protocol.md）
+export const ERROR_PARSE = -32700           // 不是合法 JSON
+export const ERROR_INVALID_MESSAGE = -32600 // 类型未知或字段不合法
+export const ERROR_MESSAGE_TOO_LARGE = -32006
+export const ERROR_MESSAGE_NOT_ALLOWED = -32007 // 当前角色不能发送该类型
+
+const ADDRESS: Schema = { type: 'string', pattern: /^0x[0-9a-fA-F]{40}$/ }
+const CHAIN_ID: Schema = { type: 'integer', minimum: 1 }
+const MESSAGE_ID: Schema = { type: 'integer', minimum: 0 }
+const BASE64URL: Schema = { type: 'string', pattern: /^[A-Za-z0-9_-]+$/ }
+// DApp 连接 ID（服务端在转发给移动端的消息中标注，移动端在响应中带回）
+const CONNECTION: Schema = { type: 'string', pattern: /^[\w-]{1,64}$/ }
+const METHOD: Schema = { type: 'string', pattern: /^[A-Za-z0-9_]+$/, maxLength: 128 }
+const PARAMS: Schema = { type: ['array', 'object'] }
+const RESPONSE_ERROR: Schema = {
+  type: 'object',
+  required: ['code', 'message'],
+  properties: { code: { type: 'integer' }, message: { type: 'string' } },
+}
+
+// 一个 batch_request 最多包含的请求数
+export const MAX_BATCH_SIZE = 100
+
+// 多钱包 session 的参与者编号（DApp 用来指定接收方，服务端在移动端的消息中标注发送方）
+const PARTICIPANT: Schema = { type: 'integer', minimum: 1 }
+
+export const MESSAGE_SCHEMAS: Record<string, MessageSchema> = {
+  connect: {
+    roles: ['mobile'],
+    type: 'object',
+    required: ['address', 'chainId'],
+    properties: { address: ADDRESS, chainId: CHAIN_ID },
+  },
+  request: {
+    roles: ['dapp'],
+    type: 'object',
+    required: ['id', 'method'],
+    properties: {
+      id: MESSAGE_ID,
+      method: METHOD,
+      params: PARAMS,
+      participant: PARTICIPANT,
+    },
+  },
+  // 批量请求，bridge 依次执行签名类请求、并行执行只读请求，以一个 batch_response 返回全部结果
+  batch_request: {
+    roles: ['dapp'],
+    type: 'object',
+    required: ['id', 'requests'],
+    properties: {
+      id: MESSAGE_ID,
+      requests: {
+        type: 'array',
+        minItems: 1,
+        maxItems: MAX_BATCH_SIZE,
+        items: { type: 'object', required: ['method'], properties: { method: METHOD, params: PARAMS } },
+      },
+      participant: PARTICIPANT,
+    },
+  },
+  response: {
+    roles: ['mobile'],
+    type: 'object',
+    required: ['id'],
+    not: { required: ['result', 'error'] },
+    properties: {
+      id: MESSAGE_ID,
+      connection: CONNECTION,
+      address: ADDRESS,  // 响应的钱包地址（多钱包 session 中区分参与者）
+      error: RESPONSE_ERROR,
+    },
+  },
+  // 与 batch_request 的 requests 按位置一一对应
+  batch_response: {
+    roles: ['mobile'],
+    type: 'object',
+    required: ['id', 'results'],
+    properties: {
+      id: MESSAGE_ID,
+      connection: CONNECTION,
+      address: ADDRESS,
+      results: {
+        type: 'array',
+        maxItems: MAX_BATCH_SIZE,
+        items: { type: 'object', not: { required: ['result', 'error'] }, properties: { error: RESPONSE_ERROR } },
+      },
+    },
+  },
+  // eth_subscribe 的通知（钱包 provider 的 message 事件）
+  subscription: {
+    roles: ['mobile'],
+    type: 'object',
+    required: ['subscription', 'result'],
+    properties: {
+      subscription: { type: 'string', maxLength: 128 },
+      connection: CONNECTION,
+    },
+  },
+  chainChanged: {
+    roles: ['mobile'],
+    type: 'object',
+    required: ['chainId'],
+    properties: { chainId: CHAIN_ID },
+  },
+  accountsChanged: {
+    roles: ['mobile'],
+    type: 'object',
+    required: ['accounts'],
+    properties: { accounts: { type: 'array', items: ADDRESS } },
+  },
+  disconnect: {
+    roles: ['dapp', 'mobile'],
+    type: 'object',
+    properties: { reason: { type: 'string', maxLength: 256 }, participant: PARTICIPANT },
+  },
+  accountSwitch: {
+    roles: ['dapp'],
+    type: 'object',
+    required: ['address'],
+    properties: { address: ADDRESS, participant: PARTICIPANT },
+  },
+  // 端到端加密
+  key_exchange: {
+    roles: ['mobile'],
+    type: 'object',
+    required: ['publicKey'],
+    properties: { publicKey: BASE64URL },
+  },
+  encrypted: {
+    roles: ['dapp', 'mobile'],
+    type: 'object',
+    required: ['iv', 'data'],
+    properties: { id: MESSAGE_ID, iv: BASE64URL, data: BASE64URL, connection: CONNECTION },
+  },
+  // 心跳回复（服务端处理，不转发）
+  pong: {
+    roles: ['dapp', 'mobile'],
+    type: 'object',
+  },
+  // 申请移交令牌（服务端处理，不转发）
+  handoff_request: {
+    roles: ['dapp', 'mobile'],
+    type: 'object',
+    properties: { participant: PARTICIPANT },
+  },
+}
+
+export interface RelayMessage {
+  type: string
+  id?: number
+  [key: string]: unknown
+}
+
+export type ValidationResult =
+  | { valid: true; message: RelayMessage; data: string }
+  | { valid: false; code: number; error: string; id?: number }
+
+// 单帧最大字节数（可通过环境变量配置）
+export const MAX_MESSAGE_SIZE = parseInt(process.env.MAX_MESSAGE_SIZE || '262144', 10)
+
+/**
+ * 校验客户端发来的一帧
+ * @param raw - Elysia 交给 message 回调的内容（JSON 文本已被解析为对象）
+ * @returns 合法时返回消息对象和待转发的文本
+ */
+export function validateMessage(raw: unknown, role: Role, maxSize = MAX_MESSAGE_SIZE): ValidationResult {
+  if (raw instanceof ArrayBuffer || ArrayBuffer.isView(raw)) {
+    return { valid: false, code: ERROR_PARSE, error: 'Binary frames are not supported' }
+  }
+
+  const data = typeof raw === 'string' ? raw : JSON.stringify(raw)
+  if (data === undefined || Buffer.byteLength(data) > maxSize) {
+    return { valid: false, code: ERROR_MESSAGE_TOO_LARGE, error: `Message exceeds ${maxSize} bytes` }
+  }
+
+  let message: unknown = raw
+  if (typeof raw === 'string') {
+    try {
+      message = JSON.parse(raw)
+    } catch {
+      return { valid: false, code: ERROR_PARSE, error: 'Parse error' }
+    }
+  }
+
+  if (!isObject(message) || typeof message.type !== 'string') {
+    return { valid: false, code: ERROR_INVALID_MESSAGE, error: 'Message must be a JSON object with a type' }
+  }
+
+  const id = typeof message.id === 'number' ? message.id : undefined
+  const schema = MESSAGE_SCHEMAS[message.type]
+  if (!schema) {
+    return { valid: false, code: ERROR_INVALID_MESSAGE, error: `Unknown message type: ${message.type}`, id }
+  }
+
+  if (!schema.roles.includes(role)) {
+    return { valid: false, code: ERROR_MESSAGE_NOT_ALLOWED, error: `${role} cannot send ${message.type} messages`, id }
+  }
+
+  const problem = validateSchema(schema, message, message.type)
+  if (problem) {
+    return { valid: false, code: ERROR_INVALID_MESSAGE, error: `Invalid ${message.type} message: ${problem}`, id }
+  }
+
+  return { valid: true, message: message as RelayMessage, data }
+}
+
+/**
+ * 按 schema 校验值
+ * @returns 第一个问题的描述，合法时返回 null
+ */
+export function validateSchema(schema: Schema, value: unknown, path: string): string | null {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+  if (!types.some(type => matchesType(type, value))) {
+    return `${path} must be ${types.join(' or ')}`
+  }
+
+  if (typeof value === 'string') {
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return `${path} is longer than ${schema.maxLength} characters`
+    }
+    if (schema.pattern && !schema.pattern.test(value)) {
+      return `${path} has an invalid format`
+    }
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    return `${path} must be >= ${schema.minimum}`
+  }
+
+  if (Array.isArray(value) && schema.minItems !== undefined && value.length < schema.minItems) {
+    return `${path} must have at least ${schema.minItems} items`
+  }
+  if (Array.isArray(value) && schema.maxItems !== undefined && value.length > schema.maxItems) {
+    return `${path} must have at most ${schema.maxItems} items`
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    for (let i = 0; i < value.length; i++) {
+      const problem = validateSchema(schema.items, value[i], `${path}[${i}]`)
+      if (problem) return problem
+    }
+  }
+
+  if (isObject(value)) {
+    for (const key of schema.required || []) {
+      if (!(key in value)) return `${path}.${key} is required`
+    }
+    if (schema.not && schema.not.required.every(key => key in value)) {
+      return `${path} cannot contain both ${schema.not.required.join(' and ')}`
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (value[key] === undefined) continue
+      const problem = validateSchema(propertySchema, value[key], `${path}.${key}`)
+      if (problem) return problem
+    }
+  }
+
+  return null
+}
+
+function matchesType(type: JsonType, value: unknown): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string'
+    case 'number': return typeof value === 'number' && Number.isFinite(value)
+    case 'integer': return Number.isInteger(value)
+    case 'boolean': return typeof value === 'boolean'
+    case 'array': return Array.isArray(value)
+    case 'object': return isObject(value)
+    case 'null': return value === null
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * 按 session 统计违规次数
+ */
+export class ViolationCounter {
+  private counts = new Map<string, Map<number, number>>()
+  private runningTotal = 0  // 累计总数，清除 session 后不减少
+
+  record(sessionId: string, code: number): number {
+    this.runningTotal++
+    const byCode = this.counts.get(sessionId) || new Map<number, number>()
+    byCode.set(code, (byCode.get(code) || 0) + 1)
+    this.counts.set(sessionId, byCode)
+    return this.count(sessionId)
+  }
+
+  count(sessionId: string): number {
+    let total = 0
+    for (const n of this.counts.get(sessionId)?.values() || []) total += n
+    return total
+  }
+
+  byCode(sessionId: string): Record<string, number> {
+    return Object.fromEntries(this.counts.get(sessionId) || [])
+  }
+
+  total(): number {
+    return this.runningTotal
+  }
+
+  clear(sessionId: string): void {
+    this.counts.delete(sessionId)
+  }
+}
+
+export const messageViolations = new ViolationCounter()
@@ -0,0 +1,324 @@
+/**
+ * Webhook 通知
+ *
+ * session 生命周期事件（created / connected / disconnected / terminated / expired）
+ * 以 JSON POST 发送到服务端配置的 WEBHOOK_URL，以及创建 session 时指定的 webhookUrl。
+ * 配置 WEBHOOK_SECRET 后请求体带 HMAC-SHA256 签名；失败时按指数退避重试。
+ * session 的 webhookUrl 由调用方提供，默认拒绝解析到回环、内网和链路本地地址的目标（防 SSRF）。
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import { lookup } from 'dns/promises'
+import { isIP } from 'net'
+import type { Session, SessionEvent } from './session'
+import { logger } from './logger'
+
+const log = logger.child({ component: 'webhook' })
+
+export interface WebhookConfig {
+  url: string             // 服务端级别的接收地址，空字符串表示不发送
+  secret: string          // HMAC 密钥，空字符串表示不签名
+  maxRetries: number      // 首次发送失败后的最大重试次数
+  retryDelayMs: number    // 首次重试的等待时间，之后每次翻倍
+  timeoutMs: number       // 单次请求超时
+  allowedHosts: string[]  // 允许作为 session webhookUrl 的主机名，空数组表示不限制
+  allowPrivate: boolean   // 是否允许 session webhookUrl 指向内网地址（允许列表中的主机不受限制）
+}
+
+// 主机名解析为 IP 地址列表
+export type HostResolver = (hostname: string) => Promise<string[]>
+
+export interface WebhookPayload {
+  id: string              // 投递 ID（重试时不变，接收方可据此去重）
+  event: `session.${SessionEvent}`
+  timestamp: number
+  session: {
+    id: string
+    status: Session['status']
+    createdAt: number
+    expiresAt: number
+    terminated: boolean
+    metadata?: Session['metadata']
+  }
+  data?: Record<string, unknown>
+}
+
+export interface DeliveryResult {
+  url: string
+  ok: boolean
+  attempts: number
+  status?: number
+  error?: string
+}
+
+export const SIGNATURE_HEADER = 'X-Remote-Inject-Signature'
+export const TIMESTAMP_HEADER = 'X-Remote-Inject-Timestamp'
+export const EVENT_HEADER = 'X-Remote-Inject-Event'
+export const DELIVERY_HEADER = 'X-Remote-Inject-Delivery'
+
+// 重试等待上限
+const MAX_RETRY_DELAY = 60000
+
+/**
+ * 计算签名：HMAC-SHA256(secret, `${timestamp}.${body}`)，时间戳参与签名以防重放
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * 校验签名（供接收方使用）
+ * @param toleranceSec - 允许的时间戳偏差（秒）
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  signature: string | null,
+  timestamp: string | null,
+  body: string,
+  toleranceSec = 300,
+  now = Date.now()
+): boolean {
+  if (!signature || !timestamp) return false
+
+  const ts = parseInt(timestamp, 10)
+  if (!Number.isFinite(ts) || Math.abs(now / 1000 - ts) > toleranceSec) return false
+
+  const expected = Buffer.from(signPayload(secret, ts, body))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+/**
+ * 第 attempt 次重试前的等待时间（指数退避）
+ */
+export function getRetryDelay(attempt: number, baseMs: number): number {
+  return Math.min(baseMs * 2 ** (attempt - 1), MAX_RETRY_DELAY)
+}
+
+/**
+ * 是否值得重试：网络错误、超时、5xx、408、429
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429
+}
+
+/**
+ * 校验 POST /session 中的 webhookUrl
+ * @returns 错误描述，合法时返回 null
+ */
+export function validateWebhookUrl(value: unknown, allowedHosts: string[]): string | null {
+  if (typeof value !== 'string' || value.length > 2048) {
+    return 'webhookUrl must be a URL string'
+  }
+
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return 'webhookUrl must be a valid URL'
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return 'webhookUrl must use http or https'
+  }
+  if (url.username || url.password) {
+    return 'webhookUrl must not contain credentials'
+  }
+  if (allowedHosts.length > 0 && !allowedHosts.includes(url.hostname)) {
+    return `webhookUrl host ${url.hostname} is not allowed`
+  }
+  return null
+}
+
+/**
+ * 是否为不应由外部调用方访问的地址：未指定、回环、内网、CGNAT、链路本地、组播和保留地址
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase()
+
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split('.').map(Number)
+    return a === 0
+      || a === 10
+      || a === 127
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || a >= 224
+  }
+
+  if (isIP(ip) === 6) {
+    // IPv4 映射地址按 IPv4 判断
+    const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+    if (mapped) return isPrivateAddress(mapped[1])
+    return ip === '::'
+      || ip === '::1'
+      || ip.startsWith('::ffff:')
+      || /^f[cd]/.test(ip)
+      || /^fe[89ab]/.test(ip)
+      || ip.startsWith('ff')
+  }
+
+  // 无法识别的地址一律视为不安全
+  return true
+}
+
+const defaultResolveHost: HostResolver = async hostname =>
+  (await lookup(hostname, { all: true })).map(entry => entry.address)
+
+export function buildPayload(event: SessionEvent, session: Session, data?: Record<string, unknown>): WebhookPayload {
+  const payload: WebhookPayload = {
+    id: randomUUID(),
+    event: `session.${event}`,
+    timestamp: Date.now(),
+    session: {
+      id: session.id,
+      status: session.status,
+      createdAt: session.createdAt,
+      expiresAt: session.expiresAt,
+      terminated: session.terminated,
+      metadata: session.metadata,
+    },
+  }
+  if (data) payload.data = data
+  return payload
+}
+
+type FetchLike = (url: string, init: RequestInit) => Promise<Response>
+
+export class WebhookDispatcher {
+  private config: WebhookConfig
+  private fetchImpl: FetchLike
+  private sleep: (ms: number) => Promise<void>
+  private resolveHost: HostResolver
+
+  constructor(
+    config: WebhookConfig,
+    fetchImpl: FetchLike = (url, init) => fetch(url, init),
+    sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms)),
+    resolveHost: HostResolver = defaultResolveHost
+  ) {
+    this.config = config
+    this.fetchImpl = fetchImpl
+    this.sleep = sleep
+    this.resolveHost = resolveHost
+  }
+
+  get allowedHosts(): string[] {
+    return this.config.allowedHosts
+  }
+
+  /**
+   * session webhookUrl 的目标地址是否可以访问
+   * 解析 DNS 后检查全部地址，任意一个为内网地址即拒绝；解析失败同样拒绝
+   */
+  async isTargetAllowed(value: string): Promise<boolean> {
+    const { hostname } = new URL(value)
+    if (this.config.allowPrivate || this.config.allowedHosts.includes(hostname)) return true
+
+    // IPv6 字面量的 hostname 带方括号
+    const host = hostname.replace(/^\[|\]$/g, '')
+    let addresses: string[]
+    try {
+      addresses = isIP(host) ? [host] : await this.resolveHost(host)
+    } catch {
+      return false
+    }
+    return addresses.length > 0 && !addresses.some(isPrivateAddress)
+  }
+
+  /**
+   * 发送事件到服务端 URL 和 session 自己的 URL（未配置时不发送）
+   */
+  dispatch(event: SessionEvent, session: Session, data?: Record<string, unknown>): Promise<DeliveryResult[]> {
+    const urls = [this.config.url, session.webhookUrl].filter((url): url is string => !!url)
+    if (urls.length === 0) return Promise.resolve([])
+
+    const payload = buildPayload(event, session, data)
+    return Promise.all([...new Set(urls)].map(url => this.deliverChecked(url, payload)))
+  }
+
+  /**
+   * session 的 webhookUrl 在每次投递前重新检查目标地址，防止 DNS 在创建后被改指向内网
+   */
+  private async deliverChecked(url: string, payload: WebhookPayload): Promise<DeliveryResult> {
+    if (url !== this.config.url && !(await this.isTargetAllowed(url))) {
+      log.warn('target_blocked', { webhookEvent: payload.event, sessionId: payload.session.id, url })
+      return { url, ok: false, attempts: 0, error: 'Target address is not allowed' }
+    }
+    return this.deliver(url, payload)
+  }
+
+  /**
+   * 投递一次事件，失败时按指数退避重试
+   */
+  async deliver(url: string, payload: WebhookPayload): Promise<DeliveryResult> {
+    const body = JSON.stringify(payload)
+    const maxAttempts = this.config.maxRetries + 1
+    let lastStatus: number | undefined
+    let lastError: string | undefined
+    let attempts = 0
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      attempts = attempt
+      if (attempt > 1) {
+        await this.sleep(getRetryDelay(attempt - 1, this.config.retryDelayMs))
+      }
+
+      // 每次重试使用新的时间戳，避免接收方按时间窗口拒绝
+      const timestamp = Math.floor(Date.now() / 1000)
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'User-Agent': 'remote-inject-webhook',
+        [EVENT_HEADER]: payload.event,
+        [DELIVERY_HEADER]: payload.id,
+        [TIMESTAMP_HEADER]: String(timestamp),
+      }
+      if (this.config.secret) {
+        headers[SIGNATURE_HEADER] = signPayload(this.config.secret, timestamp, body)
+      }
+
+      try {
+        const response = await this.fetchImpl(url, {
+          method: 'POST',
+          headers,
+          body,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(this.config.timeoutMs),
+        })
+        lastStatus = response.status
+        lastError = undefined
+
+        if (response.ok) {
+          log.debug('delivered', { webhookEvent: payload.event, sessionId: payload.session.id, url, attempt })
+          return { url, ok: true, attempts: attempt, status: response.status }
+        }
+        if (!isRetryableStatus(response.status)) break
+      } catch (error) {
+        lastStatus = undefined
+        lastError = error instanceof Error ? error.message : String(error)
+      }
+    }
+
+    log.warn('delivery_failed', {
+      webhookEvent: payload.event,
+      sessionId: payload.session.id,
+      url,
+      status: lastStatus,
+      error: lastError,
+    })
+    return { url, ok: false, attempts, status: lastStatus, error: lastError }
+  }
+}
+
+// 预配置的 webhook 发送器（可通过环境变量配置）
+export const webhookDispatcher = new WebhookDispatcher({
+  url: process.env.WEBHOOK_URL || '',
+  secret: process.env.WEBHOOK_SECRET || '',
+  maxRetries: parseInt(process.env.WEBHOOK_MAX_RETRIES || '5', 10),
+  retryDelayMs: parseInt(process.env.WEBHOOK_RETRY_DELAY || '1000', 10),
+  timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT || '5000', 10),
+  allowedHosts: (process.env.WEBHOOK_ALLOWED_HOSTS || '').split(',').map(host => host.trim()).filter(Boolean),
+  allowPrivate: process.env.WEBHOOK_ALLOW_PRIVATE === 'true',
+})
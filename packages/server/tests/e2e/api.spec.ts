@@ -14,8 +14,10 @@ test.describe('API Endpoints', () => {
   })
 
   test.describe('Metrics', () => {
-    test('should return detailed stats', async ({ request }) => {
-      const response = await request.get('/metrics')
+    test('should return detailed stats as JSON', async ({ request }) => {
+      const response = await request.get('/metrics', {
+        headers: { Accept: 'application/json' },
+      })
       expect(response.ok()).toBeTruthy()
 
       const data = await response.json()
@@ -23,6 +25,16 @@ test.describe('API Endpoints', () => {
       expect(data).toHaveProperty('connectedSessions')
       expect(data).toHaveProperty('uptime')
     })
+
+    test('should return Prometheus text format by default', async ({ request }) => {
+      const response = await request.get('/metrics')
+      expect(response.ok()).toBeTruthy()
+      expect(response.headers()['content-type']).toContain('text/plain')
+
+      const text = await response.text()
+      expect(text).toContain('# TYPE remote_inject_sessions gauge')
+      expect(text).toContain('remote_inject_sessions_max')
+    })
   })
 
   test.describe('Session API', () => {
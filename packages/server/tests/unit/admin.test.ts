@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  verifyAdminToken,
+  getBearerToken,
+  getCookieToken,
+  checkAdminApiAuth,
+  isAdminPageAuthorized,
+  buildAdminCookie,
+  normalizeOrigin,
+  listAdminSessions,
+  terminateSessionsByOrigin,
+  toAdminSessionInfo,
+  formatDuration,
+} from '../../src/admin'
+import { createSession, getSession, type Session } from '../../src/session'
+import { sessionMessages } from '../../src/metrics'
+
+function request(headers: Record<string, string> = {}) {
+  return new Request('http://localhost/admin/api/sessions', { headers })
+}
+
+function fakeSession(overrides: Partial<Session>): Session {
+  return {
+    id: 'AAAA',
+    secret: 'secret',
+    createdAt: 1000,
+    expiresAt: 2000,
+    status: 'pending',
+    dapps: new Map(),
+    mobiles: new Map(),
+    terminated: false,
+    dappNodes: new Map(),
+    mobileNodes: new Map(),
+    ...overrides,
+  }
+}
+
+describe('Admin authentication', () => {
+  it('should verify matching tokens only', () => {
+    expect(verifyAdminToken('abc', 'abc')).toBe(true)
+    expect(verifyAdminToken('abd', 'abc')).toBe(false)
+    expect(verifyAdminToken('abcd', 'abc')).toBe(false)
+    expect(verifyAdminToken('', 'abc')).toBe(false)
+    expect(verifyAdminToken(null, 'abc')).toBe(false)
+  })
+
+  it('should reject everything when no token is configured', () => {
+    expect(verifyAdminToken('', '')).toBe(false)
+    expect(verifyAdminToken('anything', '')).toBe(false)
+  })
+
+  it('should read bearer tokens', () => {
+    expect(getBearerToken(request({ Authorization: 'Bearer abc' }))).toBe('abc')
+    expect(getBearerToken(request({ Authorization: 'bearer abc' }))).toBe('abc')
+    expect(getBearerToken(request({ Authorization: 'Basic abc' }))).toBeNull()
+    expect(getBearerToken(request())).toBeNull()
+  })
+
+  it('should read the admin cookie', () => {
+    expect(getCookieToken(request({ Cookie: 'theme=dark; admin_token=a%3Db' }))).toBe('a=b')
+    expect(getCookieToken(request({ Cookie: 'theme=dark' }))).toBeNull()
+  })
+
+  it('should return 404 when the admin API is disabled', () => {
+    const response = checkAdminApiAuth(request({ Authorization: 'Bearer abc' }), '')
+    expect(response?.status).toBe(404)
+  })
+
+  it('should return 401 for a wrong token', () => {
+    const response = checkAdminApiAuth(request({ Authorization: 'Bearer wrong' }), 'abc')
+    expect(response?.status).toBe(401)
+    expect(response?.headers.get('WWW-Authenticate')).toContain('Bearer')
+  })
+
+  it('should pass a valid bearer token', () => {
+    expect(checkAdminApiAuth(request({ Authorization: 'Bearer abc' }), 'abc')).toBeNull()
+  })
+
+  it('should not accept the cookie for the JSON API', () => {
+    expect(checkAdminApiAuth(request({ Cookie: 'admin_token=abc' }), 'abc')?.status).toBe(401)
+    expect(isAdminPageAuthorized(request({ Cookie: 'admin_token=abc' }), 'abc')).toBe(true)
+  })
+
+  it('should build a strict HttpOnly cookie scoped to /admin', () => {
+    const cookie = buildAdminCookie('abc', true)
+    expect(cookie).toContain('admin_token=abc')
+    expect(cookie).toContain('Path=/admin')
+    expect(cookie).toContain('HttpOnly')
+    expect(cookie).toContain('SameSite=Strict')
+    expect(cookie).toContain('Secure')
+    expect(buildAdminCookie('', false, 0)).toContain('Max-Age=0')
+    expect(buildAdminCookie('', false, 0)).not.toContain('Secure')
+  })
+})
+
+describe('normalizeOrigin', () => {
+  it('should return the origin of a URL', () => {
+    expect(normalizeOrigin('https://app.example.com/swap?x=1')).toBe('https://app.example.com')
+    expect(normalizeOrigin('http://localhost:5173/')).toBe('http://localhost:5173')
+  })
+
+  it('should return null for invalid input', () => {
+    expect(normalizeOrigin(undefined)).toBeNull()
+    expect(normalizeOrigin('not a url')).toBeNull()
+  })
+})
+
+describe('listAdminSessions', () => {
+  const sessions = [
+    fakeSession({ id: 'AAAA', createdAt: 1000, metadata: { name: 'A', url: 'https://a.com/app' } }),
+    fakeSession({ id: 'BBBB', createdAt: 3000, status: 'connected', dappNodes: new Map([['c1', 'n1']]), mobileNodes: new Map([[1, 'n2']]), metadata: { name: 'B', url: 'https://b.com' } }),
+    fakeSession({ id: 'CCCC', createdAt: 2000, metadata: { name: 'A2', url: 'https://a.com/other' } }),
+  ]
+
+  it('should list newest first without secrets', () => {
+    const result = listAdminSessions({}, sessions)
+    expect(result.map(s => s.id)).toEqual(['BBBB', 'CCCC', 'AAAA'])
+    expect(result.every(s => !('secret' in s))).toBe(true)
+  })
+
+  it('should filter by status', () => {
+    expect(listAdminSessions({ status: 'connected' }, sessions).map(s => s.id)).toEqual(['BBBB'])
+  })
+
+  it('should filter by origin', () => {
+    expect(listAdminSessions({ origin: 'https://a.com' }, sessions).map(s => s.id)).toEqual(['CCCC', 'AAAA'])
+  })
+
+  it('should report connected roles', () => {
+    const info = toAdminSessionInfo(sessions[1], 5000)
+    expect(info.connected).toEqual({ dapp: true, mobile: true })
+    expect(info.age).toBe(2000)
+  })
+
+  it('should include relayed message counts', () => {
+    sessionMessages.record('AAAA', 'dapp')
+    sessionMessages.record('AAAA', 'dapp')
+    sessionMessages.record('AAAA', 'mobile')
+
+    expect(toAdminSessionInfo(sessions[0]).messages).toEqual({ fromDapp: 2, fromMobile: 1 })
+    sessionMessages.clear('AAAA')
+  })
+})
+
+describe('terminateSessionsByOrigin', () => {
+  it('should terminate only matching, active sessions', () => {
+    const sessions = [
+      fakeSession({ id: 'AAAA', metadata: { name: 'A', url: 'https://a.com/x' } }),
+      fakeSession({ id: 'BBBB', metadata: { name: 'B', url: 'https://b.com' } }),
+      fakeSession({ id: 'CCCC', terminated: true, metadata: { name: 'A', url: 'https://a.com' } }),
+      fakeSession({ id: 'DDDD' }),
+    ]
+    const terminated: string[] = []
+
+    const result = terminateSessionsByOrigin('https://a.com/', sessions, id => terminated.push(id))
+    expect(result).toEqual(['AAAA'])
+    expect(terminated).toEqual(['AAAA'])
+  })
+
+  it('should ignore invalid origins', () => {
+    expect(terminateSessionsByOrigin('nope', [fakeSession({})], () => {})).toEqual([])
+  })
+
+  it('should terminate real sessions', () => {
+    const session = createSession({ name: 'Admin Test', url: 'https://admin-test.example/app' })
+
+    const result = terminateSessionsByOrigin('https://admin-test.example')
+    expect(result).toContain(session.id)
+    expect(getSession(session.id)?.terminated).toBe(true)
+  })
+})
+
+describe('formatDuration', () => {
+  it('should format durations', () => {
+    expect(formatDuration(-5)).toBe('0s')
+    expect(formatDuration(45_000)).toBe('45s')
+    expect(formatDuration(125_000)).toBe('2m 5s')
+    expect(formatDuration(3 * 3600_000 + 60_000)).toBe('3h 1m')
+    expect(formatDuration(50 * 3600_000)).toBe('2d 2h')
+  })
+})
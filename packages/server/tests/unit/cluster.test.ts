@@ -0,0 +1,752 @@
+import { describe, it, expect, afterEach, afterAll, mock } from 'bun:test'
+import { tmpdir } from 'os'
+import { createHmac } from 'crypto'
+import { join } from 'path'
+import {
+  LoopbackClusterBus,
+  LoopbackHub,
+  TcpClusterBus,
+  parseAddress,
+  createClusterBus,
+  type ClusterBus,
+  type ClusterMessage,
+} from '../../src/cluster'
+import {
+  createSession,
+  getSession,
+  deleteSession,
+  registerConnection,
+  unregisterConnection,
+  terminateSession,
+  isMobileLocked,
+  hasPeer,
+  sendToPeer,
+  bufferForPeer,
+  initCluster,
+  extendSession,
+  ownsSession,
+  createHandoffToken,
+  verifyHandoffToken,
+  CLOSE_HANDED_OFF,
+} from '../../src/session'
+
+const SECRET = 'cluster-test-secret'
+
+// Mock WebSocket
+function createMockWebSocket(connectionId?: string) {
+  return {
+    send: mock(() => {}),
+    close: mock(() => {}),
+    data: { sessionId: '', role: 'dapp' as const, connectionId },
+  } as any
+}
+
+// 等待条件满足（用于异步投递）
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now()
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for condition')
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5))
+  }
+}
+
+// 收集总线收到的消息
+function collect(bus: ClusterBus): Array<{ message: ClusterMessage; from: string }> {
+  const received: Array<{ message: ClusterMessage; from: string }> = []
+  bus.subscribe((message, from) => received.push({ message, from }))
+  return received
+}
+
+describe('parseAddress', () => {
+  it('should parse host:port addresses', () => {
+    expect(parseAddress('127.0.0.1:4000')).toEqual({ hostname: '127.0.0.1', port: 4000 })
+  })
+
+  it('should parse unix socket addresses', () => {
+    expect(parseAddress('unix:/tmp/relay.sock')).toEqual({ unix: '/tmp/relay.sock' })
+  })
+
+  it('should reject invalid addresses', () => {
+    expect(() => parseAddress('localhost')).toThrow()
+    expect(() => parseAddress('localhost:abc')).toThrow()
+  })
+})
+
+describe('LoopbackClusterBus', () => {
+  it('should deliver messages to other buses on the same hub', async () => {
+    const hub = new LoopbackHub()
+    const a = new LoopbackClusterBus('a', hub)
+    const b = new LoopbackClusterBus('b', hub)
+    await a.start()
+    await b.start()
+
+    const receivedA = collect(a)
+    const receivedB = collect(b)
+
+    a.publish({ type: 'ping' })
+    await waitFor(() => receivedB.length > 0)
+
+    expect(receivedB[0]).toEqual({ message: { type: 'ping' }, from: 'a' })
+    expect(receivedA).toHaveLength(0)
+  })
+
+  it('should only deliver targeted messages to the target', async () => {
+    const hub = new LoopbackHub()
+    const a = new LoopbackClusterBus('a', hub)
+    const b = new LoopbackClusterBus('b', hub)
+    const c = new LoopbackClusterBus('c', hub)
+    await Promise.all([a.start(), b.start(), c.start()])
+
+    const receivedB = collect(b)
+    const receivedC = collect(c)
+
+    a.publish({ type: 'ping' }, 'c')
+    await waitFor(() => receivedC.length > 0)
+
+    expect(receivedB).toHaveLength(0)
+    expect(receivedC).toHaveLength(1)
+  })
+
+  it('should notify existing buses when a peer joins', async () => {
+    const hub = new LoopbackHub()
+    const a = new LoopbackClusterBus('a', hub)
+    await a.start()
+
+    const joined: string[] = []
+    a.onPeerJoin((nodeId) => joined.push(nodeId))
+
+    await new LoopbackClusterBus('b', hub).start()
+    expect(joined).toEqual(['b'])
+  })
+
+  it('should notify remaining buses when a peer closes', async () => {
+    const hub = new LoopbackHub()
+    const a = new LoopbackClusterBus('a', hub)
+    const b = new LoopbackClusterBus('b', hub)
+    await a.start()
+    await b.start()
+
+    const left: string[] = []
+    a.onPeerLeave((nodeId) => left.push(nodeId))
+
+    b.close()
+    b.close()
+    expect(left).toEqual(['b'])
+  })
+
+  it('should stop delivering after close', async () => {
+    const hub = new LoopbackHub()
+    const a = new LoopbackClusterBus('a', hub)
+    const b = new LoopbackClusterBus('b', hub)
+    await a.start()
+    await b.start()
+    const receivedB = collect(b)
+
+    b.close()
+    a.publish({ type: 'ping' })
+    await new Promise((resolve) => setTimeout(resolve, 10))
+
+    expect(receivedB).toHaveLength(0)
+  })
+})
+
+describe('TcpClusterBus', () => {
+  const buses: TcpClusterBus[] = []
+
+  afterEach(() => {
+    buses.splice(0).forEach((bus) => bus.close())
+  })
+
+  async function startPair(addressA: string, addressB: string): Promise<[TcpClusterBus, TcpClusterBus]> {
+    const a = new TcpClusterBus({ nodeId: 'a', listen: addressA, peers: [addressB], reconnectDelay: 20, secret: SECRET })
+    const b = new TcpClusterBus({ nodeId: 'b', listen: addressB, peers: [addressA], reconnectDelay: 20, secret: SECRET })
+    buses.push(a, b)
+    await a.start()
+    await b.start()
+    return [a, b]
+  }
+
+  it('should relay messages over unix sockets', async () => {
+    const base = join(tmpdir(), `ri-cluster-${process.pid}-${Date.now()}`)
+    const [a, b] = await startPair(`unix:${base}-a.sock`, `unix:${base}-b.sock`)
+    const receivedA = collect(a)
+    const receivedB = collect(b)
+
+    a.publish({ type: 'relay', data: 'hello from a' })
+    b.publish({ type: 'relay', data: 'hello from b' })
+
+    await waitFor(() => receivedA.length > 0 && receivedB.length > 0)
+    expect(receivedB[0]).toEqual({ message: { type: 'relay', data: 'hello from a' }, from: 'a' })
+    expect(receivedA[0]).toEqual({ message: { type: 'relay', data: 'hello from b' }, from: 'b' })
+  })
+
+  it('should relay messages over TCP', async () => {
+    const port = 40000 + Math.floor(Math.random() * 10000)
+    const [a, b] = await startPair(`127.0.0.1:${port}`, `127.0.0.1:${port + 1}`)
+    const receivedB = collect(b)
+
+    a.publish({ type: 'relay', data: '中文 payload' })
+
+    await waitFor(() => receivedB.length > 0)
+    expect(receivedB[0].message.data).toBe('中文 payload')
+  })
+
+  it('should notify when a peer connection is ready', async () => {
+    const base = join(tmpdir(), `ri-cluster-join-${process.pid}-${Date.now()}`)
+    const a = new TcpClusterBus({ nodeId: 'a', listen: `unix:${base}-a.sock`, peers: [`unix:${base}-b.sock`], reconnectDelay: 20, secret: SECRET })
+    const b = new TcpClusterBus({ nodeId: 'b', listen: `unix:${base}-b.sock`, peers: [`unix:${base}-a.sock`], reconnectDelay: 20, secret: SECRET })
+    buses.push(a, b)
+
+    const joined: string[] = []
+    a.onPeerJoin((nodeId) => joined.push(nodeId))
+
+    // a 先启动，b 尚未监听，a 需要重试连接
+    await a.start()
+    await new Promise((resolve) => setTimeout(resolve, 30))
+    await b.start()
+
+    await waitFor(() => joined.length > 0)
+    expect(joined).toEqual(['b'])
+  })
+
+  it('should reject peers with a different secret', async () => {
+    const base = join(tmpdir(), `ri-cluster-auth-${process.pid}-${Date.now()}`)
+    const a = new TcpClusterBus({ nodeId: 'a', listen: `unix:${base}-a.sock`, peers: [`unix:${base}-b.sock`], reconnectDelay: 20, secret: SECRET })
+    const b = new TcpClusterBus({ nodeId: 'b', listen: `unix:${base}-b.sock`, peers: [`unix:${base}-a.sock`], reconnectDelay: 20, secret: 'wrong' })
+    buses.push(a, b)
+
+    const joined: string[] = []
+    a.onPeerJoin((nodeId) => joined.push(nodeId))
+    b.onPeerJoin((nodeId) => joined.push(nodeId))
+    const receivedA = collect(a)
+    await a.start()
+    await b.start()
+
+    b.publish({ type: 'terminate', sessionId: 'ABCD' })
+    await new Promise((resolve) => setTimeout(resolve, 100))
+
+    expect(joined).toEqual([])
+    expect(receivedA).toHaveLength(0)
+  })
+
+  it('should drop frames from connections that skip the handshake', async () => {
+    const base = join(tmpdir(), `ri-cluster-raw-${process.pid}-${Date.now()}`)
+    const a = new TcpClusterBus({ nodeId: 'a', listen: `unix:${base}-a.sock`, peers: [], reconnectDelay: 20, secret: SECRET })
+    buses.push(a)
+    const receivedA = collect(a)
+    await a.start()
+
+    const socket = await Bun.connect({ unix: `${base}-a.sock`, socket: { data() {} } })
+    socket.write(JSON.stringify({ from: 'x', message: { type: 'hello' } }) + '\n')
+    socket.write(JSON.stringify({ from: 'x', message: { type: 'terminate', sessionId: 'ABCD' } }) + '\n')
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    socket.end()
+
+    expect(receivedA).toHaveLength(0)
+  })
+
+  it('should reject a hello signed for a different challenge', async () => {
+    const base = join(tmpdir(), `ri-cluster-replay-${process.pid}-${Date.now()}`)
+    const a = new TcpClusterBus({ nodeId: 'a', listen: `unix:${base}-a.sock`, peers: [], reconnectDelay: 20, secret: SECRET })
+    buses.push(a)
+    const receivedA = collect(a)
+    await a.start()
+
+    // 重放一次旧握手：签名有效，但针对的不是本次连接的挑战
+    const replayed = createHmac('sha256', SECRET).update(`dial:x:${'0'.repeat(32)}`).digest('hex')
+    let closed = false
+    const socket = await Bun.connect({ unix: `${base}-a.sock`, socket: { data() {}, close() { closed = true } } })
+    socket.write(JSON.stringify({ from: 'x', message: { type: 'hello', nonce: '1'.repeat(32), auth: replayed } }) + '\n')
+    socket.write(JSON.stringify({ from: 'x', message: { type: 'terminate', sessionId: 'ABCD' } }) + '\n')
+
+    await waitFor(() => closed)
+    expect(receivedA).toHaveLength(0)
+  })
+
+  it('should close connections that do not complete the handshake in time', async () => {
+    const base = join(tmpdir(), `ri-cluster-timeout-${process.pid}-${Date.now()}`)
+    const a = new TcpClusterBus({ nodeId: 'a', listen: `unix:${base}-a.sock`, peers: [], secret: SECRET, helloTimeout: 30 })
+    buses.push(a)
+    await a.start()
+
+    let closed = false
+    await Bun.connect({ unix: `${base}-a.sock`, socket: { data() {}, close() { closed = true } } })
+
+    await waitFor(() => closed)
+  })
+
+  it('should close connections that send oversized frames', async () => {
+    const base = join(tmpdir(), `ri-cluster-oversize-${process.pid}-${Date.now()}`)
+    const a = new TcpClusterBus({ nodeId: 'a', listen: `unix:${base}-a.sock`, peers: [], secret: SECRET, maxFrameSize: 1024 })
+    buses.push(a)
+    await a.start()
+
+    let closed = false
+    const socket = await Bun.connect({ unix: `${base}-a.sock`, socket: { data() {}, close() { closed = true } } })
+    socket.write('x'.repeat(2048))
+
+    await waitFor(() => closed)
+  })
+
+  it('should notify when a peer leaves', async () => {
+    const base = join(tmpdir(), `ri-cluster-leave-${process.pid}-${Date.now()}`)
+    const [a, b] = await startPair(`unix:${base}-a.sock`, `unix:${base}-b.sock`)
+    const left: string[] = []
+    a.onPeerLeave((nodeId) => left.push(nodeId))
+    const receivedA = collect(a)
+
+    b.publish({ type: 'relay', data: 'ready' })
+    await waitFor(() => receivedA.length > 0)
+    b.close()
+
+    await waitFor(() => left.length > 0)
+    expect(left).toEqual(['b'])
+  })
+
+  it('should queue messages until the peer connects', async () => {
+    const base = join(tmpdir(), `ri-cluster-queue-${process.pid}-${Date.now()}`)
+    const a = new TcpClusterBus({ nodeId: 'a', listen: `unix:${base}-a.sock`, peers: [`unix:${base}-b.sock`], reconnectDelay: 20, secret: SECRET })
+    const b = new TcpClusterBus({ nodeId: 'b', listen: `unix:${base}-b.sock`, peers: [`unix:${base}-a.sock`], reconnectDelay: 20, secret: SECRET })
+    buses.push(a, b)
+
+    await a.start()
+    a.publish({ type: 'early' })
+
+    const receivedB = collect(b)
+    await b.start()
+
+    await waitFor(() => receivedB.length > 0)
+    expect(receivedB[0].message.type).toBe('early')
+  })
+})
+
+describe('createClusterBus', () => {
+  const originalListen = process.env.CLUSTER_LISTEN
+  const originalNodeId = process.env.CLUSTER_NODE_ID
+  const originalSecret = process.env.CLUSTER_SECRET
+
+  afterEach(() => {
+    if (originalSecret === undefined) delete process.env.CLUSTER_SECRET
+    else process.env.CLUSTER_SECRET = originalSecret
+    if (originalListen === undefined) delete process.env.CLUSTER_LISTEN
+    else process.env.CLUSTER_LISTEN = originalListen
+    if (originalNodeId === undefined) delete process.env.CLUSTER_NODE_ID
+    else process.env.CLUSTER_NODE_ID = originalNodeId
+  })
+
+  it('should default to loopback bus', () => {
+    delete process.env.CLUSTER_LISTEN
+    expect(createClusterBus()).toBeInstanceOf(LoopbackClusterBus)
+  })
+
+  it('should create tcp bus when listen address is configured', () => {
+    process.env.CLUSTER_LISTEN = '127.0.0.1:4100'
+    process.env.CLUSTER_NODE_ID = 'node-1'
+    process.env.CLUSTER_SECRET = SECRET
+
+    const bus = createClusterBus()
+    expect(bus).toBeInstanceOf(TcpClusterBus)
+    expect(bus.nodeId).toBe('node-1')
+  })
+
+  it('should require a secret for the tcp bus', () => {
+    process.env.CLUSTER_LISTEN = '127.0.0.1:4100'
+    delete process.env.CLUSTER_SECRET
+
+    expect(() => createClusterBus()).toThrow('CLUSTER_SECRET')
+  })
+})
+
+describe('Session clustering', () => {
+  // local 为被测节点，remote 模拟另一个实例
+  const hub = new LoopbackHub()
+  const local = new LoopbackClusterBus('local', hub)
+  const remote = new LoopbackClusterBus('remote', hub)
+  const received = collect(remote)
+
+  initCluster(local)
+  local.start()
+  remote.start()
+
+  afterEach(() => {
+    received.length = 0
+  })
+
+  afterAll(() => {
+    local.close()
+    remote.close()
+    initCluster(new LoopbackClusterBus())
+  })
+
+  it('should announce created sessions to other nodes', async () => {
+    const session = createSession({ name: 'Test', url: 'https://example.com' })
+
+    const isCreated = (r: { message: ClusterMessage }) =>
+      r.message.type === 'session_created' && (r.message.session as any).id === session.id
+    await waitFor(() => received.some(isCreated))
+    expect((received.find(isCreated)!.message.session as any).secret).toBe(session.secret)
+
+    deleteSession(session.id)
+  })
+
+  it('should replicate sessions created on other nodes', async () => {
+    remote.publish({
+      type: 'session_created',
+      session: {
+        id: 'RMT2',
+        secret: 'ABCDEFGHJKLMNPQR',
+        createdAt: Date.now(),
+        expiresAt: Date.now() + 60000,
+        status: 'pending',
+        terminated: false,
+      },
+    })
+
+    await waitFor(() => getSession('RMT2') !== undefined)
+    expect(getSession('RMT2')?.secret).toBe('ABCDEFGHJKLMNPQR')
+
+    deleteSession('RMT2')
+  })
+
+  it('should leave expiry notifications to the node that created the session', async () => {
+    const session = createSession()
+    expect(ownsSession(session)).toBe(true)
+
+    remote.publish({
+      type: 'session_created',
+      session: { id: 'RMT3', secret: 'ABCDEFGHJKLMNPQR', createdAt: Date.now(), expiresAt: Date.now() + 60000, status: 'pending', terminated: false, ownerNode: 'remote' },
+    })
+    await waitFor(() => getSession('RMT3') !== undefined)
+    expect(ownsSession(getSession('RMT3')!)).toBe(false)
+
+    deleteSession(session.id)
+    deleteSession('RMT3')
+  })
+
+  it('should hand expiry notifications to a node holding a connection when the owner leaves', async () => {
+    const ghost = new LoopbackClusterBus('ghost', hub)
+    await ghost.start()
+    ghost.publish({
+      type: 'session_created',
+      session: { id: 'GHO1', secret: 'ABCDEFGHJKLMNPQR', createdAt: Date.now(), expiresAt: Date.now() + 60000, status: 'pending', terminated: false, ownerNode: 'ghost' },
+    })
+    await waitFor(() => getSession('GHO1') !== undefined)
+    registerConnection('GHO1', 'dapp', createMockWebSocket())
+    expect(ownsSession(getSession('GHO1')!)).toBe(false)
+
+    ghost.close()
+    expect(getSession('GHO1')?.ownerNode).toBe('local')
+    expect(ownsSession(getSession('GHO1')!)).toBe(true)
+
+    deleteSession('GHO1')
+  })
+
+  it('should track peers attached on other nodes', async () => {
+    const session = createSession()
+    const dappWs = createMockWebSocket()
+    registerConnection(session.id, 'dapp', dappWs)
+
+    remote.publish({ type: 'attach', sessionId: session.id, role: 'mobile' })
+    await waitFor(() => hasPeer(session.id, 'dapp'))
+
+    expect(isMobileLocked(session.id)).toBe(true)
+    expect(getSession(session.id)?.status).toBe('connected')
+    expect(getSession(session.id)?.mobileNodes.get(1)).toBe('remote')
+
+    deleteSession(session.id)
+  })
+
+  it('should release connections held by a node that leaves', async () => {
+    const ghost = new LoopbackClusterBus('ghost', hub)
+    await ghost.start()
+    const session = createSession()
+    registerConnection(session.id, 'dapp', createMockWebSocket())
+
+    ghost.publish({ type: 'attach', sessionId: session.id, role: 'mobile' })
+    await waitFor(() => isMobileLocked(session.id))
+
+    ghost.close()
+    expect(isMobileLocked(session.id)).toBe(false)
+    expect(getSession(session.id)?.status).toBe('disconnected')
+    expect(getSession(session.id)?.dappNodes.size).toBe(1)
+
+    deleteSession(session.id)
+  })
+
+  it('should apply later expiry times from other nodes', async () => {
+    const session = createSession()
+    const later = session.expiresAt + 60000
+
+    remote.publish({ type: 'expiry', sessionId: session.id, expiresAt: later })
+    await waitFor(() => getSession(session.id)?.expiresAt === later)
+
+    // 乱序到达的旧过期时间不会缩短有效期
+    remote.publish({ type: 'expiry', sessionId: session.id, expiresAt: later - 120000 })
+    remote.publish({ type: 'attach', sessionId: session.id, role: 'dapp', connection: 'tab-1' })
+    await waitFor(() => getSession(session.id)?.dappNodes.get('tab-1') === 'remote')
+    expect(getSession(session.id)?.expiresAt).toBe(later)
+
+    deleteSession(session.id)
+  })
+
+  it('should announce extended sessions to other nodes', async () => {
+    const session = createSession()
+    extendSession(session.id, 3600000)
+
+    await waitFor(() => received.some(r => r.message.type === 'expiry' && r.message.sessionId === session.id))
+    const message = received.find(r => r.message.type === 'expiry' && r.message.sessionId === session.id)!.message
+    expect(message.expiresAt).toBe(session.expiresAt)
+
+    deleteSession(session.id)
+  })
+
+  it('should forward messages to peers on other nodes', async () => {
+    const session = createSession()
+    registerConnection(session.id, 'dapp', createMockWebSocket())
+    remote.publish({ type: 'attach', sessionId: session.id, role: 'mobile' })
+    await waitFor(() => hasPeer(session.id, 'dapp'))
+    received.length = 0
+
+    expect(sendToPeer(session.id, 'dapp', '{"type":"request","id":1}')).toBe(true)
+
+    await waitFor(() => received.some((r) => r.message.type === 'relay'))
+    const relay = received.find((r) => r.message.type === 'relay')!
+    expect(relay.message).toEqual({
+      type: 'relay',
+      sessionId: session.id,
+      role: 'mobile',
+      data: '{"type":"request","id":1}',
+    })
+
+    deleteSession(session.id)
+  })
+
+  it('should deliver relayed messages to local connections', async () => {
+    const session = createSession()
+    const dappWs = createMockWebSocket()
+    registerConnection(session.id, 'dapp', dappWs)
+
+    remote.publish({ type: 'relay', sessionId: session.id, role: 'dapp', data: '{"type":"response","id":1}' }, 'local')
+    await waitFor(() => dappWs.send.mock.calls.length > 0)
+
+    expect(dappWs.send).toHaveBeenCalledWith('{"type":"response","id":1}')
+
+    deleteSession(session.id)
+  })
+
+  it('should clear remote peers on detach', async () => {
+    const session = createSession()
+    remote.publish({ type: 'attach', sessionId: session.id, role: 'mobile' })
+    await waitFor(() => isMobileLocked(session.id))
+
+    remote.publish({ type: 'detach', sessionId: session.id, role: 'mobile' })
+    await waitFor(() => !isMobileLocked(session.id))
+
+    expect(getSession(session.id)?.mobileNodes.size).toBe(0)
+    expect(getSession(session.id)?.status).toBe('disconnected')
+
+    deleteSession(session.id)
+  })
+
+  it('should not unregister a role taken over by another node', async () => {
+    const session = createSession()
+    registerConnection(session.id, 'dapp', createMockWebSocket('tab-1'))
+
+    // DApp 重连到了另一个节点
+    remote.publish({ type: 'attach', sessionId: session.id, role: 'dapp', connection: 'tab-1' })
+    await waitFor(() => getSession(session.id)?.dappNodes.get('tab-1') === 'remote')
+
+    // 本节点上旧连接关闭
+    unregisterConnection(session.id, 'dapp', 'tab-1')
+    expect(getSession(session.id)?.dappNodes.get('tab-1')).toBe('remote')
+
+    deleteSession(session.id)
+  })
+
+  it('should forward responses to the tab on another node', async () => {
+    const session = createSession()
+    const localTab = createMockWebSocket('tab-1')
+    registerConnection(session.id, 'dapp', localTab)
+    registerConnection(session.id, 'mobile', createMockWebSocket())
+    remote.publish({ type: 'attach', sessionId: session.id, role: 'dapp', connection: 'tab-2' })
+    await waitFor(() => getSession(session.id)?.dappNodes.size === 2)
+    received.length = 0
+
+    expect(sendToPeer(session.id, 'mobile', 'for-tab-2', 'tab-2')).toBe(true)
+
+    await waitFor(() => received.some((r) => r.message.type === 'relay'))
+    expect(received.find((r) => r.message.type === 'relay')!.message).toEqual({
+      type: 'relay',
+      sessionId: session.id,
+      role: 'dapp',
+      connection: 'tab-2',
+      data: 'for-tab-2',
+    })
+    expect(localTab.send).not.toHaveBeenCalled()
+
+    deleteSession(session.id)
+  })
+
+  it('should deliver relayed messages only to the addressed local tab', async () => {
+    const session = createSession()
+    const tab1 = createMockWebSocket('tab-1')
+    const tab2 = createMockWebSocket('tab-2')
+    registerConnection(session.id, 'dapp', tab1)
+    registerConnection(session.id, 'dapp', tab2)
+
+    remote.publish({ type: 'relay', sessionId: session.id, role: 'dapp', connection: 'tab-2', data: 'response' })
+    remote.publish({ type: 'relay', sessionId: session.id, role: 'dapp', data: 'broadcast' })
+    await waitFor(() => tab1.send.mock.calls.length === 1)
+
+    expect(tab1.send.mock.calls.map((call: unknown[]) => call[0])).toEqual(['broadcast'])
+    expect(tab2.send.mock.calls.map((call: unknown[]) => call[0])).toEqual(['response', 'broadcast'])
+
+    deleteSession(session.id)
+  })
+
+  it('should forward requests to a participant on another node', async () => {
+    const session = createSession(undefined, { participants: 2 })
+    const first = createMockWebSocket()
+    first.data.participant = 1
+    registerConnection(session.id, 'dapp', createMockWebSocket())
+    registerConnection(session.id, 'mobile', first)
+    remote.publish({ type: 'attach', sessionId: session.id, role: 'mobile', connection: 2 })
+    await waitFor(() => getSession(session.id)?.mobileNodes.get(2) === 'remote')
+    expect(isMobileLocked(session.id, 2)).toBe(true)
+    received.length = 0
+
+    expect(sendToPeer(session.id, 'dapp', 'for-2', 2)).toBe(true)
+
+    await waitFor(() => received.some((r) => r.message.type === 'relay'))
+    expect(received.find((r) => r.message.type === 'relay')!.message).toEqual({
+      type: 'relay',
+      sessionId: session.id,
+      role: 'mobile',
+      connection: 2,
+      data: 'for-2',
+    })
+    expect(first.send).not.toHaveBeenCalled()
+
+    remote.publish({ type: 'detach', sessionId: session.id, role: 'mobile', connection: 2 })
+    await waitFor(() => !isMobileLocked(session.id, 2))
+    expect(isMobileLocked(session.id, 1)).toBe(true)
+
+    deleteSession(session.id)
+  })
+
+  it('should keep the session connected while a tab remains on another node', async () => {
+    const session = createSession()
+    registerConnection(session.id, 'dapp', createMockWebSocket('tab-1'))
+    registerConnection(session.id, 'mobile', createMockWebSocket())
+    remote.publish({ type: 'attach', sessionId: session.id, role: 'dapp', connection: 'tab-2' })
+    await waitFor(() => getSession(session.id)?.dappNodes.size === 2)
+
+    unregisterConnection(session.id, 'dapp', 'tab-1')
+    expect(hasPeer(session.id, 'mobile')).toBe(true)
+    expect(getSession(session.id)?.status).toBe('connected')
+
+    remote.publish({ type: 'detach', sessionId: session.id, role: 'dapp', connection: 'tab-2' })
+    await waitFor(() => !hasPeer(session.id, 'mobile'))
+    expect(getSession(session.id)?.status).toBe('disconnected')
+
+    deleteSession(session.id)
+  })
+
+  it('should flush buffered messages when the peer attaches on another node', async () => {
+    const session = createSession()
+    registerConnection(session.id, 'dapp', createMockWebSocket())
+    bufferForPeer(session.id, 'dapp', '{"type":"request","id":7}')
+    received.length = 0
+
+    remote.publish({ type: 'attach', sessionId: session.id, role: 'mobile' })
+
+    await waitFor(() => received.some((r) => r.message.type === 'relay'))
+    const relay = received.find((r) => r.message.type === 'relay')!
+    expect(relay.message.role).toBe('mobile')
+    expect(relay.message.data).toBe('{"type":"request","id":7}')
+
+    deleteSession(session.id)
+  })
+
+  it('should close local connections when terminated on another node', async () => {
+    const session = createSession()
+    const mobileWs = createMockWebSocket()
+    registerConnection(session.id, 'mobile', mobileWs)
+
+    remote.publish({ type: 'terminate', sessionId: session.id })
+    await waitFor(() => getSession(session.id)?.terminated === true)
+
+    expect(mobileWs.close).toHaveBeenCalledWith(1008, 'Session terminated')
+  })
+
+  it('should broadcast local termination', async () => {
+    const session = createSession()
+    received.length = 0
+
+    terminateSession(session.id)
+
+    await waitFor(() => received.some((r) => r.message.type === 'terminate'))
+    expect(received.find((r) => r.message.type === 'terminate')?.message.sessionId).toBe(session.id)
+  })
+
+  it('should share handoff tokens with other nodes', async () => {
+    const session = createSession()
+    const handoff = createHandoffToken(session.id)!
+
+    await waitFor(() => received.some((r) => r.message.type === 'handoff'))
+    expect(received.find((r) => r.message.type === 'handoff')?.message).toEqual({
+      type: 'handoff',
+      sessionId: session.id,
+      token: handoff.token,
+      expiresAt: handoff.expiresAt,
+      participant: 1,
+    })
+
+    remote.publish({ type: 'handoff', sessionId: session.id, token: 'REMOTETOKEN', expiresAt: Date.now() + 60000, participant: 2 })
+    await waitFor(() => verifyHandoffToken(session.id, 'REMOTETOKEN', 2))
+    // 其他参与者的令牌不会覆盖本地签发的令牌
+    expect(verifyHandoffToken(session.id, handoff.token)).toBe(true)
+
+    deleteSession(session.id)
+  })
+
+  it('should close the local mobile when another node takes over with a handoff', async () => {
+    const session = createSession()
+    const mobileWs = createMockWebSocket()
+    registerConnection(session.id, 'mobile', mobileWs)
+    createHandoffToken(session.id)
+
+    remote.publish({ type: 'attach', sessionId: session.id, role: 'mobile', handoff: true })
+    await waitFor(() => getSession(session.id)?.mobileNodes.get(1) === 'remote')
+
+    expect(mobileWs.close).toHaveBeenCalledWith(CLOSE_HANDED_OFF, 'Session handed off to another device')
+    expect(getSession(session.id)?.mobiles.size).toBe(0)
+    expect(isMobileLocked(session.id)).toBe(true)
+
+    // 旧连接关闭时不影响新节点持有的移动端
+    unregisterConnection(session.id, 'mobile')
+    expect(getSession(session.id)?.mobileNodes.get(1)).toBe('remote')
+
+    deleteSession(session.id)
+  })
+
+  it('should sync existing sessions to newly joined nodes', async () => {
+    const session = createSession()
+    registerConnection(session.id, 'dapp', createMockWebSocket())
+
+    const late = new LoopbackClusterBus('late', hub)
+    const lateReceived = collect(late)
+    await late.start()
+
+    await waitFor(() => lateReceived.some((r) => r.message.type === 'attach' && r.message.sessionId === session.id))
+    const types = lateReceived
+      .filter((r) => r.message.sessionId === session.id || (r.message.session as any)?.id === session.id)
+      .map((r) => r.message.type)
+    expect(types).toEqual(['session_created', 'attach'])
+
+    late.close()
+    deleteSession(session.id)
+  })
+})
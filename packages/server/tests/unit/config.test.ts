@@ -5,6 +5,7 @@ import {
   hasExternalTranslations,
   getCustomThemeCSS,
   hasCustomTheme,
+  getConfigStatus,
 } from '../../src/config'
 
 // Note: loadExternalConfig is called at module load time by template.ts
@@ -175,3 +176,9 @@ describe('Config - Edge Cases', () => {
     }
   })
 })
+
+describe('Config - Load Status', () => {
+  it('should report config as loaded without errors', () => {
+    expect(getConfigStatus()).toEqual({ loaded: true, errors: [] })
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeAll } from 'bun:test'
+import * as sdkCrypto from '../../../sdk/src/crypto'
+import '../../public/js/e2e.js'
+
+// bridge 端实现（public/js/e2e.js 挂载到 globalThis）
+const bridge = (globalThis as any).RemoteInjectE2E
+
+describe('bridge E2E helpers', () => {
+  it('should read the DApp public key from the URL fragment', () => {
+    expect(bridge.getPeerKeyFromHash('#pk=abc_-123')).toBe('abc_-123')
+    expect(bridge.getPeerKeyFromHash('#pk=abc&ri=%7B%22lang%22%3A%22zh%22%7D')).toBe('abc')
+    expect(bridge.getPeerKeyFromHash('#ri=%7B%7D')).toBeNull()
+    expect(bridge.getPeerKeyFromHash('')).toBeNull()
+  })
+
+  it('should round trip messages with its own keys', async () => {
+    const a = await bridge.generateKeyPair()
+    const b = await bridge.generateKeyPair()
+    const keyA = await bridge.deriveSessionKey(a.privateKey, b.publicKey, 'ABCD')
+    const keyB = await bridge.deriveSessionKey(b.privateKey, a.publicKey, 'ABCD')
+
+    const envelope = await bridge.encrypt(keyA, { type: 'request', id: 1, method: 'eth_sendTransaction', params: [] })
+
+    expect(envelope.type).toBe('encrypted')
+    expect(envelope.id).toBe(1)
+    expect(JSON.stringify(envelope)).not.toContain('eth_sendTransaction')
+    expect(await bridge.decrypt(keyB, envelope)).toEqual({ type: 'request', id: 1, method: 'eth_sendTransaction', params: [] })
+  })
+
+  it('should keep the DApp connection in plaintext for routing', async () => {
+    const a = await bridge.generateKeyPair()
+    const b = await bridge.generateKeyPair()
+    const keyA = await bridge.deriveSessionKey(a.privateKey, b.publicKey, 'ABCD')
+    const keyB = await bridge.deriveSessionKey(b.privateKey, a.publicKey, 'ABCD')
+
+    const envelope = await bridge.encrypt(keyA, { type: 'response', id: 3, connection: 'tab-1', result: '0x1' })
+
+    expect(envelope.connection).toBe('tab-1')
+    expect(await bridge.decrypt(keyB, envelope)).toEqual({ type: 'response', id: 3, result: '0x1' })
+  })
+})
+
+describe('SDK ↔ bridge interoperability', () => {
+  let sdkKey: CryptoKey
+  let bridgeKey: CryptoKey
+
+  beforeAll(async () => {
+    // DApp 生成密钥对，公钥通过 #pk= 传给 bridge
+    const dappKeyPair = await sdkCrypto.generateKeyPair()
+    const dappPublicKey = await sdkCrypto.exportPublicKey(dappKeyPair.publicKey)
+
+    // bridge 派生共享密钥并通过 key_exchange 返回自己的公钥
+    const bridgeKeyPair = await bridge.generateKeyPair()
+    bridgeKey = await bridge.deriveSessionKey(bridgeKeyPair.privateKey, await bridge.importPublicKey(dappPublicKey), 'ABCD')
+    const bridgePublicKey = await bridge.exportPublicKey(bridgeKeyPair.publicKey)
+
+    sdkKey = await sdkCrypto.deriveSessionKey(dappKeyPair.privateKey, await sdkCrypto.importPublicKey(bridgePublicKey), 'ABCD')
+  })
+
+  it('should decrypt SDK requests in the bridge', async () => {
+    const envelope = await sdkCrypto.encryptMessage(sdkKey, { type: 'request', id: 7, method: 'personal_sign', params: ['0x68656c6c6f'] })
+    const message = await bridge.decrypt(bridgeKey, JSON.parse(JSON.stringify(envelope)))
+
+    expect(message).toEqual({ type: 'request', id: 7, method: 'personal_sign', params: ['0x68656c6c6f'] })
+  })
+
+  it('should decrypt bridge responses in the SDK', async () => {
+    const envelope = await bridge.encrypt(bridgeKey, { type: 'response', id: 7, result: '0xsignature' })
+    const message = await sdkCrypto.decryptMessage(sdkKey, JSON.parse(JSON.stringify(envelope)))
+
+    expect(message).toEqual({ type: 'response', id: 7, result: '0xsignature' })
+  })
+
+  it('should reject tampered ciphertext', async () => {
+    const envelope = await bridge.encrypt(bridgeKey, { type: 'connect', address: '0x1234', chainId: 1 })
+    const tampered = { ...envelope, data: (envelope.data[0] === 'A' ? 'B' : 'A') + envelope.data.slice(1) }
+
+    await expect(sdkCrypto.decryptMessage(sdkKey, tampered)).rejects.toThrow()
+  })
+
+  it('should derive different keys for different sessions', async () => {
+    const dappKeyPair = await sdkCrypto.generateKeyPair()
+    const bridgeKeyPair = await bridge.generateKeyPair()
+    const keyA = await sdkCrypto.deriveSessionKey(dappKeyPair.privateKey, bridgeKeyPair.publicKey, 'AAAA')
+    const keyB = await bridge.deriveSessionKey(bridgeKeyPair.privateKey, dappKeyPair.publicKey, 'BBBB')
+
+    const envelope = await sdkCrypto.encryptMessage(keyA, { type: 'request', id: 1, method: 'eth_sign', params: [] })
+    await expect(bridge.decrypt(keyB, envelope)).rejects.toThrow()
+  })
+})
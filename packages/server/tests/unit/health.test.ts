@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'bun:test'
+import { checkReadiness, type ReadinessProbes } from '../../src/health'
+
+function createProbes(overrides: Partial<ReadinessProbes> = {}): ReadinessProbes {
+  return {
+    isDraining: () => false,
+    isAtCapacity: () => false,
+    configStatus: () => ({ loaded: true, errors: [] }),
+    storeHealth: () => null,
+    ...overrides,
+  }
+}
+
+describe('checkReadiness', () => {
+  it('should be ready when all checks pass', () => {
+    const result = checkReadiness(createProbes())
+    expect(result.ready).toBe(true)
+    expect(result.reason).toBeUndefined()
+    expect(Object.values(result.checks).every(check => check.ok)).toBe(true)
+  })
+
+  it('should not be ready while draining', () => {
+    const result = checkReadiness(createProbes({ isDraining: () => true }))
+    expect(result.ready).toBe(false)
+    expect(result.reason).toBe('Server is draining')
+    expect(result.checks.draining.ok).toBe(false)
+  })
+
+  it('should not be ready at capacity', () => {
+    const result = checkReadiness(createProbes({ isAtCapacity: () => true }))
+    expect(result.ready).toBe(false)
+    expect(result.reason).toBe('Server at capacity')
+  })
+
+  it('should not be ready before config is loaded', () => {
+    const result = checkReadiness(createProbes({ configStatus: () => ({ loaded: false, errors: [] }) }))
+    expect(result.ready).toBe(false)
+    expect(result.checks.config.reason).toBe('External config not loaded')
+  })
+
+  it('should report config files that failed to load', () => {
+    const result = checkReadiness(createProbes({
+      configStatus: () => ({ loaded: true, errors: ['api-keys.json: Unexpected token'] }),
+    }))
+    expect(result.ready).toBe(false)
+    expect(result.reason).toContain('api-keys.json')
+  })
+
+  it('should report an unavailable session store', () => {
+    const failing = checkReadiness(createProbes({ storeHealth: () => 'database is locked' }))
+    expect(failing.ready).toBe(false)
+    expect(failing.reason).toBe('Session store unavailable: database is locked')
+
+    const throwing = checkReadiness(createProbes({ storeHealth: () => { throw new Error('disk I/O error') } }))
+    expect(throwing.checks.store).toEqual({ ok: false, reason: 'Session store unavailable: disk I/O error' })
+  })
+
+  it('should report the first failing check and keep the others', () => {
+    const result = checkReadiness(createProbes({ isDraining: () => true, isAtCapacity: () => true }))
+    expect(result.reason).toBe('Server is draining')
+    expect(result.checks.capacity.ok).toBe(false)
+    expect(result.checks.config.ok).toBe(true)
+  })
+
+  it('should use the real server state by default', () => {
+    expect(checkReadiness().checks.draining.ok).toBe(true)
+  })
+})
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'bun:test'
+import { HeartbeatMonitor, heartbeatMonitor, CLOSE_HEARTBEAT_TIMEOUT } from '../../src/heartbeat'
+
+function createMockSocket(options: { terminate?: boolean; protocolVersion?: number } = {}) {
+  const socket = {
+    data: { protocolVersion: options.protocolVersion },
+    sent: [] as string[],
+    pings: 0,
+    terminated: false,
+    closeCode: undefined as number | undefined,
+    send(data: string) {
+      socket.sent.push(data)
+    },
+    ping() {
+      socket.pings++
+    },
+    close(code?: number) {
+      socket.closeCode = code
+    },
+    terminate: options.terminate === false ? undefined : () => {
+      socket.terminated = true
+    },
+  }
+  return socket
+}
+
+describe('HeartbeatMonitor', () => {
+  it('should send protocol and application pings on each tick', () => {
+    const monitor = new HeartbeatMonitor({ intervalMs: 1000, maxMissed: 2 })
+    const ws = createMockSocket()
+    monitor.track(ws)
+
+    monitor.tick()
+
+    expect(ws.pings).toBe(1)
+    expect(JSON.parse(ws.sent[0])).toEqual({ type: 'ping', interval: 1000 })
+  })
+
+  it('should only send protocol pings to v1 connections', () => {
+    const monitor = new HeartbeatMonitor({ intervalMs: 1000, maxMissed: 2 })
+    const ws = createMockSocket({ protocolVersion: 1 })
+    monitor.track(ws)
+
+    monitor.tick()
+
+    expect(ws.pings).toBe(1)
+    expect(ws.sent).toEqual([])
+  })
+
+  it('should terminate connections after maxMissed unanswered pings', () => {
+    const monitor = new HeartbeatMonitor({ intervalMs: 1000, maxMissed: 2 })
+    const ws = createMockSocket()
+    monitor.track(ws)
+
+    expect(monitor.tick()).toEqual([])
+    expect(monitor.tick()).toEqual([])
+    expect(monitor.tick()).toEqual([ws])
+
+    expect(ws.terminated).toBe(true)
+    expect(monitor.size).toBe(0)
+  })
+
+  it('should keep connections that respond', () => {
+    const monitor = new HeartbeatMonitor({ intervalMs: 1000, maxMissed: 2 })
+    const ws = createMockSocket()
+    monitor.track(ws)
+
+    for (let i = 0; i < 5; i++) {
+      expect(monitor.tick()).toEqual([])
+      monitor.markAlive(ws)
+    }
+
+    expect(ws.terminated).toBe(false)
+    expect(monitor.size).toBe(1)
+  })
+
+  it('should stop tracking closed connections', () => {
+    const monitor = new HeartbeatMonitor({ intervalMs: 1000, maxMissed: 1 })
+    const ws = createMockSocket()
+    monitor.track(ws)
+    monitor.untrack(ws)
+
+    monitor.tick()
+    monitor.tick()
+
+    expect(ws.sent).toEqual([])
+    expect(ws.terminated).toBe(false)
+  })
+
+  it('should ignore markAlive for untracked connections', () => {
+    const monitor = new HeartbeatMonitor({ intervalMs: 1000, maxMissed: 1 })
+    monitor.markAlive(createMockSocket())
+    expect(monitor.size).toBe(0)
+  })
+
+  it('should fall back to close with a heartbeat code without terminate', () => {
+    const monitor = new HeartbeatMonitor({ intervalMs: 1000, maxMissed: 0 })
+    const ws = createMockSocket({ terminate: false })
+    monitor.track(ws)
+
+    monitor.tick()
+
+    expect(ws.closeCode).toBe(CLOSE_HEARTBEAT_TIMEOUT)
+  })
+
+  it('should untrack a connection before closing it', () => {
+    const monitor = new HeartbeatMonitor({ intervalMs: 1000, maxMissed: 0 })
+    const ws = createMockSocket()
+    let sizeDuringClose = -1
+    ws.terminate = () => {
+      // terminate 会同步触发 close 回调，此时连接应已不在跟踪列表中
+      sizeDuringClose = monitor.size
+    }
+    monitor.track(ws)
+
+    monitor.tick()
+
+    expect(sizeDuringClose).toBe(0)
+  })
+
+  it('should keep pinging when send throws', () => {
+    const monitor = new HeartbeatMonitor({ intervalMs: 1000, maxMissed: 1 })
+    const ws = createMockSocket()
+    ws.send = () => {
+      throw new Error('socket closed')
+    }
+    monitor.track(ws)
+
+    expect(() => monitor.tick()).not.toThrow()
+    expect(monitor.tick()).toEqual([ws])
+  })
+
+  it('should be disabled with a zero interval', () => {
+    const monitor = new HeartbeatMonitor({ intervalMs: 0, maxMissed: 2 })
+    expect(monitor.enabled).toBe(false)
+    monitor.start()
+    monitor.stop()
+  })
+})
+
+describe('heartbeatMonitor', () => {
+  it('should be enabled by default', () => {
+    expect(heartbeatMonitor.enabled).toBe(true)
+    expect(heartbeatMonitor.intervalMs).toBe(30000)
+  })
+})
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'bun:test'
+import { Logger, parseLogLevel, redact, REDACTED, type LogLevel } from '../../src/logger'
+
+function createLogger(level: LogLevel = 'debug', redactEnabled = true) {
+  const lines: { line: string; level: LogLevel }[] = []
+  const logger = new Logger({
+    level,
+    redact: redactEnabled,
+    write: (line, lineLevel) => lines.push({ line, level: lineLevel }),
+  })
+  return { logger, lines, entries: () => lines.map(l => JSON.parse(l.line)) }
+}
+
+describe('parseLogLevel', () => {
+  it('should parse known levels case-insensitively', () => {
+    expect(parseLogLevel('debug')).toBe('debug')
+    expect(parseLogLevel('WARN')).toBe('warn')
+    expect(parseLogLevel(' silent ')).toBe('silent')
+  })
+
+  it('should default to info', () => {
+    expect(parseLogLevel(undefined)).toBe('info')
+    expect(parseLogLevel('verbose')).toBe('info')
+  })
+})
+
+describe('Logger', () => {
+  it('should emit one JSON line with timestamp, level and event', () => {
+    const { logger, entries } = createLogger()
+    logger.info('connected', { sessionId: 'ABCD', role: 'dapp' })
+
+    const [entry] = entries()
+    expect(entry.level).toBe('info')
+    expect(entry.event).toBe('connected')
+    expect(entry.sessionId).toBe('ABCD')
+    expect(entry.role).toBe('dapp')
+    expect(new Date(entry.timestamp).toISOString()).toBe(entry.timestamp)
+  })
+
+  it('should filter by level', () => {
+    const { logger, entries } = createLogger('warn')
+    logger.debug('a')
+    logger.info('b')
+    logger.warn('c')
+    logger.error('d')
+
+    expect(entries().map(e => e.event)).toEqual(['c', 'd'])
+  })
+
+  it('should emit nothing when silent', () => {
+    const { logger, lines } = createLogger('silent')
+    logger.error('boom')
+
+    expect(lines).toHaveLength(0)
+  })
+
+  it('should include child bindings and share the level', () => {
+    const { logger, entries } = createLogger('info')
+    const child = logger.child({ component: 'ws' })
+    child.info('connected', { sessionId: 'ABCD' })
+    logger.setLevel('error')
+    child.info('ignored')
+
+    expect(entries()).toHaveLength(1)
+    expect(entries()[0].component).toBe('ws')
+  })
+
+  it('should not let fields override level, timestamp or event', () => {
+    const { logger, entries } = createLogger()
+    logger.info('real', { event: 'fake', level: 'error' })
+
+    expect(entries()[0].event).toBe('real')
+    expect(entries()[0].level).toBe('info')
+  })
+
+  it('should serialize errors', () => {
+    const { logger, entries } = createLogger('debug', false)
+    logger.error('failed', { error: new Error('boom') })
+
+    expect(entries()[0].error).toEqual({ name: 'Error', message: 'boom' })
+  })
+
+  it('should redact fields by default', () => {
+    const { logger, entries } = createLogger()
+    logger.info('request', { url: '/s/ABCD?k=secret123&lang=en', params: ['0xabc'] })
+
+    expect(entries()[0].url).toBe(`/s/ABCD?k=${REDACTED}&lang=en`)
+    expect(entries()[0].params).toBe(REDACTED)
+  })
+
+  it('should keep fields when redaction is disabled', () => {
+    const { logger, entries } = createLogger('debug', false)
+    logger.info('request', { url: '/s/ABCD?k=secret123' })
+
+    expect(entries()[0].url).toBe('/s/ABCD?k=secret123')
+  })
+})
+
+describe('redact', () => {
+  it('should redact sensitive keys at any depth', () => {
+    const result = redact({
+      message: { type: 'request', params: [{ to: '0x1' }], k: 'abc' },
+      secret: 'xyz',
+      signature: '0x1234',
+    }) as any
+
+    expect(result.message.params).toBe(REDACTED)
+    expect(result.message.k).toBe(REDACTED)
+    expect(result.secret).toBe(REDACTED)
+    expect(result.signature).toBe(REDACTED)
+    expect(result.message.type).toBe('request')
+  })
+
+  it('should redact signatures inside strings', () => {
+    const signature = '0x' + 'ab'.repeat(65)
+    const result = redact(`result: ${signature}`)
+
+    expect(result).toBe(`result: ${REDACTED}`)
+  })
+
+  it('should keep addresses and short hex values', () => {
+    const address = '0x' + '1'.repeat(40)
+
+    expect(redact(address)).toBe(address)
+    expect(redact('0x1')).toBe('0x1')
+  })
+
+  it('should redact the k param in URL fragments and query strings', () => {
+    expect(redact('wss://host/ws?session=ABCD&role=mobile&k=s3cret')).toBe(`wss://host/ws?session=ABCD&role=mobile&k=${REDACTED}`)
+    expect(redact('https://host/s/ABCD?k=s3cret#pk=abc')).toBe(`https://host/s/ABCD?k=${REDACTED}#pk=abc`)
+  })
+
+  it('should truncate deeply nested values', () => {
+    let value: any = 'leaf'
+    for (let i = 0; i < 10; i++) value = { nested: value }
+
+    expect(JSON.stringify(redact(value))).toContain('[Truncated]')
+  })
+})
@@ -0,0 +1,234 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  MetricsRegistry,
+  RequestTimer,
+  recordRelayedMessage,
+  renderMetrics,
+  prefersJson,
+  messagesRelayed,
+  requestDuration,
+} from '../../src/metrics'
+
+describe('MetricsRegistry', () => {
+  it('should render counters with HELP and TYPE lines', () => {
+    const registry = new MetricsRegistry()
+    const counter = registry.counter('test_events_total', 'Test events', ['kind'])
+    counter.inc({ kind: 'a' })
+    counter.inc({ kind: 'a' })
+    counter.inc({ kind: 'b' }, 5)
+
+    const output = registry.render()
+    expect(output).toContain('# HELP test_events_total Test events')
+    expect(output).toContain('# TYPE test_events_total counter')
+    expect(output).toContain('test_events_total{kind="a"} 2')
+    expect(output).toContain('test_events_total{kind="b"} 5')
+    expect(output.endsWith('\n')).toBe(true)
+  })
+
+  it('should render unlabeled counters as 0 before first increment', () => {
+    const registry = new MetricsRegistry()
+    registry.counter('test_created_total', 'Created')
+
+    expect(registry.render()).toContain('test_created_total 0')
+  })
+
+  it('should escape label values', () => {
+    const registry = new MetricsRegistry()
+    const counter = registry.counter('test_escape_total', 'Escape', ['value'])
+    counter.inc({ value: 'a"b\\c\nd' })
+
+    expect(registry.render()).toContain('test_escape_total{value="a\\"b\\\\c\\nd"} 1')
+  })
+
+  it('should render gauges', () => {
+    const registry = new MetricsRegistry()
+    const gauge = registry.gauge('test_sessions', 'Sessions', ['status'])
+    gauge.set(3, { status: 'pending' })
+    gauge.set(1, { status: 'pending' })
+
+    const output = registry.render()
+    expect(output).toContain('# TYPE test_sessions gauge')
+    expect(output).toContain('test_sessions{status="pending"} 1')
+  })
+
+  it('should render cumulative histogram buckets', () => {
+    const registry = new MetricsRegistry()
+    const histogram = registry.histogram('test_duration_seconds', 'Duration', [], [0.1, 1])
+    histogram.observe(0.05)
+    histogram.observe(0.5)
+    histogram.observe(2)
+
+    const output = registry.render()
+    expect(output).toContain('# TYPE test_duration_seconds histogram')
+    expect(output).toContain('test_duration_seconds_bucket{le="0.1"} 1')
+    expect(output).toContain('test_duration_seconds_bucket{le="1"} 2')
+    expect(output).toContain('test_duration_seconds_bucket{le="+Inf"} 3')
+    expect(output).toContain('test_duration_seconds_sum 2.55')
+    expect(output).toContain('test_duration_seconds_count 3')
+  })
+
+  it('should reject duplicate metric names', () => {
+    const registry = new MetricsRegistry()
+    registry.counter('test_dup_total', 'Dup')
+
+    expect(() => registry.gauge('test_dup_total', 'Dup')).toThrow()
+  })
+})
+
+describe('RequestTimer', () => {
+  it('should return elapsed seconds for a matching response', () => {
+    const timer = new RequestTimer()
+    timer.start('s1', 1, 1000)
+
+    expect(timer.finish('s1', 1, 3500)).toBe(2.5)
+    expect(timer.size).toBe(0)
+  })
+
+  it('should return null for unknown ids or other sessions', () => {
+    const timer = new RequestTimer()
+    timer.start('s1', 1, 1000)
+
+    expect(timer.finish('s2', 1, 2000)).toBeNull()
+    expect(timer.finish('s1', 2, 2000)).toBeNull()
+  })
+
+  it('should ignore responses older than max age', () => {
+    const timer = new RequestTimer(100, 1000)
+    timer.start('s1', 1, 0)
+
+    expect(timer.finish('s1', 1, 5000)).toBeNull()
+  })
+
+  it('should count pending requests per session', () => {
+    const timer = new RequestTimer(100, 1000)
+    timer.start('s1', 1, 0)
+    timer.start('s1', 2, 500)
+    timer.start('s2', 1, 500)
+
+    expect(timer.count(undefined, 600)).toBe(3)
+    expect(timer.count(sessionId => sessionId === 's1', 600)).toBe(2)
+    // 超过 max age 的请求不计入
+    expect(timer.count(undefined, 1200)).toBe(2)
+  })
+
+  it('should drop the oldest request when full', () => {
+    const timer = new RequestTimer(2, 60000)
+    timer.start('s1', 1, 0)
+    timer.start('s1', 2, 0)
+    timer.start('s1', 3, 0)
+
+    expect(timer.size).toBe(2)
+    expect(timer.finish('s1', 1, 10)).toBeNull()
+    expect(timer.finish('s1', 3, 10)).toBe(0.01)
+  })
+
+  it('should prune expired requests', () => {
+    const timer = new RequestTimer(100, 1000)
+    timer.start('s1', 1, 0)
+    timer.start('s1', 2, 1500)
+
+    expect(timer.prune(2000)).toBe(1)
+    expect(timer.size).toBe(1)
+  })
+})
+
+describe('recordRelayedMessage', () => {
+  it('should count relayed messages by type and direction', () => {
+    const before = messagesRelayed.get({ type: 'chainChanged', direction: 'mobile_to_dapp' })
+    recordRelayedMessage('metrics-s1', 'mobile', { type: 'chainChanged' })
+
+    expect(messagesRelayed.get({ type: 'chainChanged', direction: 'mobile_to_dapp' })).toBe(before + 1)
+  })
+
+  it('should observe latency between request and response', () => {
+    const timer = new RequestTimer()
+    const count = requestDuration.getCount()
+    const sum = requestDuration.getSum()
+
+    recordRelayedMessage('metrics-s2', 'dapp', { type: 'request', id: 7 }, timer, 1000)
+    recordRelayedMessage('metrics-s2', 'mobile', { type: 'response', id: 7 }, timer, 1250)
+
+    expect(requestDuration.getCount()).toBe(count + 1)
+    expect(requestDuration.getSum()).toBeCloseTo(sum + 0.25)
+  })
+
+  it('should observe latency of batches', () => {
+    const timer = new RequestTimer()
+    const count = requestDuration.getCount()
+
+    recordRelayedMessage('metrics-s5', 'dapp', { type: 'batch_request', id: 2 }, timer, 0)
+    recordRelayedMessage('metrics-s5', 'mobile', { type: 'batch_response', id: 2 }, timer, 500)
+
+    expect(requestDuration.getCount()).toBe(count + 1)
+  })
+
+  it('should match encrypted envelopes by id', () => {
+    const timer = new RequestTimer()
+    const count = requestDuration.getCount()
+
+    recordRelayedMessage('metrics-s3', 'dapp', { type: 'encrypted', id: 1 }, timer, 0)
+    recordRelayedMessage('metrics-s3', 'mobile', { type: 'encrypted', id: 1 }, timer, 100)
+
+    expect(requestDuration.getCount()).toBe(count + 1)
+  })
+
+  it('should time requests with the same id from different tabs separately', () => {
+    const timer = new RequestTimer()
+    const sum = requestDuration.getSum()
+
+    recordRelayedMessage('metrics-s6', 'dapp', { type: 'request', id: 1, connection: 'tab-1' }, timer, 0)
+    recordRelayedMessage('metrics-s6', 'dapp', { type: 'request', id: 1, connection: 'tab-2' }, timer, 100)
+    expect(timer.size).toBe(2)
+
+    recordRelayedMessage('metrics-s6', 'mobile', { type: 'response', id: 1, connection: 'tab-1' }, timer, 300)
+    recordRelayedMessage('metrics-s6', 'mobile', { type: 'response', id: 1, connection: 'tab-2' }, timer, 300)
+
+    expect(timer.size).toBe(0)
+    expect(requestDuration.getSum()).toBeCloseTo(sum + 0.3 + 0.2)
+  })
+
+  it('should not time messages without an id', () => {
+    const timer = new RequestTimer()
+    recordRelayedMessage('metrics-s4', 'dapp', { type: 'encrypted' }, timer)
+
+    expect(timer.size).toBe(0)
+  })
+})
+
+describe('renderMetrics', () => {
+  it('should expose session gauges from stats', () => {
+    const output = renderMetrics({
+      totalSessions: 5,
+      pendingSessions: 2,
+      connectedSessions: 3,
+      maxSessions: 100,
+      uptime: 61500,
+      messageViolations: 0,
+    })
+
+    expect(output).toContain('remote_inject_sessions{status="pending"} 2')
+    expect(output).toContain('remote_inject_sessions{status="connected"} 3')
+    expect(output).toContain('remote_inject_sessions_max 100')
+    expect(output).toContain('remote_inject_uptime_seconds 61')
+    expect(output).toContain('# TYPE remote_inject_sessions_created_total counter')
+    expect(output).toContain('# TYPE remote_inject_request_duration_seconds histogram')
+  })
+})
+
+describe('prefersJson', () => {
+  it('should default to text format', () => {
+    expect(prefersJson(null)).toBe(false)
+    expect(prefersJson('*/*')).toBe(false)
+    expect(prefersJson('text/html,application/xhtml+xml,*/*;q=0.8')).toBe(false)
+  })
+
+  it('should return JSON when explicitly requested', () => {
+    expect(prefersJson('application/json')).toBe(true)
+    expect(prefersJson('application/json, text/plain;q=0.5')).toBe(true)
+  })
+
+  it('should prefer text for Prometheus scrapers', () => {
+    expect(prefersJson('application/openmetrics-text;version=1.0.0;q=0.5,text/plain;version=0.0.4;q=0.4,*/*;q=0.1')).toBe(false)
+    expect(prefersJson('text/plain, application/json;q=0.9')).toBe(false)
+  })
+})
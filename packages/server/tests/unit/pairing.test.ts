@@ -0,0 +1,231 @@
+import { describe, it, expect } from 'bun:test'
+import { PairingRegistry, generateDigits, type PairingConfig } from '../../src/pairing'
+import { LoopbackClusterBus, LoopbackHub } from '../../src/cluster'
+import { createSession, terminateSession } from '../../src/session'
+
+function createRegistry(overrides: Partial<PairingConfig> = {}): PairingRegistry {
+  return new PairingRegistry({
+    digits: 6,
+    ttlMs: 60000,
+    ipLimit: { windowMs: 60000, maxRequests: 5 },
+    failureLimit: { windowMs: 60000, maxRequests: 50 },
+    ...overrides,
+  })
+}
+
+// 生成一个与 code 不同的同位数配对码
+function wrongCode(code: string): string {
+  return code.replace(/^./, c => String((Number(c) + 1) % 10))
+}
+
+async function waitFor(condition: () => boolean, timeout = 1000): Promise<void> {
+  const start = Date.now()
+  while (!condition()) {
+    if (Date.now() - start > timeout) throw new Error('waitFor timed out')
+    await new Promise(resolve => setTimeout(resolve, 5))
+  }
+}
+
+describe('generateDigits', () => {
+  it('should generate numeric strings of the requested length', () => {
+    for (const length of [6, 7, 8]) {
+      expect(generateDigits(length)).toMatch(new RegExp(`^\\d{${length}}$`))
+    }
+  })
+})
+
+describe('PairingRegistry', () => {
+  it('should issue a code bound to the session', () => {
+    const registry = createRegistry()
+    const session = createSession()
+    const now = Date.now()
+
+    const code = registry.issue(session.id, undefined, now)
+
+    expect(code.code).toMatch(/^\d{6}$/)
+    expect(code.sessionId).toBe(session.id)
+    expect(code.expiresAt).toBe(now + 60000)
+    expect(registry.get(session.id)).toEqual(code)
+  })
+
+  it('should not outlive the session', () => {
+    const registry = createRegistry({ ttlMs: 24 * 60 * 60 * 1000 })
+    const session = createSession()
+
+    expect(registry.issue(session.id).expiresAt).toBe(session.expiresAt)
+  })
+
+  it('should replace the previous code when issuing again', () => {
+    const registry = createRegistry()
+    const session = createSession()
+
+    const first = registry.issue(session.id)
+    const second = registry.issue(session.id)
+
+    expect(registry.size).toBe(1)
+    expect(registry.get(session.id)?.code).toBe(second.code)
+    if (first.code !== second.code) {
+      expect(registry.redeem(first.code, '1.1.1.1').ok).toBe(false)
+    }
+  })
+
+  it('should redeem a code once and return the session secret', () => {
+    const registry = createRegistry()
+    const session = createSession()
+    const { code } = registry.issue(session.id, 'dapp-public-key')
+
+    const result = registry.redeem(code, '1.1.1.1')
+    expect(result).toEqual({ ok: true, sessionId: session.id, secret: session.secret, publicKey: 'dapp-public-key' })
+
+    expect(registry.redeem(code, '1.1.1.1')).toEqual({ ok: false, status: 404, error: 'invalid_code' })
+    expect(registry.get(session.id)).toBeUndefined()
+  })
+
+  it('should accept codes with spaces and dashes', () => {
+    const registry = createRegistry()
+    const session = createSession()
+    const { code } = registry.issue(session.id)
+
+    const result = registry.redeem(`${code.slice(0, 3)}-${code.slice(3)} `, '1.1.1.1')
+    expect(result.ok).toBe(true)
+  })
+
+  it('should reject malformed codes without counting an attempt', () => {
+    const registry = createRegistry({ ipLimit: { windowMs: 60000, maxRequests: 1 } })
+    const session = createSession()
+    const { code } = registry.issue(session.id)
+
+    expect(registry.redeem('12345', '1.1.1.1')).toEqual({ ok: false, status: 400, error: 'invalid_format' })
+    expect(registry.redeem('abcdef', '1.1.1.1')).toEqual({ ok: false, status: 400, error: 'invalid_format' })
+    expect(registry.redeem(code, '1.1.1.1').ok).toBe(true)
+  })
+
+  it('should block an IP after too many wrong codes', () => {
+    const registry = createRegistry({ ipLimit: { windowMs: 60000, maxRequests: 3 } })
+    const session = createSession()
+    const { code } = registry.issue(session.id)
+
+    for (let i = 0; i < 3; i++) {
+      expect(registry.redeem(wrongCode(code), '1.1.1.1').ok).toBe(false)
+    }
+
+    // 被封禁的 IP 即使输对也会被拒绝
+    expect(registry.redeem(code, '1.1.1.1')).toEqual({ ok: false, status: 429, error: 'too_many_attempts' })
+    expect(registry.redeem(code, '2.2.2.2').ok).toBe(true)
+  })
+
+  it('should throttle redemption once the global failure budget is exhausted', () => {
+    const registry = createRegistry({ failureLimit: { windowMs: 60000, maxRequests: 3 }, ipLimit: { windowMs: 60000, maxRequests: 100 } })
+    const session = createSession()
+    const { code } = registry.issue(session.id)
+
+    for (let i = 0; i < 3; i++) {
+      registry.redeem(wrongCode(code), `10.0.0.${i}`)
+    }
+
+    expect(registry.redeem(code, '1.1.1.1')).toEqual({ ok: false, status: 429, error: 'too_many_attempts' })
+  })
+
+  it('should not revoke other sessions\' codes after wrong guesses', () => {
+    const registry = createRegistry({ failureLimit: { windowMs: 60000, maxRequests: 100 }, ipLimit: { windowMs: 60000, maxRequests: 100 } })
+    const session = createSession()
+    const { code } = registry.issue(session.id)
+
+    for (let i = 0; i < 60; i++) {
+      registry.redeem(wrongCode(code), `10.0.0.${i}`)
+    }
+
+    expect(registry.get(session.id)?.code).toBe(code)
+    expect(registry.redeem(code, '1.1.1.1').ok).toBe(true)
+  })
+
+  it('should reject expired codes', () => {
+    const registry = createRegistry({ ttlMs: 1000 })
+    const session = createSession()
+    const now = Date.now()
+    const { code } = registry.issue(session.id, undefined, now)
+
+    expect(registry.redeem(code, '1.1.1.1', now + 1000)).toEqual({ ok: false, status: 404, error: 'invalid_code' })
+  })
+
+  it('should reject codes of terminated sessions', () => {
+    const registry = createRegistry()
+    const session = createSession()
+    const { code } = registry.issue(session.id)
+
+    terminateSession(session.id)
+    expect(registry.redeem(code, '1.1.1.1').ok).toBe(false)
+  })
+
+  it('should revoke a session code', () => {
+    const registry = createRegistry()
+    const session = createSession()
+    const { code } = registry.issue(session.id)
+
+    registry.revoke(session.id)
+    expect(registry.size).toBe(0)
+    expect(registry.redeem(code, '1.1.1.1').ok).toBe(false)
+  })
+})
+
+describe('PairingRegistry cluster sync', () => {
+  async function createPair(maxFailures = 50) {
+    const hub = new LoopbackHub()
+    const busA = new LoopbackClusterBus('a', hub)
+    const busB = new LoopbackClusterBus('b', hub)
+    const a = createRegistry({ failureLimit: { windowMs: 60000, maxRequests: maxFailures } })
+    const b = createRegistry({ failureLimit: { windowMs: 60000, maxRequests: maxFailures } })
+    a.attachCluster(busA)
+    b.attachCluster(busB)
+    await busA.start()
+    await busB.start()
+    return { a, b }
+  }
+
+  it('should redeem a code issued on another node', async () => {
+    const { a, b } = await createPair()
+    const session = createSession()
+    const { code } = a.issue(session.id)
+    await waitFor(() => b.size === 1)
+
+    expect(b.redeem(code, '1.1.1.1').ok).toBe(true)
+    await waitFor(() => a.size === 0)
+  })
+
+  it('should share failure counts across nodes', async () => {
+    const { a, b } = await createPair(2)
+    const session = createSession()
+    const { code } = a.issue(session.id)
+    await waitFor(() => b.size === 1)
+
+    a.redeem(wrongCode(code), '1.1.1.1')
+    b.redeem(wrongCode(code), '2.2.2.2')
+    await new Promise(resolve => setTimeout(resolve, 20))
+
+    expect(a.redeem(code, '3.3.3.3')).toEqual({ ok: false, status: 429, error: 'too_many_attempts' })
+    expect(b.redeem(code, '3.3.3.3')).toEqual({ ok: false, status: 429, error: 'too_many_attempts' })
+
+    // 只限流，配对码本身仍然有效
+    expect(a.size).toBe(1)
+    expect(b.size).toBe(1)
+  })
+
+  it('should sync live codes to joining nodes', async () => {
+    const hub = new LoopbackHub()
+    const busA = new LoopbackClusterBus('a', hub)
+    const a = createRegistry()
+    a.attachCluster(busA)
+    await busA.start()
+
+    const session = createSession()
+    const { code } = a.issue(session.id)
+
+    const busB = new LoopbackClusterBus('b', hub)
+    const b = createRegistry()
+    b.attachCluster(busB)
+    await busB.start()
+
+    await waitFor(() => b.size === 1)
+    expect(b.get(session.id)?.code).toBe(code)
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'bun:test'
+import { deflateSync } from 'zlib'
+import { encodePng, decodePng } from '../../src/png'
+
+describe('encodePng / decodePng', () => {
+  it('should round-trip RGB pixels', () => {
+    const rgb = new Uint8Array([255, 0, 0, 0, 255, 0, 0, 0, 255, 10, 20, 30])
+    const image = decodePng(encodePng(2, 2, rgb))
+
+    expect(image.width).toBe(2)
+    expect(image.height).toBe(2)
+    expect([...image.data]).toEqual([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 10, 20, 30, 255])
+  })
+
+  it('should decode filtered RGBA rows', () => {
+    // 手工构造 2×2 RGBA：第一行 Sub 过滤，第二行 Up 过滤
+    const raw = Buffer.from([
+      1, 10, 20, 30, 255, 5, 5, 5, 0,
+      2, 1, 1, 1, 0, 1, 1, 1, 0,
+    ])
+    const header = Buffer.alloc(13)
+    header.writeUInt32BE(2, 0)
+    header.writeUInt32BE(2, 4)
+    header[8] = 8
+    header[9] = 6
+    const chunk = (type: string, data: Buffer) => {
+      const length = Buffer.alloc(4)
+      length.writeUInt32BE(data.length)
+      return Buffer.concat([length, Buffer.from(type), data, Buffer.alloc(4)])
+    }
+    const png = Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      chunk('IHDR', header),
+      chunk('IDAT', deflateSync(raw)),
+      chunk('IEND', Buffer.alloc(0)),
+    ])
+
+    const image = decodePng(png)
+    expect([...image.data]).toEqual([
+      10, 20, 30, 255, 15, 25, 35, 255,
+      11, 21, 31, 255, 16, 26, 36, 255,
+    ])
+  })
+
+  it('should reject non-PNG data', () => {
+    expect(() => decodePng(new Uint8Array([1, 2, 3]))).toThrow('not a PNG')
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  parseProtocolVersion,
+  isSupportedVersion,
+  formatVersion,
+  buildReadyMessage,
+  isMessageTypeSupported,
+  adaptMessage,
+  sendMessage,
+  SUPPORTED_MAJOR_VERSIONS,
+  SERVER_CAPABILITIES,
+  CLOSE_UNSUPPORTED_VERSION,
+} from '../../src/protocol'
+
+describe('Protocol Versioning', () => {
+  describe('parseProtocolVersion', () => {
+    it('should default to v1 when not specified', () => {
+      expect(parseProtocolVersion(undefined)).toEqual({ major: 1, minor: 0 })
+      expect(parseProtocolVersion(null)).toEqual({ major: 1, minor: 0 })
+      expect(parseProtocolVersion('')).toEqual({ major: 1, minor: 0 })
+    })
+
+    it('should parse major version', () => {
+      expect(parseProtocolVersion('2')).toEqual({ major: 2, minor: 0 })
+    })
+
+    it('should parse major.minor version', () => {
+      expect(parseProtocolVersion('2.1')).toEqual({ major: 2, minor: 1 })
+    })
+
+    it('should return null for malformed versions', () => {
+      expect(parseProtocolVersion('abc')).toBeNull()
+      expect(parseProtocolVersion('2.x')).toBeNull()
+      expect(parseProtocolVersion('-1')).toBeNull()
+      expect(parseProtocolVersion('1.2.3')).toBeNull()
+    })
+  })
+
+  describe('isSupportedVersion', () => {
+    it('should accept v1 and v2', () => {
+      expect(isSupportedVersion({ major: 1, minor: 0 })).toBe(true)
+      expect(isSupportedVersion({ major: 2, minor: 0 })).toBe(true)
+    })
+
+    it('should accept unknown minor versions of a supported major', () => {
+      expect(isSupportedVersion({ major: 2, minor: 9 })).toBe(true)
+    })
+
+    it('should reject unknown major versions', () => {
+      expect(isSupportedVersion({ major: 3, minor: 0 })).toBe(false)
+      expect(isSupportedVersion({ major: 0, minor: 0 })).toBe(false)
+    })
+
+    it('should reject malformed versions', () => {
+      expect(isSupportedVersion(null)).toBe(false)
+    })
+  })
+
+  describe('formatVersion', () => {
+    it('should format with server minor version', () => {
+      expect(formatVersion(2)).toBe('2.0')
+    })
+  })
+
+  describe('buildReadyMessage', () => {
+    it('should keep v1 ready message unchanged', () => {
+      expect(buildReadyMessage(1)).toEqual({ type: 'ready' })
+    })
+
+    it('should include version and capabilities for v2', () => {
+      const ready = buildReadyMessage(2)
+      expect(ready.type).toBe('ready')
+      expect(ready.protocolVersion).toBe('2.0')
+      expect(ready.capabilities).toEqual(SERVER_CAPABILITIES)
+    })
+  })
+
+  describe('isMessageTypeSupported', () => {
+    it('should allow original message types on v1', () => {
+      for (const type of ['connect', 'disconnect', 'request', 'response', 'chainChanged', 'accountsChanged', 'error']) {
+        expect(isMessageTypeSupported(type, 1)).toBe(true)
+      }
+    })
+
+    it('should reserve v2 message types for v2 connections', () => {
+      for (const type of ['ping', 'pong', 'queued', 'server_draining', 'subscription', 'batch_request', 'batch_response', 'handoff_request', 'encrypted']) {
+        expect(isMessageTypeSupported(type, 1)).toBe(false)
+        expect(isMessageTypeSupported(type, 2)).toBe(true)
+      }
+    })
+  })
+
+  describe('adaptMessage', () => {
+    const response = JSON.stringify({ type: 'response', id: 1, result: '0x1', connection: 'tab-1', participant: 2 })
+
+    it('should pass messages through unchanged for v2', () => {
+      expect(adaptMessage(response, 2)).toBe(response)
+    })
+
+    it('should pass messages through when no version was negotiated', () => {
+      expect(adaptMessage(response, undefined)).toBe(response)
+    })
+
+    it('should strip routing fields for v1', () => {
+      expect(JSON.parse(adaptMessage(response, 1)!)).toEqual({ type: 'response', id: 1, result: '0x1' })
+    })
+
+    it('should keep v1 messages without routing fields as they are', () => {
+      const message = JSON.stringify({ type: 'chainChanged', chainId: 10 })
+      expect(adaptMessage(message, 1)).toBe(message)
+    })
+
+    it('should drop v2 message types for v1', () => {
+      expect(adaptMessage(JSON.stringify({ type: 'ping', interval: 1000 }), 1)).toBeNull()
+      expect(adaptMessage(JSON.stringify({ type: 'subscription', subscription: '0x1', result: {} }), 1)).toBeNull()
+    })
+  })
+
+  describe('sendMessage', () => {
+    function createSocket(protocolVersion?: number) {
+      const sent: string[] = []
+      return { sent, data: { protocolVersion }, send: (data: string) => sent.push(data) }
+    }
+
+    it('should send by the negotiated version of the socket', () => {
+      const v1 = createSocket(1)
+      const v2 = createSocket(2)
+      const queued = JSON.stringify({ type: 'queued', messageType: 'request', id: 1, queueSize: 1 })
+
+      expect(sendMessage(v1, queued)).toBe(false)
+      expect(sendMessage(v2, queued)).toBe(true)
+      expect(v1.sent).toEqual([])
+      expect(v2.sent).toEqual([queued])
+    })
+  })
+
+  describe('constants', () => {
+    it('should support v1 for backward compatibility', () => {
+      expect(SUPPORTED_MAJOR_VERSIONS).toContain(1)
+    })
+
+    it('should use an application close code', () => {
+      expect(CLOSE_UNSUPPORTED_VERSION).toBeGreaterThanOrEqual(4000)
+      expect(CLOSE_UNSUPPORTED_VERSION).toBeLessThan(5000)
+    })
+  })
+})
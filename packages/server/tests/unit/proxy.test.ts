@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  normalizeIP,
+  parseCidr,
+  parseTrustedProxies,
+  isInCidr,
+  isTrustedProxy,
+  parseForwardedHeader,
+  resolveClientIP,
+  type ProxyConfig,
+} from '../../src/proxy'
+
+describe('normalizeIP', () => {
+  it('should accept plain addresses', () => {
+    expect(normalizeIP('192.0.2.1')).toBe('192.0.2.1')
+    expect(normalizeIP(' 2001:DB8::1 ')).toBe('2001:db8::1')
+  })
+
+  it('should strip ports, brackets and zones', () => {
+    expect(normalizeIP('192.0.2.1:4711')).toBe('192.0.2.1')
+    expect(normalizeIP('[2001:db8::17]:4711')).toBe('2001:db8::17')
+    expect(normalizeIP('[2001:db8::17]')).toBe('2001:db8::17')
+    expect(normalizeIP('fe80::1%eth0')).toBe('fe80::1')
+  })
+
+  it('should convert IPv4-mapped IPv6 addresses', () => {
+    expect(normalizeIP('::ffff:10.1.2.3')).toBe('10.1.2.3')
+  })
+
+  it('should reject anything else', () => {
+    expect(normalizeIP('unknown')).toBeNull()
+    expect(normalizeIP('_hidden')).toBeNull()
+    expect(normalizeIP('999.1.1.1')).toBeNull()
+    expect(normalizeIP('[::1')).toBeNull()
+  })
+})
+
+describe('parseCidr', () => {
+  it('should parse IPv4 and IPv6 ranges', () => {
+    expect(parseCidr('10.0.0.0/8')).toEqual({ family: 4, bytes: [10, 0, 0, 0], prefix: 8 })
+    expect(parseCidr('::1')?.prefix).toBe(128)
+    expect(parseCidr('fc00::/7')).toMatchObject({ family: 6, prefix: 7 })
+    expect(parseCidr('fc00::/7')?.bytes).toHaveLength(16)
+  })
+
+  it('should treat a bare address as a single host', () => {
+    expect(parseCidr('192.0.2.1')?.prefix).toBe(32)
+  })
+
+  it('should reject invalid ranges', () => {
+    expect(parseCidr('10.0.0.0/33')).toBeNull()
+    expect(parseCidr('10.0.0.0/x')).toBeNull()
+    expect(parseCidr('10.0.0.0/8/8')).toBeNull()
+    expect(parseCidr('example.com')).toBeNull()
+  })
+})
+
+describe('isInCidr', () => {
+  it('should match IPv4 prefixes', () => {
+    const cidr = parseCidr('172.16.0.0/12')!
+    expect(isInCidr('172.16.0.1', cidr)).toBe(true)
+    expect(isInCidr('172.31.255.255', cidr)).toBe(true)
+    expect(isInCidr('172.32.0.1', cidr)).toBe(false)
+  })
+
+  it('should match IPv6 prefixes', () => {
+    const cidr = parseCidr('2001:db8::/32')!
+    expect(isInCidr('2001:db8:1234::1', cidr)).toBe(true)
+    expect(isInCidr('2001:db9::1', cidr)).toBe(false)
+    expect(isInCidr('::1', parseCidr('::1')!)).toBe(true)
+  })
+
+  it('should not match across families', () => {
+    expect(isInCidr('10.0.0.1', parseCidr('::/0')!)).toBe(false)
+    expect(isInCidr('::1', parseCidr('0.0.0.0/0')!)).toBe(false)
+  })
+
+  it('should handle embedded IPv4 in IPv6', () => {
+    expect(isInCidr('64:ff9b::192.0.2.1', parseCidr('64:ff9b::/96')!)).toBe(true)
+  })
+})
+
+describe('parseTrustedProxies', () => {
+  it('should expand aliases', () => {
+    const trusted = parseTrustedProxies('loopback, private')
+    expect(isTrustedProxy('127.0.0.1', trusted)).toBe(true)
+    expect(isTrustedProxy('::1', trusted)).toBe(true)
+    expect(isTrustedProxy('192.168.1.1', trusted)).toBe(true)
+    expect(isTrustedProxy('fd00::1', trusted)).toBe(true)
+    expect(isTrustedProxy('8.8.8.8', trusted)).toBe(false)
+  })
+
+  it('should skip invalid entries', () => {
+    expect(parseTrustedProxies('10.0.0.0/8, nope, ')).toHaveLength(1)
+    expect(parseTrustedProxies('')).toEqual([])
+  })
+})
+
+describe('parseForwardedHeader', () => {
+  it('should read for= values in order', () => {
+    expect(parseForwardedHeader('for=192.0.2.60;proto=http;by=203.0.113.43, for=198.51.100.17')).toEqual([
+      '192.0.2.60',
+      '198.51.100.17',
+    ])
+  })
+
+  it('should handle quoted IPv6 values and case', () => {
+    expect(parseForwardedHeader('For="[2001:db8:cafe::17]:4711"')).toEqual(['[2001:db8:cafe::17]:4711'])
+  })
+
+  it('should ignore elements without for=', () => {
+    expect(parseForwardedHeader('proto=https;by=10.0.0.1, for=unknown')).toEqual(['unknown'])
+  })
+})
+
+describe('resolveClientIP', () => {
+  const config: ProxyConfig = { trusted: parseTrustedProxies('loopback,10.0.0.0/8'), header: 'forwarded' }
+
+  function headers(values: Record<string, string>) {
+    return new Headers(values)
+  }
+
+  it('should read the Forwarded header from trusted proxies', () => {
+    const h = headers({ forwarded: 'for=198.51.100.17;proto=https, for=10.0.0.5' })
+    expect(resolveClientIP(h, '127.0.0.1', config)).toBe('198.51.100.17')
+  })
+
+  it('should read quoted IPv6 values with ports', () => {
+    const h = headers({ forwarded: 'for="[2001:db8:cafe::17]:4711"' })
+    expect(resolveClientIP(h, '127.0.0.1', config)).toBe('2001:db8:cafe::17')
+  })
+
+  it('should ignore X-Forwarded-For when Forwarded is configured', () => {
+    const h = headers({ 'x-forwarded-for': '198.51.100.17' })
+    expect(resolveClientIP(h, '127.0.0.1', config)).toBe('127.0.0.1')
+  })
+
+  it('should stop at unidentifiable hops', () => {
+    const h = headers({ forwarded: 'for=198.51.100.17, for=_hidden, for=10.0.0.5' })
+    expect(resolveClientIP(h, '127.0.0.1', config)).toBe('10.0.0.5')
+  })
+
+  it('should return the leftmost entry when every hop is trusted', () => {
+    const h = headers({ forwarded: 'for=10.0.0.9, for=10.0.0.5' })
+    expect(resolveClientIP(h, '127.0.0.1', config)).toBe('10.0.0.9')
+  })
+
+  it('should not trust any proxy with an empty list', () => {
+    const h = headers({ forwarded: 'for=198.51.100.17' })
+    expect(resolveClientIP(h, '127.0.0.1', { trusted: [], header: 'forwarded' })).toBe('127.0.0.1')
+  })
+})
@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  encodeQr,
+  getNumDataCodewords,
+  getLogoArea,
+  parseQrOptions,
+  renderQrSvg,
+  renderQrPng,
+  getSvgLogo,
+  getPngLogo,
+  DEFAULT_QR_OPTIONS,
+  type QrCode,
+  type QrOptions,
+} from '../../src/qr'
+import { decodePng } from '../../src/png'
+
+const URL = 'https://relay.example.com/s/ABCD?k=0123456789abcdefghijklmnopqrstuv'
+
+function options(overrides: Partial<QrOptions> = {}): QrOptions {
+  return { ...DEFAULT_QR_OPTIONS, ...overrides }
+}
+
+// 读取左上角的格式信息（15 位，已去掉 0x5412 掩码）
+function readFormatBits(qr: QrCode): number {
+  let bits = 0
+  const positions = [
+    [8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8],
+    [7, 8], [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8],
+  ]
+  positions.forEach(([x, y], i) => {
+    if (qr.modules[y][x]) bits |= 1 << i
+  })
+  return bits ^ 0x5412
+}
+
+function hasFinderPattern(qr: QrCode, left: number, top: number): boolean {
+  for (let dy = 0; dy < 7; dy++) {
+    for (let dx = 0; dx < 7; dx++) {
+      const ring = Math.min(dx, dy, 6 - dx, 6 - dy)
+      if (qr.modules[top + dy][left + dx] !== (ring !== 1)) return false
+    }
+  }
+  return true
+}
+
+describe('getNumDataCodewords', () => {
+  it('should match the capacity table', () => {
+    expect(getNumDataCodewords(1, 'L')).toBe(19)
+    expect(getNumDataCodewords(1, 'H')).toBe(9)
+    expect(getNumDataCodewords(5, 'Q')).toBe(62)
+    expect(getNumDataCodewords(10, 'M')).toBe(216)
+    expect(getNumDataCodewords(40, 'L')).toBe(2956)
+    expect(getNumDataCodewords(40, 'H')).toBe(1276)
+  })
+})
+
+describe('encodeQr', () => {
+  it('should pick the smallest version that fits', () => {
+    expect(encodeQr('hello', 'M').version).toBe(1)
+    expect(encodeQr('a'.repeat(14), 'M').version).toBe(1)
+    expect(encodeQr('a'.repeat(15), 'M').version).toBe(2)
+    expect(encodeQr(URL, 'L').version).toBe(4)
+    expect(encodeQr(URL, 'H').version).toBe(8)
+  })
+
+  it('should size the matrix by version', () => {
+    const qr = encodeQr(URL, 'M')
+    expect(qr.size).toBe(qr.version * 4 + 17)
+    expect(qr.modules).toHaveLength(qr.size)
+    expect(qr.modules.every(row => row.length === qr.size)).toBe(true)
+  })
+
+  it('should draw the finder and timing patterns', () => {
+    const qr = encodeQr(URL, 'Q')
+    expect(hasFinderPattern(qr, 0, 0)).toBe(true)
+    expect(hasFinderPattern(qr, qr.size - 7, 0)).toBe(true)
+    expect(hasFinderPattern(qr, 0, qr.size - 7)).toBe(true)
+    for (let i = 8; i < qr.size - 8; i++) {
+      expect(qr.modules[6][i]).toBe(i % 2 === 0)
+      expect(qr.modules[i][6]).toBe(i % 2 === 0)
+    }
+    // 固定的深色模块
+    expect(qr.modules[qr.size - 8][8]).toBe(true)
+  })
+
+  it('should write valid format information', () => {
+    const levels = { L: 1, M: 0, Q: 3, H: 2 }
+    for (const [ecLevel, bits] of Object.entries(levels)) {
+      const format = readFormatBits(encodeQr(URL, ecLevel as keyof typeof levels))
+      expect(format >> 13).toBe(bits)
+
+      // BCH(15,5) 校验
+      let remainder = format >> 10
+      for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+      expect(format & 0x3ff).toBe(remainder & 0x3ff)
+    }
+  })
+
+  it('should encode UTF-8 text', () => {
+    expect(encodeQr('远程注入', 'M').version).toBe(1)
+  })
+
+  it('should reject data that does not fit', () => {
+    expect(() => encodeQr('a'.repeat(3000), 'H')).toThrow('Data too long')
+  })
+})
+
+describe('parseQrOptions', () => {
+  it('should use defaults', () => {
+    expect(parseQrOptions({})).toEqual({ ok: true, options: DEFAULT_QR_OPTIONS })
+  })
+
+  it('should parse all options', () => {
+    const result = parseQrOptions({ size: '512', margin: '0', ec: 'q', fg: '1E3A8A', bg: '#fff', logo: 'true' })
+    expect(result).toEqual({
+      ok: true,
+      options: { size: 512, margin: 0, ecLevel: 'Q', foreground: '#1e3a8a', background: '#ffffff', logo: true },
+    })
+  })
+
+  it('should raise error correction to H for logos unless set explicitly', () => {
+    const withLogo = parseQrOptions({ logo: '1' })
+    expect(withLogo.ok && withLogo.options.ecLevel).toBe('H')
+    const explicit = parseQrOptions({ logo: '1', ec: 'M' })
+    expect(explicit.ok && explicit.options.ecLevel).toBe('M')
+  })
+
+  it('should reject invalid options', () => {
+    const error = (query: Record<string, string>) => {
+      const result = parseQrOptions(query)
+      return result.ok ? null : result.error
+    }
+    expect(error({ size: '10' })).toContain('size')
+    expect(error({ size: '9999' })).toContain('size')
+    expect(error({ size: '12.5' })).toContain('size')
+    expect(error({ margin: '-1' })).toContain('margin')
+    expect(error({ ec: 'X' })).toContain('ec')
+    expect(error({ fg: 'red' })).toContain('fg')
+    expect(error({ bg: '#12345' })).toContain('bg')
+    expect(error({ logo: 'yes' })).toContain('logo')
+  })
+})
+
+describe('renderQrSvg', () => {
+  it('should render modules with the requested colors and size', () => {
+    const qr = encodeQr(URL, 'M')
+    const svg = renderQrSvg(qr, options({ size: 300, margin: 2, foreground: '#112233', background: '#fefefe' }))
+
+    expect(svg).toStartWith('<svg xmlns="http://www.w3.org/2000/svg"')
+    expect(svg).toContain(`viewBox="0 0 ${qr.size + 4} ${qr.size + 4}"`)
+    expect(svg).toContain('width="300" height="300"')
+    expect(svg).toContain('fill="#112233"')
+    expect(svg).toContain('fill="#fefefe"')
+    // 左上角定位图形的第一行（7 个深色模块合并为一段）
+    expect(svg).toContain('M2 2h7v1h-7z')
+    expect(svg).not.toContain('<image')
+  })
+
+  it('should embed the logo and clear the modules behind it', async () => {
+    const qr = encodeQr(URL, 'H')
+    const logo = await getSvgLogo()
+    expect(logo?.mimeType).toBe('image/svg+xml')
+
+    const svg = renderQrSvg(qr, options({ ecLevel: 'H', margin: 0 }), logo)
+    expect(svg).toContain('<image')
+    expect(svg).toContain('href="data:image/svg+xml;base64,')
+
+    const area = getLogoArea(qr, 'H')
+    for (let y = area.start; y < area.start + area.size; y++) {
+      expect(svg).not.toMatch(new RegExp(`M${area.start + (area.size >> 1)} ${y}h`))
+    }
+  })
+})
+
+describe('getLogoArea', () => {
+  it('should center an odd-sized area that grows with error correction', () => {
+    const qr = encodeQr(URL, 'H')
+    const low = getLogoArea(qr, 'L')
+    const high = getLogoArea(qr, 'H')
+
+    expect(high.size % 2).toBe(1)
+    expect(high.size).toBeGreaterThan(low.size)
+    expect(high.start * 2 + high.size).toBe(qr.size)
+  })
+})
+
+describe('renderQrPng', () => {
+  it('should render at the requested size with the quiet zone', () => {
+    const qr = encodeQr(URL, 'M')
+    const image = decodePng(renderQrPng(qr, options({ size: 256 })))
+    expect(image.width).toBe(256)
+    expect(image.height).toBe(256)
+
+    const scale = Math.floor(256 / (qr.size + 8))
+    const offset = Math.floor((256 - scale * (qr.size + 8)) / 2) + 4 * scale
+    const pixel = (x: number, y: number) => [...image.data.subarray((y * 256 + x) * 4, (y * 256 + x) * 4 + 3)]
+    expect(pixel(0, 0)).toEqual([255, 255, 255])
+    expect(pixel(offset, offset)).toEqual([0, 0, 0])
+  })
+
+  it('should grow beyond small sizes to keep one pixel per module', () => {
+    const qr = encodeQr('a'.repeat(500), 'M')
+    const image = decodePng(renderQrPng(qr, options({ size: 64 })))
+    expect(image.width).toBe(qr.size + 8)
+  })
+
+  it('should draw the default logo in the center', async () => {
+    const qr = encodeQr(URL, 'H')
+    const logo = await getPngLogo()
+    expect(logo?.width).toBe(128)
+
+    const image = decodePng(renderQrPng(qr, options({ ecLevel: 'H', size: 400 }), logo))
+    // logo 的蓝色背景（黑白码图中没有彩色像素）
+    let blue = 0
+    for (let i = 0; i < image.data.length; i += 4) {
+      if (image.data[i + 2] - image.data[i] > 100) blue++
+    }
+    expect(blue).toBeGreaterThan(100)
+  })
+})
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'bun:test'
+import { MessageQueue, BUFFERED_MESSAGE_TYPES, messageQueue } from '../../src/queue'
+
+describe('MessageQueue', () => {
+  describe('enqueue', () => {
+    it('should return queue length after enqueue', () => {
+      const queue = new MessageQueue({ maxMessages: 10, maxAgeMs: 60000 })
+
+      expect(queue.enqueue('AAAA', 'mobile', 'one')).toBe(1)
+      expect(queue.enqueue('AAAA', 'mobile', 'two')).toBe(2)
+    })
+
+    it('should reject messages when queue is full', () => {
+      const queue = new MessageQueue({ maxMessages: 2, maxAgeMs: 60000 })
+
+      queue.enqueue('AAAA', 'mobile', 'one')
+      queue.enqueue('AAAA', 'mobile', 'two')
+
+      expect(queue.enqueue('AAAA', 'mobile', 'three')).toBe(-1)
+      expect(queue.size('AAAA', 'mobile')).toBe(2)
+    })
+
+    it('should track sessions and roles independently', () => {
+      const queue = new MessageQueue({ maxMessages: 1, maxAgeMs: 60000 })
+
+      expect(queue.enqueue('AAAA', 'mobile', 'one')).toBe(1)
+      expect(queue.enqueue('AAAA', 'dapp', 'one')).toBe(1)
+      expect(queue.enqueue('BBBB', 'mobile', 'one')).toBe(1)
+    })
+
+    it('should free space when old messages expire', async () => {
+      const queue = new MessageQueue({ maxMessages: 1, maxAgeMs: 50 })
+
+      queue.enqueue('AAAA', 'mobile', 'old')
+      await new Promise((resolve) => setTimeout(resolve, 80))
+
+      expect(queue.enqueue('AAAA', 'mobile', 'new')).toBe(1)
+      expect(queue.drain('AAAA', 'mobile')).toEqual(['new'])
+    })
+  })
+
+  describe('drain', () => {
+    it('should return messages in order and empty the queue', () => {
+      const queue = new MessageQueue({ maxMessages: 10, maxAgeMs: 60000 })
+
+      queue.enqueue('AAAA', 'mobile', 'one')
+      queue.enqueue('AAAA', 'mobile', 'two')
+      queue.enqueue('AAAA', 'mobile', 'three')
+
+      expect(queue.drain('AAAA', 'mobile')).toEqual(['one', 'two', 'three'])
+      expect(queue.drain('AAAA', 'mobile')).toEqual([])
+    })
+
+    it('should drop expired messages', async () => {
+      const queue = new MessageQueue({ maxMessages: 10, maxAgeMs: 50 })
+
+      queue.enqueue('AAAA', 'mobile', 'old')
+      await new Promise((resolve) => setTimeout(resolve, 80))
+      queue.enqueue('AAAA', 'mobile', 'new')
+
+      expect(queue.drain('AAAA', 'mobile')).toEqual(['new'])
+    })
+
+    it('should return empty array for unknown queue', () => {
+      const queue = new MessageQueue({ maxMessages: 10, maxAgeMs: 60000 })
+      expect(queue.drain('ZZZZ', 'dapp')).toEqual([])
+    })
+  })
+
+  describe('flush', () => {
+    it('should deliver messages in order and keep the undelivered ones', () => {
+      const queue = new MessageQueue({ maxMessages: 10, maxAgeMs: 60000 })
+      queue.enqueue('AAAA', 'mobile', 'one')
+      queue.enqueue('AAAA', 'mobile', 'two')
+      queue.enqueue('AAAA', 'mobile', 'three')
+
+      const delivered: string[] = []
+      const count = queue.flush('AAAA', 'mobile', data => {
+        if (data === 'two') return false
+        delivered.push(data)
+        return true
+      })
+
+      expect(count).toBe(2)
+      expect(delivered).toEqual(['one', 'three'])
+      expect(queue.drain('AAAA', 'mobile')).toEqual(['two'])
+    })
+
+    it('should keep the original queue time of undelivered messages', async () => {
+      const queue = new MessageQueue({ maxMessages: 10, maxAgeMs: 80 })
+      queue.enqueue('AAAA', 'mobile', 'one')
+
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      expect(queue.flush('AAAA', 'mobile', () => false)).toBe(0)
+      expect(queue.size('AAAA', 'mobile')).toBe(1)
+
+      // 重试不会延长缓存期
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      expect(queue.size('AAAA', 'mobile')).toBe(0)
+    })
+
+    it('should return 0 for unknown queue', () => {
+      const queue = new MessageQueue({ maxMessages: 10, maxAgeMs: 60000 })
+      expect(queue.flush('ZZZZ', 'dapp', () => true)).toBe(0)
+    })
+  })
+
+  describe('clear', () => {
+    it('should remove both role queues of a session', () => {
+      const queue = new MessageQueue({ maxMessages: 10, maxAgeMs: 60000 })
+
+      queue.enqueue('AAAA', 'mobile', 'one')
+      queue.enqueue('AAAA', 'dapp', 'two')
+      queue.enqueue('BBBB', 'dapp', 'three')
+
+      queue.clear('AAAA')
+
+      expect(queue.size('AAAA', 'mobile')).toBe(0)
+      expect(queue.size('AAAA', 'dapp')).toBe(0)
+      expect(queue.size('BBBB', 'dapp')).toBe(1)
+    })
+  })
+})
+
+describe('BUFFERED_MESSAGE_TYPES', () => {
+  it('should include relayed RPC and event messages', () => {
+    for (const type of ['request', 'response', 'chainChanged', 'accountsChanged']) {
+      expect(BUFFERED_MESSAGE_TYPES.has(type)).toBe(true)
+    }
+  })
+
+  it('should include end-to-end encryption frames', () => {
+    expect(BUFFERED_MESSAGE_TYPES.has('key_exchange')).toBe(true)
+    expect(BUFFERED_MESSAGE_TYPES.has('encrypted')).toBe(true)
+  })
+
+  it('should not include control messages', () => {
+    for (const type of ['connect', 'disconnect', 'ready', 'dapp_reconnected']) {
+      expect(BUFFERED_MESSAGE_TYPES.has(type)).toBe(false)
+    }
+  })
+})
+
+describe('messageQueue', () => {
+  it('should be pre-configured', () => {
+    expect(messageQueue).toBeInstanceOf(MessageQueue)
+  })
+})
@@ -1,5 +1,14 @@
 import { describe, it, expect, beforeEach } from 'bun:test'
-import { RateLimiter, getClientIP, sessionRateLimiter } from '../../src/ratelimit'
+import {
+  RateLimiter,
+  getClientIP,
+  sessionRateLimiter,
+  TokenBucket,
+  MessageRateLimiter,
+  messageRateLimiter,
+  type MessageRateLimiterConfig,
+} from '../../src/ratelimit'
+import { parseTrustedProxies } from '../../src/proxy'
 
 describe('RateLimiter', () => {
   describe('check', () => {
@@ -174,72 +183,79 @@ describe('RateLimiter', () => {
 describe('getClientIP', () => {
   function createMockRequest(headers: Record<string, string>): Request {
     return {
-      headers: {
-        get: (name: string) => headers[name.toLowerCase()] || null,
-      },
+      headers: new Headers(headers),
     } as any
   }
 
-  it('should extract IP from X-Forwarded-For header', () => {
+  const config = { trusted: parseTrustedProxies('loopback,10.0.0.0/8'), header: 'x-forwarded-for' as const }
+
+  it('should use the socket address without proxy headers', () => {
+    expect(getClientIP(createMockRequest({}), '203.0.113.7', config)).toBe('203.0.113.7')
+  })
+
+  it('should ignore X-Forwarded-For from untrusted clients', () => {
     const request = createMockRequest({
       'x-forwarded-for': '192.168.1.1',
     })
 
-    expect(getClientIP(request)).toBe('192.168.1.1')
+    expect(getClientIP(request, '203.0.113.7', config)).toBe('203.0.113.7')
   })
 
-  it('should extract first IP from X-Forwarded-For with multiple IPs', () => {
+  it('should read X-Forwarded-For from a trusted proxy', () => {
     const request = createMockRequest({
-      'x-forwarded-for': '192.168.1.1, 10.0.0.1, 172.16.0.1',
+      'x-forwarded-for': '198.51.100.1',
     })
 
-    expect(getClientIP(request)).toBe('192.168.1.1')
+    expect(getClientIP(request, '127.0.0.1', config)).toBe('198.51.100.1')
   })
 
-  it('should trim whitespace from IP', () => {
+  it('should take the rightmost untrusted entry so spoofed entries are skipped', () => {
     const request = createMockRequest({
-      'x-forwarded-for': '  192.168.1.1  , 10.0.0.1',
+      'x-forwarded-for': '1.1.1.1, 198.51.100.1, 10.0.0.2',
     })
 
-    expect(getClientIP(request)).toBe('192.168.1.1')
+    expect(getClientIP(request, '127.0.0.1', config)).toBe('198.51.100.1')
   })
 
-  it('should use X-Real-IP as fallback', () => {
+  it('should trim whitespace from IP', () => {
     const request = createMockRequest({
-      'x-real-ip': '192.168.1.100',
+      'x-forwarded-for': '  198.51.100.1  ',
     })
 
-    expect(getClientIP(request)).toBe('192.168.1.100')
+    expect(getClientIP(request, '127.0.0.1', config)).toBe('198.51.100.1')
   })
 
-  it('should prefer X-Forwarded-For over X-Real-IP', () => {
+  it('should handle IPv6 addresses', () => {
     const request = createMockRequest({
-      'x-forwarded-for': '192.168.1.1',
-      'x-real-ip': '192.168.1.100',
+      'x-forwarded-for': '2001:db8::1',
     })
 
-    expect(getClientIP(request)).toBe('192.168.1.1')
+    expect(getClientIP(request, '::1', config)).toBe('2001:db8::1')
   })
 
-  it('should return unknown when no headers present', () => {
-    const request = createMockRequest({})
-    expect(getClientIP(request)).toBe('unknown')
+  it('should normalize IPv4-mapped socket addresses', () => {
+    const request = createMockRequest({
+      'x-forwarded-for': '198.51.100.1',
+    })
+
+    expect(getClientIP(request, '::ffff:127.0.0.1', config)).toBe('198.51.100.1')
+    expect(getClientIP(createMockRequest({}), '::ffff:203.0.113.7', config)).toBe('203.0.113.7')
   })
 
-  it('should handle IPv6 addresses', () => {
+  it('should use X-Real-IP when configured', () => {
     const request = createMockRequest({
-      'x-forwarded-for': '2001:db8::1',
+      'x-forwarded-for': '192.168.1.1',
+      'x-real-ip': '198.51.100.100',
     })
 
-    expect(getClientIP(request)).toBe('2001:db8::1')
+    expect(getClientIP(request, '127.0.0.1', { ...config, header: 'x-real-ip' })).toBe('198.51.100.100')
   })
 
-  it('should handle IPv6 with port notation', () => {
+  it('should return unknown without a socket address', () => {
     const request = createMockRequest({
-      'x-forwarded-for': '::ffff:192.168.1.1',
+      'x-forwarded-for': '192.168.1.1',
     })
-
-    expect(getClientIP(request)).toBe('::ffff:192.168.1.1')
+    expect(getClientIP(request, null, config)).toBe('unknown')
   })
 })
 
@@ -268,3 +284,128 @@ describe('sessionRateLimiter', () => {
     expect(resetIn).toBeGreaterThan(59000)
   })
 })
+
+describe('TokenBucket', () => {
+  it('should allow a burst then refuse', () => {
+    const bucket = new TokenBucket({ burst: 3, ratePerSecond: 1 }, 0)
+
+    expect([bucket.take(0), bucket.take(0), bucket.take(0), bucket.take(0)]).toEqual([true, true, true, false])
+  })
+
+  it('should refill at the sustained rate', () => {
+    const bucket = new TokenBucket({ burst: 2, ratePerSecond: 10 }, 0)
+    bucket.take(0)
+    bucket.take(0)
+
+    expect(bucket.take(50)).toBe(false)
+    expect(bucket.retryAfter(50)).toBe(50)
+    expect(bucket.take(100)).toBe(true)
+    expect(bucket.take(100)).toBe(false)
+  })
+
+  it('should not refill beyond the burst size', () => {
+    const bucket = new TokenBucket({ burst: 2, ratePerSecond: 10 }, 0)
+
+    expect(bucket.isFull(60000)).toBe(true)
+    expect([bucket.take(60000), bucket.take(60000), bucket.take(60000)]).toEqual([true, true, false])
+  })
+
+  it('should never limit when the rate is 0', () => {
+    const bucket = new TokenBucket({ burst: 0, ratePerSecond: 0 }, 0)
+
+    for (let i = 0; i < 100; i++) {
+      expect(bucket.take(0)).toBe(true)
+    }
+    expect(bucket.retryAfter(0)).toBe(0)
+  })
+})
+
+describe('MessageRateLimiter', () => {
+  const config: MessageRateLimiterConfig = {
+    connection: { burst: 3, ratePerSecond: 1 },
+    session: { burst: 4, ratePerSecond: 1 },
+    maxViolations: 3,
+    violationWindowMs: 10000,
+  }
+
+  it('should limit each connection separately', () => {
+    const limiter = new MessageRateLimiter(config)
+    const a = {}
+    const b = {}
+
+    for (let i = 0; i < 3; i++) {
+      expect(limiter.check(a, 'S1', 0).allowed).toBe(true)
+    }
+    const result = limiter.check(a, 'S1', 0)
+    expect(result).toEqual({ allowed: false, scope: 'connection', retryAfter: 1000, close: false })
+
+    // 另一个 session 的连接不受影响
+    expect(limiter.check(b, 'S2', 0).allowed).toBe(true)
+  })
+
+  it('should limit the session across its connections', () => {
+    const limiter = new MessageRateLimiter(config)
+    const dapp = {}
+    const mobile = {}
+
+    limiter.check(dapp, 'S1', 0)
+    limiter.check(dapp, 'S1', 0)
+    limiter.check(mobile, 'S1', 0)
+    limiter.check(mobile, 'S1', 0)
+
+    const result = limiter.check(mobile, 'S1', 0)
+    expect(result.allowed).toBe(false)
+    if (!result.allowed) expect(result.scope).toBe('session')
+  })
+
+  it('should close repeat offenders', () => {
+    const limiter = new MessageRateLimiter(config)
+    const ws = {}
+    for (let i = 0; i < 3; i++) limiter.check(ws, 'S1', 0)
+
+    expect(limiter.check(ws, 'S1', 0)).toMatchObject({ allowed: false, close: false })
+    expect(limiter.check(ws, 'S1', 0)).toMatchObject({ allowed: false, close: false })
+    expect(limiter.check(ws, 'S1', 0)).toMatchObject({ allowed: false, close: true })
+  })
+
+  it('should forget violations outside the window', () => {
+    const limiter = new MessageRateLimiter({ ...config, connection: { burst: 1, ratePerSecond: 0.01 } })
+    const ws = {}
+    limiter.check(ws, 'S1', 0)
+
+    limiter.check(ws, 'S1', 0)
+    limiter.check(ws, 'S1', 0)
+    expect(limiter.check(ws, 'S1', 20000)).toMatchObject({ allowed: false, close: false })
+  })
+
+  it('should start fresh after release', () => {
+    const limiter = new MessageRateLimiter({ ...config, session: { burst: 100, ratePerSecond: 1 } })
+    const ws = {}
+    for (let i = 0; i < 3; i++) limiter.check(ws, 'S1', 0)
+    expect(limiter.check(ws, 'S1', 0).allowed).toBe(false)
+
+    limiter.release(ws)
+    expect(limiter.check(ws, 'S1', 0).allowed).toBe(true)
+  })
+
+  it('should drop idle session buckets during cleanup', () => {
+    const limiter = new MessageRateLimiter(config)
+    limiter.check({}, 'S1', 0)
+    limiter.check({}, 'S2', 0)
+    expect(limiter.sessionCount).toBe(2)
+
+    limiter.cleanup(500)
+    expect(limiter.sessionCount).toBe(2)
+    limiter.cleanup(1000)
+    expect(limiter.sessionCount).toBe(0)
+  })
+
+  it('should allow ordinary traffic with the default limits', () => {
+    const ws = {}
+    const sessionId = 'default-limits-' + Date.now()
+    for (let i = 0; i < 100; i++) {
+      expect(messageRateLimiter.check(ws, sessionId).allowed).toBe(true)
+    }
+    messageRateLimiter.release(ws)
+  })
+})
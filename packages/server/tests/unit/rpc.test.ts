@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test'
+import { RpcProxy, parseRpcUrls, MAX_RPC_BATCH, type RpcProxyConfig } from '../../src/rpc'
+
+// 本地 JSON-RPC 节点替身
+let node: ReturnType<typeof Bun.serve>
+const received: unknown[] = []
+
+function answer(call: { id: number; method: string }) {
+  if (call.method === 'eth_blockNumber') return { jsonrpc: '2.0', id: call.id, result: '0x10' }
+  return { jsonrpc: '2.0', id: call.id, error: { code: -32601, message: 'Method not found' } }
+}
+
+beforeAll(() => {
+  node = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const body = await request.json()
+      received.push(body)
+      return Response.json(Array.isArray(body) ? body.map(answer) : answer(body))
+    },
+  })
+})
+
+afterAll(() => {
+  node.stop(true)
+})
+
+function createProxy(overrides: Partial<RpcProxyConfig> = {}, fetchImpl?: ConstructorParameters<typeof RpcProxy>[1]): RpcProxy {
+  return new RpcProxy({
+    urls: new Map([[1, `http://localhost:${node.port}`]]),
+    timeoutMs: 1000,
+    limit: { windowMs: 60000, maxRequests: 100 },
+    ...overrides,
+  }, fetchImpl)
+}
+
+describe('parseRpcUrls', () => {
+  it('should parse chain ID and URL pairs', () => {
+    expect(parseRpcUrls('1=https://eth.example.com, 137=http://localhost:8545')).toEqual(new Map([
+      [1, 'https://eth.example.com'],
+      [137, 'http://localhost:8545'],
+    ]))
+  })
+
+  it('should return an empty map when unset', () => {
+    expect(parseRpcUrls('').size).toBe(0)
+  })
+
+  it('should reject malformed entries', () => {
+    expect(() => parseRpcUrls('https://eth.example.com')).toThrow()
+    expect(() => parseRpcUrls('eth=https://eth.example.com')).toThrow()
+    expect(() => parseRpcUrls('1=ftp://eth.example.com')).toThrow()
+  })
+})
+
+describe('RpcProxy', () => {
+  it('should forward read-only calls to the node', async () => {
+    const result = await createProxy().forward('AAAA', 1, { jsonrpc: '2.0', id: 1, method: 'eth_blockNumber', params: [] })
+
+    expect(result).toEqual({ ok: true, body: { jsonrpc: '2.0', id: 1, result: '0x10' } })
+    expect(received.at(-1)).toEqual({ jsonrpc: '2.0', id: 1, method: 'eth_blockNumber', params: [] })
+  })
+
+  it('should forward batches', async () => {
+    const result = await createProxy().forward('AAAA', 1, [
+      { jsonrpc: '2.0', id: 1, method: 'eth_blockNumber' },
+      { jsonrpc: '2.0', id: 2, method: 'eth_getBalance', params: ['0x0', 'latest'] },
+    ])
+
+    expect(result.ok && result.body).toEqual([
+      { jsonrpc: '2.0', id: 1, result: '0x10' },
+      { jsonrpc: '2.0', id: 2, error: { code: -32601, message: 'Method not found' } },
+    ])
+  })
+
+  it('should reject chains without a node', async () => {
+    expect(await createProxy().forward('AAAA', 137, { id: 1, method: 'eth_blockNumber' }))
+      .toEqual({ ok: false, status: 404, error: 'RPC not configured for this chain' })
+  })
+
+  it('should refuse signing methods', async () => {
+    const count = received.length
+    const result = await createProxy().forward('AAAA', 1, [
+      { id: 1, method: 'eth_blockNumber' },
+      { id: 2, method: 'eth_sendTransaction', params: [{}] },
+    ])
+
+    expect(result).toEqual({ ok: false, status: 403, error: 'Method not allowed: eth_sendTransaction' })
+    expect(received.length).toBe(count)
+  })
+
+  it('should reject invalid requests', async () => {
+    const proxy = createProxy()
+    const batch = Array.from({ length: MAX_RPC_BATCH + 1 }, (_, id) => ({ id, method: 'eth_blockNumber' }))
+
+    for (const body of [null, 'eth_blockNumber', {}, [], batch]) {
+      expect(await proxy.forward('AAAA', 1, body)).toEqual({ ok: false, status: 400, error: 'Invalid JSON-RPC request' })
+    }
+  })
+
+  it('should limit requests per session', async () => {
+    const proxy = createProxy({ limit: { windowMs: 60000, maxRequests: 1 } })
+    const call = { id: 1, method: 'eth_blockNumber' }
+
+    expect((await proxy.forward('AAAA', 1, call)).ok).toBe(true)
+    expect(await proxy.forward('AAAA', 1, call)).toEqual({ ok: false, status: 429, error: 'Rate limit exceeded' })
+    expect((await proxy.forward('BBBB', 1, call)).ok).toBe(true)
+  })
+
+  it('should report upstream failures', async () => {
+    const call = { id: 1, method: 'eth_blockNumber' }
+
+    const failing = createProxy({}, async () => new Response('Bad gateway', { status: 500 }))
+    expect(await failing.forward('AAAA', 1, call)).toEqual({ ok: false, status: 502, error: 'Upstream error' })
+
+    const unreachable = createProxy({}, async () => { throw new TypeError('fetch failed') })
+    expect(await unreachable.forward('AAAA', 1, call)).toEqual({ ok: false, status: 502, error: 'Upstream error' })
+  })
+
+  it('should time out slow nodes', async () => {
+    const slow = createProxy({ timeoutMs: 20 }, (_url, init) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(init.signal!.reason))
+    }))
+
+    expect(await slow.forward('AAAA', 1, { id: 1, method: 'eth_blockNumber' }))
+      .toEqual({ ok: false, status: 504, error: 'Upstream timeout' })
+  })
+})
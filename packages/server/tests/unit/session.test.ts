@@ -12,16 +12,33 @@ import {
   cleanupExpiredSessions,
   getStats,
   isAtCapacity,
+  bufferForPeer,
+  flushBufferedMessages,
+  onSessionEvent,
+  touchSession,
+  extendSession,
+  resolveTtl,
+  getSessionLifetimeConfig,
+  createHandoffToken,
+  verifyHandoffToken,
+  CLOSE_HANDED_OFF,
+  sendToPeer,
+  countDappConnections,
+  getParticipant,
+  getParticipantSecret,
+  countParticipants,
+  MAX_PARTICIPANTS,
   type Session,
+  type SessionEvent,
   type DAppMetadata,
 } from '../../src/session'
 
 // Mock WebSocket
-function createMockWebSocket() {
+function createMockWebSocket(connectionId?: string) {
   return {
     send: mock(() => {}),
     close: mock(() => {}),
-    data: { sessionId: '', role: 'dapp' as const },
+    data: { sessionId: '', role: 'dapp' as const, connectionId },
   } as any
 }
 
@@ -99,14 +116,14 @@ describe('Session Management', () => {
 
     it('should initialize with no connections', () => {
       const session = createSession()
-      expect(session.dapp).toBeNull()
-      expect(session.mobile).toBeNull()
+      expect(session.dapps.size).toBe(0)
+      expect(session.mobiles.size).toBe(0)
       deleteSession(session.id)
     })
 
-    it('should initialize mobileLocked as false', () => {
+    it('should initialize unlocked', () => {
       const session = createSession()
-      expect(session.mobileLocked).toBe(false)
+      expect(isMobileLocked(session.id)).toBe(false)
       deleteSession(session.id)
     })
 
@@ -225,7 +242,8 @@ describe('Session Management', () => {
       const result = registerConnection(session.id, 'dapp', mockWs)
 
       expect(result).toBeDefined()
-      expect(result?.dapp).toBe(mockWs)
+      expect([...result!.dapps.values()]).toEqual([mockWs])
+      expect(mockWs.data.connectionId).toBeDefined()
 
       deleteSession(session.id)
     })
@@ -237,8 +255,8 @@ describe('Session Management', () => {
       const result = registerConnection(session.id, 'mobile', mockWs)
 
       expect(result).toBeDefined()
-      expect(result?.mobile).toBe(mockWs)
-      expect(result?.mobileLocked).toBe(true)
+      expect(result?.mobiles.get(1)).toBe(mockWs)
+      expect(isMobileLocked(session.id)).toBe(true)
 
       deleteSession(session.id)
     })
@@ -308,29 +326,129 @@ describe('Session Management', () => {
 
     it('should allow dapp reconnection', () => {
       const session = createSession()
-      const dappWs1 = createMockWebSocket()
-      const dappWs2 = createMockWebSocket()
+      const dappWs1 = createMockWebSocket('tab-1')
+      const dappWs2 = createMockWebSocket('tab-1')
 
       registerConnection(session.id, 'dapp', dappWs1)
       const result = registerConnection(session.id, 'dapp', dappWs2)
 
       expect(result).toBeDefined()
-      expect(result?.dapp).toBe(dappWs2)
+      expect(result?.dapps.size).toBe(1)
+      expect(result?.dapps.get('tab-1')).toBe(dappWs2)
 
       deleteSession(session.id)
     })
   })
 
+  describe('handoff', () => {
+    it('should issue a handoff token', () => {
+      const session = createSession()
+      const now = Date.now()
+
+      const handoff = createHandoffToken(session.id, now)
+
+      expect(handoff?.token).toMatch(/^[A-Z2-9]{32}$/)
+      expect(handoff?.expiresAt).toBe(Math.min(now + 5 * 60 * 1000, session.expiresAt))
+      expect(verifyHandoffToken(session.id, handoff!.token)).toBe(true)
+      expect(verifyHandoffToken(session.id, 'WRONG')).toBe(false)
+
+      deleteSession(session.id)
+    })
+
+    it('should replace the previous token', () => {
+      const session = createSession()
+
+      const first = createHandoffToken(session.id)!
+      const second = createHandoffToken(session.id)!
+
+      expect(verifyHandoffToken(session.id, first.token)).toBe(false)
+      expect(verifyHandoffToken(session.id, second.token)).toBe(true)
+
+      deleteSession(session.id)
+    })
+
+    it('should not issue tokens for missing or terminated sessions', () => {
+      expect(createHandoffToken('ZZZZ')).toBeNull()
+
+      const session = createSession()
+      terminateSession(session.id)
+      expect(createHandoffToken(session.id)).toBeNull()
+    })
+
+    it('should reject expired tokens', () => {
+      const session = createSession()
+      const now = Date.now()
+      const handoff = createHandoffToken(session.id, now)!
+
+      expect(verifyHandoffToken(session.id, handoff.token, 1, handoff.expiresAt)).toBe(false)
+
+      deleteSession(session.id)
+    })
+
+    it('should let a new mobile take over with a valid token', () => {
+      const session = createSession()
+      const oldMobile = createMockWebSocket()
+      const newMobile = createMockWebSocket()
+      registerConnection(session.id, 'dapp', createMockWebSocket())
+      registerConnection(session.id, 'mobile', oldMobile)
+
+      const handoff = createHandoffToken(session.id)!
+      const result = registerConnection(session.id, 'mobile', newMobile, { handoffToken: handoff.token })
+
+      expect(result?.mobiles.get(1)).toBe(newMobile)
+      expect(isMobileLocked(session.id)).toBe(true)
+      expect(result?.status).toBe('connected')
+      expect(oldMobile.close).toHaveBeenCalledWith(CLOSE_HANDED_OFF, 'Session handed off to another device')
+      expect(oldMobile.data.handedOff).toBe(true)
+
+      deleteSession(session.id)
+    })
+
+    it('should only accept a token once', () => {
+      const session = createSession()
+      registerConnection(session.id, 'mobile', createMockWebSocket())
+      const handoff = createHandoffToken(session.id)!
+
+      expect(registerConnection(session.id, 'mobile', createMockWebSocket(), { handoffToken: handoff.token })).not.toBeNull()
+      expect(registerConnection(session.id, 'mobile', createMockWebSocket(), { handoffToken: handoff.token })).toBeNull()
+      expect(verifyHandoffToken(session.id, handoff.token)).toBe(false)
+
+      deleteSession(session.id)
+    })
+
+    it('should still reject a locked session with a wrong token', () => {
+      const session = createSession()
+      const mobile = createMockWebSocket()
+      registerConnection(session.id, 'mobile', mobile)
+      createHandoffToken(session.id)
+
+      expect(registerConnection(session.id, 'mobile', createMockWebSocket(), { handoffToken: 'WRONG' })).toBeNull()
+      expect(getSession(session.id)?.mobiles.get(1)).toBe(mobile)
+      expect(mobile.close).not.toHaveBeenCalled()
+
+      deleteSession(session.id)
+    })
+
+    it('should drop the token when the session is deleted', () => {
+      const session = createSession()
+      const handoff = createHandoffToken(session.id)!
+
+      deleteSession(session.id)
+      expect(verifyHandoffToken(session.id, handoff.token)).toBe(false)
+    })
+  })
+
   describe('unregisterConnection', () => {
     it('should clear dapp connection', () => {
       const session = createSession()
       const mockWs = createMockWebSocket()
 
       registerConnection(session.id, 'dapp', mockWs)
-      expect(getSession(session.id)?.dapp).toBe(mockWs)
+      expect(getSession(session.id)?.dapps.size).toBe(1)
 
-      unregisterConnection(session.id, 'dapp')
-      expect(getSession(session.id)?.dapp).toBeNull()
+      unregisterConnection(session.id, 'dapp', mockWs.data.connectionId)
+      expect(getSession(session.id)?.dapps.size).toBe(0)
+      expect(getSession(session.id)?.dappNodes.size).toBe(0)
 
       deleteSession(session.id)
     })
@@ -340,12 +458,12 @@ describe('Session Management', () => {
       const mockWs = createMockWebSocket()
 
       registerConnection(session.id, 'mobile', mockWs)
-      expect(getSession(session.id)?.mobile).toBe(mockWs)
-      expect(getSession(session.id)?.mobileLocked).toBe(true)
+      expect(getSession(session.id)?.mobiles.get(1)).toBe(mockWs)
+      expect(isMobileLocked(session.id)).toBe(true)
 
       unregisterConnection(session.id, 'mobile')
-      expect(getSession(session.id)?.mobile).toBeNull()
-      expect(getSession(session.id)?.mobileLocked).toBe(false)
+      expect(getSession(session.id)?.mobiles.size).toBe(0)
+      expect(isMobileLocked(session.id)).toBe(false)
 
       deleteSession(session.id)
     })
@@ -380,7 +498,7 @@ describe('Session Management', () => {
       // Should be able to connect again
       const result = registerConnection(session.id, 'mobile', mobileWs2)
       expect(result).toBeDefined()
-      expect(result?.mobile).toBe(mobileWs2)
+      expect(result?.mobiles.get(1)).toBe(mobileWs2)
 
       deleteSession(session.id)
     })
@@ -436,6 +554,289 @@ describe('Session Management', () => {
     })
   })
 
+  describe('multiple dapp connections', () => {
+    function connectTabs() {
+      const session = createSession()
+      const tab1 = createMockWebSocket('tab-1')
+      const tab2 = createMockWebSocket('tab-2')
+      const mobileWs = createMockWebSocket()
+      registerConnection(session.id, 'dapp', tab1)
+      registerConnection(session.id, 'dapp', tab2)
+      registerConnection(session.id, 'mobile', mobileWs)
+      return { session, tab1, tab2, mobileWs }
+    }
+
+    it('should keep every tab connected', () => {
+      const { session, tab1, tab2 } = connectTabs()
+
+      expect(countDappConnections(session.id)).toBe(2)
+      expect(getSession(session.id)?.status).toBe('connected')
+      expect(tab1.close).not.toHaveBeenCalled()
+      expect(tab2.close).not.toHaveBeenCalled()
+
+      deleteSession(session.id)
+    })
+
+    it('should route messages to the addressed tab', () => {
+      const { session, tab1, tab2 } = connectTabs()
+
+      expect(sendToPeer(session.id, 'mobile', 'for-tab-2', 'tab-2')).toBe(true)
+
+      expect(tab1.send).not.toHaveBeenCalled()
+      expect(tab2.send).toHaveBeenCalledWith('for-tab-2')
+
+      deleteSession(session.id)
+    })
+
+    it('should strip the connection tag for v1 tabs', () => {
+      const { session, tab1 } = connectTabs()
+      tab1.data.protocolVersion = 1
+
+      sendToPeer(session.id, 'mobile', JSON.stringify({ type: 'response', id: 1, result: '0x1', connection: 'tab-1' }), 'tab-1')
+
+      expect(tab1.send).toHaveBeenCalledWith(JSON.stringify({ type: 'response', id: 1, result: '0x1' }))
+
+      deleteSession(session.id)
+    })
+
+    it('should broadcast unaddressed messages to all tabs', () => {
+      const { session, tab1, tab2 } = connectTabs()
+
+      expect(sendToPeer(session.id, 'mobile', 'chain-changed')).toBe(true)
+
+      expect(tab1.send).toHaveBeenCalledWith('chain-changed')
+      expect(tab2.send).toHaveBeenCalledWith('chain-changed')
+
+      deleteSession(session.id)
+    })
+
+    it('should report a closed tab as unreachable', () => {
+      const { session } = connectTabs()
+
+      unregisterConnection(session.id, 'dapp', 'tab-1')
+
+      expect(sendToPeer(session.id, 'mobile', 'for-tab-1', 'tab-1')).toBe(false)
+
+      deleteSession(session.id)
+    })
+
+    it('should stay connected until the last tab closes', () => {
+      const { session } = connectTabs()
+      const events: SessionEvent[] = []
+      const off = onSessionEvent(event => events.push(event))
+
+      unregisterConnection(session.id, 'dapp', 'tab-1')
+      expect(getSession(session.id)?.status).toBe('connected')
+      expect(events).toEqual([])
+
+      unregisterConnection(session.id, 'dapp', 'tab-2')
+      expect(getSession(session.id)?.status).toBe('disconnected')
+      expect(events).toEqual(['disconnected'])
+
+      off()
+      deleteSession(session.id)
+    })
+
+    it('should keep responses for a tab until it reconnects', () => {
+      const { session, tab2 } = connectTabs()
+      unregisterConnection(session.id, 'dapp', 'tab-1')
+      bufferForPeer(session.id, 'mobile', JSON.stringify({ type: 'response', id: 1, connection: 'tab-1' }))
+
+      expect(flushBufferedMessages(session.id, 'dapp')).toBe(0)
+      expect(tab2.send).not.toHaveBeenCalled()
+
+      const tab1 = createMockWebSocket('tab-1')
+      registerConnection(session.id, 'dapp', tab1)
+      expect(flushBufferedMessages(session.id, 'dapp')).toBe(1)
+      expect(tab1.send).toHaveBeenCalledTimes(1)
+
+      deleteSession(session.id)
+    })
+
+    it('should close every tab when terminated', () => {
+      const { session, tab1, tab2 } = connectTabs()
+
+      terminateSession(session.id)
+
+      expect(tab1.close).toHaveBeenCalledWith(1008, 'Session terminated')
+      expect(tab2.close).toHaveBeenCalledWith(1008, 'Session terminated')
+      expect(countDappConnections(session.id)).toBe(0)
+    })
+  })
+
+  describe('multi-wallet sessions', () => {
+    function createParticipant(participant: number) {
+      const ws = createMockWebSocket()
+      ws.data.participant = participant
+      return ws
+    }
+
+    function connectParticipants() {
+      const session = createSession(undefined, { participants: 3 })
+      const dappWs = createMockWebSocket()
+      const first = createParticipant(1)
+      const second = createParticipant(2)
+      registerConnection(session.id, 'dapp', dappWs)
+      registerConnection(session.id, 'mobile', first)
+      registerConnection(session.id, 'mobile', second)
+      return { session, dappWs, first, second }
+    }
+
+    it('should issue a secret per participant', () => {
+      const session = createSession(undefined, { participants: 3 })
+
+      expect(session.participantSecrets).toHaveLength(3)
+      expect(session.participantSecrets?.[0]).toBe(session.secret)
+      expect(new Set(session.participantSecrets).size).toBe(3)
+      expect(countParticipants(session)).toBe(3)
+
+      deleteSession(session.id)
+    })
+
+    it('should not issue participant secrets for single-wallet sessions', () => {
+      const session = createSession()
+
+      expect(session.participantSecrets).toBeUndefined()
+      expect(countParticipants(session)).toBe(1)
+      expect(getParticipant(session.id, session.secret)).toBeNull()
+      expect(getParticipantSecret(session, 1)).toBe(session.secret)
+
+      deleteSession(session.id)
+    })
+
+    it('should resolve participants from their secrets', () => {
+      const session = createSession(undefined, { participants: 2 })
+      const secret = session.participantSecrets![1]
+
+      expect(verifySecret(session.id, secret)).toBe(true)
+      expect(getParticipant(session.id, session.secret)).toBe(1)
+      expect(getParticipant(session.id, secret)).toBe(2)
+      expect(getParticipant(session.id, 'WRONG')).toBeNull()
+      expect(getParticipantSecret(session, 2)).toBe(secret)
+
+      deleteSession(session.id)
+    })
+
+    it('should cap the number of participants', () => {
+      const session = createSession(undefined, { participants: MAX_PARTICIPANTS + 5 })
+
+      expect(countParticipants(session)).toBe(MAX_PARTICIPANTS)
+
+      deleteSession(session.id)
+    })
+
+    it('should lock each participant separately', () => {
+      const { session, first } = connectParticipants()
+
+      expect(isMobileLocked(session.id, 1)).toBe(true)
+      expect(isMobileLocked(session.id, 2)).toBe(true)
+      expect(isMobileLocked(session.id, 3)).toBe(false)
+      expect(registerConnection(session.id, 'mobile', createParticipant(1))).toBeNull()
+      expect(registerConnection(session.id, 'mobile', createParticipant(3))).not.toBeNull()
+      expect(first.close).not.toHaveBeenCalled()
+
+      deleteSession(session.id)
+    })
+
+    it('should route messages to the addressed participant', () => {
+      const { session, first, second } = connectParticipants()
+
+      expect(sendToPeer(session.id, 'dapp', 'for-2', 2)).toBe(true)
+      expect(first.send).not.toHaveBeenCalled()
+      expect(second.send).toHaveBeenCalledWith('for-2')
+
+      expect(sendToPeer(session.id, 'dapp', 'for-3', 3)).toBe(false)
+
+      deleteSession(session.id)
+    })
+
+    it('should broadcast unaddressed messages to all participants', () => {
+      const { session, first, second } = connectParticipants()
+
+      expect(sendToPeer(session.id, 'dapp', 'for-all')).toBe(true)
+
+      expect(first.send).toHaveBeenCalledWith('for-all')
+      expect(second.send).toHaveBeenCalledWith('for-all')
+
+      deleteSession(session.id)
+    })
+
+    it('should stay connected until the last participant leaves', () => {
+      const { session } = connectParticipants()
+      const events: SessionEvent[] = []
+      const off = onSessionEvent(event => events.push(event))
+
+      unregisterConnection(session.id, 'mobile', 1)
+      expect(isMobileLocked(session.id, 1)).toBe(false)
+      expect(getSession(session.id)?.status).toBe('connected')
+      expect(events).toEqual([])
+
+      unregisterConnection(session.id, 'mobile', 2)
+      expect(getSession(session.id)?.status).toBe('disconnected')
+      expect(events).toEqual(['disconnected'])
+
+      off()
+      deleteSession(session.id)
+    })
+
+    it('should keep requests for a participant until it connects', () => {
+      const { session, first, second } = connectParticipants()
+      bufferForPeer(session.id, 'dapp', JSON.stringify({ type: 'request', id: 1, method: 'eth_sign', participant: 3 }))
+
+      expect(flushBufferedMessages(session.id, 'mobile')).toBe(0)
+      expect(first.send).not.toHaveBeenCalled()
+      expect(second.send).not.toHaveBeenCalled()
+
+      const third = createParticipant(3)
+      registerConnection(session.id, 'mobile', third)
+      expect(flushBufferedMessages(session.id, 'mobile')).toBe(1)
+      expect(third.send).toHaveBeenCalledTimes(1)
+
+      deleteSession(session.id)
+    })
+
+    it('should only hand off the participant named in the token', () => {
+      const { session, first, second } = connectParticipants()
+      const handoff = createHandoffToken(session.id, Date.now(), 2)!
+
+      expect(registerConnection(session.id, 'mobile', createParticipant(1), { handoffToken: handoff.token })).toBeNull()
+      expect(first.close).not.toHaveBeenCalled()
+
+      const replacement = createParticipant(2)
+      expect(registerConnection(session.id, 'mobile', replacement, { handoffToken: handoff.token })).not.toBeNull()
+      expect(second.close).toHaveBeenCalledWith(CLOSE_HANDED_OFF, 'Session handed off to another device')
+      expect(getSession(session.id)?.mobiles.get(2)).toBe(replacement)
+
+      deleteSession(session.id)
+    })
+
+    it('should keep a handoff token for each participant', () => {
+      const { session, first, second } = connectParticipants()
+      const forFirst = createHandoffToken(session.id, Date.now(), 1)!
+      const forSecond = createHandoffToken(session.id, Date.now(), 2)!
+
+      expect(verifyHandoffToken(session.id, forFirst.token, 1)).toBe(true)
+      expect(verifyHandoffToken(session.id, forSecond.token, 2)).toBe(true)
+      expect(verifyHandoffToken(session.id, forSecond.token, 1)).toBe(false)
+
+      expect(registerConnection(session.id, 'mobile', createParticipant(1), { handoffToken: forFirst.token })).not.toBeNull()
+      expect(registerConnection(session.id, 'mobile', createParticipant(2), { handoffToken: forSecond.token })).not.toBeNull()
+      expect(first.close).toHaveBeenCalledWith(CLOSE_HANDED_OFF, 'Session handed off to another device')
+      expect(second.close).toHaveBeenCalledWith(CLOSE_HANDED_OFF, 'Session handed off to another device')
+
+      deleteSession(session.id)
+    })
+
+    it('should close every participant when terminated', () => {
+      const { session, first, second } = connectParticipants()
+
+      terminateSession(session.id)
+
+      expect(first.close).toHaveBeenCalledWith(1008, 'Session terminated')
+      expect(second.close).toHaveBeenCalledWith(1008, 'Session terminated')
+    })
+  })
+
   describe('getPeer', () => {
     it('should return mobile when called from dapp', () => {
       const session = createSession()
@@ -483,6 +884,59 @@ describe('Session Management', () => {
     })
   })
 
+  describe('bufferForPeer / flushBufferedMessages', () => {
+    it('should buffer messages for the absent peer', () => {
+      const session = createSession()
+
+      expect(bufferForPeer(session.id, 'dapp', '{"type":"request","id":1}')).toBe(1)
+      expect(bufferForPeer(session.id, 'dapp', '{"type":"request","id":2}')).toBe(2)
+
+      deleteSession(session.id)
+    })
+
+    it('should return -1 for non-existent session', () => {
+      expect(bufferForPeer('ZZZZ', 'dapp', '{}')).toBe(-1)
+    })
+
+    it('should flush buffered messages in order when peer connects', () => {
+      const session = createSession()
+      const mobileWs = createMockWebSocket()
+
+      bufferForPeer(session.id, 'dapp', 'first')
+      bufferForPeer(session.id, 'dapp', 'second')
+
+      registerConnection(session.id, 'mobile', mobileWs)
+      expect(flushBufferedMessages(session.id, 'mobile')).toBe(2)
+
+      expect(mobileWs.send.mock.calls.map((call: unknown[]) => call[0])).toEqual(['first', 'second'])
+      expect(flushBufferedMessages(session.id, 'mobile')).toBe(0)
+
+      deleteSession(session.id)
+    })
+
+    it('should only flush messages addressed to the connecting role', () => {
+      const session = createSession()
+      const dappWs = createMockWebSocket()
+
+      bufferForPeer(session.id, 'dapp', 'to-mobile')
+
+      registerConnection(session.id, 'dapp', dappWs)
+      expect(flushBufferedMessages(session.id, 'dapp')).toBe(0)
+      expect(dappWs.send).not.toHaveBeenCalled()
+
+      deleteSession(session.id)
+    })
+
+    it('should drop buffered messages when session is deleted', () => {
+      const session = createSession()
+      bufferForPeer(session.id, 'mobile', 'to-dapp')
+
+      deleteSession(session.id)
+
+      expect(flushBufferedMessages(session.id, 'dapp')).toBe(0)
+    })
+  })
+
   describe('cleanupExpiredSessions', () => {
     it('should remove expired sessions', async () => {
       // Create a session with very short expiry
@@ -528,6 +982,100 @@ describe('Session Management', () => {
     })
   })
 
+  describe('session lifetime', () => {
+    const { ttl: defaultTtl, maxTtl } = getSessionLifetimeConfig()
+
+    function connect(session: Session) {
+      registerConnection(session.id, 'dapp', createMockWebSocket())
+      registerConnection(session.id, 'mobile', createMockWebSocket())
+    }
+
+    it('should use the default lifetimes', () => {
+      expect(getSessionLifetimeConfig()).toEqual({
+        idLength: 4,
+        secretLength: 16,
+        pendingTimeout: 5 * 60 * 1000,
+        ttl: 24 * 60 * 60 * 1000,
+        maxTtl: 7 * 24 * 60 * 60 * 1000,
+        slidingExpiry: true,
+      })
+    })
+
+    it('should clamp requested ttl to the server maximum', () => {
+      expect(resolveTtl()).toBe(defaultTtl)
+      expect(resolveTtl(3600000)).toBe(3600000)
+      expect(resolveTtl(maxTtl * 2)).toBe(maxTtl)
+      expect(resolveTtl(1)).toBe(1000)
+    })
+
+    it('should apply the requested ttl once connected', () => {
+      const session = createSession(undefined, { ttl: maxTtl * 2 })
+      expect(session.ttl).toBe(maxTtl)
+
+      const before = Date.now()
+      connect(session)
+      expect(session.expiresAt).toBeGreaterThanOrEqual(before + maxTtl)
+
+      deleteSession(session.id)
+    })
+
+    it('should not shorten an extended session on reconnect', () => {
+      const session = createSession(undefined, { ttl: 60000 })
+      connect(session)
+      extendSession(session.id, 3600000)
+      const extended = session.expiresAt
+
+      unregisterConnection(session.id, 'mobile')
+      registerConnection(session.id, 'mobile', createMockWebSocket())
+      expect(session.expiresAt).toBe(extended)
+
+      deleteSession(session.id)
+    })
+
+    it('should slide the expiry of connected sessions on activity', () => {
+      const session = createSession(undefined, { ttl: 3600000 })
+      expect(touchSession(session.id)).toBe(false)  // 未连接
+
+      connect(session)
+      const connectedAt = session.expiresAt
+      // 1 分钟内的活动不重复顺延
+      expect(touchSession(session.id, Date.now() + 1000)).toBe(false)
+      expect(session.expiresAt).toBe(connectedAt)
+
+      const later = Date.now() + 10 * 60 * 1000
+      expect(touchSession(session.id, later)).toBe(true)
+      expect(session.expiresAt).toBe(later + 3600000)
+
+      deleteSession(session.id)
+    })
+
+    it('should extend sessions without shortening them', () => {
+      const session = createSession()
+      const pendingExpiry = session.expiresAt
+
+      extendSession(session.id, 1000)
+      expect(session.expiresAt).toBe(pendingExpiry)
+
+      const before = Date.now()
+      extendSession(session.id, 3600000)
+      expect(session.expiresAt).toBeGreaterThanOrEqual(before + 3600000)
+
+      extendSession(session.id)
+      expect(session.expiresAt).toBeGreaterThanOrEqual(before + defaultTtl)
+
+      deleteSession(session.id)
+    })
+
+    it('should not extend missing or terminated sessions', () => {
+      expect(extendSession('NONE')).toBeNull()
+
+      const session = createSession()
+      terminateSession(session.id)
+      expect(extendSession(session.id)).toBeNull()
+      deleteSession(session.id)
+    })
+  })
+
   describe('getStats', () => {
     it('should return correct total sessions count', () => {
       const sessions: Session[] = []
@@ -583,4 +1131,81 @@ describe('Session Management', () => {
       expect(isAtCapacity()).toBe(false)
     })
   })
+
+  describe('onSessionEvent', () => {
+    function recordEvents(sessionId: () => string) {
+      const events: { event: SessionEvent; details?: Record<string, unknown> }[] = []
+      const unsubscribe = onSessionEvent((event, session, details) => {
+        if (session.id === sessionId()) events.push({ event, details })
+      })
+      return { events, unsubscribe }
+    }
+
+    it('should emit created, connected, disconnected and terminated', () => {
+      let id = ''
+      const { events, unsubscribe } = recordEvents(() => id)
+      const session = createSession()
+      id = session.id
+
+      registerConnection(id, 'dapp', createMockWebSocket())
+      registerConnection(id, 'mobile', createMockWebSocket())
+      unregisterConnection(id, 'mobile')
+      terminateSession(id)
+      unsubscribe()
+
+      expect(events).toEqual([
+        { event: 'connected', details: { role: 'mobile' } },
+        { event: 'disconnected', details: { role: 'mobile' } },
+        { event: 'terminated', details: undefined },
+      ])
+    })
+
+    it('should emit created for new sessions', () => {
+      const created: string[] = []
+      const unsubscribe = onSessionEvent((event, session) => {
+        if (event === 'created') created.push(session.id)
+      })
+      const session = createSession()
+      unsubscribe()
+
+      expect(created).toEqual([session.id])
+    })
+
+    it('should not emit disconnected after termination', () => {
+      const session = createSession()
+      registerConnection(session.id, 'dapp', createMockWebSocket())
+      registerConnection(session.id, 'mobile', createMockWebSocket())
+      terminateSession(session.id)
+
+      const { events, unsubscribe } = recordEvents(() => session.id)
+      unregisterConnection(session.id, 'dapp')
+      unsubscribe()
+
+      expect(events).toEqual([])
+    })
+
+    it('should emit expired during cleanup', () => {
+      const session = createSession()
+      const { events, unsubscribe } = recordEvents(() => session.id)
+      getSession(session.id)!.expiresAt = Date.now() - 1000
+
+      cleanupExpiredSessions()
+      unsubscribe()
+
+      expect(events.map(e => e.event)).toEqual(['expired'])
+    })
+
+    it('should stop after unsubscribe and survive failing listeners', () => {
+      const calls: string[] = []
+      const unsubscribeFailing = onSessionEvent(() => { throw new Error('boom') })
+      const unsubscribe = onSessionEvent((event) => { calls.push(event) })
+
+      expect(() => createSession()).not.toThrow()
+      unsubscribe()
+      unsubscribeFailing()
+      createSession()
+
+      expect(calls).toEqual(['created'])
+    })
+  })
 })
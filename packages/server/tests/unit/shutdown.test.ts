@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  DrainController,
+  countInFlightRequests,
+  CLOSE_SERVICE_RESTART,
+  type DrainConfig,
+} from '../../src/shutdown'
+import { createSession, registerConnection, deleteSession } from '../../src/session'
+import { requestTimer } from '../../src/metrics'
+
+function createMockSocket(protocolVersion?: number) {
+  const socket = {
+    sent: [] as any[],
+    closeCode: undefined as number | undefined,
+    data: { protocolVersion },
+    send(data: string) {
+      socket.sent.push(JSON.parse(data))
+    },
+    close(code?: number) {
+      socket.closeCode = code
+    },
+  }
+  return socket
+}
+
+function createConfig(overrides: Partial<DrainConfig> = {}): DrainConfig {
+  return { timeoutMs: 1000, reconnectDelayMs: 2000, pollIntervalMs: 5, ...overrides }
+}
+
+describe('DrainController', () => {
+  it('should not be draining initially', () => {
+    const controller = new DrainController(createConfig(), () => 0)
+    expect(controller.isDraining).toBe(false)
+  })
+
+  it('should notify and close all connections', async () => {
+    const controller = new DrainController(createConfig(), () => 0)
+    const a = createMockSocket()
+    const b = createMockSocket()
+    controller.track(a)
+    controller.track(b)
+
+    const result = await controller.drain()
+
+    expect(controller.isDraining).toBe(true)
+    expect(result.completed).toBe(true)
+    expect(result.closed).toBe(2)
+    for (const socket of [a, b]) {
+      expect(socket.sent).toEqual([{ type: 'server_draining', reconnectDelay: 2000 }])
+      expect(socket.closeCode).toBe(CLOSE_SERVICE_RESTART)
+    }
+  })
+
+  it('should close v1 connections without the server_draining message', async () => {
+    const controller = new DrainController(createConfig(), () => 0)
+    const socket = createMockSocket(1)
+    controller.track(socket)
+
+    await controller.drain()
+
+    expect(socket.sent).toEqual([])
+    expect(socket.closeCode).toBe(CLOSE_SERVICE_RESTART)
+  })
+
+  it('should wait for in-flight requests before closing', async () => {
+    let inFlight = 2
+    const controller = new DrainController(createConfig(), () => inFlight, async () => {
+      inFlight--
+    })
+    const socket = createMockSocket()
+    controller.track(socket)
+
+    const result = await controller.drain()
+
+    expect(inFlight).toBe(0)
+    expect(result).toMatchObject({ completed: true, remaining: 0, closed: 1 })
+    expect(socket.closeCode).toBe(CLOSE_SERVICE_RESTART)
+  })
+
+  it('should close at the deadline when requests never complete', async () => {
+    const controller = new DrainController(createConfig({ timeoutMs: 30 }), () => 1)
+    const socket = createMockSocket()
+    controller.track(socket)
+
+    const result = await controller.drain()
+
+    expect(result.completed).toBe(false)
+    expect(result.remaining).toBe(1)
+    expect(socket.closeCode).toBe(CLOSE_SERVICE_RESTART)
+  })
+
+  it('should return the same result when called twice', async () => {
+    const controller = new DrainController(createConfig(), () => 0)
+    controller.track(createMockSocket())
+
+    const first = controller.drain()
+    expect(controller.drain()).toBe(first)
+  })
+
+  it('should notify connections opened while draining', async () => {
+    let inFlight = 1
+    let release = () => {}
+    const controller = new DrainController(createConfig(), () => inFlight, () => new Promise(resolve => {
+      release = () => { inFlight = 0; resolve() }
+    }))
+
+    const draining = controller.drain()
+    const late = createMockSocket()
+    controller.track(late)
+    expect(late.sent).toEqual([{ type: 'server_draining', reconnectDelay: 2000 }])
+
+    release()
+    await draining
+    expect(late.closeCode).toBe(CLOSE_SERVICE_RESTART)
+  })
+
+  it('should not close untracked connections', async () => {
+    const controller = new DrainController(createConfig(), () => 0)
+    const socket = createMockSocket()
+    controller.track(socket)
+    controller.untrack(socket)
+
+    await controller.drain()
+    expect(socket.sent).toEqual([])
+    expect(socket.closeCode).toBeUndefined()
+  })
+
+  it('should treat DApp requests as new requests', () => {
+    const controller = new DrainController(createConfig(), () => 0)
+    expect(controller.isNewRequest('dapp', { type: 'request', id: 1 })).toBe(true)
+    expect(controller.isNewRequest('dapp', { type: 'encrypted', id: 1 })).toBe(true)
+    expect(controller.isNewRequest('dapp', { type: 'batch_request', id: 1 })).toBe(true)
+    expect(controller.isNewRequest('dapp', { type: 'accountSwitch' })).toBe(false)
+    expect(controller.isNewRequest('mobile', { type: 'response', id: 1 })).toBe(false)
+    expect(controller.isNewRequest('mobile', { type: 'encrypted', id: 1 })).toBe(false)
+  })
+})
+
+describe('countInFlightRequests', () => {
+  it('should only count requests in connected sessions', () => {
+    const connected = createSession()
+    registerConnection(connected.id, 'dapp', createMockSocket() as any)
+    registerConnection(connected.id, 'mobile', createMockSocket() as any)
+    const pending = createSession()
+
+    const before = countInFlightRequests()
+    requestTimer.start(connected.id, 1)
+    requestTimer.start(pending.id, 1)
+    expect(countInFlightRequests()).toBe(before + 1)
+
+    requestTimer.finish(connected.id, 1)
+    requestTimer.finish(pending.id, 1)
+    deleteSession(connected.id)
+    deleteSession(pending.id)
+  })
+})
@@ -0,0 +1,293 @@
+import { describe, it, expect, afterEach } from 'bun:test'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { rmSync } from 'fs'
+import { Database } from 'bun:sqlite'
+import {
+  MemorySessionStore,
+  SqliteSessionStore,
+  createSessionStore,
+} from '../../src/store'
+import type { Session } from '../../src/session'
+
+function createTestSession(id: string, overrides: Partial<Session> = {}): Session {
+  const now = Date.now()
+  return {
+    id,
+    secret: 'ABCDEFGHJKLMNPQR',
+    createdAt: now,
+    expiresAt: now + 60000,
+    status: 'pending',
+    dapps: new Map(),
+    mobiles: new Map(),
+    metadata: undefined,
+    terminated: false,
+    dappNodes: new Map(),
+    mobileNodes: new Map(),
+    ...overrides,
+  }
+}
+
+describe('MemorySessionStore', () => {
+  it('should save and get sessions', () => {
+    const store = new MemorySessionStore()
+    const session = createTestSession('AAAA')
+
+    store.save(session)
+
+    expect(store.get('AAAA')).toBe(session)
+    expect(store.has('AAAA')).toBe(true)
+    expect(store.size).toBe(1)
+  })
+
+  it('should delete sessions', () => {
+    const store = new MemorySessionStore()
+    store.save(createTestSession('AAAA'))
+
+    store.delete('AAAA')
+
+    expect(store.get('AAAA')).toBeUndefined()
+    expect(store.has('AAAA')).toBe(false)
+    expect(store.size).toBe(0)
+  })
+
+  it('should iterate over all sessions', () => {
+    const store = new MemorySessionStore()
+    store.save(createTestSession('AAAA'))
+    store.save(createTestSession('BBBB'))
+
+    const ids = Array.from(store.values()).map((s) => s.id)
+    expect(ids.sort()).toEqual(['AAAA', 'BBBB'])
+  })
+})
+
+describe('SqliteSessionStore', () => {
+  const dbPath = join(tmpdir(), `remote-inject-store-${process.pid}-${Date.now()}.db`)
+
+  afterEach(() => {
+    for (const suffix of ['', '-wal', '-shm']) {
+      rmSync(dbPath + suffix, { force: true })
+    }
+  })
+
+  it('should save and get sessions', () => {
+    const store = new SqliteSessionStore(':memory:')
+    const session = createTestSession('AAAA')
+
+    store.save(session)
+
+    expect(store.get('AAAA')).toBe(session)
+    expect(store.has('AAAA')).toBe(true)
+    expect(store.size).toBe(1)
+    store.close()
+  })
+
+  it('should report health until closed', () => {
+    const store = new SqliteSessionStore(':memory:')
+    expect(store.healthCheck()).toBeNull()
+
+    store.close()
+    expect(store.healthCheck()).not.toBeNull()
+  })
+
+  it('should persist sessions across instances', () => {
+    const metadata = { name: 'Test DApp', url: 'https://example.com', icon: 'https://example.com/icon.png' }
+    const first = new SqliteSessionStore(dbPath)
+    first.save(createTestSession('AAAA', { metadata, status: 'connected', expiresAt: 1234567890000 }))
+    first.close()
+
+    const second = new SqliteSessionStore(dbPath)
+    const restored = second.get('AAAA')
+
+    expect(restored).toBeDefined()
+    expect(restored?.secret).toBe('ABCDEFGHJKLMNPQR')
+    expect(restored?.metadata).toEqual(metadata)
+    // 连接没有持久化，恢复后不再是 connected
+    expect(restored?.status).toBe('disconnected')
+    expect(restored?.expiresAt).toBe(1234567890000)
+    expect(restored?.terminated).toBe(false)
+    second.close()
+  })
+
+  it('should persist updates to an existing session', () => {
+    const first = new SqliteSessionStore(dbPath)
+    const session = createTestSession('AAAA')
+    first.save(session)
+
+    session.terminated = true
+    session.status = 'disconnected'
+    first.save(session)
+    first.close()
+
+    const second = new SqliteSessionStore(dbPath)
+    expect(second.get('AAAA')?.terminated).toBe(true)
+    expect(second.get('AAAA')?.status).toBe('disconnected')
+    second.close()
+  })
+
+  it('should restore sessions without live connections', () => {
+    const first = new SqliteSessionStore(dbPath)
+    first.save(createTestSession('AAAA', {
+      status: 'connected',
+      mobiles: new Map([[1, { send() {}, close() {} } as any]]),
+      mobileNodes: new Map([[1, 'n1']]),
+      dappNodes: new Map([['tab-1', 'n1']]),
+    }))
+    first.close()
+
+    const second = new SqliteSessionStore(dbPath)
+    const restored = second.get('AAAA')
+
+    expect(restored?.status).toBe('disconnected')
+    expect(restored?.dapps.size).toBe(0)
+    expect(restored?.mobiles.size).toBe(0)
+    expect(restored?.mobileNodes.size).toBe(0)
+    expect(restored?.dappNodes.size).toBe(0)
+    second.close()
+
+    // 重置后的状态同样写回数据库
+    const db = new Database(dbPath)
+    expect((db.query('SELECT status FROM sessions WHERE id = ?').get('AAAA') as { status: string }).status).toBe('disconnected')
+    db.close()
+  })
+
+  it('should keep pending sessions pending', () => {
+    const first = new SqliteSessionStore(dbPath)
+    first.save(createTestSession('AAAA'))
+    first.close()
+
+    const second = new SqliteSessionStore(dbPath)
+    expect(second.get('AAAA')?.status).toBe('pending')
+    second.close()
+  })
+
+  it('should persist the session webhook URL', () => {
+    const first = new SqliteSessionStore(dbPath)
+    first.save(createTestSession('AAAA', { webhookUrl: 'https://hooks.example.com/ri' }))
+    first.save(createTestSession('BBBB'))
+    first.close()
+
+    const second = new SqliteSessionStore(dbPath)
+    expect(second.get('AAAA')?.webhookUrl).toBe('https://hooks.example.com/ri')
+    expect(second.get('BBBB')?.webhookUrl).toBeUndefined()
+    second.close()
+  })
+
+  it('should persist participant secrets', () => {
+    const first = new SqliteSessionStore(dbPath)
+    first.save(createTestSession('AAAA', { participantSecrets: ['ABCDEFGHJKLMNPQR', 'SECONDSECRET1234'] }))
+    first.save(createTestSession('BBBB'))
+    first.close()
+
+    const second = new SqliteSessionStore(dbPath)
+    expect(second.get('AAAA')?.participantSecrets).toEqual(['ABCDEFGHJKLMNPQR', 'SECONDSECRET1234'])
+    expect(second.get('BBBB')?.participantSecrets).toBeUndefined()
+    second.close()
+  })
+
+  it('should persist the session project', () => {
+    const first = new SqliteSessionStore(dbPath)
+    first.save(createTestSession('AAAA', { projectId: 'acme' }))
+    first.close()
+
+    const second = new SqliteSessionStore(dbPath)
+    expect(second.get('AAAA')?.projectId).toBe('acme')
+    second.close()
+  })
+
+  it('should persist the session ttl', () => {
+    const first = new SqliteSessionStore(dbPath)
+    first.save(createTestSession('AAAA', { ttl: 3600000 }))
+    first.save(createTestSession('BBBB'))
+    first.close()
+
+    const second = new SqliteSessionStore(dbPath)
+    expect(second.get('AAAA')?.ttl).toBe(3600000)
+    expect(second.get('BBBB')?.ttl).toBeUndefined()
+    second.close()
+  })
+
+  it('should persist the node responsible for expiry webhooks', () => {
+    const first = new SqliteSessionStore(dbPath)
+    first.save(createTestSession('AAAA', { ownerNode: 'node-2' }))
+    first.save(createTestSession('BBBB'))
+    first.close()
+
+    const second = new SqliteSessionStore(dbPath)
+    expect(second.get('AAAA')?.ownerNode).toBe('node-2')
+    expect(second.get('BBBB')?.ownerNode).toBeUndefined()
+    second.close()
+  })
+
+  it('should add new columns to databases created by older versions', () => {
+    const legacy = new Database(dbPath, { create: true })
+    legacy.run(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        secret TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        metadata TEXT,
+        terminated INTEGER NOT NULL DEFAULT 0
+      )
+    `)
+    legacy.run(`INSERT INTO sessions VALUES ('AAAA', 'ABCDEFGHJKLMNPQR', 1, ${Date.now() + 60000}, 'pending', NULL, 0)`)
+    legacy.close()
+
+    const store = new SqliteSessionStore(dbPath)
+    expect(store.get('AAAA')?.webhookUrl).toBeUndefined()
+    store.save(createTestSession('BBBB', { webhookUrl: 'https://hooks.example.com' }))
+    expect(store.get('BBBB')?.webhookUrl).toBe('https://hooks.example.com')
+    store.save(createTestSession('CCCC', { projectId: 'acme' }))
+    expect(store.get('CCCC')?.projectId).toBe('acme')
+    store.save(createTestSession('DDDD', { ttl: 60000 }))
+    expect(store.get('DDDD')?.ttl).toBe(60000)
+    store.save(createTestSession('EEEE', { ownerNode: 'node-1' }))
+    expect(store.get('EEEE')?.ownerNode).toBe('node-1')
+    store.close()
+  })
+
+  it('should delete persisted sessions', () => {
+    const first = new SqliteSessionStore(dbPath)
+    first.save(createTestSession('AAAA'))
+    first.delete('AAAA')
+    first.close()
+
+    const second = new SqliteSessionStore(dbPath)
+    expect(second.has('AAAA')).toBe(false)
+    expect(second.size).toBe(0)
+    second.close()
+  })
+})
+
+describe('createSessionStore', () => {
+  const originalStore = process.env.SESSION_STORE
+  const originalPath = process.env.SESSION_DB_PATH
+
+  afterEach(() => {
+    process.env.SESSION_STORE = originalStore
+    process.env.SESSION_DB_PATH = originalPath
+    if (originalStore === undefined) delete process.env.SESSION_STORE
+    if (originalPath === undefined) delete process.env.SESSION_DB_PATH
+  })
+
+  it('should default to memory store', () => {
+    delete process.env.SESSION_STORE
+    expect(createSessionStore()).toBeInstanceOf(MemorySessionStore)
+  })
+
+  it('should create sqlite store when configured', () => {
+    process.env.SESSION_STORE = 'sqlite'
+    process.env.SESSION_DB_PATH = ':memory:'
+
+    const store = createSessionStore()
+    expect(store).toBeInstanceOf(SqliteSessionStore)
+    ;(store as SqliteSessionStore).close()
+  })
+
+  it('should fall back to memory store for unknown types', () => {
+    process.env.SESSION_STORE = 'redis'
+    expect(createSessionStore()).toBeInstanceOf(MemorySessionStore)
+  })
+})
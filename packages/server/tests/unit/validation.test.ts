@@ -0,0 +1,266 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  validateMessage,
+  validateSchema,
+  ViolationCounter,
+  MESSAGE_SCHEMAS,
+  MAX_BATCH_SIZE,
+  ERROR_PARSE,
+  ERROR_INVALID_MESSAGE,
+  ERROR_MESSAGE_TOO_LARGE,
+  ERROR_MESSAGE_NOT_ALLOWED,
+} from '../../src/validation'
+
+const ADDRESS = '0x742d35Cc6634C0532925a3b844Bc9e7595f3a3a9'
+
+function expectInvalid(raw: unknown, role: 'dapp' | 'mobile', code: number) {
+  const result = validateMessage(raw, role)
+  expect(result.valid).toBe(false)
+  if (!result.valid) expect(result.code).toBe(code)
+  return result
+}
+
+describe('validateMessage', () => {
+  describe('valid messages', () => {
+    const cases: Array<[string, 'dapp' | 'mobile', Record<string, unknown>]> = [
+      ['connect', 'mobile', { type: 'connect', address: ADDRESS, chainId: 1 }],
+      ['request', 'dapp', { type: 'request', id: 1, method: 'eth_sendTransaction', params: [{ to: ADDRESS }] }],
+      ['request without params', 'dapp', { type: 'request', id: 2, method: 'eth_blockNumber' }],
+      ['response with result', 'mobile', { type: 'response', id: 1, result: '0xabc' }],
+      ['response with null result', 'mobile', { type: 'response', id: 1, result: null }],
+      ['response with error', 'mobile', { type: 'response', id: 1, error: { code: 4001, message: 'User rejected' } }],
+      ['response to a DApp connection', 'mobile', { type: 'response', id: 1, connection: 'tab-1', result: '0x1' }],
+      ['response with the signer address', 'mobile', { type: 'response', id: 1, address: ADDRESS, result: '0x1' }],
+      ['batch_request', 'dapp', { type: 'batch_request', id: 4, requests: [{ method: 'eth_blockNumber' }, { method: 'personal_sign', params: ['0x68', ADDRESS] }] }],
+      ['batch_response', 'mobile', { type: 'batch_response', id: 4, connection: 'tab-1', results: [{ result: '0x10' }, { error: { code: 4001, message: 'User rejected' } }] }],
+      ['request to a participant', 'dapp', { type: 'request', id: 1, method: 'eth_sign', participant: 2 }],
+      ['subscription', 'mobile', { type: 'subscription', subscription: '0x9ce5', result: { number: '0x1b4' }, connection: 'tab-1' }],
+      ['chainChanged', 'mobile', { type: 'chainChanged', chainId: 137 }],
+      ['accountsChanged', 'mobile', { type: 'accountsChanged', accounts: [ADDRESS] }],
+      ['empty accountsChanged', 'mobile', { type: 'accountsChanged', accounts: [] }],
+      ['disconnect from dapp', 'dapp', { type: 'disconnect', reason: 'User initiated' }],
+      ['disconnect from mobile', 'mobile', { type: 'disconnect' }],
+      ['accountSwitch', 'dapp', { type: 'accountSwitch', address: ADDRESS }],
+      ['key_exchange', 'mobile', { type: 'key_exchange', publicKey: 'BFx3_-abc' }],
+      ['encrypted', 'dapp', { type: 'encrypted', id: 3, iv: 'AAAA', data: 'BBBB' }],
+      ['pong', 'mobile', { type: 'pong' }],
+    ]
+
+    for (const [name, role, message] of cases) {
+      it(`should accept ${name}`, () => {
+        const result = validateMessage(message, role)
+        expect(result.valid).toBe(true)
+      })
+    }
+
+    it('should return the message and the text to relay', () => {
+      const text = JSON.stringify({ type: 'chainChanged', chainId: 10 })
+      const result = validateMessage(text, 'mobile')
+
+      expect(result).toEqual({ valid: true, message: { type: 'chainChanged', chainId: 10 }, data: text })
+    })
+
+    it('should serialize frames already parsed by the framework', () => {
+      const result = validateMessage({ type: 'chainChanged', chainId: 10 }, 'mobile')
+      expect(result.valid && result.data).toBe('{"type":"chainChanged","chainId":10}')
+    })
+  })
+
+  describe('frame checks', () => {
+    it('should reject non-JSON text', () => {
+      expectInvalid('hello', 'dapp', ERROR_PARSE)
+      expectInvalid('{not json', 'dapp', ERROR_PARSE)
+    })
+
+    it('should reject binary frames', () => {
+      expectInvalid(Buffer.from('{"type":"pong"}'), 'dapp', ERROR_PARSE)
+      expectInvalid(new Uint8Array([1, 2, 3]), 'dapp', ERROR_PARSE)
+    })
+
+    it('should reject JSON that is not an object with a type', () => {
+      expectInvalid(42, 'dapp', ERROR_INVALID_MESSAGE)
+      expectInvalid(null, 'dapp', ERROR_INVALID_MESSAGE)
+      expectInvalid([{ type: 'request' }], 'dapp', ERROR_INVALID_MESSAGE)
+      expectInvalid({ id: 1 }, 'dapp', ERROR_INVALID_MESSAGE)
+    })
+
+    it('should reject frames larger than the limit', () => {
+      const message = { type: 'request', id: 1, method: 'eth_sendTransaction', params: [{ data: '0x' + 'ab'.repeat(100) }] }
+      expect(validateMessage(message, 'dapp', 1000).valid).toBe(true)
+
+      const result = validateMessage(message, 'dapp', 100)
+      expect(result.valid).toBe(false)
+      if (!result.valid) expect(result.code).toBe(ERROR_MESSAGE_TOO_LARGE)
+    })
+
+    it('should measure size in bytes', () => {
+      const message = JSON.stringify({ type: 'disconnect', reason: '断'.repeat(30) })
+      // 30 个中文字符为 90 字节
+      expect(message.length).toBeLessThan(100)
+      expect(validateMessage(message, 'dapp', 100).valid).toBe(false)
+    })
+  })
+
+  describe('type and role checks', () => {
+    it('should reject unknown types', () => {
+      const result = expectInvalid({ type: 'eval', id: 5 }, 'dapp', ERROR_INVALID_MESSAGE)
+      expect(!result.valid && result.id).toBe(5)
+    })
+
+    it('should reject server-only types', () => {
+      for (const type of ['ready', 'queued', 'error', 'ping', 'dapp_reconnected']) {
+        expectInvalid({ type }, 'dapp', ERROR_INVALID_MESSAGE)
+      }
+    })
+
+    it('should reject responses sent by the DApp', () => {
+      const result = expectInvalid({ type: 'response', id: 1, result: '0x' }, 'dapp', ERROR_MESSAGE_NOT_ALLOWED)
+      expect(!result.valid && result.id).toBe(1)
+    })
+
+    it('should reject requests sent by the mobile', () => {
+      expectInvalid({ type: 'request', id: 1, method: 'eth_sign' }, 'mobile', ERROR_MESSAGE_NOT_ALLOWED)
+    })
+
+    it('should reject wallet events sent by the DApp', () => {
+      expectInvalid({ type: 'connect', address: ADDRESS, chainId: 1 }, 'dapp', ERROR_MESSAGE_NOT_ALLOWED)
+      expectInvalid({ type: 'chainChanged', chainId: 1 }, 'dapp', ERROR_MESSAGE_NOT_ALLOWED)
+      expectInvalid({ type: 'accountsChanged', accounts: [] }, 'dapp', ERROR_MESSAGE_NOT_ALLOWED)
+      expectInvalid({ type: 'key_exchange', publicKey: 'abc' }, 'dapp', ERROR_MESSAGE_NOT_ALLOWED)
+      expectInvalid({ type: 'subscription', subscription: '0x1', result: {} }, 'dapp', ERROR_MESSAGE_NOT_ALLOWED)
+    })
+  })
+
+  describe('field checks', () => {
+    it('should reject requests without a valid id', () => {
+      expectInvalid({ type: 'request', method: 'eth_sign' }, 'dapp', ERROR_INVALID_MESSAGE)
+      expectInvalid({ type: 'request', id: '1', method: 'eth_sign' }, 'dapp', ERROR_INVALID_MESSAGE)
+      expectInvalid({ type: 'request', id: 1.5, method: 'eth_sign' }, 'dapp', ERROR_INVALID_MESSAGE)
+    })
+
+    it('should reject requests with invalid methods or params', () => {
+      expectInvalid({ type: 'request', id: 1 }, 'dapp', ERROR_INVALID_MESSAGE)
+      expectInvalid({ type: 'request', id: 1, method: 'eth sign' }, 'dapp', ERROR_INVALID_MESSAGE)
+      expectInvalid({ type: 'request', id: 1, method: 'eth_sign', params: 'x' }, 'dapp', ERROR_INVALID_MESSAGE)
+    })
+
+    it('should reject responses with both result and error', () => {
+      const result = expectInvalid(
+        { type: 'response', id: 1, result: '0x', error: { code: 1, message: 'x' } },
+        'mobile',
+        ERROR_INVALID_MESSAGE
+      )
+      expect(!result.valid && result.error).toContain('both result and error')
+    })
+
+    it('should reject malformed response errors', () => {
+      expectInvalid({ type: 'response', id: 1, error: { message: 'x' } }, 'mobile', ERROR_INVALID_MESSAGE)
+      expectInvalid({ type: 'response', id: 1, error: { code: 'ACTION_REJECTED', message: 'x' } }, 'mobile', ERROR_INVALID_MESSAGE)
+    })
+
+    it('should reject invalid addresses and chain ids', () => {
+      expectInvalid({ type: 'connect', address: '0x123', chainId: 1 }, 'mobile', ERROR_INVALID_MESSAGE)
+      expectInvalid({ type: 'connect', address: ADDRESS, chainId: '0x1' }, 'mobile', ERROR_INVALID_MESSAGE)
+      expectInvalid({ type: 'chainChanged', chainId: 0 }, 'mobile', ERROR_INVALID_MESSAGE)
+      expectInvalid({ type: 'accountsChanged', accounts: [ADDRESS, 'nope'] }, 'mobile', ERROR_INVALID_MESSAGE)
+    })
+
+    it('should reject subscription notifications without an ID or result', () => {
+      expectInvalid({ type: 'subscription', result: {} }, 'mobile', ERROR_INVALID_MESSAGE)
+      expectInvalid({ type: 'subscription', subscription: 1, result: {} }, 'mobile', ERROR_INVALID_MESSAGE)
+      expectInvalid({ type: 'subscription', subscription: '0x1' }, 'mobile', ERROR_INVALID_MESSAGE)
+    })
+
+    it('should reject empty, oversized or malformed batches', () => {
+      const requests = Array.from({ length: MAX_BATCH_SIZE + 1 }, () => ({ method: 'eth_blockNumber' }))
+      expectInvalid({ type: 'batch_request', id: 1, requests: [] }, 'dapp', ERROR_INVALID_MESSAGE)
+      expectInvalid({ type: 'batch_request', id: 1, requests }, 'dapp', ERROR_INVALID_MESSAGE)
+      expectInvalid({ type: 'batch_request', id: 1, requests: [{ method: 'eth sign' }] }, 'dapp', ERROR_INVALID_MESSAGE)
+      expectInvalid({ type: 'batch_request', requests: [{ method: 'eth_sign' }] }, 'dapp', ERROR_INVALID_MESSAGE)
+      expectInvalid({ type: 'batch_response', id: 1, results: [{ result: '0x', error: { code: 1, message: 'x' } }] }, 'mobile', ERROR_INVALID_MESSAGE)
+      expectInvalid({ type: 'batch_response', id: 1, results: [{ error: { message: 'x' } }] }, 'mobile', ERROR_INVALID_MESSAGE)
+      expectInvalid({ type: 'batch_request', id: 1, requests: [{ method: 'eth_sign' }] }, 'mobile', ERROR_MESSAGE_NOT_ALLOWED)
+    })
+
+    it('should describe the offending field', () => {
+      const result = validateMessage({ type: 'accountsChanged', accounts: [ADDRESS, 'nope'] }, 'mobile')
+      expect(!result.valid && result.error).toBe('Invalid accountsChanged message: accountsChanged.accounts[1] has an invalid format')
+    })
+
+    it('should reject encrypted envelopes with non-base64url payloads', () => {
+      expectInvalid({ type: 'encrypted', iv: 'AAAA', data: '<script>' }, 'dapp', ERROR_INVALID_MESSAGE)
+    })
+
+    it('should reject malformed DApp connection ids', () => {
+      expectInvalid({ type: 'response', id: 1, connection: 'a b', result: '0x1' }, 'mobile', ERROR_INVALID_MESSAGE)
+      expectInvalid({ type: 'encrypted', iv: 'AAAA', data: 'BBBB', connection: 1 }, 'mobile', ERROR_INVALID_MESSAGE)
+    })
+
+    it('should reject invalid participant numbers', () => {
+      expectInvalid({ type: 'request', id: 1, method: 'eth_sign', participant: 0 }, 'dapp', ERROR_INVALID_MESSAGE)
+      expectInvalid({ type: 'request', id: 1, method: 'eth_sign', participant: '2' }, 'dapp', ERROR_INVALID_MESSAGE)
+      expectInvalid({ type: 'response', id: 1, address: '0x1', result: '0x1' }, 'mobile', ERROR_INVALID_MESSAGE)
+    })
+  })
+
+  it('should define a schema for every relayed protocol message', () => {
+    for (const type of ['connect', 'request', 'response', 'subscription', 'chainChanged', 'accountsChanged', 'disconnect', 'accountSwitch']) {
+      expect(MESSAGE_SCHEMAS[type]).toBeDefined()
+    }
+  })
+})
+
+describe('validateSchema', () => {
+  it('should support union types', () => {
+    expect(validateSchema({ type: ['array', 'object'] }, [], 'v')).toBeNull()
+    expect(validateSchema({ type: ['array', 'object'] }, {}, 'v')).toBeNull()
+    expect(validateSchema({ type: ['array', 'object'] }, 'x', 'v')).toBe('v must be array or object')
+  })
+
+  it('should reject non-finite numbers', () => {
+    expect(validateSchema({ type: 'number' }, NaN, 'v')).toBe('v must be number')
+  })
+
+  it('should check array lengths', () => {
+    expect(validateSchema({ type: 'array', minItems: 1, maxItems: 2 }, [1], 'v')).toBeNull()
+    expect(validateSchema({ type: 'array', minItems: 1 }, [], 'v')).toBe('v must have at least 1 items')
+    expect(validateSchema({ type: 'array', maxItems: 2 }, [1, 2, 3], 'v')).toBe('v must have at most 2 items')
+  })
+})
+
+describe('ViolationCounter', () => {
+  it('should count violations per session and code', () => {
+    const counter = new ViolationCounter()
+
+    expect(counter.record('AAAA', ERROR_PARSE)).toBe(1)
+    expect(counter.record('AAAA', ERROR_PARSE)).toBe(2)
+    expect(counter.record('AAAA', ERROR_MESSAGE_NOT_ALLOWED)).toBe(3)
+    counter.record('BBBB', ERROR_INVALID_MESSAGE)
+
+    expect(counter.count('AAAA')).toBe(3)
+    expect(counter.byCode('AAAA')).toEqual({ '-32700': 2, '-32007': 1 })
+    expect(counter.total()).toBe(4)
+  })
+
+  it('should clear a session', () => {
+    const counter = new ViolationCounter()
+    counter.record('AAAA', ERROR_PARSE)
+
+    counter.clear('AAAA')
+
+    expect(counter.count('AAAA')).toBe(0)
+    expect(counter.byCode('AAAA')).toEqual({})
+  })
+
+  it('should keep the total after sessions are cleared', () => {
+    const counter = new ViolationCounter()
+    counter.record('AAAA', ERROR_PARSE)
+    counter.record('BBBB', ERROR_PARSE)
+
+    counter.clear('AAAA')
+    expect(counter.total()).toBe(2)
+
+    counter.record('BBBB', ERROR_INVALID_MESSAGE)
+    expect(counter.total()).toBe(3)
+  })
+})